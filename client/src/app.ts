@@ -34,7 +34,7 @@ import { applyPassiveEventsPatch } from './utils/passive-events.js';
 // CONSTANTS
 // ============================================================================
 
-const MAX_CONTENT_CHARACTERS = 1048576;
+const MAX_CONTENT_CHARACTERS = 10485760;
 
 // ============================================================================
 // APPLICATION INITIALIZATION
@@ -5,8 +5,10 @@
  * These DTOs represent the input/output contracts for use cases.
  */
 
-import type { PasteMetadata } from '../../core/models/paste.js';
+import type { PasteAttachment, PasteDocument, PasteMetadata, PowProgress } from '../../core/models/paste.js';
 import type { DecryptedChatMessage } from '../../core/services/encryption-service.js';
+import type { PasswordKdfAlgorithm } from '../../core/crypto/envelope.js';
+import type { PaddingParams } from '../../core/crypto/padding.js';
 
 /**
  * Command to create a paste
@@ -16,8 +18,72 @@ export interface CreatePasteCommand {
   expirationMinutes: number;
   password: string;
   allowChat?: boolean;
+  /** Password key derivation function (defaults to PBKDF2) */
+  kdf?: PasswordKdfAlgorithm;
+  /** Encrypt with a random key carried in the share link instead of a password */
+  linkKey?: boolean;
+  /** Require both the password and a random secret carried in the share link */
+  twoFactor?: boolean;
+  /** Further passwords that also open the paste, each in its own key slot */
+  additionalPasswords?: string[];
+  /** Encrypt for these base64url-encoded recipient public keys instead of a password */
+  recipients?: string[];
+  /** Length-hiding padding of the content (defaults to power-of-two buckets) */
+  padding?: PaddingParams;
+  /** Compress the content before encryption (defaults to true) */
+  compress?: boolean;
+  /** Title, encrypted with the content */
+  title?: string;
+  /** Filename, encrypted with the content */
+  filename?: string;
+  /** Language for syntax highlighting, encrypted with the content (absent for markdown) */
+  language?: string;
+  /** Files, encrypted with the content */
+  attachments?: PasteAttachment[];
+  /** Number of views before the server deletes the paste (absent for unlimited) */
+  maxViews?: number;
+  /** Make the share link wait for a click before fetching the paste */
+  clickToReveal?: boolean;
 }
 
+/**
+ * Stage of opening a paste, reported to the UI
+ */
+export type PasteProgressStage = 'downloading' | 'decrypting';
+
+/**
+ * Called as a paste is opened, with the current stage and the fraction of
+ * that stage done (0 to 1)
+ */
+export type PasteProgressCallback = (stage: PasteProgressStage, fraction: number) => void;
+
+/**
+ * Stage of creating a paste, in the order they start
+ *
+ * Encrypting (which also derives the delete authorization) and solving
+ * proof of work run at the same time.
+ */
+export type CreatePasteStage = 'validating' | 'encrypting' | 'solving' | 'uploading';
+
+/**
+ * Event reported as a paste is created
+ *
+ * Each stage that runs reports 'started', then any 'progress' with the
+ * fraction of it done (0 to 1), then 'completed'. While solving proof of
+ * work, the fraction is the share of the expected hashes tried, and the
+ * search progress is passed as well. A stage that fails or is aborted does
+ * not complete.
+ */
+export type CreatePasteEvent =
+  | { kind: 'started'; stage: CreatePasteStage }
+  | { kind: 'progress'; stage: CreatePasteStage; fraction: number; pow?: PowProgress }
+  | { kind: 'completed'; stage: CreatePasteStage };
+
+/**
+ * Called with each event of a paste creation
+ */
+export type CreatePasteEventCallback = (event: CreatePasteEvent) => void;
+
 /**
  * Result of creating a paste
  */
@@ -33,18 +99,90 @@ export interface PasteCreated {
  */
 export interface ViewPasteCommand {
   pasteId: string;
+  /** First URL fragment field: the salt, or the content key for link-key pastes */
   salt: string;
   iv: string;
   password: string;
+  /** Third URL fragment field: the link secret of two-factor pastes */
+  linkSecret?: string;
 }
 
 /**
  * Result of viewing a paste
  */
 export interface PasteViewResult {
-  content: string;
+  /** Decrypted content with its title, filename and language */
+  document: PasteDocument;
   metadata: PasteMetadata;
   deleteAuth: string;
+  /** Chat key derived alongside the content key */
+  chatKey: CryptoKey;
+  /** Base64url-encoded key slots as returned by the server (key-slot pastes only) */
+  keySlots?: string;
+  /** Extractable content key for adding key slots (key-slot pastes only) */
+  slotKey?: CryptoKey;
+  /** Views left after this one (view-limited pastes only; 0 means the paste was deleted) */
+  viewsRemaining?: number;
+}
+
+/**
+ * Why a paste could not be opened
+ *
+ * - wrong-password: the password did not open the paste
+ * - corrupted: the paste was altered or damaged after it was created
+ * - unsupported: the paste uses a format this client cannot read
+ * - incomplete-link: the link is missing key material or has the wrong key
+ * - missing-key: this browser has no recipient key the paste was encrypted for
+ * - password-required: the password prompt was dismissed
+ * - crypto-failed: keys could not be derived or the paste could not be
+ *   decrypted in this browser, for a reason other than a wrong key
+ * - unavailable: the paste could not be fetched
+ */
+export type PasteViewErrorKind =
+  | 'wrong-password'
+  | 'corrupted'
+  | 'unsupported'
+  | 'incomplete-link'
+  | 'missing-key'
+  | 'password-required'
+  | 'crypto-failed'
+  | 'unavailable';
+
+/**
+ * Failure to view a paste
+ */
+export interface PasteViewError {
+  kind: PasteViewErrorKind;
+  message: string;
+}
+
+/**
+ * Command to add a password to a key-slot paste
+ */
+export interface AddKeySlotCommand {
+  pasteId: string;
+  deleteToken: string;
+  /** Current base64url-encoded key slots */
+  keySlots: string;
+  /** Slot key from viewing the paste */
+  slotKey: CryptoKey;
+  /** Base64url-encoded salt from the URL fragment */
+  salt: string;
+  password: string;
+  /** Key derivation function for the new password (defaults to PBKDF2) */
+  kdf?: PasswordKdfAlgorithm;
+}
+
+/**
+ * Command to remove a password from a key-slot paste
+ */
+export interface RemoveKeySlotCommand {
+  pasteId: string;
+  deleteToken: string;
+  /** Current base64url-encoded key slots */
+  keySlots: string;
+  /** Index of the slot to remove */
+  index: number;
 }
 
 /**
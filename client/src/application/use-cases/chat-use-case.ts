@@ -29,6 +29,27 @@ export class ChatUseCase {
     pasteId: string,
     password: string,
     salt: Uint8Array
+  ): Promise<{ messages: DecryptedChatMessage[] }> {
+    // Derive key from password
+    const key = await this.encryptionService.deriveKeyFromPassword(password, salt);
+
+    if (!key) {
+      throw new Error('Encryption key is required to decrypt messages');
+    }
+
+    return this.refreshMessagesWithKey(pasteId, key);
+  }
+
+  /**
+   * Refresh chat messages using a pre-derived chat key
+   * 
+   * @param pasteId Paste ID
+   * @param key Chat key (e.g. from the paste view)
+   * @returns Promise resolving to decrypted messages
+   */
+  async refreshMessagesWithKey(
+    pasteId: string,
+    key: CryptoKey
   ): Promise<{ messages: DecryptedChatMessage[] }> {
     // Fetch encrypted messages from server
     const response = await fetch(`/api/pastes/${pasteId}/messages`);
@@ -46,13 +67,6 @@ export class ChatUseCase {
       return { messages: [] };
     }
 
-    // Derive key from password
-    const key = await this.encryptionService.deriveKeyFromPassword(password, salt);
-
-    if (!key) {
-      throw new Error('Encryption key is required to decrypt messages');
-    }
-
     // Decrypt all messages
     const decryptedMessages: DecryptedChatMessage[] = [];
 
@@ -86,28 +100,64 @@ export class ChatUseCase {
     command: SendChatMessageCommand,
     salt: Uint8Array
   ): Promise<{ success: boolean; error?: string }> {
-    // Client-side validation: 1000 character limit
-    if (command.message.length > 1000) {
-      return { success: false, error: 'Message too long (max 1000 characters)' };
+    let key: CryptoKey;
+    try {
+      key = await this.deriveChatKey(command.password, salt);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to derive key' };
     }
 
-    // Derive key from password
-    const key = await this.encryptionService.deriveKeyFromPassword(command.password, salt);
+    return this.sendMessageWithKey(command.pasteId, command.message, command.username, key);
+  }
+
+  /**
+   * Derive the chat key of a password paste
+   * 
+   * @param password Paste password
+   * @param salt Salt from paste
+   * @returns Promise resolving to the chat key
+   * @throws Error if no key can be derived
+   */
+  async deriveChatKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+    const key = await this.encryptionService.deriveKeyFromPassword(password, salt);
 
     if (!key) {
-      return { success: false, error: 'Encryption key is required to encrypt message' };
+      throw new Error('Encryption key is required to encrypt message');
+    }
+
+    return key;
+  }
+
+  /**
+   * Send a chat message using a pre-derived chat key
+   * 
+   * @param pasteId Paste ID
+   * @param message Plaintext message
+   * @param username Display name sent with the message
+   * @param key Chat key (e.g. from the paste view)
+   * @returns Promise resolving to success or error
+   */
+  async sendMessageWithKey(
+    pasteId: string,
+    message: string,
+    username: string,
+    key: CryptoKey
+  ): Promise<{ success: boolean; error?: string }> {
+    // Client-side validation: 1000 character limit
+    if (message.length > 1000) {
+      return { success: false, error: 'Message too long (max 1000 characters)' };
     }
 
     try {
       // Encrypt message
       const { encryptedData, iv } = await this.encryptionService.encryptChatMessage(
-        command.message,
+        message,
         key,
-        command.username
+        username
       );
 
       // Send to server
-      const response = await fetch(`/api/pastes/${command.pasteId}/messages`, {
+      const response = await fetch(`/api/pastes/${pasteId}/messages`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -2,105 +2,233 @@
  * Create Paste Use Case
  * 
  * Orchestrates the paste creation workflow:
- * 1. Validate input
- * 2. Encrypt content
- * 3. Solve PoW (if required)
+ * 1. Encode content with its details and attached files, and compress it
+ *    (unless disabled)
+ * 2. Validate input against the size limit published by the server
+ * 3. Encrypt content and derive delete authorization, while solving PoW
+ *    (if required) or taking the solution pre-solved while editing
  * 4. Submit to API
  * 5. Build URLs
+ *
+ * Each stage is reported as it starts, advances and completes, and the
+ * whole workflow can be aborted with an AbortSignal. Encryption, key
+ * derivation included, goes through an IPasteCrypto, which can run it in
+ * a Web Worker so the page stays responsive while Argon2id or PBKDF2 works.
  */
 
 import type { IApiClient } from '../../infrastructure/api/interfaces.js';
 import type { IPowSolver } from '../../infrastructure/pow/interfaces.js';
+import type { PowPresolver } from '../../infrastructure/pow/presolver.js';
+import type { IPasteCrypto } from '../../infrastructure/crypto/interfaces.js';
 import { EncryptionService } from '../../core/services/encryption-service.js';
 import { PasteService } from '../../core/services/paste-service.js';
-import type { CreatePasteCommand, PasteCreated } from '../dtos/paste-dtos.js';
+import { MAX_CONTENT_SIZE, validateAttachments, validatePasteDetails } from '../../core/validators/index.js';
+import { DEFAULT_PADDING } from '../../core/crypto/padding.js';
+import type { PaddingParams } from '../../core/crypto/padding.js';
+import type {
+  EncodedContent,
+  EncryptedPaste,
+  PasteDocument,
+  PasteLimits,
+  PasteMetadata,
+  PowProgressCallback,
+  PowSolution
+} from '../../core/models/paste.js';
+import type { CreatePasteCommand, CreatePasteEventCallback, PasteCreated } from '../dtos/paste-dtos.js';
 import type { Result } from '../../core/models/result.js';
 import { success, failure, isFailure } from '../../core/models/result.js';
 import { getSafeErrorMessage } from '../../security.js';
 
+/**
+ * Error returned when a paste creation is aborted
+ */
+const CANCELLED_MESSAGE = 'Paste creation cancelled.';
+
+/**
+ * Promise that rejects once the signal is aborted, and never settles without one
+ *
+ * @returns The promise, and a function that stops listening to the signal
+ */
+function whenAborted(signal?: AbortSignal): { aborted: Promise<never>; dispose: () => void } {
+  let abort = (): void => {};
+  const aborted = new Promise<never>((_, reject) => {
+    abort = () => reject(new Error('Paste creation cancelled'));
+  });
+  if (signal?.aborted) {
+    abort();
+  }
+  signal?.addEventListener('abort', abort, { once: true });
+  return { aborted, dispose: () => signal?.removeEventListener('abort', abort) };
+}
+
 /**
  * Use case for creating a paste
  */
 export class CreatePasteUseCase {
+  /** Limits published by the server, fetched once */
+  private limits: Promise<PasteLimits | null> | null = null;
+
   constructor(
     private apiClient: IApiClient,
     private powSolver: IPowSolver,
     private encryptionService: EncryptionService,
-    private pasteService: PasteService
+    private pasteService: PasteService,
+    private powPresolver?: PowPresolver,
+    private pasteCrypto: IPasteCrypto = encryptionService
   ) {}
 
+  /**
+   * Start solving proof of work for the next paste in the background
+   *
+   * Called once the creator starts writing; execute then uses the solution
+   * instead of solving after encryption. Does nothing without a pre-solver.
+   */
+  prepareProofOfWork(): void {
+    this.powPresolver?.start();
+  }
+
   /**
    * Execute paste creation workflow
    * 
+   * Encryption and proof of work run at the same time. Aborting the signal
+   * stops proof of work and the upload; encryption already under way
+   * finishes, but nothing is uploaded.
+   * 
    * @param command Create paste command
+   * @param onEvent Optional callback with the start, progress and completion of each stage
+   * @param signal Optional signal that cancels the paste creation
    * @returns Result containing paste creation data or error
    */
-  async execute(command: CreatePasteCommand): Promise<Result<PasteCreated, string>> {
-    // 1. Validate input
+  async execute(
+    command: CreatePasteCommand,
+    onEvent?: CreatePasteEventCallback,
+    signal?: AbortSignal
+  ): Promise<Result<PasteCreated, string>> {
+    const emit: CreatePasteEventCallback = onEvent ?? (() => {});
+    const recipients = command.recipients ?? [];
+    const additionalPasswords = command.additionalPasswords ?? [];
+    const attachments = command.attachments ?? [];
+
+    emit({ kind: 'started', stage: 'validating' });
+    const attachmentValidation = validateAttachments(attachments);
+    if (!attachmentValidation.isValid) {
+      return failure(attachmentValidation.errors.join('. '));
+    }
+
+    // 1. Encode content with its details and files, and compress it; the
+    // size limit applies to what is uploaded
+    const content = await this.encryptionService.encodeContent({
+      title: command.title?.trim(),
+      filename: command.filename?.trim(),
+      language: command.language,
+      body: command.content,
+      createdAt: Date.now(),
+      attachments
+    }, command.compress ?? true);
+
+    // 2. Validate input
+    const limits = await this.getLimits();
     const validation = this.pasteService.validatePasteCreation(
       command.content,
       command.expirationMinutes,
-      command.password
+      command.password,
+      !command.linkKey && recipients.length === 0,
+      recipients,
+      additionalPasswords,
+      this.payloadSize(content, command.padding ?? DEFAULT_PADDING, limits),
+      limits?.maxSizeBytes,
+      attachments.length > 0,
+      command.maxViews
     );
 
     if (isFailure(validation)) {
       return failure(validation.error.join('. '));
     }
+    const details = validatePasteDetails(command.title?.trim(), command.filename?.trim(), command.language);
+    if (!details.isValid) {
+      return failure(details.errors.join('. '));
+    }
+    if (command.twoFactor && additionalPasswords.length > 0) {
+      return failure('Two-factor pastes can only have one password');
+    }
+    emit({ kind: 'completed', stage: 'validating' });
 
-    try {
-      // 2. Calculate expiration timestamp
-      const expireTs = this.pasteService.calculateExpirationTimestamp(command.expirationMinutes);
-
-      // 3. Encrypt content
-      const encrypted = await this.encryptionService.encryptPaste(
-        command.content,
-        command.password
-      );
+    if (signal?.aborted) {
+      return failure(CANCELLED_MESSAGE);
+    }
+    // Aborting stops proof of work; the upload is given the signal itself
+    const cancelPow = (): void => this.powSolver.cancel();
+    signal?.addEventListener('abort', cancelPow);
 
-      // 4. Derive delete authorization
-      // Decode the base64url salt to get the original salt bytes
-      const { decodeBase64Url } = await import('../../core/crypto/encoding.js');
-      const saltArray = new Uint8Array(decodeBase64Url(encrypted.keyB64));
-      const deleteAuth = await this.encryptionService.deriveDeleteAuth(
-        command.password,
-        saltArray
-      );
+    try {
+      // 3. Build metadata (authenticated by the ciphertext, so it is fixed before encrypting)
+      const meta: PasteMetadata = {
+        expireTs: this.pasteService.calculateExpirationTimestamp(command.expirationMinutes),
+        // The same for every paste: the language is in the encrypted document
+        mime: 'text/plain',
+        allowChat: command.allowChat ?? true
+      };
+      // Enforced by the server; authenticating it means a server cannot hide
+      // or change the limit the viewer is shown
+      if (command.maxViews !== undefined) {
+        meta.maxViews = command.maxViews;
+      }
 
-      // 5. Solve PoW challenge (if required)
-      let pow = null;
+      // 4. Encrypt content (also deriving delete authorization) while solving PoW (if required)
+      const solving = this.solveStage(emit, signal);
+      let encrypted: EncryptedPaste;
       try {
-        const challenge = await this.apiClient.getPowChallenge();
-        if (challenge) {
-          pow = await this.powSolver.solve(challenge);
-        }
+        encrypted = await this.encrypt(command, content, meta, emit);
       } catch (error) {
-        // If PoW is required by server, we must fail
-        const errorMsg = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-        if (errorMsg.includes('pow_required') || errorMsg.includes('pow_invalid')) {
-          return failure('Proof of work verification failed. Please try again.');
-        }
-        // PoW is optional, continue without it
-        console.warn('PoW challenge failed:', error);
+        // Nothing will be uploaded, so stop solving
+        this.powSolver.cancel();
+        throw error;
+      }
+      const pow = await solving;
+      if (isFailure(pow)) {
+        return failure(pow.error);
+      }
+      if (signal?.aborted) {
+        return failure(CANCELLED_MESSAGE);
       }
 
-      // 6. Submit to API
-      const response = await this.apiClient.createPaste({
+      // 5. Submit to API
+      emit({ kind: 'started', stage: 'uploading' });
+      const request = {
         ct: encrypted.ctB64,
         iv: encrypted.ivB64,
-        meta: {
-          expireTs,
-          mime: 'text/plain',
-          allowChat: command.allowChat ?? true
-        },
-        pow,
-        deleteAuth
-      });
+        meta,
+        pow: pow.value,
+        deleteAuth: encrypted.deleteAuth,
+        keySlots: encrypted.keySlotsB64
+      };
+      const onUploadProgress = (fraction: number): void => emit({ kind: 'progress', stage: 'uploading', fraction });
+      let response;
+      try {
+        response = await this.apiClient.createPaste(request, onUploadProgress, signal);
+      } catch (error) {
+        // A pre-solved challenge can be gone from the server by the time it
+        // is used (e.g. after a restart): discard it and solve a fresh one once
+        const rejected = error instanceof Error && error.message.includes('pow_invalid');
+        if (!this.powPresolver || !request.pow || !rejected) {
+          throw error;
+        }
+        const retry = await this.solveStage(emit, signal);
+        if (isFailure(retry)) {
+          return failure(retry.error);
+        }
+        request.pow = retry.value;
+        response = await this.apiClient.createPaste(request, onUploadProgress, signal);
+      }
+      emit({ kind: 'completed', stage: 'uploading' });
 
-      // 7. Build URLs
+      // 6. Build URLs
       const shareUrl = this.pasteService.buildShareUrl(
         response.id,
         encrypted.keyB64,
-        encrypted.ivB64
+        encrypted.ivB64,
+        encrypted.linkSecretB64,
+        command.clickToReveal ?? false
       );
       const deleteUrl = this.pasteService.buildDeleteUrl(
         response.id,
@@ -114,7 +242,165 @@ export class CreatePasteUseCase {
         deleteUrl
       });
     } catch (error) {
+      if (signal?.aborted) {
+        return failure(CANCELLED_MESSAGE);
+      }
       return failure(getSafeErrorMessage(error, 'paste creation'));
+    } finally {
+      signal?.removeEventListener('abort', cancelPow);
     }
   }
+
+  /**
+   * Encrypt the content for the command's kind of paste
+   * 
+   * @returns Promise resolving to the ciphertext, key material for the URL and delete authorization
+   */
+  private encrypt(
+    command: CreatePasteCommand,
+    content: EncodedContent,
+    meta: PasteMetadata,
+    emit: CreatePasteEventCallback
+  ): Promise<EncryptedPaste> {
+    const recipients = command.recipients ?? [];
+    const additionalPasswords = command.additionalPasswords ?? [];
+    emit({ kind: 'started', stage: 'encrypting' });
+    const onProgress = (fraction: number): void => emit({ kind: 'progress', stage: 'encrypting', fraction });
+
+    const encrypting = recipients.length > 0
+      ? this.pasteCrypto.encryptPasteForRecipients(content, meta, recipients, command.padding, onProgress)
+      : command.linkKey
+      ? this.pasteCrypto.encryptPasteWithLinkKey(content, meta, command.padding, onProgress)
+      : additionalPasswords.length > 0
+      ? this.pasteCrypto.encryptPasteWithKeySlots(
+        content,
+        meta,
+        [command.password, ...additionalPasswords],
+        command.kdf,
+        command.padding,
+        onProgress
+      )
+      : this.pasteCrypto.encryptPaste(
+        content,
+        meta,
+        command.password,
+        command.kdf,
+        command.twoFactor ?? false,
+        command.padding,
+        onProgress
+      );
+    return encrypting.then(encrypted => {
+      emit({ kind: 'completed', stage: 'encrypting' });
+      return encrypted;
+    });
+  }
+
+  /**
+   * Solve proof of work for one paste, reporting the solving stage
+   * 
+   * An abort while the challenge is being fetched comes before the solver
+   * has anything to cancel, so the stage also ends on the signal itself.
+   * 
+   * @returns Promise resolving to the solution, or to null when the server
+   *   does not require PoW or no challenge could be had; a failure if
+   *   solving was cancelled or the server rejected the attempt
+   */
+  private async solveStage(
+    emit: CreatePasteEventCallback,
+    signal?: AbortSignal
+  ): Promise<Result<PowSolution | null, string>> {
+    emit({ kind: 'started', stage: 'solving' });
+    const cancelled = whenAborted(signal);
+    try {
+      const pow = await Promise.race([
+        this.solveProofOfWork(progress => emit({
+          kind: 'progress',
+          stage: 'solving',
+          fraction: Math.min(progress.hashes / progress.expectedHashes, 1),
+          pow: progress
+        })),
+        cancelled.aborted
+      ]);
+      emit({ kind: 'completed', stage: 'solving' });
+      return success(pow);
+    } catch (error) {
+      // If PoW is required by server, we must fail
+      const errorMsg = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
+      if (errorMsg.includes('cancelled')) {
+        return failure(CANCELLED_MESSAGE);
+      }
+      if (errorMsg.includes('pow_required') || errorMsg.includes('pow_invalid')) {
+        return failure('Proof of work verification failed. Please try again.');
+      }
+      // PoW is optional, continue without it
+      console.warn('PoW challenge failed:', error);
+      emit({ kind: 'completed', stage: 'solving' });
+      return success(null);
+    } finally {
+      cancelled.dispose();
+    }
+  }
+
+  /**
+   * Solve proof of work for one paste
+   *
+   * Takes the pre-solver's solution if there is one; otherwise fetches a
+   * challenge and solves it now.
+   *
+   * @param onProgress Optional callback with the progress of the solve
+   * @returns Promise resolving to the solution, or null when the server does not require PoW
+   */
+  private async solveProofOfWork(onProgress?: PowProgressCallback): Promise<PowSolution | null> {
+    if (this.powPresolver) {
+      return this.powPresolver.take(onProgress);
+    }
+    const challenge = await this.apiClient.getPowChallenge();
+    return challenge ? this.powSolver.solve(challenge, onProgress) : null;
+  }
+
+  /**
+   * Measure the content as it will be encrypted
+   * 
+   * @param document Paste content with its details and files
+   * @param compress Compress the content before encryption
+   * @param padding Length-hiding padding of the content
+   * @returns Promise resolving to the size counted against the upload limit, in bytes
+   */
+  async measurePayload(
+    document: PasteDocument,
+    compress: boolean = true,
+    padding: PaddingParams = DEFAULT_PADDING
+  ): Promise<number> {
+    const encoded = await this.encryptionService.encodeContent(document, compress);
+    return this.payloadSize(encoded, padding, await this.getLimits());
+  }
+
+  /**
+   * Get the upload limit: the server's, or MAX_CONTENT_SIZE if it publishes none
+   * 
+   * @returns Promise resolving to the limit in bytes
+   */
+  async getUploadLimit(): Promise<number> {
+    return (await this.getLimits())?.maxSizeBytes ?? MAX_CONTENT_SIZE;
+  }
+
+  /**
+   * Fetch the server's limits once; failures count as no published limits
+   */
+  private getLimits(): Promise<PasteLimits | null> {
+    if (!this.limits) {
+      this.limits = this.apiClient.getLimits().catch(() => null);
+    }
+    return this.limits;
+  }
+
+  /**
+   * Size counted against the upload limit
+   * 
+   * The server's limit applies to the ciphertext, so padding and the
+   * envelope are included; MAX_CONTENT_SIZE applies to the compressed content.
+   */
+  private payloadSize(content: EncodedContent, padding: PaddingParams, limits: PasteLimits | null): number {
+    return limits ? this.encryptionService.sealedLength(content, padding) : content.bytes.length;
+  }
 }
@@ -6,3 +6,5 @@ export { CreatePasteUseCase } from './create-paste-use-case.js';
 export { ViewPasteUseCase } from './view-paste-use-case.js';
 export { DeletePasteUseCase } from './delete-paste-use-case.js';
 export { ChatUseCase } from './chat-use-case.js';
+export { RecipientKeyUseCase } from './recipient-key-use-case.js';
+export { ManageKeySlotsUseCase } from './manage-key-slots-use-case.js';
@@ -0,0 +1,108 @@
+/**
+ * Manage Key Slots Use Case
+ *
+ * Lets the creator of a key-slot paste add or remove passwords with the
+ * paste's deletion token. Only the key slots are re-uploaded; the content
+ * and its ciphertext stay unchanged. The new password's key derivation goes
+ * through an IPasteCrypto, which can run it in a Web Worker.
+ *
+ * The slot key is never rotated, so removing a password only stops future
+ * unlocks with it: anyone who already opened the paste keeps access.
+ */
+
+import type { IApiClient } from '../../infrastructure/api/interfaces.js';
+import type { IPasteCrypto } from '../../infrastructure/crypto/interfaces.js';
+import { EncryptionService } from '../../core/services/encryption-service.js';
+import { validatePassword } from '../../core/validators/index.js';
+import { decodeBase64Url } from '../../core/crypto/encoding.js';
+import type { PasswordKdfAlgorithm } from '../../core/crypto/envelope.js';
+import type { AddKeySlotCommand, RemoveKeySlotCommand } from '../dtos/paste-dtos.js';
+import type { Result } from '../../core/models/result.js';
+import { success, failure } from '../../core/models/result.js';
+
+/**
+ * Use case for adding and removing key-slot passwords
+ */
+export class ManageKeySlotsUseCase {
+  constructor(
+    private apiClient: IApiClient,
+    private encryptionService: EncryptionService,
+    private pasteCrypto: IPasteCrypto = encryptionService
+  ) {}
+
+  /**
+   * List the key slots of a paste
+   *
+   * @param keySlots Base64url-encoded key slots
+   * @returns Result containing each slot's key derivation function, in order, or error
+   */
+  listPasswords(keySlots: string): Result<PasswordKdfAlgorithm[], string> {
+    try {
+      return success(this.encryptionService.readKeySlots(keySlots).map(slot => slot.kdf.algorithm));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return failure(errorMessage);
+    }
+  }
+
+  /**
+   * Add a password to a key-slot paste
+   *
+   * @param command Add key slot command
+   * @returns Result containing the updated base64url-encoded key slots or error
+   */
+  async addPassword(command: AddKeySlotCommand): Promise<Result<string, string>> {
+    const validation = validatePassword(command.password);
+    if (!validation.isValid) {
+      return failure(validation.errors.join('. '));
+    }
+
+    try {
+      const keySlots = await this.pasteCrypto.addKeySlot(
+        command.keySlots,
+        command.slotKey,
+        command.password,
+        new Uint8Array(decodeBase64Url(command.salt)),
+        command.kdf
+      );
+      return await this.upload(command.pasteId, command.deleteToken, keySlots);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return failure(errorMessage);
+    }
+  }
+
+  /**
+   * Remove a password from a key-slot paste
+   *
+   * @param command Remove key slot command
+   * @returns Result containing the updated base64url-encoded key slots or error
+   */
+  async removePassword(command: RemoveKeySlotCommand): Promise<Result<string, string>> {
+    try {
+      const keySlots = this.encryptionService.removeKeySlot(command.keySlots, command.index);
+      return await this.upload(command.pasteId, command.deleteToken, keySlots);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return failure(errorMessage);
+    }
+  }
+
+  /**
+   * Replace the key slots stored by the server
+   */
+  private async upload(pasteId: string, deleteToken: string, keySlots: string): Promise<Result<string, string>> {
+    if (!deleteToken) {
+      return failure('The deletion token is required to change passwords.');
+    }
+    try {
+      await this.apiClient.updateKeySlots(pasteId, deleteToken, keySlots);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return failure(errorMessage === 'invalid_token'
+        ? 'The deletion token is not valid for this paste.'
+        : errorMessage);
+    }
+    return success(keySlots);
+  }
+}
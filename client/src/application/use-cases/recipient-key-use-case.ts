@@ -0,0 +1,42 @@
+/**
+ * Recipient Key Use Case
+ * 
+ * Provides this browser's recipient public key, generating and storing a
+ * keypair on first use. Others paste the public key into the create form to
+ * encrypt a paste that only this browser can open.
+ */
+
+import type { IRecipientKeyStore } from '../../infrastructure/keys/interfaces.js';
+import { EncryptionService } from '../../core/services/encryption-service.js';
+import { generateRecipientKeyPair } from '../../security.js';
+import type { Result } from '../../core/models/result.js';
+import { success, failure } from '../../core/models/result.js';
+
+/**
+ * Use case for managing this browser's recipient key
+ */
+export class RecipientKeyUseCase {
+  constructor(
+    private keyStore: IRecipientKeyStore,
+    private encryptionService: EncryptionService
+  ) {}
+
+  /**
+   * Get this browser's public key, creating the keypair if needed
+   * 
+   * @returns Result containing the base64url-encoded public key or error
+   */
+  async execute(): Promise<Result<string, string>> {
+    try {
+      let keyPair = await this.keyStore.load();
+      if (!keyPair) {
+        keyPair = await generateRecipientKeyPair();
+        await this.keyStore.save(keyPair);
+      }
+      return success(await this.encryptionService.encodeRecipientPublicKey(keyPair.publicKey));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return failure(errorMessage);
+    }
+  }
+}
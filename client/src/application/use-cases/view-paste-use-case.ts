@@ -3,25 +3,80 @@
  * 
  * Orchestrates the paste viewing workflow:
  * 1. Retrieve paste from API
- * 2. Decrypt with password (with retry logic)
- * 3. Derive delete authorization
+ * 2. Read the ciphertext envelope (legacy pastes have none)
+ * 3. Derive keys and decrypt with password (with retry logic), or with the
+ *    link key for password-less pastes, or with this browser's private key
+ *    for recipient-key pastes; two-factor pastes combine the password with
+ *    the secret from the link, and key-slot pastes try the password against
+ *    each of their key slots
+ *
+ * Content is authenticated together with its envelope header and metadata,
+ * so changes made by the server are reported as tampering rather than as a
+ * wrong password wherever the key is known to be right: newer envelopes
+ * commit to their key, and key slots and recipient keys only unwrap with
+ * the right one.
+ *
+ * Failures are typed (see PasteViewErrorKind), so the view can explain a
+ * wrong password, a corrupted paste and an unsupported format differently.
+ * Only a key that fails its commitment or tag check uses up a password
+ * attempt; a derivation or crypto worker error ends the attempt with its
+ * own failure.
+ *
+ * Key derivation and decryption go through an IPasteCrypto, which can run
+ * them in a Web Worker so the page stays responsive while they work.
  */
 
 import type { IApiClient } from '../../infrastructure/api/interfaces.js';
-import { EncryptionService } from '../../core/services/encryption-service.js';
-import type { ViewPasteCommand, PasteViewResult } from '../dtos/paste-dtos.js';
+import type { IRecipientKeyStore } from '../../infrastructure/keys/interfaces.js';
+import type { IPasteCrypto } from '../../infrastructure/crypto/interfaces.js';
+import { EncryptionService, KEY_REJECTED_MESSAGES, isKeyRejected } from '../../core/services/encryption-service.js';
+import { ENVELOPE_FLAGS, envelopeMatchesIv, hasEnvelopeFlag } from '../../core/crypto/envelope.js';
+import type { EnvelopeHeader } from '../../core/crypto/envelope.js';
+import { decodeBase64Url } from '../../core/crypto/encoding.js';
+import type { PasteDocument, PasteKeys, PasteMetadata, ProgressCallback } from '../../core/models/paste.js';
+import type {
+  ViewPasteCommand,
+  PasteProgressCallback,
+  PasteViewError,
+  PasteViewErrorKind,
+  PasteViewResult
+} from '../dtos/paste-dtos.js';
 import type { Result } from '../../core/models/result.js';
 import { success, failure } from '../../core/models/result.js';
 
 const MAX_PASSWORD_ATTEMPTS = 5;
 
+const TAMPERED_MESSAGE = 'This paste failed its integrity check. It was modified or corrupted after it was created.';
+
+/**
+ * Create a typed view failure
+ */
+function viewFailure(kind: PasteViewErrorKind, message: string): Result<PasteViewResult, PasteViewError> {
+  return failure({ kind, message });
+}
+
+/**
+ * Add the views left on a view-limited paste to a successful result
+ */
+function withViewsRemaining(
+  result: Result<PasteViewResult, PasteViewError>,
+  viewsRemaining?: number | null
+): Result<PasteViewResult, PasteViewError> {
+  if (!result.success || viewsRemaining === undefined || viewsRemaining === null) {
+    return result;
+  }
+  return success({ ...result.value, viewsRemaining });
+}
+
 /**
  * Use case for viewing a paste
  */
 export class ViewPasteUseCase {
   constructor(
     private apiClient: IApiClient,
-    private encryptionService: EncryptionService
+    private encryptionService: EncryptionService,
+    private recipientKeyStore?: IRecipientKeyStore,
+    private pasteCrypto: IPasteCrypto = encryptionService
   ) {}
 
   /**
@@ -29,71 +84,223 @@ export class ViewPasteUseCase {
    * 
    * @param command View paste command
    * @param onPasswordPrompt Callback to prompt for password (returns password or null, can be async)
-   * @returns Result containing decrypted paste data or error
+   * @param onProgress Optional callback with download and decryption progress
+   * @returns Result containing decrypted paste data or a typed error
    */
   async execute(
     command: ViewPasteCommand,
-    onPasswordPrompt: (attempt: number, remaining: number) => string | null | Promise<string | null>
-  ): Promise<Result<PasteViewResult, string>> {
+    onPasswordPrompt: (attempt: number, remaining: number) => string | null | Promise<string | null>,
+    onProgress?: PasteProgressCallback
+  ): Promise<Result<PasteViewResult, PasteViewError>> {
+    const onDecryptProgress = onProgress && ((fraction: number) => onProgress('decrypting', fraction));
     try {
       // 1. Retrieve paste from API
-      const response = await this.apiClient.retrievePaste(command.pasteId);
-      const { ct, iv, meta } = response;
+      const response = await this.apiClient.retrievePaste(
+        command.pasteId,
+        onProgress && (fraction => onProgress('downloading', fraction))
+      );
+      const { ct, iv, meta, keySlots, viewsRemaining } = response;
 
-      // Use IV from URL fragment if provided, otherwise use server IV
+      // Use IV from URL fragment if provided, otherwise use server IV. A
+      // different IV from the server means it returned another paste's data.
+      if (command.iv && iv && command.iv !== iv) {
+        return viewFailure('corrupted', TAMPERED_MESSAGE);
+      }
       const ivToUse = command.iv || iv;
 
-      // 2. Decrypt with password (with retry logic)
+      // 2. Read envelope before prompting so unsupported formats fail fast
+      let header: EnvelopeHeader | null;
+      try {
+        header = this.encryptionService.readEnvelope(ct);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        // Unknown versions, flags, KDFs and ciphers are reported as
+        // unsupported; anything else means the header itself is damaged
+        return viewFailure(
+          /unsupported/i.test(errorMessage) ? 'unsupported' : 'corrupted',
+          `This paste cannot be opened: ${errorMessage}.`
+        );
+      }
+
+      // From version 4 the header records the IV of the link it was written
+      // for, so ciphertext from another paste is caught before any password
+      // attempt (a server that keeps this paste's IV passes the check above)
+      if (header && !envelopeMatchesIv(header, new Uint8Array(decodeBase64Url(ivToUse)))) {
+        return viewFailure('corrupted', TAMPERED_MESSAGE);
+      }
+
+      // 3a. Link-key pastes carry the key in the fragment: no password prompt
+      if (header?.kdf.algorithm === 'none') {
+        return withViewsRemaining(
+          await this.openWithLinkKey(ct, header, command.salt, ivToUse, meta, onDecryptProgress),
+          viewsRemaining
+        );
+      }
+
+      // Recipient-key pastes are opened with this browser's private key
+      if (header?.kdf.algorithm === 'ecdh-p256') {
+        return withViewsRemaining(
+          await this.openWithRecipientKey(ct, header, command.salt, ivToUse, meta, onDecryptProgress),
+          viewsRemaining
+        );
+      }
+
+      // Key-slot pastes cannot be opened without the slots stored with them
+      if (header?.kdf.algorithm === 'key-slots' && !keySlots) {
+        return viewFailure('corrupted', 'This paste cannot be opened: its password slots are missing.');
+      }
+
+      // 3b. Two-factor pastes also need the secret from the link; without it
+      // every password attempt would fail, so stop before prompting
+      let linkSecret: Uint8Array | undefined;
+      if (header && hasEnvelopeFlag(header, ENVELOPE_FLAGS.LINK_SECRET)) {
+        if (!command.linkSecret) {
+          return viewFailure(
+            'incomplete-link',
+            'This link is incomplete. The paste needs the secret part of the link as well as the password.'
+          );
+        }
+        linkSecret = new Uint8Array(decodeBase64Url(command.linkSecret));
+      }
+
+      // 3c. Derive keys and decrypt with password (with retry logic)
+      const saltArray = new Uint8Array(decodeBase64Url(command.salt));
       let attempts = 0;
-      let content = '';
-      let deleteAuth: string | null = null;
+      let pasteDocument: PasteDocument | null = null;
+      let keys: PasteKeys | null = null;
 
-      while (attempts < MAX_PASSWORD_ATTEMPTS && !content) {
+      while (attempts < MAX_PASSWORD_ATTEMPTS && !pasteDocument) {
         const attemptsRemaining = MAX_PASSWORD_ATTEMPTS - attempts;
         const passwordResult = onPasswordPrompt(attempts, attemptsRemaining);
         const password = passwordResult instanceof Promise ? await passwordResult : passwordResult;
         
         if (!password) {
-          return failure('A password or PIN is required to decrypt this content.');
+          return viewFailure('password-required', 'A password or PIN is required to decrypt this content.');
         }
 
+        let keyVerified = false;
         try {
-          // Decrypt content
-          content = await this.encryptionService.decryptPaste(
-            ct,
-            password,
-            command.salt,
-            ivToUse
-          );
-
-          // Derive deleteAuth after successful decryption
-          const { decodeBase64Url } = await import('../../core/crypto/encoding.js');
-          const saltArray = new Uint8Array(decodeBase64Url(command.salt));
-          deleteAuth = await this.encryptionService.deriveDeleteAuth(
-            password,
-            saltArray
-          );
-        } catch {
+          // Content key, chat key and delete auth come from a single derivation
+          keys = header?.kdf.algorithm === 'key-slots' && keySlots
+            ? await this.pasteCrypto.unlockKeySlots(keySlots, password, saltArray)
+            : await this.pasteCrypto.derivePasteKeys(password, saltArray, header?.kdf, linkSecret);
+          // A commitment mismatch rejects a wrong password without decrypting
+          const committed = this.encryptionService.checkKeyCommitment(header, keys);
+          if (committed === false) {
+            throw new Error(KEY_REJECTED_MESSAGES.KEY_MISMATCH);
+          }
+          keyVerified = committed === true || header?.kdf.algorithm === 'key-slots';
+          pasteDocument = await this.pasteCrypto.decryptPasteDocument(ct, keys, ivToUse, meta, onDecryptProgress);
+        } catch (error) {
+          // Failing to derive a key or to run the crypto says nothing about
+          // the password
+          if (!isKeyRejected(error)) {
+            const detail = error instanceof Error ? ` (${error.message})` : '';
+            return viewFailure('crypto-failed', `This paste could not be decrypted in this browser${detail}.`);
+          }
+          // The key is known to be right, so content that fails to decrypt
+          // was altered
+          if (keyVerified) {
+            return viewFailure('corrupted', TAMPERED_MESSAGE);
+          }
           attempts++;
           if (attempts >= MAX_PASSWORD_ATTEMPTS) {
-            return failure('Maximum password attempts exceeded. Incorrect password or PIN.');
+            return viewFailure('wrong-password', 'Maximum password attempts exceeded. Incorrect password or PIN.');
           }
           // Continue to retry
         }
       }
 
-      if (!content || !deleteAuth) {
-        return failure('Failed to decrypt paste. Maximum attempts exceeded.');
+      if (!pasteDocument || !keys) {
+        return viewFailure('wrong-password', 'Failed to decrypt paste. Maximum attempts exceeded.');
       }
 
-      return success({
-        content,
+      return withViewsRemaining(success({
+        document: pasteDocument,
         metadata: meta,
-        deleteAuth
-      });
+        deleteAuth: keys.deleteAuth,
+        chatKey: keys.chatKey,
+        keySlots: keys.slotKey ? keySlots ?? undefined : undefined,
+        slotKey: keys.slotKey
+      }), viewsRemaining);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      return failure(errorMessage);
+      return viewFailure('unavailable', errorMessage);
+    }
+  }
+
+  /**
+   * Decrypt a link-key paste with the key from the URL fragment
+   */
+  private async openWithLinkKey(
+    ct: string,
+    header: EnvelopeHeader,
+    linkKeyB64: string,
+    iv: string,
+    meta: PasteMetadata,
+    onProgress?: ProgressCallback
+  ): Promise<Result<PasteViewResult, PasteViewError>> {
+    let keyVerified = false;
+    try {
+      const keys = await this.pasteCrypto.deriveLinkKeys(linkKeyB64);
+      keyVerified = this.encryptionService.checkKeyCommitment(header, keys) === true;
+      const pasteDocument = await this.pasteCrypto.decryptPasteDocument(ct, keys, iv, meta, onProgress);
+      return success({
+        document: pasteDocument,
+        metadata: meta,
+        deleteAuth: keys.deleteAuth,
+        chatKey: keys.chatKey
+      });
+    } catch {
+      return keyVerified
+        ? viewFailure('corrupted', TAMPERED_MESSAGE)
+        : viewFailure('incomplete-link', 'Failed to decrypt paste. The link may be incomplete or corrupted.');
+    }
+  }
+
+  /**
+   * Decrypt a recipient-key paste with the keypair stored in this browser
+   */
+  private async openWithRecipientKey(
+    ct: string,
+    header: EnvelopeHeader,
+    saltB64: string,
+    iv: string,
+    meta: PasteMetadata,
+    onProgress?: ProgressCallback
+  ): Promise<Result<PasteViewResult, PasteViewError>> {
+    let keyPair: CryptoKeyPair | null = null;
+    try {
+      keyPair = this.recipientKeyStore ? await this.recipientKeyStore.load() : null;
+    } catch {
+      // Treated the same as a missing key below
+    }
+    if (!keyPair) {
+      return viewFailure(
+        'missing-key',
+        'This paste is encrypted for specific recipients, and this browser has no recipient key.'
+      );
+    }
+
+    let keys: PasteKeys;
+    try {
+      const salt = new Uint8Array(decodeBase64Url(saltB64));
+      keys = await this.encryptionService.deriveRecipientKeys(header, salt, keyPair);
+    } catch {
+      return viewFailure('missing-key', 'This paste was not encrypted for the recipient key in this browser.');
+    }
+
+    try {
+      const pasteDocument = await this.pasteCrypto.decryptPasteDocument(ct, keys, iv, meta, onProgress);
+      return success({
+        document: pasteDocument,
+        metadata: meta,
+        deleteAuth: keys.deleteAuth,
+        chatKey: keys.chatKey
+      });
+    } catch {
+      // The recipient key unwrapped correctly, so the content was altered
+      return viewFailure('corrupted', TAMPERED_MESSAGE);
     }
   }
 }
@@ -0,0 +1,504 @@
+/**
+ * Raw DEFLATE (RFC 1951) in TypeScript
+ *
+ * Fallback for runtimes without CompressionStream, such as older browsers
+ * and Node/jsdom under test. The encoder finds matches with hash chains and
+ * writes a single block with the fixed Huffman codes. The decoder reads
+ * stored, fixed and dynamic blocks, so it inflates the output of any
+ * DEFLATE encoder, including the browser's.
+ */
+
+/** Base match length for each length symbol (257..285) */
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+
+/** Extra bits for each length symbol */
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+];
+
+/** Base distance for each distance symbol (0..29) */
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+
+/** Extra bits for each distance symbol */
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+];
+
+/** Order in which dynamic blocks list the code length code lengths */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const END_OF_BLOCK = 256;
+const MAX_BITS = 15;
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+/** Candidates tried per position; higher compresses better but slower */
+const MAX_CHAIN = 64;
+
+// ============================================================================
+// ENCODER
+// ============================================================================
+
+/**
+ * Little-endian bit writer with a growable buffer
+ */
+class BitWriter {
+  private buffer: Uint8Array;
+  private length = 0;
+  private bits = 0;
+  private bitCount = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(64, capacity));
+  }
+
+  write(value: number, count: number): void {
+    this.bits |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.pushByte(this.bits & 0xff);
+      this.bits >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.pushByte(this.bits & 0xff);
+      this.bits = 0;
+      this.bitCount = 0;
+    }
+    return this.buffer.slice(0, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = byte;
+  }
+}
+
+/**
+ * Reverse the low `length` bits of a Huffman code
+ *
+ * Huffman codes are packed starting from their most significant bit, while
+ * BitWriter packs values starting from the least significant one.
+ */
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >>> i) & 1);
+  }
+  return reversed;
+}
+
+/**
+ * Fixed literal/length codes (RFC 1951 section 3.2.6), bit-reversed
+ */
+const FIXED_LITERAL_CODES = (() => {
+  const codes = new Uint16Array(288);
+  const lengths = new Uint8Array(288);
+  for (let symbol = 0; symbol < 288; symbol++) {
+    if (symbol < 144) {
+      lengths[symbol] = 8;
+      codes[symbol] = reverseBits(0x30 + symbol, 8);
+    } else if (symbol < 256) {
+      lengths[symbol] = 9;
+      codes[symbol] = reverseBits(0x190 + symbol - 144, 9);
+    } else if (symbol < 280) {
+      lengths[symbol] = 7;
+      codes[symbol] = reverseBits(symbol - 256, 7);
+    } else {
+      lengths[symbol] = 8;
+      codes[symbol] = reverseBits(0xc0 + symbol - 280, 8);
+    }
+  }
+  return { codes, lengths };
+})();
+
+/** Length symbol index (0..28) for each match length 0..258 */
+const LENGTH_INDEX = (() => {
+  const index = new Uint8Array(MAX_MATCH + 1);
+  for (let i = 0; i < LENGTH_BASE.length; i++) {
+    const end = i + 1 < LENGTH_BASE.length ? LENGTH_BASE[i + 1] : MAX_MATCH + 1;
+    index.fill(i, LENGTH_BASE[i], end);
+  }
+  return index;
+})();
+
+/**
+ * Distance symbol for a match distance
+ */
+function distanceSymbol(distance: number): number {
+  let symbol = DISTANCE_BASE.length - 1;
+  while (DISTANCE_BASE[symbol] > distance) {
+    symbol--;
+  }
+  return symbol;
+}
+
+/**
+ * Hash of the three bytes starting at a position
+ */
+function hashAt(data: Uint8Array, position: number): number {
+  return ((data[position] << 10) ^ (data[position + 1] << 5) ^ data[position + 2]) & (HASH_SIZE - 1);
+}
+
+/**
+ * Compress data to raw DEFLATE
+ *
+ * @param data Bytes to compress
+ * @returns Raw DEFLATE stream (no zlib or gzip wrapper)
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const out = new BitWriter(data.length >>> 1);
+  const { codes, lengths } = FIXED_LITERAL_CODES;
+  const writeSymbol = (symbol: number): void => out.write(codes[symbol], lengths[symbol]);
+
+  // Single final block with fixed Huffman codes
+  out.write(1, 1);
+  out.write(1, 2);
+
+  // head: most recent position per hash; prev: previous position with the same hash
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const insert = (position: number): void => {
+    if (position + MIN_MATCH > data.length) return;
+    const hash = hashAt(data, position);
+    prev[position & (WINDOW_SIZE - 1)] = head[hash];
+    head[hash] = position;
+  };
+
+  let position = 0;
+  while (position < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (position + MIN_MATCH <= data.length) {
+      const maxLength = Math.min(MAX_MATCH, data.length - position);
+      let candidate = head[hashAt(data, position)];
+      let chain = MAX_CHAIN;
+      while (candidate >= 0 && position - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[position + length]) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = position - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = prev[candidate & (WINDOW_SIZE - 1)];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const lengthIndex = LENGTH_INDEX[bestLength];
+      writeSymbol(257 + lengthIndex);
+      out.write(bestLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = distanceSymbol(bestDistance);
+      out.write(reverseBits(distanceIndex, 5), 5);
+      out.write(bestDistance - DISTANCE_BASE[distanceIndex], DISTANCE_EXTRA[distanceIndex]);
+      for (let i = 0; i < bestLength; i++) {
+        insert(position + i);
+      }
+      position += bestLength;
+    } else {
+      writeSymbol(data[position]);
+      insert(position);
+      position++;
+    }
+  }
+
+  writeSymbol(END_OF_BLOCK);
+  return out.finish();
+}
+
+// ============================================================================
+// DECODER
+// ============================================================================
+
+/**
+ * Canonical Huffman code: number of codes per length, and symbols in code order
+ */
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+/**
+ * Build a canonical Huffman table from code lengths
+ *
+ * @throws Error if the lengths describe an over-subscribed code
+ */
+function buildHuffmanTable(codeLengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let symbol = 0; symbol < codeLengths.length; symbol++) {
+    counts[codeLengths[symbol]]++;
+  }
+
+  let left = 1;
+  for (let length = 1; length <= MAX_BITS; length++) {
+    left = (left << 1) - counts[length];
+    if (left < 0) {
+      throw new Error('Invalid compressed data');
+    }
+  }
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(codeLengths.length);
+  for (let symbol = 0; symbol < codeLengths.length; symbol++) {
+    if (codeLengths[symbol] !== 0) {
+      symbols[offsets[codeLengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+}
+
+/** Fixed Huffman tables, built on first use */
+let fixedTables: { literals: HuffmanTable; distances: HuffmanTable } | null = null;
+
+function getFixedTables(): { literals: HuffmanTable; distances: HuffmanTable } {
+  if (!fixedTables) {
+    fixedTables = {
+      literals: buildHuffmanTable(FIXED_LITERAL_CODES.lengths),
+      distances: buildHuffmanTable(new Uint8Array(30).fill(5))
+    };
+  }
+  return fixedTables;
+}
+
+/**
+ * Little-endian bit reader
+ */
+class BitReader {
+  private position = 0;
+  private bits = 0;
+  private bitCount = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  read(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) {
+        throw new Error('Compressed data is truncated');
+      }
+      this.bits |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bits & ((1 << count) - 1);
+    this.bits >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  /**
+   * Discard the rest of the current byte and read whole bytes
+   */
+  readBytes(count: number): Uint8Array {
+    this.bits = 0;
+    this.bitCount = 0;
+    if (this.position + count > this.data.length) {
+      throw new Error('Compressed data is truncated');
+    }
+    const bytes = this.data.subarray(this.position, this.position + count);
+    this.position += count;
+    return bytes;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.read(1);
+      const count = table.counts[length];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid compressed data');
+  }
+}
+
+/**
+ * Growable output buffer that refuses to grow past a limit
+ */
+class InflateOutput {
+  private buffer: Uint8Array;
+  length = 0;
+
+  constructor(sizeHint: number, private maxLength: number) {
+    this.buffer = new Uint8Array(Math.min(Math.max(1024, sizeHint), maxLength) || 1);
+  }
+
+  reserve(count: number): void {
+    const needed = this.length + count;
+    if (needed > this.maxLength) {
+      throw new Error('Decompressed content is too large');
+    }
+    if (needed > this.buffer.length) {
+      const grown = new Uint8Array(Math.min(Math.max(needed, this.buffer.length * 2), this.maxLength));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+  }
+
+  pushByte(byte: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  pushBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  copyMatch(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error('Invalid compressed data');
+    }
+    this.reserve(length);
+    // Byte by byte: the source may overlap the bytes being written
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.length] = this.buffer[this.length - distance];
+      this.length++;
+    }
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Read the code tables of a dynamic Huffman block
+ */
+function readDynamicTables(reader: BitReader): { literals: HuffmanTable; distances: HuffmanTable } {
+  const literalCount = reader.read(5) + 257;
+  const distanceCount = reader.read(5) + 1;
+  const codeLengthCount = reader.read(4) + 4;
+  if (literalCount > 286 || distanceCount > 30) {
+    throw new Error('Invalid compressed data');
+  }
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.read(3);
+  }
+  const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+    let value = 0;
+    let repeat: number;
+    if (symbol === 16) {
+      if (index === 0) {
+        throw new Error('Invalid compressed data');
+      }
+      value = lengths[index - 1];
+      repeat = 3 + reader.read(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.read(3);
+    } else {
+      repeat = 11 + reader.read(7);
+    }
+    if (index + repeat > lengths.length) {
+      throw new Error('Invalid compressed data');
+    }
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+
+  if (lengths[END_OF_BLOCK] === 0) {
+    throw new Error('Invalid compressed data');
+  }
+  return {
+    literals: buildHuffmanTable(lengths.subarray(0, literalCount)),
+    distances: buildHuffmanTable(lengths.subarray(literalCount))
+  };
+}
+
+/**
+ * Decompress raw DEFLATE
+ *
+ * @param data Raw DEFLATE stream (no zlib or gzip wrapper)
+ * @param maxLength Largest decompressed size to accept, in bytes
+ * @returns Decompressed bytes
+ * @throws Error if the stream is malformed or inflates past maxLength
+ */
+export function inflateRaw(data: Uint8Array, maxLength: number): Uint8Array {
+  const reader = new BitReader(data);
+  const out = new InflateOutput(data.length * 4, maxLength);
+
+  let final = 0;
+  while (!final) {
+    final = reader.read(1);
+    const type = reader.read(2);
+
+    if (type === 0) {
+      const header = reader.readBytes(4);
+      const length = header[0] | (header[1] << 8);
+      const complement = header[2] | (header[3] << 8);
+      if ((length ^ 0xffff) !== complement) {
+        throw new Error('Invalid compressed data');
+      }
+      out.pushBytes(reader.readBytes(length));
+      continue;
+    }
+    if (type === 3) {
+      throw new Error('Invalid compressed data');
+    }
+
+    const { literals, distances } = type === 1 ? getFixedTables() : readDynamicTables(reader);
+    for (;;) {
+      const symbol = reader.decode(literals);
+      if (symbol < 256) {
+        out.pushByte(symbol);
+        continue;
+      }
+      if (symbol === END_OF_BLOCK) break;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid compressed data');
+      }
+      const length = LENGTH_BASE[lengthIndex] + reader.read(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = reader.decode(distances);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        throw new Error('Invalid compressed data');
+      }
+      const distance = DISTANCE_BASE[distanceIndex] + reader.read(DISTANCE_EXTRA[distanceIndex]);
+      out.copyMatch(distance, length);
+    }
+  }
+
+  return out.finish();
+}
@@ -0,0 +1,97 @@
+/**
+ * Compression module public API
+ *
+ * Raw DEFLATE through the browser's CompressionStream where available, with
+ * the TypeScript implementation in deflate.ts as a fallback. Both write and
+ * read the same format, so content compressed by one inflates with the other.
+ */
+
+import { deflateRaw, inflateRaw } from './deflate.js';
+
+export { deflateRaw, inflateRaw };
+
+/**
+ * Create a native raw DEFLATE stream, or null if the runtime has none
+ */
+function createNativeStream(direction: 'compress' | 'decompress'): TransformStream<BufferSource, Uint8Array> | null {
+  try {
+    if (direction === 'compress' && typeof CompressionStream === 'function') {
+      return new CompressionStream('deflate-raw');
+    }
+    if (direction === 'decompress' && typeof DecompressionStream === 'function') {
+      return new DecompressionStream('deflate-raw');
+    }
+  } catch {
+    // 'deflate-raw' is not supported by this runtime
+  }
+  return null;
+}
+
+/**
+ * Pipe bytes through a transform stream and collect the output
+ */
+async function runStream(
+  stream: TransformStream<BufferSource, Uint8Array>,
+  data: Uint8Array,
+  maxLength: number
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // Errors also surface on the readable side, where they are reported
+  writer.write(data as BufferSource).then(() => writer.close()).catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxLength) {
+      await reader.cancel();
+      throw new Error('Decompressed content is too large');
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Compress bytes with raw DEFLATE
+ *
+ * @param data Bytes to compress
+ * @returns Promise resolving to the compressed bytes
+ */
+export async function compress(data: Uint8Array): Promise<Uint8Array> {
+  const stream = createNativeStream('compress');
+  return stream ? runStream(stream, data, Infinity) : deflateRaw(data);
+}
+
+/**
+ * Decompress raw DEFLATE bytes
+ *
+ * @param data Compressed bytes
+ * @param maxLength Largest decompressed size to accept, in bytes
+ * @returns Promise resolving to the decompressed bytes
+ * @throws Error if the data is malformed or inflates past maxLength
+ */
+export async function decompress(data: Uint8Array, maxLength: number): Promise<Uint8Array> {
+  const stream = createNativeStream('decompress');
+  if (!stream) {
+    return inflateRaw(data, maxLength);
+  }
+  try {
+    return await runStream(stream, data, maxLength);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Decompressed content is too large') {
+      throw error;
+    }
+    throw new Error('Invalid compressed data');
+  }
+}
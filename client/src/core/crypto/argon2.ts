@@ -0,0 +1,376 @@
+/**
+ * Argon2id key derivation (RFC 9106, version 0x13)
+ *
+ * Pure TypeScript implementation so it runs in the browser without a build
+ * step or WASM loader. Memory blocks are stored as 256 32-bit words
+ * (128 little-endian 64-bit words as low/high pairs).
+ */
+
+import { blake2b } from './blake2b.js';
+
+/**
+ * Argon2id cost parameters
+ */
+export interface Argon2idOptions {
+  /** Memory size in KiB */
+  memoryKiB: number;
+  /** Number of passes over memory */
+  iterations: number;
+  /** Number of lanes */
+  parallelism: number;
+  /** Output length in bytes (default 32) */
+  tagLength?: number;
+  /** Optional secret value K */
+  secret?: Uint8Array;
+  /** Optional associated data X */
+  associatedData?: Uint8Array;
+}
+
+/** Argon2 version implemented here */
+const ARGON2_VERSION = 0x13;
+/** Argon2 type identifier for Argon2id */
+const ARGON2_TYPE_ID = 2;
+/** Number of synchronization points (slices) per pass */
+const SYNC_POINTS = 4;
+/** 32-bit words per 1 KiB block */
+const BLOCK_WORDS = 256;
+/** Pseudo-random addresses generated per address block */
+const ADDRESSES_PER_BLOCK = 128;
+
+/**
+ * High 32 bits of the 64-bit product of two unsigned 32-bit integers
+ */
+function mulHi(a: number, b: number): number {
+  const aHi = a >>> 16;
+  const aLo = a & 0xffff;
+  const bHi = b >>> 16;
+  const bLo = b & 0xffff;
+  const lo = aLo * bLo;
+  const mid1 = aHi * bLo;
+  const mid2 = aLo * bHi;
+  const carry = ((lo >>> 16) + (mid1 & 0xffff) + (mid2 & 0xffff)) >>> 16;
+  return aHi * bHi + (mid1 >>> 16) + (mid2 >>> 16) + carry;
+}
+
+/**
+ * v[a] = v[a] + v[b] + 2 * lo32(v[a]) * lo32(v[b]) (BlaMka multiply-add)
+ */
+function blaMka(v: Uint32Array, a: number, b: number): void {
+  const al = v[a];
+  const bl = v[b];
+  const pl = Math.imul(al, bl) >>> 0;
+  const ph = mulHi(al, bl);
+  const dl = (pl << 1) >>> 0;
+  const dh = ((ph << 1) | (pl >>> 31)) >>> 0;
+
+  const lo1 = al + bl;
+  const lo2 = (lo1 >>> 0) + dl;
+  const hi = v[a + 1] + v[b + 1] + dh + (lo1 > 0xffffffff ? 1 : 0) + (lo2 > 0xffffffff ? 1 : 0);
+  v[a] = lo2 >>> 0;
+  v[a + 1] = hi >>> 0;
+}
+
+/**
+ * Argon2 G function on word-pair indices (BLAKE2b round without message)
+ */
+function gb(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  let lo: number;
+  let hi: number;
+
+  blaMka(v, a, b);
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = hi;
+  v[d + 1] = lo;
+
+  blaMka(v, c, d);
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = ((lo >>> 24) | (hi << 8)) >>> 0;
+  v[b + 1] = ((hi >>> 24) | (lo << 8)) >>> 0;
+
+  blaMka(v, a, b);
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = ((lo >>> 16) | (hi << 16)) >>> 0;
+  v[d + 1] = ((hi >>> 16) | (lo << 16)) >>> 0;
+
+  blaMka(v, c, d);
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = ((lo << 1) | (hi >>> 31)) >>> 0;
+  v[b + 1] = ((hi << 1) | (lo >>> 31)) >>> 0;
+}
+
+/**
+ * Permutation P over sixteen 64-bit words given by their indices
+ */
+function permute(v: Uint32Array, w: number[]): void {
+  gb(v, w[0], w[4], w[8], w[12]);
+  gb(v, w[1], w[5], w[9], w[13]);
+  gb(v, w[2], w[6], w[10], w[14]);
+  gb(v, w[3], w[7], w[11], w[15]);
+  gb(v, w[0], w[5], w[10], w[15]);
+  gb(v, w[1], w[6], w[11], w[12]);
+  gb(v, w[2], w[7], w[8], w[13]);
+  gb(v, w[3], w[4], w[9], w[14]);
+}
+
+/** Word-pair indices of each row and column the compression function permutes */
+const ROW_INDICES: number[][] = [];
+const COLUMN_INDICES: number[][] = [];
+for (let i = 0; i < 8; i++) {
+  const row: number[] = [];
+  const column: number[] = [];
+  for (let j = 0; j < 16; j++) {
+    row.push((16 * i + j) * 2);
+    column.push((2 * i + (j & 1) + 16 * (j >> 1)) * 2);
+  }
+  ROW_INDICES.push(row);
+  COLUMN_INDICES.push(column);
+}
+
+/**
+ * Compression function G: out = G(x, y), or out ^= G(x, y) when xor is set
+ */
+function compress(
+  memory: Uint32Array, out: number,
+  xMem: Uint32Array, x: number,
+  yMem: Uint32Array, y: number,
+  r: Uint32Array, z: Uint32Array,
+  xor: boolean
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    r[i] = xMem[x + i] ^ yMem[y + i];
+    z[i] = r[i];
+  }
+  for (const row of ROW_INDICES) permute(z, row);
+  for (const column of COLUMN_INDICES) permute(z, column);
+  if (xor) {
+    for (let i = 0; i < BLOCK_WORDS; i++) memory[out + i] ^= r[i] ^ z[i];
+  } else {
+    for (let i = 0; i < BLOCK_WORDS; i++) memory[out + i] = r[i] ^ z[i];
+  }
+}
+
+/**
+ * Little-endian encoding of a 32-bit integer
+ */
+function le32(n: number): Uint8Array {
+  return new Uint8Array([n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff]);
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/**
+ * Variable-length hash H' built on BLAKE2b
+ */
+function hashLong(input: Uint8Array, length: number): Uint8Array {
+  const prefixed = concat([le32(length), input]);
+  if (length <= 64) {
+    return blake2b(prefixed, length);
+  }
+  const out = new Uint8Array(length);
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  let offset = 32;
+  while (length - offset > 64) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+  }
+  out.set(blake2b(v, length - offset), offset);
+  return out;
+}
+
+/**
+ * Validate Argon2id cost parameters
+ *
+ * @throws Error if a parameter is out of range
+ */
+function validateOptions(options: Argon2idOptions, tagLength: number): void {
+  const { memoryKiB, iterations, parallelism } = options;
+  if (!Number.isInteger(parallelism) || parallelism < 1 || parallelism > 0xffffff) {
+    throw new Error('Invalid Argon2id parallelism');
+  }
+  if (!Number.isInteger(memoryKiB) || memoryKiB < 8 * parallelism || memoryKiB > 0xffffffff) {
+    throw new Error('Invalid Argon2id memory size');
+  }
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > 0xffffffff) {
+    throw new Error('Invalid Argon2id iteration count');
+  }
+  if (!Number.isInteger(tagLength) || tagLength < 4) {
+    throw new Error('Invalid Argon2id output length');
+  }
+}
+
+/**
+ * Derive bytes with Argon2id
+ *
+ * Runs synchronously on the calling thread; cost grows linearly with
+ * memoryKiB * iterations.
+ *
+ * @param password Password bytes (P)
+ * @param salt Salt bytes (S), at least 8 bytes
+ * @param options Cost parameters and optional secret/associated data
+ * @returns Derived tag of options.tagLength bytes
+ * @throws Error if a parameter is out of range
+ */
+export function argon2id(password: Uint8Array, salt: Uint8Array, options: Argon2idOptions): Uint8Array {
+  const tagLength = options.tagLength ?? 32;
+  validateOptions(options, tagLength);
+  if (salt.length < 8) {
+    throw new Error('Argon2id salt must be at least 8 bytes');
+  }
+
+  const { iterations, parallelism: lanes } = options;
+  const secret = options.secret ?? new Uint8Array(0);
+  const associatedData = options.associatedData ?? new Uint8Array(0);
+
+  // H0 over all parameters and inputs
+  const h0 = blake2b(concat([
+    le32(lanes), le32(tagLength), le32(options.memoryKiB), le32(iterations),
+    le32(ARGON2_VERSION), le32(ARGON2_TYPE_ID),
+    le32(password.length), password,
+    le32(salt.length), salt,
+    le32(secret.length), secret,
+    le32(associatedData.length), associatedData
+  ]), 64);
+
+  const segmentLength = Math.floor(options.memoryKiB / (SYNC_POINTS * lanes));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * lanes;
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+
+  const r = new Uint32Array(BLOCK_WORDS);
+  const z = new Uint32Array(BLOCK_WORDS);
+  const zero = new Uint32Array(BLOCK_WORDS);
+  const input = new Uint32Array(BLOCK_WORDS);
+  const addresses = new Uint32Array(BLOCK_WORDS);
+
+  // First two blocks of every lane
+  for (let lane = 0; lane < lanes; lane++) {
+    for (let j = 0; j < 2; j++) {
+      const bytes = hashLong(concat([h0, le32(j), le32(lane)]), 1024);
+      const base = (lane * laneLength + j) * BLOCK_WORDS;
+      for (let i = 0; i < BLOCK_WORDS; i++) {
+        memory[base + i] = (bytes[i * 4] | (bytes[i * 4 + 1] << 8) |
+          (bytes[i * 4 + 2] << 16) | (bytes[i * 4 + 3] << 24)) >>> 0;
+      }
+    }
+  }
+
+  const nextAddresses = (): void => {
+    // input[12..13] holds the 64-bit counter; it stays far below 2^32
+    input[12] = (input[12] + 1) >>> 0;
+    compress(addresses, 0, zero, 0, input, 0, r, z, false);
+    compress(addresses, 0, zero, 0, addresses, 0, r, z, false);
+  };
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        const dataIndependent = pass === 0 && slice < SYNC_POINTS / 2;
+        if (dataIndependent) {
+          input.fill(0);
+          input[0] = pass;
+          input[2] = lane;
+          input[4] = slice;
+          input[6] = blockCount;
+          input[8] = iterations;
+          input[10] = ARGON2_TYPE_ID;
+        }
+
+        let start = 0;
+        if (pass === 0 && slice === 0) {
+          start = 2;
+          if (dataIndependent) nextAddresses();
+        }
+
+        for (let index = start; index < segmentLength; index++) {
+          const column = slice * segmentLength + index;
+          const current = lane * laneLength + column;
+          const previous = column === 0 ? current + laneLength - 1 : current - 1;
+
+          let j1: number;
+          let j2: number;
+          if (dataIndependent) {
+            if (index % ADDRESSES_PER_BLOCK === 0) nextAddresses();
+            const k = (index % ADDRESSES_PER_BLOCK) * 2;
+            j1 = addresses[k];
+            j2 = addresses[k + 1];
+          } else {
+            j1 = memory[previous * BLOCK_WORDS];
+            j2 = memory[previous * BLOCK_WORDS + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+
+          // Size of the reference area for this position
+          let areaSize: number;
+          if (pass === 0) {
+            if (slice === 0) {
+              areaSize = index - 1;
+            } else if (sameLane) {
+              areaSize = slice * segmentLength + index - 1;
+            } else {
+              areaSize = slice * segmentLength + (index === 0 ? -1 : 0);
+            }
+          } else if (sameLane) {
+            areaSize = laneLength - segmentLength + index - 1;
+          } else {
+            areaSize = laneLength - segmentLength + (index === 0 ? -1 : 0);
+          }
+
+          const relative = areaSize - 1 - mulHi(areaSize, mulHi(j1, j1));
+          const startPosition = pass !== 0 && slice !== SYNC_POINTS - 1 ? (slice + 1) * segmentLength : 0;
+          const refIndex = (startPosition + relative) % laneLength;
+          const reference = refLane * laneLength + refIndex;
+
+          compress(
+            memory, current * BLOCK_WORDS,
+            memory, previous * BLOCK_WORDS,
+            memory, reference * BLOCK_WORDS,
+            r, z,
+            pass !== 0
+          );
+        }
+      }
+    }
+  }
+
+  // Final block: XOR of the last block of every lane
+  const finalBlock = new Uint32Array(BLOCK_WORDS);
+  for (let lane = 0; lane < lanes; lane++) {
+    const base = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+    for (let i = 0; i < BLOCK_WORDS; i++) finalBlock[i] ^= memory[base + i];
+  }
+  const finalLe = new Uint8Array(1024);
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    const w = finalBlock[i];
+    finalLe[i * 4] = w & 0xff;
+    finalLe[i * 4 + 1] = (w >>> 8) & 0xff;
+    finalLe[i * 4 + 2] = (w >>> 16) & 0xff;
+    finalLe[i * 4 + 3] = (w >>> 24) & 0xff;
+  }
+
+  const tag = hashLong(finalLe, tagLength);
+
+  // Clear working memory (best effort)
+  memory.fill(0);
+  finalBlock.fill(0);
+  finalLe.fill(0);
+  return tag;
+}
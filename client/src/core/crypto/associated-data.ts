@@ -0,0 +1,64 @@
+/**
+ * AES-GCM associated data for paste content
+ *
+ * From envelope version 2, paste ciphertext authenticates the encoded
+ * envelope header (and so the format version, flags and KDF parameters)
+ * together with the paste metadata the server returns alongside it. A
+ * server that changes the expiry, MIME type or chat setting, or rewrites
+ * the header, makes decryption fail instead of going unnoticed. From
+ * version 4 the header includes the content IV, which binds the
+ * ciphertext to the share link carrying the same IV. From version 5 the
+ * view limit is authenticated too, so a server cannot present a one-time
+ * paste as an ordinary one, or report a different limit than the creator
+ * set.
+ *
+ * Layout: the header bytes exactly as they appear in the payload, followed
+ * by the UTF-8 JSON array [expireTs, mime, allowChat] (from version 5,
+ * [expireTs, mime, allowChat, maxViews]), with absent values as null.
+ */
+
+/** First envelope version whose ciphertext carries associated data */
+export const ASSOCIATED_DATA_MIN_VERSION = 2;
+
+/** First envelope version whose associated data includes the view limit */
+export const VIEW_LIMIT_BINDING_MIN_VERSION = 5;
+
+/**
+ * Paste metadata fields covered by the associated data
+ */
+export interface AuthenticatedMetadata {
+  expireTs: number;
+  mime?: string | null;
+  allowChat?: boolean | null;
+  maxViews?: number | null;
+}
+
+/**
+ * Check whether ciphertext of an envelope version carries associated data
+ *
+ * @param version Envelope version
+ * @returns True if the header and metadata must be authenticated
+ */
+export function usesAssociatedData(version: number): boolean {
+  return version >= ASSOCIATED_DATA_MIN_VERSION;
+}
+
+/**
+ * Encode the associated data for a paste
+ *
+ * @param headerBytes Encoded envelope header
+ * @param meta Paste metadata as sent to and returned by the server
+ * @param version Envelope version of the header
+ * @returns Bytes to pass as AES-GCM additionalData
+ */
+export function encodeAssociatedData(headerBytes: Uint8Array, meta: AuthenticatedMetadata, version: number): Uint8Array {
+  const fields: unknown[] = [meta.expireTs, meta.mime ?? null, meta.allowChat ?? null];
+  if (version >= VIEW_LIMIT_BINDING_MIN_VERSION) {
+    fields.push(meta.maxViews ?? null);
+  }
+  const metaBytes = new TextEncoder().encode(JSON.stringify(fields));
+  const out = new Uint8Array(headerBytes.length + metaBytes.length);
+  out.set(headerBytes, 0);
+  out.set(metaBytes, headerBytes.length);
+  return out;
+}
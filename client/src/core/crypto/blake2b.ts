@@ -0,0 +1,158 @@
+/**
+ * BLAKE2b hash function (RFC 7693)
+ *
+ * Pure TypeScript implementation used by Argon2id. Web Crypto does not
+ * provide BLAKE2b. 64-bit words are stored as little-endian (low, high)
+ * pairs of 32-bit integers.
+ */
+
+/** BLAKE2b initialization vector as (low, high) 32-bit pairs */
+const IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85,
+  0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+  0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+/** Message word schedule for the 12 rounds */
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3]
+];
+
+/** Block size in bytes */
+const BLOCK_BYTES = 128;
+
+/**
+ * v[a] += v[b] + m (64-bit add on word pairs; m given as low/high)
+ */
+function add64(v: Uint32Array, a: number, b: number, mLo: number, mHi: number): void {
+  const lo = v[a] + v[b] + mLo;
+  const hi = v[a + 1] + v[b + 1] + mHi + Math.floor(lo / 0x100000000);
+  v[a] = lo >>> 0;
+  v[a + 1] = hi >>> 0;
+}
+
+/**
+ * BLAKE2b G mixing function on word-pair indices a, b, c, d
+ */
+function mix(
+  v: Uint32Array, a: number, b: number, c: number, d: number,
+  m: Uint32Array, x: number, y: number
+): void {
+  let lo: number;
+  let hi: number;
+
+  add64(v, a, b, m[x], m[x + 1]);
+  // d = rotr64(d ^ a, 32)
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = hi;
+  v[d + 1] = lo;
+
+  add64(v, c, d, 0, 0);
+  // b = rotr64(b ^ c, 24)
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = ((lo >>> 24) | (hi << 8)) >>> 0;
+  v[b + 1] = ((hi >>> 24) | (lo << 8)) >>> 0;
+
+  add64(v, a, b, m[y], m[y + 1]);
+  // d = rotr64(d ^ a, 16)
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = ((lo >>> 16) | (hi << 16)) >>> 0;
+  v[d + 1] = ((hi >>> 16) | (lo << 16)) >>> 0;
+
+  add64(v, c, d, 0, 0);
+  // b = rotr64(b ^ c, 63) == rotl64(b ^ c, 1)
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = ((lo << 1) | (hi >>> 31)) >>> 0;
+  v[b + 1] = ((hi << 1) | (lo >>> 31)) >>> 0;
+}
+
+/**
+ * Compress one 128-byte block into the state
+ */
+function compress(h: Uint32Array, block: Uint8Array, counter: number, last: boolean): void {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+
+  for (let i = 0; i < 16; i++) {
+    v[i] = h[i];
+    v[i + 16] = IV[i];
+  }
+  // 128-bit byte counter; inputs here never exceed 2^53 bytes
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28] >>> 0;
+    v[29] = ~v[29] >>> 0;
+  }
+
+  for (let i = 0; i < 32; i++) {
+    m[i] = (block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24)) >>> 0;
+  }
+
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round];
+    mix(v, 0, 8, 16, 24, m, s[0] * 2, s[1] * 2);
+    mix(v, 2, 10, 18, 26, m, s[2] * 2, s[3] * 2);
+    mix(v, 4, 12, 20, 28, m, s[4] * 2, s[5] * 2);
+    mix(v, 6, 14, 22, 30, m, s[6] * 2, s[7] * 2);
+    mix(v, 0, 10, 20, 30, m, s[8] * 2, s[9] * 2);
+    mix(v, 2, 12, 22, 24, m, s[10] * 2, s[11] * 2);
+    mix(v, 4, 14, 16, 26, m, s[12] * 2, s[13] * 2);
+    mix(v, 6, 8, 18, 28, m, s[14] * 2, s[15] * 2);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    h[i] = (h[i] ^ v[i] ^ v[i + 16]) >>> 0;
+  }
+}
+
+/**
+ * Compute an unkeyed BLAKE2b digest
+ *
+ * @param input Data to hash
+ * @param outputLength Digest length in bytes (1-64)
+ * @returns Digest bytes
+ */
+export function blake2b(input: Uint8Array, outputLength: number = 64): Uint8Array {
+  if (!Number.isInteger(outputLength) || outputLength < 1 || outputLength > 64) {
+    throw new Error('BLAKE2b output length must be between 1 and 64 bytes');
+  }
+
+  const h = new Uint32Array(IV);
+  // Parameter block: digest length, key length 0, fanout 1, depth 1
+  h[0] ^= 0x01010000 ^ outputLength;
+
+  const block = new Uint8Array(BLOCK_BYTES);
+  let offset = 0;
+  // Process all full blocks except the last one
+  while (input.length - offset > BLOCK_BYTES) {
+    block.set(input.subarray(offset, offset + BLOCK_BYTES));
+    offset += BLOCK_BYTES;
+    compress(h, block, offset, false);
+  }
+  block.fill(0);
+  block.set(input.subarray(offset));
+  compress(h, block, input.length, true);
+
+  const out = new Uint8Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    out[i] = h[i >> 2] >>> (8 * (i & 3));
+  }
+  return out;
+}
@@ -0,0 +1,140 @@
+/**
+ * Chunked AES-256-GCM for large paste content
+ *
+ * A single AES-GCM call has to hold the whole plaintext and ciphertext in
+ * memory at once and cannot report progress. Large content is split into
+ * fixed-size chunks that are encrypted one after another, each with its
+ * own nonce and authentication tag:
+ *
+ *   chunk i    min(CHUNK_SIZE, remaining) bytes of plaintext
+ *   nonce i    IV XOR (0 x 7, i as u32 big-endian, last ? 1 : 0)
+ *
+ * The counter stops chunks being reordered or dropped from the middle, and
+ * the final-chunk byte stops the ciphertext being truncated at a chunk
+ * boundary. Every chunk authenticates the same associated data.
+ *
+ * Ciphertext is the chunk ciphertexts concatenated, each CHUNK_SIZE + 16
+ * bytes except the last, so the reader can split it without a length table.
+ */
+
+/** Plaintext bytes per chunk */
+export const CHUNK_SIZE = 65536;
+
+/** AES-GCM nonce and tag sizes */
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Ciphertext bytes per full chunk */
+const SEGMENT_SIZE = CHUNK_SIZE + TAG_LENGTH;
+
+/** Largest chunk index that fits the counter */
+const MAX_CHUNK_INDEX = 0xffffffff;
+
+/**
+ * Derive the nonce of one chunk
+ *
+ * @param iv Base 12-byte IV
+ * @param index Chunk index
+ * @param last Whether this is the final chunk
+ * @returns Chunk nonce
+ */
+function chunkNonce(iv: Uint8Array, index: number, last: boolean): Uint8Array {
+  if (iv.length !== NONCE_LENGTH) {
+    throw new Error('Invalid IV length');
+  }
+  if (index > MAX_CHUNK_INDEX) {
+    throw new Error('Content has too many chunks');
+  }
+  const nonce = new Uint8Array(iv);
+  nonce[7] ^= (index >>> 24) & 0xff;
+  nonce[8] ^= (index >>> 16) & 0xff;
+  nonce[9] ^= (index >>> 8) & 0xff;
+  nonce[10] ^= index & 0xff;
+  if (last) {
+    nonce[11] ^= 1;
+  }
+  return nonce;
+}
+
+/**
+ * Encrypt content in chunks
+ *
+ * @param key AES-256-GCM key
+ * @param iv Base 12-byte IV
+ * @param plaintext Content to encrypt
+ * @param additionalData Associated data authenticated by every chunk
+ * @param onProgress Called after each chunk with the fraction done (0 to 1)
+ * @returns Concatenated chunk ciphertexts
+ */
+export async function encryptChunked(
+  key: CryptoKey,
+  iv: Uint8Array,
+  plaintext: Uint8Array,
+  additionalData: Uint8Array,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> {
+  const count = Math.max(1, Math.ceil(plaintext.length / CHUNK_SIZE));
+  const out = new Uint8Array(plaintext.length + count * TAG_LENGTH);
+
+  for (let index = 0; index < count; index++) {
+    const start = index * CHUNK_SIZE;
+    const chunk = plaintext.slice(start, Math.min(plaintext.length, start + CHUNK_SIZE));
+    const last = index === count - 1;
+    const encrypted = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkNonce(iv, index, last) as BufferSource,
+        additionalData: additionalData as BufferSource
+      },
+      key,
+      chunk as BufferSource
+    );
+    out.set(new Uint8Array(encrypted), index * SEGMENT_SIZE);
+    onProgress?.((index + 1) / count);
+  }
+  return out;
+}
+
+/**
+ * Decrypt content produced by encryptChunked
+ *
+ * @param key AES-256-GCM key
+ * @param iv Base 12-byte IV
+ * @param ciphertext Concatenated chunk ciphertexts
+ * @param additionalData Associated data authenticated by every chunk
+ * @param onProgress Called after each chunk with the fraction done (0 to 1)
+ * @returns Decrypted content
+ * @throws Error if any chunk fails to authenticate, or chunks were
+ *   reordered, dropped or truncated
+ */
+export async function decryptChunked(
+  key: CryptoKey,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  additionalData: Uint8Array,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> {
+  if (ciphertext.length < TAG_LENGTH) {
+    throw new Error('Ciphertext is truncated');
+  }
+  const count = Math.ceil(ciphertext.length / SEGMENT_SIZE);
+  const out = new Uint8Array(ciphertext.length - count * TAG_LENGTH);
+
+  for (let index = 0; index < count; index++) {
+    const start = index * SEGMENT_SIZE;
+    const last = index === count - 1;
+    const segment = ciphertext.slice(start, last ? ciphertext.length : start + SEGMENT_SIZE);
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkNonce(iv, index, last) as BufferSource,
+        additionalData: additionalData as BufferSource
+      },
+      key,
+      segment as BufferSource
+    );
+    out.set(new Uint8Array(decrypted), index * CHUNK_SIZE);
+    onProgress?.((index + 1) / count);
+  }
+  return out;
+}
@@ -0,0 +1,608 @@
+/**
+ * Paste ciphertext envelope
+ *
+ * A versioned, self-describing binary header prepended to paste ciphertext.
+ * It records which key derivation function (and its parameters) and which
+ * cipher produced the ciphertext, so algorithms can change without breaking
+ * links that were already shared.
+ *
+ * Layout (multi-byte integers are big-endian):
+ *
+ *   offset    size  field
+ *   0         4     magic "DLPE"
+ *   4         1     version
+ *   5         2     flags (optional features, see ENVELOPE_FLAGS)
+ *   7         1     KDF id
+ *   8         1     KDF parameter length (n)
+ *   9         n     KDF parameters
+ *   9+n       1     cipher id
+ *   10+n      r     recipient block (ECDH P-256 only)
+ *   10+n+r    c     key commitment (32 bytes, from version 3)
+ *   10+n+r+c  v     content IV (12 bytes, from version 4)
+ *   10+n+r+c+v ...  ciphertext
+ *
+ * KDF parameters (big-endian):
+ *
+ *   none           (empty; the content key is carried in the link)
+ *   PBKDF2-SHA256  iterations (u32)
+ *   Argon2id       memory KiB (u32), iterations (u32), parallelism (u8)
+ *   ECDH P-256     ephemeral public key (65 bytes, uncompressed)
+ *   key slots      (empty; the content key is wrapped in key slots stored
+ *                  next to the paste, see key-slots.ts)
+ *
+ * The recipient block is a count (u8) followed by that many entries of
+ * key id (8 bytes) and AES-KW wrapped content key (40 bytes).
+ *
+ * From version 2, the ciphertext also authenticates the header bytes and
+ * the paste metadata as AES-GCM associated data (see associated-data.ts).
+ *
+ * From version 3, the header carries a commitment to the content key (an
+ * HKDF-SHA256 output of the key material). AES-GCM alone is not
+ * key-committing: a crafted ciphertext can decrypt under two different
+ * keys. Readers check the commitment before decrypting, which also rejects
+ * a wrong password without running AES-GCM.
+ *
+ * From version 4, the header repeats the IV from the share link. Being
+ * part of the associated data, it binds the ciphertext to that link, and
+ * readers compare it with the link before asking for a password, so
+ * ciphertext moved from another paste is reported as tampering rather than
+ * as a wrong password.
+ *
+ * Version 5 has the same layout as version 4. Its associated data also
+ * covers the view limit.
+ *
+ * Cipher 2 is AES-256-GCM over fixed-size chunks (see chunked-aead.ts),
+ * used for content larger than one chunk.
+ *
+ * Ciphertext that does not start with the magic bytes is a legacy paste
+ * (raw AES-GCM output, PBKDF2-SHA256 at 100,000 iterations).
+ */
+
+/** Magic bytes identifying an enveloped paste ("DLPE") */
+export const ENVELOPE_MAGIC = new Uint8Array([0x44, 0x4c, 0x50, 0x45]);
+
+/** Current envelope version written by this client */
+export const ENVELOPE_VERSION = 5;
+
+/** Oldest envelope version this client can still read */
+const OLDEST_ENVELOPE_VERSION = 1;
+
+/**
+ * Feature flags; a reader must reject any bit it does not know
+ */
+export const ENVELOPE_FLAGS = {
+  /** Content key also requires a random secret from the URL fragment */
+  LINK_SECRET: 0x0001,
+  /** Plaintext is padded to hide its length (see padding.ts) */
+  PADDED: 0x0002,
+  /** Content is compressed with raw DEFLATE before padding */
+  COMPRESSED: 0x0004,
+  /** Content is a JSON paste document (title, filename, language, body) */
+  STRUCTURED: 0x0008
+} as const;
+
+/** All flag bits understood by this client */
+const SUPPORTED_FLAGS =
+  ENVELOPE_FLAGS.LINK_SECRET | ENVELOPE_FLAGS.PADDED | ENVELOPE_FLAGS.COMPRESSED | ENVELOPE_FLAGS.STRUCTURED;
+
+/** Key derivation function identifiers */
+export const KDF_IDS = {
+  NONE: 0,
+  PBKDF2_SHA256: 1,
+  ARGON2ID: 2,
+  ECDH_P256: 3,
+  KEY_SLOTS: 4
+} as const;
+
+/**
+ * Upper bound on PBKDF2 iterations accepted from an envelope, so a crafted
+ * paste cannot keep the viewer's browser deriving keys indefinitely
+ */
+export const PBKDF2_LIMITS = {
+  MAX_ITERATIONS: 10_000_000
+} as const;
+
+/**
+ * Upper bounds on Argon2id parameters accepted from an envelope, so a
+ * crafted paste cannot make the viewer's browser allocate unbounded memory
+ */
+export const ARGON2ID_LIMITS = {
+  MAX_MEMORY_KIB: 262144,
+  MAX_ITERATIONS: 16,
+  MAX_PARALLELISM: 16
+} as const;
+
+/** Maximum number of recipients of an ECDH P-256 paste */
+export const MAX_RECIPIENTS = 16;
+
+/** Sizes of the ECDH P-256 parameters and recipient entries */
+const EPHEMERAL_PUBLIC_KEY_LENGTH = 65;
+const RECIPIENT_KEY_ID_LENGTH = 8;
+const RECIPIENT_WRAPPED_KEY_LENGTH = 40;
+const RECIPIENT_ENTRY_LENGTH = RECIPIENT_KEY_ID_LENGTH + RECIPIENT_WRAPPED_KEY_LENGTH;
+
+/** First envelope version whose header carries a key commitment */
+export const KEY_COMMITMENT_MIN_VERSION = 3;
+
+/** Size of the key commitment */
+export const KEY_COMMITMENT_LENGTH = 32;
+
+/** First envelope version whose header carries the content IV */
+export const IV_BINDING_MIN_VERSION = 4;
+
+/** Size of the content IV */
+export const ENVELOPE_IV_LENGTH = 12;
+
+/** Cipher identifiers */
+export const CIPHER_IDS = {
+  AES_256_GCM: 1,
+  AES_256_GCM_CHUNKED: 2
+} as const;
+
+/**
+ * No key derivation: the random content key is carried in the share link
+ */
+export interface NoKdfParams {
+  algorithm: 'none';
+}
+
+/**
+ * PBKDF2-SHA256 parameters
+ */
+export interface Pbkdf2Params {
+  algorithm: 'pbkdf2-sha256';
+  iterations: number;
+}
+
+/**
+ * Argon2id parameters
+ */
+export interface Argon2idParams {
+  algorithm: 'argon2id';
+  /** Memory size in KiB */
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+}
+
+/**
+ * ECDH P-256 parameters: the random content key is wrapped for each
+ * recipient (see EnvelopeHeader.recipients)
+ */
+export interface EcdhP256Params {
+  algorithm: 'ecdh-p256';
+  /** Raw uncompressed ephemeral public key */
+  ephemeralPublicKey: Uint8Array;
+}
+
+/**
+ * Key slots: the random content key is wrapped under one or more
+ * password-derived keys, stored separately so they can change later
+ */
+export interface KeySlotsParams {
+  algorithm: 'key-slots';
+}
+
+/**
+ * Key derivation parameters recorded in the envelope
+ */
+export type KdfParams = NoKdfParams | Pbkdf2Params | Argon2idParams | EcdhP256Params | KeySlotsParams;
+
+/**
+ * Key derivation algorithm name
+ */
+export type KdfAlgorithm = KdfParams['algorithm'];
+
+/**
+ * Key derivation algorithms that derive the content key from a password
+ */
+export type PasswordKdfAlgorithm = Exclude<KdfAlgorithm, 'none' | 'ecdh-p256' | 'key-slots'>;
+
+/**
+ * Cipher recorded in the envelope
+ */
+export type CipherAlgorithm = 'aes-256-gcm' | 'aes-256-gcm-chunked';
+
+/**
+ * Content key wrapped for one recipient
+ */
+export interface RecipientKey {
+  /** Truncated SHA-256 of the recipient's raw public key */
+  keyId: Uint8Array;
+  /** AES-KW wrapped content key */
+  wrappedKey: Uint8Array;
+}
+
+/**
+ * Decoded envelope header
+ */
+export interface EnvelopeHeader {
+  version: number;
+  flags: number;
+  kdf: KdfParams;
+  cipher: CipherAlgorithm;
+  /** Wrapped content keys (ECDH P-256 only) */
+  recipients?: RecipientKey[];
+  /** Commitment to the content key (from version 3) */
+  commitment?: Uint8Array;
+  /** IV the content is encrypted with, as carried in the share link (from version 4) */
+  iv?: Uint8Array;
+}
+
+/**
+ * Parsed envelope: header plus the raw ciphertext that follows it
+ */
+export interface Envelope {
+  header: EnvelopeHeader;
+  /** Encoded header bytes exactly as they appeared in the payload */
+  headerBytes: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+/** Fixed-size portion of the header before the KDF parameters */
+const FIXED_PREFIX_LENGTH = 9;
+
+/** Largest header this client writes (ECDH P-256 with MAX_RECIPIENTS recipients) */
+export const MAX_ENVELOPE_HEADER_LENGTH = FIXED_PREFIX_LENGTH + EPHEMERAL_PUBLIC_KEY_LENGTH + 1 +
+  1 + MAX_RECIPIENTS * RECIPIENT_ENTRY_LENGTH + KEY_COMMITMENT_LENGTH + ENVELOPE_IV_LENGTH;
+
+/**
+ * Check whether a payload starts with the envelope magic bytes
+ *
+ * @param payload Raw paste payload
+ * @returns True if the payload is enveloped, false for legacy pastes
+ */
+export function hasEnvelope(payload: Uint8Array): boolean {
+  if (payload.length < ENVELOPE_MAGIC.length) return false;
+  for (let i = 0; i < ENVELOPE_MAGIC.length; i++) {
+    if (payload[i] !== ENVELOPE_MAGIC[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Check a PBKDF2 iteration count against PBKDF2_LIMITS
+ */
+function isValidPbkdf2Iterations(iterations: number): boolean {
+  return Number.isInteger(iterations) && iterations >= 1 && iterations <= PBKDF2_LIMITS.MAX_ITERATIONS;
+}
+
+/**
+ * Check Argon2id parameters against the algorithm's minimums and ARGON2ID_LIMITS
+ */
+function isValidArgon2idParams(kdf: Argon2idParams): boolean {
+  const { memoryKiB, iterations, parallelism } = kdf;
+  return Number.isInteger(parallelism) && parallelism >= 1 && parallelism <= ARGON2ID_LIMITS.MAX_PARALLELISM &&
+    Number.isInteger(iterations) && iterations >= 1 && iterations <= ARGON2ID_LIMITS.MAX_ITERATIONS &&
+    Number.isInteger(memoryKiB) && memoryKiB >= 8 * parallelism && memoryKiB <= ARGON2ID_LIMITS.MAX_MEMORY_KIB;
+}
+
+/**
+ * Check whether a header has a feature flag set
+ *
+ * @param header Envelope header
+ * @param flag One of ENVELOPE_FLAGS
+ * @returns True if the flag is set
+ */
+export function hasEnvelopeFlag(header: EnvelopeHeader, flag: number): boolean {
+  return (header.flags & flag) !== 0;
+}
+
+/**
+ * Check that an envelope was written for the IV in a share link
+ *
+ * Envelopes before version 4 do not record their IV and always match.
+ *
+ * @param header Envelope header
+ * @param iv IV from the share link (or the server, for links without one)
+ * @returns False if the header records a different IV
+ */
+export function envelopeMatchesIv(header: EnvelopeHeader, iv: Uint8Array): boolean {
+  if (header.version < IV_BINDING_MIN_VERSION || !header.iv) return true;
+  return header.iv.length === iv.length && header.iv.every((byte, i) => byte === iv[i]);
+}
+
+/**
+ * Check flag combinations that are not meaningful
+ *
+ * @throws Error if the flags conflict with the KDF
+ */
+function validateFlags(flags: number, kdf: KdfParams): void {
+  if ((flags & ENVELOPE_FLAGS.LINK_SECRET) !== 0 &&
+      kdf.algorithm !== 'pbkdf2-sha256' && kdf.algorithm !== 'argon2id') {
+    throw new Error('Link secret requires a password key derivation function');
+  }
+}
+
+/**
+ * Encode KDF parameters to their binary form
+ *
+ * @param kdf KDF parameters
+ * @returns KDF id and parameter bytes
+ * @throws Error if the parameters are invalid
+ */
+export function encodeKdfParams(kdf: KdfParams): { id: number; params: Uint8Array } {
+  switch (kdf.algorithm) {
+    case 'none':
+      return { id: KDF_IDS.NONE, params: new Uint8Array(0) };
+    case 'pbkdf2-sha256': {
+      if (!isValidPbkdf2Iterations(kdf.iterations)) {
+        throw new Error('Invalid PBKDF2 iteration count');
+      }
+      const params = new Uint8Array(4);
+      new DataView(params.buffer).setUint32(0, kdf.iterations);
+      return { id: KDF_IDS.PBKDF2_SHA256, params };
+    }
+    case 'argon2id': {
+      if (!isValidArgon2idParams(kdf)) {
+        throw new Error('Invalid Argon2id parameters');
+      }
+      const params = new Uint8Array(9);
+      const view = new DataView(params.buffer);
+      view.setUint32(0, kdf.memoryKiB);
+      view.setUint32(4, kdf.iterations);
+      view.setUint8(8, kdf.parallelism);
+      return { id: KDF_IDS.ARGON2ID, params };
+    }
+    case 'ecdh-p256':
+      if (kdf.ephemeralPublicKey.length !== EPHEMERAL_PUBLIC_KEY_LENGTH) {
+        throw new Error('Invalid ephemeral public key');
+      }
+      return { id: KDF_IDS.ECDH_P256, params: kdf.ephemeralPublicKey };
+    case 'key-slots':
+      return { id: KDF_IDS.KEY_SLOTS, params: new Uint8Array(0) };
+    default:
+      throw new Error('Unsupported key derivation function');
+  }
+}
+
+/**
+ * Decode KDF parameters from their binary form
+ *
+ * @param id KDF id
+ * @param params KDF parameter bytes
+ * @returns Decoded KDF parameters
+ * @throws Error if the id is unknown or the parameters are invalid
+ */
+export function decodeKdfParams(id: number, params: Uint8Array): KdfParams {
+  const view = new DataView(params.buffer, params.byteOffset, params.byteLength);
+  switch (id) {
+    case KDF_IDS.NONE:
+      if (params.length !== 0) {
+        throw new Error('Invalid key parameters in paste envelope');
+      }
+      return { algorithm: 'none' };
+    case KDF_IDS.PBKDF2_SHA256: {
+      if (params.length !== 4) {
+        throw new Error('Invalid PBKDF2 parameters in paste envelope');
+      }
+      const iterations = view.getUint32(0);
+      if (!isValidPbkdf2Iterations(iterations)) {
+        throw new Error('PBKDF2 parameters in paste envelope are out of range');
+      }
+      return { algorithm: 'pbkdf2-sha256', iterations };
+    }
+    case KDF_IDS.ARGON2ID: {
+      if (params.length !== 9) {
+        throw new Error('Invalid Argon2id parameters in paste envelope');
+      }
+      const kdf: Argon2idParams = {
+        algorithm: 'argon2id',
+        memoryKiB: view.getUint32(0),
+        iterations: view.getUint32(4),
+        parallelism: view.getUint8(8)
+      };
+      if (!isValidArgon2idParams(kdf)) {
+        throw new Error('Argon2id parameters in paste envelope are out of range');
+      }
+      return kdf;
+    }
+    case KDF_IDS.ECDH_P256:
+      if (params.length !== EPHEMERAL_PUBLIC_KEY_LENGTH) {
+        throw new Error('Invalid recipient parameters in paste envelope');
+      }
+      return { algorithm: 'ecdh-p256', ephemeralPublicKey: params.slice() };
+    case KDF_IDS.KEY_SLOTS:
+      if (params.length !== 0) {
+        throw new Error('Invalid key parameters in paste envelope');
+      }
+      return { algorithm: 'key-slots' };
+    default:
+      throw new Error(`Unsupported key derivation function (id ${id})`);
+  }
+}
+
+/**
+ * Encode the recipient block of an ECDH P-256 header
+ */
+function encodeRecipients(recipients: RecipientKey[] | undefined): Uint8Array {
+  if (!recipients || recipients.length < 1 || recipients.length > MAX_RECIPIENTS) {
+    throw new Error(`Recipient-key pastes need between 1 and ${MAX_RECIPIENTS} recipients`);
+  }
+  const out = new Uint8Array(1 + recipients.length * RECIPIENT_ENTRY_LENGTH);
+  out[0] = recipients.length;
+  recipients.forEach((recipient, i) => {
+    if (recipient.keyId.length !== RECIPIENT_KEY_ID_LENGTH ||
+        recipient.wrappedKey.length !== RECIPIENT_WRAPPED_KEY_LENGTH) {
+      throw new Error('Invalid recipient key');
+    }
+    const offset = 1 + i * RECIPIENT_ENTRY_LENGTH;
+    out.set(recipient.keyId, offset);
+    out.set(recipient.wrappedKey, offset + RECIPIENT_KEY_ID_LENGTH);
+  });
+  return out;
+}
+
+/**
+ * Decode the recipient block of an ECDH P-256 header
+ *
+ * @returns Recipients and the number of bytes consumed
+ */
+function decodeRecipients(block: Uint8Array): { recipients: RecipientKey[]; length: number } {
+  if (block.length < 1) {
+    throw new Error('Paste envelope is truncated');
+  }
+  const count = block[0];
+  if (count < 1 || count > MAX_RECIPIENTS) {
+    throw new Error('Invalid recipient parameters in paste envelope');
+  }
+  const length = 1 + count * RECIPIENT_ENTRY_LENGTH;
+  if (block.length < length) {
+    throw new Error('Paste envelope is truncated');
+  }
+  const recipients: RecipientKey[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = 1 + i * RECIPIENT_ENTRY_LENGTH;
+    recipients.push({
+      keyId: block.slice(offset, offset + RECIPIENT_KEY_ID_LENGTH),
+      wrappedKey: block.slice(offset + RECIPIENT_KEY_ID_LENGTH, offset + RECIPIENT_ENTRY_LENGTH)
+    });
+  }
+  return { recipients, length };
+}
+
+/**
+ * Encode an envelope header
+ *
+ * @param header Header to encode
+ * @returns Header bytes to prepend to the ciphertext
+ */
+export function encodeEnvelopeHeader(header: EnvelopeHeader): Uint8Array {
+  let cipherId: number;
+  switch (header.cipher) {
+    case 'aes-256-gcm':
+      cipherId = CIPHER_IDS.AES_256_GCM;
+      break;
+    case 'aes-256-gcm-chunked':
+      cipherId = CIPHER_IDS.AES_256_GCM_CHUNKED;
+      break;
+    default:
+      throw new Error('Unsupported cipher');
+  }
+  if ((header.flags & ~SUPPORTED_FLAGS) !== 0) {
+    throw new Error('Unsupported envelope flags');
+  }
+  validateFlags(header.flags, header.kdf);
+  const { id: kdfId, params } = encodeKdfParams(header.kdf);
+  const recipients = header.kdf.algorithm === 'ecdh-p256'
+    ? encodeRecipients(header.recipients)
+    : new Uint8Array(0);
+  let commitment: Uint8Array = new Uint8Array(0);
+  if (header.version >= KEY_COMMITMENT_MIN_VERSION) {
+    if (header.commitment?.length !== KEY_COMMITMENT_LENGTH) {
+      throw new Error('Invalid key commitment');
+    }
+    commitment = header.commitment;
+  }
+  let iv: Uint8Array = new Uint8Array(0);
+  if (header.version >= IV_BINDING_MIN_VERSION) {
+    if (header.iv?.length !== ENVELOPE_IV_LENGTH) {
+      throw new Error('Invalid envelope IV');
+    }
+    iv = header.iv;
+  }
+
+  const out = new Uint8Array(
+    FIXED_PREFIX_LENGTH + params.length + 1 + recipients.length + commitment.length + iv.length
+  );
+  const view = new DataView(out.buffer);
+  out.set(ENVELOPE_MAGIC, 0);
+  view.setUint8(4, header.version);
+  view.setUint16(5, header.flags);
+  view.setUint8(7, kdfId);
+  view.setUint8(8, params.length);
+  out.set(params, FIXED_PREFIX_LENGTH);
+  view.setUint8(FIXED_PREFIX_LENGTH + params.length, cipherId);
+  out.set(recipients, FIXED_PREFIX_LENGTH + params.length + 1);
+  out.set(commitment, FIXED_PREFIX_LENGTH + params.length + 1 + recipients.length);
+  out.set(iv, FIXED_PREFIX_LENGTH + params.length + 1 + recipients.length + commitment.length);
+  return out;
+}
+
+/**
+ * Wrap ciphertext in an envelope
+ *
+ * @param header Envelope header
+ * @param ciphertext Raw ciphertext
+ * @returns Header followed by ciphertext
+ */
+export function encodeEnvelope(header: EnvelopeHeader, ciphertext: ArrayBuffer | Uint8Array): Uint8Array {
+  const headerBytes = encodeEnvelopeHeader(header);
+  const body = ciphertext instanceof Uint8Array ? ciphertext : new Uint8Array(ciphertext);
+  const out = new Uint8Array(headerBytes.length + body.length);
+  out.set(headerBytes, 0);
+  out.set(body, headerBytes.length);
+  return out;
+}
+
+/**
+ * Parse an enveloped payload
+ *
+ * @param payload Raw paste payload
+ * @returns Parsed envelope, or null if the payload is a legacy (unenveloped) paste
+ * @throws Error if the envelope is truncated or uses an unsupported version, flag, KDF or cipher
+ */
+export function parseEnvelope(payload: Uint8Array): Envelope | null {
+  if (!hasEnvelope(payload)) return null;
+
+  if (payload.length < FIXED_PREFIX_LENGTH) {
+    throw new Error('Paste envelope is truncated');
+  }
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const version = view.getUint8(4);
+  if (version < OLDEST_ENVELOPE_VERSION || version > ENVELOPE_VERSION) {
+    throw new Error(`Unsupported paste format version ${version}`);
+  }
+  const flags = view.getUint16(5);
+  if ((flags & ~SUPPORTED_FLAGS) !== 0) {
+    throw new Error('Paste uses unsupported format features');
+  }
+  const kdfId = view.getUint8(7);
+  const kdfLength = view.getUint8(8);
+  const cipherOffset = FIXED_PREFIX_LENGTH + kdfLength;
+  if (payload.length < cipherOffset + 1) {
+    throw new Error('Paste envelope is truncated');
+  }
+  const kdf = decodeKdfParams(kdfId, payload.subarray(FIXED_PREFIX_LENGTH, cipherOffset));
+  validateFlags(flags, kdf);
+  const cipherId = view.getUint8(cipherOffset);
+  let cipher: CipherAlgorithm;
+  switch (cipherId) {
+    case CIPHER_IDS.AES_256_GCM:
+      cipher = 'aes-256-gcm';
+      break;
+    case CIPHER_IDS.AES_256_GCM_CHUNKED:
+      cipher = 'aes-256-gcm-chunked';
+      break;
+    default:
+      throw new Error(`Unsupported cipher (id ${cipherId})`);
+  }
+
+  const header: EnvelopeHeader = { version, flags, kdf, cipher };
+  let headerLength = cipherOffset + 1;
+  if (kdf.algorithm === 'ecdh-p256') {
+    const block = decodeRecipients(payload.subarray(headerLength));
+    header.recipients = block.recipients;
+    headerLength += block.length;
+  }
+  if (version >= KEY_COMMITMENT_MIN_VERSION) {
+    if (payload.length < headerLength + KEY_COMMITMENT_LENGTH) {
+      throw new Error('Paste envelope is truncated');
+    }
+    header.commitment = payload.slice(headerLength, headerLength + KEY_COMMITMENT_LENGTH);
+    headerLength += KEY_COMMITMENT_LENGTH;
+  }
+  if (version >= IV_BINDING_MIN_VERSION) {
+    if (payload.length < headerLength + ENVELOPE_IV_LENGTH) {
+      throw new Error('Paste envelope is truncated');
+    }
+    header.iv = payload.slice(headerLength, headerLength + ENVELOPE_IV_LENGTH);
+    headerLength += ENVELOPE_IV_LENGTH;
+  }
+
+  return {
+    header,
+    headerBytes: payload.subarray(0, headerLength),
+    ciphertext: payload.subarray(headerLength)
+  };
+}
@@ -8,6 +8,58 @@
 export { ICryptoProvider, EncryptionResult, DecryptionInput } from './interfaces.js';
 export { AesGcmCryptoProvider } from './aes-gcm.js';
 export { encodeBase64Url, decodeBase64Url } from './encoding.js';
+export {
+  ENVELOPE_MAGIC,
+  ENVELOPE_VERSION,
+  ENVELOPE_FLAGS,
+  KDF_IDS,
+  CIPHER_IDS,
+  ARGON2ID_LIMITS,
+  PBKDF2_LIMITS,
+  MAX_RECIPIENTS,
+  KEY_COMMITMENT_MIN_VERSION,
+  KEY_COMMITMENT_LENGTH,
+  IV_BINDING_MIN_VERSION,
+  ENVELOPE_IV_LENGTH,
+  MAX_ENVELOPE_HEADER_LENGTH,
+  hasEnvelope,
+  hasEnvelopeFlag,
+  envelopeMatchesIv,
+  encodeEnvelope,
+  encodeEnvelopeHeader,
+  encodeKdfParams,
+  decodeKdfParams,
+  parseEnvelope
+} from './envelope.js';
+export type {
+  Envelope,
+  EnvelopeHeader,
+  KdfParams,
+  KdfAlgorithm,
+  PasswordKdfAlgorithm,
+  NoKdfParams,
+  Pbkdf2Params,
+  Argon2idParams,
+  EcdhP256Params,
+  KeySlotsParams,
+  RecipientKey,
+  CipherAlgorithm
+} from './envelope.js';
+export {
+  DEFAULT_PADDING,
+  DEFAULT_CHAT_PADDING,
+  PADDING_LIMITS,
+  paddedLength,
+  padPlaintext,
+  unpadPlaintext
+} from './padding.js';
+export type { PaddingParams, PaddingScheme } from './padding.js';
+export { CHUNK_SIZE, encryptChunked, decryptChunked } from './chunked-aead.js';
+export { KEY_SLOTS_VERSION, MAX_KEY_SLOTS, encodeKeySlots, decodeKeySlots } from './key-slots.js';
+export type { KeySlot } from './key-slots.js';
+export { argon2id } from './argon2.js';
+export type { Argon2idOptions } from './argon2.js';
+export { blake2b } from './blake2b.js';
 
 import { AesGcmCryptoProvider } from './aes-gcm.js';
 import { ICryptoProvider } from './interfaces.js';
@@ -0,0 +1,121 @@
+/**
+ * Password key slots
+ *
+ * A key-slot paste is encrypted with a random content key, and that key is
+ * wrapped once per password (like LUKS key slots). The slots are stored by
+ * the server next to the ciphertext, so the creator can add or remove
+ * passwords later without re-uploading the content.
+ *
+ * Layout (multi-byte integers are big-endian):
+ *
+ *   offset  size  field
+ *   0       1     version
+ *   1       1     slot count
+ *   2       ...   slots
+ *
+ * Each slot:
+ *
+ *   size  field
+ *   1     KDF id (PBKDF2-SHA256 or Argon2id, as in the envelope)
+ *   1     KDF parameter length (n)
+ *   n     KDF parameters
+ *   40    AES-KW wrapped content key
+ */
+
+import { decodeKdfParams, encodeKdfParams } from './envelope.js';
+import type { Argon2idParams, Pbkdf2Params } from './envelope.js';
+
+/** Current key slot format version written by this client */
+export const KEY_SLOTS_VERSION = 1;
+
+/** Maximum number of key slots per paste */
+export const MAX_KEY_SLOTS = 8;
+
+/** Size of a wrapped 32-byte content key (AES-KW adds 8 bytes) */
+const WRAPPED_KEY_LENGTH = 40;
+
+/**
+ * Content key wrapped under one password
+ */
+export interface KeySlot {
+  /** Password KDF and its parameters */
+  kdf: Pbkdf2Params | Argon2idParams;
+  /** AES-KW wrapped content key */
+  wrappedKey: Uint8Array;
+}
+
+/**
+ * Encode key slots
+ *
+ * @param slots Key slots (1 to MAX_KEY_SLOTS)
+ * @returns Encoded key slots
+ * @throws Error if there are too few or too many slots, or a slot is invalid
+ */
+export function encodeKeySlots(slots: KeySlot[]): Uint8Array {
+  if (slots.length < 1 || slots.length > MAX_KEY_SLOTS) {
+    throw new Error(`A paste needs between 1 and ${MAX_KEY_SLOTS} passwords`);
+  }
+  const encoded = slots.map(slot => {
+    if (slot.wrappedKey.length !== WRAPPED_KEY_LENGTH) {
+      throw new Error('Invalid key slot');
+    }
+    return { ...encodeKdfParams(slot.kdf), wrappedKey: slot.wrappedKey };
+  });
+
+  const length = encoded.reduce((sum, slot) => sum + 2 + slot.params.length + WRAPPED_KEY_LENGTH, 2);
+  const out = new Uint8Array(length);
+  out[0] = KEY_SLOTS_VERSION;
+  out[1] = slots.length;
+  let offset = 2;
+  for (const slot of encoded) {
+    out[offset] = slot.id;
+    out[offset + 1] = slot.params.length;
+    out.set(slot.params, offset + 2);
+    offset += 2 + slot.params.length;
+    out.set(slot.wrappedKey, offset);
+    offset += WRAPPED_KEY_LENGTH;
+  }
+  return out;
+}
+
+/**
+ * Decode key slots
+ *
+ * @param bytes Encoded key slots
+ * @returns Key slots
+ * @throws Error if the data is truncated, has an unsupported version, or a slot uses a non-password KDF
+ */
+export function decodeKeySlots(bytes: Uint8Array): KeySlot[] {
+  if (bytes.length < 2) {
+    throw new Error('Key slots are truncated');
+  }
+  if (bytes[0] !== KEY_SLOTS_VERSION) {
+    throw new Error(`Unsupported key slot version ${bytes[0]}`);
+  }
+  const count = bytes[1];
+  if (count < 1 || count > MAX_KEY_SLOTS) {
+    throw new Error('Invalid key slot count');
+  }
+
+  const slots: KeySlot[] = [];
+  let offset = 2;
+  for (let i = 0; i < count; i++) {
+    if (bytes.length < offset + 2) {
+      throw new Error('Key slots are truncated');
+    }
+    const paramsEnd = offset + 2 + bytes[offset + 1];
+    if (bytes.length < paramsEnd + WRAPPED_KEY_LENGTH) {
+      throw new Error('Key slots are truncated');
+    }
+    const kdf = decodeKdfParams(bytes[offset], bytes.subarray(offset + 2, paramsEnd));
+    if (kdf.algorithm !== 'pbkdf2-sha256' && kdf.algorithm !== 'argon2id') {
+      throw new Error('Key slots must use a password key derivation function');
+    }
+    slots.push({ kdf, wrappedKey: bytes.slice(paramsEnd, paramsEnd + WRAPPED_KEY_LENGTH) });
+    offset = paramsEnd + WRAPPED_KEY_LENGTH;
+  }
+  if (offset !== bytes.length) {
+    throw new Error('Unexpected data after key slots');
+  }
+  return slots;
+}
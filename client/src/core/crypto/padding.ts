@@ -0,0 +1,124 @@
+/**
+ * Length-hiding plaintext padding
+ *
+ * Ciphertext is exactly as long as its plaintext plus a fixed overhead, so
+ * without padding the server learns the length of every paste and chat
+ * message, enough to tell a 4-digit PIN from a 16-character API key.
+ * Padding rounds the plaintext up to a bucket before encryption:
+ *
+ *   none          no padding
+ *   power-of-two  the next power of two, but at least `minimum` bytes
+ *   block         the next multiple of `blockSize` bytes
+ *
+ * Padded paste plaintext is the content, one 0x80 byte, then zero bytes up
+ * to the padded length (ISO/IEC 7816-4). It can be removed without knowing
+ * which scheme chose the length, so the envelope only records that the
+ * content is padded (ENVELOPE_FLAGS.PADDED).
+ */
+
+/**
+ * Padding parameters
+ */
+export type PaddingParams =
+  | { scheme: 'none' }
+  | { scheme: 'power-of-two'; minimum: number }
+  | { scheme: 'block'; blockSize: number };
+
+/**
+ * Padding scheme name
+ */
+export type PaddingScheme = PaddingParams['scheme'];
+
+/**
+ * Bounds on the bucket sizes accepted by paddedLength
+ */
+export const PADDING_LIMITS = {
+  MIN_BUCKET: 16,
+  MAX_BUCKET: 1048576
+} as const;
+
+/** Default padding for paste content */
+export const DEFAULT_PADDING: PaddingParams = { scheme: 'power-of-two', minimum: 256 };
+
+/**
+ * Default padding for chat messages
+ *
+ * Fixed blocks keep the largest message well inside the server's
+ * per-message limit, where a power of two could double it.
+ */
+export const DEFAULT_CHAT_PADDING: PaddingParams = { scheme: 'block', blockSize: 256 };
+
+/** Marker byte that ends the content in padded plaintext */
+const PADDING_MARKER = 0x80;
+
+/**
+ * Check that a bucket size is an integer within PADDING_LIMITS
+ */
+function isValidBucket(size: number): boolean {
+  return Number.isInteger(size) && size >= PADDING_LIMITS.MIN_BUCKET && size <= PADDING_LIMITS.MAX_BUCKET;
+}
+
+/**
+ * Compute the padded length for a plaintext length
+ *
+ * @param length Length to pad, in bytes
+ * @param padding Padding parameters
+ * @returns Smallest bucket of the scheme that holds the length
+ * @throws Error if the padding parameters are invalid
+ */
+export function paddedLength(length: number, padding: PaddingParams): number {
+  switch (padding.scheme) {
+    case 'none':
+      return length;
+    case 'power-of-two': {
+      if (!isValidBucket(padding.minimum)) {
+        throw new Error('Invalid padding parameters');
+      }
+      let bucket = padding.minimum;
+      while (bucket < length) {
+        bucket *= 2;
+      }
+      return bucket;
+    }
+    case 'block': {
+      if (!isValidBucket(padding.blockSize)) {
+        throw new Error('Invalid padding parameters');
+      }
+      return Math.max(1, Math.ceil(length / padding.blockSize)) * padding.blockSize;
+    }
+    default:
+      throw new Error('Unsupported padding scheme');
+  }
+}
+
+/**
+ * Pad plaintext to its bucket
+ *
+ * @param plaintext Plaintext bytes
+ * @param padding Padding parameters (must not be 'none')
+ * @returns Plaintext, marker byte and zero bytes
+ */
+export function padPlaintext(plaintext: Uint8Array, padding: PaddingParams): Uint8Array {
+  const out = new Uint8Array(paddedLength(plaintext.length + 1, padding));
+  out.set(plaintext, 0);
+  out[plaintext.length] = PADDING_MARKER;
+  return out;
+}
+
+/**
+ * Remove padding added by padPlaintext
+ *
+ * @param padded Padded plaintext
+ * @returns View of the original plaintext
+ * @throws Error if the padding is malformed
+ */
+export function unpadPlaintext(padded: Uint8Array): Uint8Array {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) {
+    end--;
+  }
+  if (end < 0 || padded[end] !== PADDING_MARKER) {
+    throw new Error('Invalid padding');
+  }
+  return padded.subarray(0, end);
+}
@@ -17,6 +17,97 @@ export interface EncryptedData {
   ctB64: string;
 }
 
+/**
+ * Result of encrypting a paste with a password
+ */
+export interface EncryptedPaste extends EncryptedData {
+  /** Base64url-encoded delete authorization derived from the same password */
+  deleteAuth: string;
+  /** Base64url-encoded secret for the URL fragment (two-factor pastes only) */
+  linkSecretB64?: string;
+  /** Base64url-encoded password key slots, stored by the server (key-slot pastes only) */
+  keySlotsB64?: string;
+}
+
+/**
+ * Keys derived from a paste password
+ */
+export interface PasteKeys {
+  /** AES-GCM key for the paste content */
+  contentKey: CryptoKey;
+  /** AES-GCM key for chat messages (equals contentKey for PBKDF2 pastes) */
+  chatKey: CryptoKey;
+  /** Base64url-encoded delete authorization */
+  deleteAuth: string;
+  /** Commitment to the content key, checked against the envelope */
+  commitment: Uint8Array;
+  /** Extractable content key for adding key slots (key-slot pastes only) */
+  slotKey?: CryptoKey;
+}
+
+/**
+ * File attached to a paste
+ */
+export interface PasteAttachment {
+  /** File name as chosen by the creator */
+  name: string;
+  /** MIME type reported by the creator's browser */
+  mime: string;
+  /** Size in bytes */
+  size: number;
+  /** Base64url-encoded file content */
+  data: string;
+}
+
+/**
+ * Decrypted paste content with its details
+ *
+ * Encrypted as a whole, so the server never sees the title, filename,
+ * language or attached files. Legacy pastes decrypt to a document with
+ * only a body.
+ */
+export interface PasteDocument {
+  /** Paste text */
+  body: string;
+  title?: string;
+  filename?: string;
+  /** Language for syntax highlighting (absent for markdown) */
+  language?: string;
+  /** Creation time in milliseconds since the epoch */
+  createdAt?: number;
+  /** Attached files */
+  attachments?: PasteAttachment[];
+}
+
+/**
+ * Image of an image paste, with its type detected from the content
+ */
+export interface PasteImage {
+  /** Attachment holding the image */
+  attachment: PasteAttachment;
+  /** Decoded image content */
+  bytes: Uint8Array;
+  /** image/png, image/jpeg, image/gif or image/webp */
+  mime: string;
+}
+
+/**
+ * Paste content encoded for encryption
+ */
+export interface EncodedContent {
+  /** UTF-8 bytes of the content, compressed if `compressed` is set */
+  bytes: Uint8Array;
+  /** Whether the bytes are raw DEFLATE */
+  compressed: boolean;
+  /** Whether the bytes are a JSON PasteDocument rather than plain text */
+  structured: boolean;
+}
+
+/**
+ * Called as a long-running operation advances, with the fraction done (0 to 1)
+ */
+export type ProgressCallback = (fraction: number) => void;
+
 /**
  * Proof-of-work challenge from server
  */
@@ -25,6 +116,8 @@ export interface PowChallenge {
   challenge: string;
   /** Number of leading zero bits required */
   difficulty: number;
+  /** Unix timestamp (seconds) after which the server rejects solutions */
+  expiresAt?: number;
 }
 
 /**
@@ -37,6 +130,23 @@ export interface PowSolution {
   nonce: number;
 }
 
+/**
+ * Progress of a proof-of-work search
+ */
+export interface PowProgress {
+  /** Hashes tried so far */
+  hashes: number;
+  /** Hashes per second since the search started */
+  hashRate: number;
+  /** Hashes a search takes on average at the challenge's difficulty (2^difficulty) */
+  expectedHashes: number;
+}
+
+/**
+ * Called as a proof-of-work search advances
+ */
+export type PowProgressCallback = (progress: PowProgress) => void;
+
 /**
  * Paste metadata sent to the API
  */
@@ -47,6 +157,8 @@ export interface PasteMetadata {
   mime: string;
   /** If true, anonymous chat is enabled for this paste */
   allowChat?: boolean;
+  /** Number of views before the server deletes the paste (absent for unlimited) */
+  maxViews?: number | null;
 }
 
 /**
@@ -63,6 +175,8 @@ export interface CreatePasteRequest {
   pow?: PowSolution | null;
   /** Password-derived delete authorization (allows viewers to delete) */
   deleteAuth?: string;
+  /** Base64url-encoded password key slots (key-slot pastes only) */
+  keySlots?: string;
 }
 
 /**
@@ -85,6 +199,18 @@ export interface GetPasteResponse {
   iv: string;
   /** Paste metadata */
   meta: PasteMetadata;
+  /** Base64url-encoded password key slots (key-slot pastes only) */
+  keySlots?: string | null;
+  /** Views left after this one (view-limited pastes only; 0 means the paste was deleted) */
+  viewsRemaining?: number | null;
+}
+
+/**
+ * Paste limits published by the server
+ */
+export interface PasteLimits {
+  /** Maximum size of the ciphertext in bytes */
+  maxSizeBytes: number;
 }
 
 /**
@@ -110,3 +236,21 @@ export interface PasteCreated {
   /** Deletion URL */
   deleteUrl: string;
 }
+
+/**
+ * Range of lines in a paste, as carried in a view URL (1-based, inclusive)
+ */
+export interface LineRange {
+  /** First line */
+  start: number;
+  /** Last line (equal to start for a single line) */
+  end: number;
+}
+
+/**
+ * Place in a paste that a view URL points to, kept in the fragment after
+ * the key material
+ */
+export type ViewAnchor =
+  | { kind: 'lines'; range: LineRange }
+  | { kind: 'heading'; id: string };
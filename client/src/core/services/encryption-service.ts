@@ -6,14 +6,92 @@
  */
 
 import {
-  encryptWithPassword,
-  decryptWithPassword,
+  deriveArgon2idKeys,
   deriveDeleteAuth,
   deriveKeyFromPassword,
-  secureClearBuffer
+  deriveKeySlotWrapKey,
+  deriveLinkKeys,
+  derivePbkdf2ContentKey,
+  deriveTwoFactorKeys,
+  exportRecipientPublicKey,
+  generateLinkSecret,
+  generateSalt,
+  importKeySlotContentKey,
+  keyCommitmentsEqual,
+  recipientKeyId,
+  secureClearBuffer,
+  unwrapKeySlot,
+  unwrapLinkKeyForRecipient,
+  wrapKeySlot,
+  wrapLinkKeyForRecipients,
+  ARGON2ID_DEFAULTS,
+  LINK_KEY_LENGTH,
+  PBKDF2_ITERATIONS
 } from '../../security.js';
 import { encodeBase64Url, decodeBase64Url } from '../crypto/encoding.js';
-import type { EncryptedData } from '../models/paste.js';
+import {
+  ENVELOPE_FLAGS,
+  ENVELOPE_VERSION,
+  KEY_COMMITMENT_MIN_VERSION,
+  MAX_ENVELOPE_HEADER_LENGTH,
+  encodeEnvelopeHeader,
+  envelopeMatchesIv,
+  hasEnvelopeFlag,
+  parseEnvelope
+} from '../crypto/envelope.js';
+import type {
+  Argon2idParams,
+  EnvelopeHeader,
+  KdfParams,
+  PasswordKdfAlgorithm,
+  Pbkdf2Params
+} from '../crypto/envelope.js';
+import { encodeAssociatedData, usesAssociatedData } from '../crypto/associated-data.js';
+import {
+  DEFAULT_CHAT_PADDING,
+  DEFAULT_PADDING,
+  paddedLength,
+  padPlaintext,
+  unpadPlaintext
+} from '../crypto/padding.js';
+import type { PaddingParams } from '../crypto/padding.js';
+import { decodeKeySlots, encodeKeySlots } from '../crypto/key-slots.js';
+import type { KeySlot } from '../crypto/key-slots.js';
+import { AesGcmCryptoProvider } from '../crypto/aes-gcm.js';
+import type { ICryptoProvider } from '../crypto/interfaces.js';
+import { CHUNK_SIZE, decryptChunked, encryptChunked } from '../crypto/chunked-aead.js';
+import type {
+  EncodedContent,
+  EncryptedPaste,
+  PasteDocument,
+  PasteKeys,
+  PasteMetadata,
+  ProgressCallback
+} from '../models/paste.js';
+import { decodePasteDocument, encodePasteDocument } from '../utils/paste-document.js';
+import { compress, decompress } from '../compression/index.js';
+import { MAX_DOCUMENT_SIZE } from '../validators/index.js';
+
+/**
+ * Messages of the errors thrown when a key does not open a paste
+ *
+ * Any other error means keys could not be derived or the crypto could not
+ * run, which says nothing about whether the password was right.
+ */
+export const KEY_REJECTED_MESSAGES = {
+  INCORRECT_PASSWORD: 'Incorrect password',
+  KEY_MISMATCH: 'Key does not match this paste',
+  DECRYPTION_FAILED: 'Paste did not decrypt with this key'
+} as const;
+
+/**
+ * Whether an error means a key did not open a paste
+ *
+ * @param error Error from deriving keys or decrypting a paste
+ */
+export function isKeyRejected(error: unknown): boolean {
+  return error instanceof Error && (Object.values(KEY_REJECTED_MESSAGES) as string[]).includes(error.message);
+}
 
 /**
  * Chat message structure (domain model)
@@ -33,48 +111,716 @@ export interface DecryptedChatMessage {
   timestamp?: number;
 }
 
+/** Size of an AES-GCM authentication tag */
+const AES_GCM_TAG_LENGTH = 16;
+
+/** Bytes the empty pad field adds to a chat payload: ,"pad":"" */
+const CHAT_PAD_FIELD_OVERHEAD = 9;
+
+/**
+ * Default KDF parameters for new pastes
+ */
+function defaultKdfParams(algorithm: PasswordKdfAlgorithm): Pbkdf2Params | Argon2idParams {
+  switch (algorithm) {
+    case 'argon2id':
+      return { algorithm: 'argon2id', ...ARGON2ID_DEFAULTS };
+    case 'pbkdf2-sha256':
+      return { algorithm: 'pbkdf2-sha256', iterations: PBKDF2_ITERATIONS };
+    default:
+      throw new Error('Unsupported key derivation function');
+  }
+}
+
 /**
  * Encryption service for paste operations
  */
 export class EncryptionService {
+  constructor(private cryptoProvider: ICryptoProvider = new AesGcmCryptoProvider()) {}
+
   /**
    * Encrypt paste content with password
    * 
-   * @param content Plaintext content to encrypt
+   * The ciphertext is wrapped in a versioned envelope recording the KDF and
+   * cipher used, so future clients can decrypt it after defaults change.
+   * The envelope commits to the content key, and the header and metadata
+   * are authenticated as associated data.
+   * 
+   * @param content Plaintext content, or content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
    * @param password User-provided password
-   * @returns Promise resolving to encrypted data with base64url-encoded values
+   * @param kdf Key derivation function for the password (defaults to PBKDF2)
+   * @param twoFactor Also require a random secret carried in the share link
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to encrypted data with base64url-encoded values and delete authorization
    */
-  async encryptPaste(content: string, password: string): Promise<EncryptedData> {
-    const { encryptedData, salt, iv } = await encryptWithPassword(content, password);
+  async encryptPaste(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    password: string,
+    kdf: PasswordKdfAlgorithm = 'pbkdf2-sha256',
+    twoFactor: boolean = false,
+    padding: PaddingParams = DEFAULT_PADDING,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    const header: EnvelopeHeader = {
+      version: ENVELOPE_VERSION,
+      flags: twoFactor ? ENVELOPE_FLAGS.LINK_SECRET : 0,
+      kdf: defaultKdfParams(kdf),
+      cipher: 'aes-256-gcm'
+    };
+    const salt = generateSalt();
+    const iv = new Uint8Array(12);
+    crypto.getRandomValues(iv);
+    const linkSecret = twoFactor ? generateLinkSecret() : undefined;
+
+    const keys = await this.derivePasteKeys(password, salt, header.kdf, linkSecret);
     
     return {
       keyB64: encodeBase64Url(salt),
       ivB64: encodeBase64Url(iv),
-      ctB64: encodeBase64Url(encryptedData)
+      ctB64: await this.sealEnvelope(header, keys, iv, content, meta, padding, onProgress),
+      deleteAuth: keys.deleteAuth,
+      linkSecretB64: linkSecret ? encodeBase64Url(linkSecret) : undefined
+    };
+  }
+
+  /**
+   * Encrypt paste content with a random key carried in the share link
+   * 
+   * No password is involved: the provider's random key becomes the first
+   * URL fragment field in place of the salt.
+   * 
+   * @param content Plaintext content, or content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to encrypted data (keyB64 is the link key) and delete authorization
+   */
+  async encryptPasteWithLinkKey(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    padding: PaddingParams = DEFAULT_PADDING,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    const header: EnvelopeHeader = {
+      version: ENVELOPE_VERSION,
+      flags: 0,
+      kdf: { algorithm: 'none' },
+      cipher: 'aes-256-gcm'
+    };
+    const iv = this.cryptoProvider.generateIV();
+    const linkKey = new Uint8Array(
+      await crypto.subtle.exportKey('raw', await this.cryptoProvider.generateKey())
+    );
+
+    try {
+      const keys = await deriveLinkKeys(linkKey);
+      return {
+        keyB64: encodeBase64Url(linkKey),
+        ivB64: encodeBase64Url(iv),
+        ctB64: await this.sealEnvelope(header, keys, iv, content, meta, padding, onProgress),
+        deleteAuth: keys.deleteAuth
+      };
+    } finally {
+      secureClearBuffer(linkKey.buffer as ArrayBuffer);
+    }
+  }
+
+  /**
+   * Encrypt paste content for one or more recipients' public keys
+   * 
+   * A random content key is wrapped for each recipient with ECDH P-256, so
+   * only holders of a matching private key can open the paste. Chat and
+   * delete keys are expanded from the content key as for link-key pastes.
+   * 
+   * @param content Plaintext content, or content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param recipientPublicKeys Base64url-encoded raw public keys of the recipients
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to encrypted data (keyB64 is the salt) and delete authorization
+   * @throws Error if a recipient public key is invalid
+   */
+  async encryptPasteForRecipients(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    recipientPublicKeys: string[],
+    padding: PaddingParams = DEFAULT_PADDING,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    const publicKeys = [...new Set(recipientPublicKeys)].map(key => {
+      try {
+        return new Uint8Array(decodeBase64Url(key));
+      } catch {
+        throw new Error('Invalid recipient public key');
+      }
+    });
+    const salt = generateSalt();
+    const iv = new Uint8Array(12);
+    crypto.getRandomValues(iv);
+    const linkKey = new Uint8Array(LINK_KEY_LENGTH);
+    crypto.getRandomValues(linkKey);
+
+    try {
+      const wrapped = await wrapLinkKeyForRecipients(linkKey, salt, publicKeys);
+      const header: EnvelopeHeader = {
+        version: ENVELOPE_VERSION,
+        flags: 0,
+        kdf: { algorithm: 'ecdh-p256', ephemeralPublicKey: wrapped.ephemeralPublicKey },
+        cipher: 'aes-256-gcm',
+        recipients: wrapped.recipients
+      };
+      const keys = await deriveLinkKeys(linkKey);
+
+      return {
+        keyB64: encodeBase64Url(salt),
+        ivB64: encodeBase64Url(iv),
+        ctB64: await this.sealEnvelope(header, keys, iv, content, meta, padding, onProgress),
+        deleteAuth: keys.deleteAuth
+      };
+    } finally {
+      secureClearBuffer(linkKey.buffer as ArrayBuffer);
+    }
+  }
+
+  /**
+   * Encrypt paste content so that any of several passwords opens it
+   * 
+   * A random content key is wrapped into one key slot per password. The
+   * slots are stored by the server next to the paste, so passwords can be
+   * added or removed later without re-encrypting the content. Chat and
+   * delete keys are expanded from the content key as for link-key pastes,
+   * so every password holder shares them.
+   * 
+   * @param content Plaintext content, or content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param passwords User-provided passwords (duplicates are ignored)
+   * @param kdf Key derivation function for the passwords (defaults to PBKDF2)
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to encrypted data (keyB64 is the salt), delete authorization and key slots
+   */
+  async encryptPasteWithKeySlots(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    passwords: string[],
+    kdf: PasswordKdfAlgorithm = 'pbkdf2-sha256',
+    padding: PaddingParams = DEFAULT_PADDING,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    const header: EnvelopeHeader = {
+      version: ENVELOPE_VERSION,
+      flags: 0,
+      kdf: { algorithm: 'key-slots' },
+      cipher: 'aes-256-gcm'
     };
+    const salt = generateSalt();
+    const iv = new Uint8Array(12);
+    crypto.getRandomValues(iv);
+    const linkKey = new Uint8Array(LINK_KEY_LENGTH);
+    crypto.getRandomValues(linkKey);
+
+    try {
+      const slotKey = await importKeySlotContentKey(linkKey);
+      const slotKdf = defaultKdfParams(kdf);
+      const wrapSlot = async (password: string): Promise<KeySlot> => {
+        const wrapKey = await deriveKeySlotWrapKey(password, salt, slotKdf);
+        return { kdf: slotKdf, wrappedKey: await wrapKeySlot(slotKey, wrapKey) };
+      };
+      const distinctPasswords = [...new Set(passwords)];
+      const slots: KeySlot[] = [];
+      if (slotKdf.algorithm === 'argon2id') {
+        // One slot at a time: Argon2id allocates its full memory cost per run
+        for (const password of distinctPasswords) {
+          slots.push(await wrapSlot(password));
+        }
+      } else {
+        // PBKDF2 derivations are independent, so they run together
+        slots.push(...await Promise.all(distinctPasswords.map(wrapSlot)));
+      }
+      const keySlots = encodeKeySlots(slots);
+
+      const keys = await deriveLinkKeys(linkKey);
+
+      return {
+        keyB64: encodeBase64Url(salt),
+        ivB64: encodeBase64Url(iv),
+        ctB64: await this.sealEnvelope(header, keys, iv, content, meta, padding, onProgress),
+        deleteAuth: keys.deleteAuth,
+        keySlotsB64: encodeBase64Url(keySlots)
+      };
+    } finally {
+      secureClearBuffer(linkKey.buffer as ArrayBuffer);
+    }
+  }
+
+  /**
+   * Derive all keys for a key-slot paste from one of its passwords
+   * 
+   * The password KDF runs once per distinct set of slot parameters, and the
+   * result is tried against every slot that uses them.
+   * 
+   * @param keySlotsB64 Base64url-encoded key slots from the server
+   * @param password User-provided password
+   * @param salt Salt from the paste (as Uint8Array)
+   * @returns Promise resolving to content key, chat key, delete authorization and slot key
+   * @throws Error if the password opens none of the slots
+   */
+  async unlockKeySlots(keySlotsB64: string, password: string, salt: Uint8Array): Promise<PasteKeys> {
+    const slots = this.readKeySlots(keySlotsB64);
+    const wrapKeys = new Map<string, CryptoKey>();
+
+    for (const slot of slots) {
+      const kdfKey = JSON.stringify(slot.kdf);
+      let wrapKey = wrapKeys.get(kdfKey);
+      if (!wrapKey) {
+        wrapKey = await deriveKeySlotWrapKey(password, salt, slot.kdf);
+        wrapKeys.set(kdfKey, wrapKey);
+      }
+
+      let slotKey: CryptoKey;
+      try {
+        slotKey = await unwrapKeySlot(slot.wrappedKey, wrapKey);
+      } catch {
+        // Wrong password for this slot; try the next one
+        continue;
+      }
+      const linkKey = new Uint8Array(await crypto.subtle.exportKey('raw', slotKey));
+      try {
+        return { ...await deriveLinkKeys(linkKey), slotKey };
+      } finally {
+        secureClearBuffer(linkKey.buffer as ArrayBuffer);
+      }
+    }
+    throw new Error(KEY_REJECTED_MESSAGES.INCORRECT_PASSWORD);
+  }
+
+  /**
+   * Decode the key slots of a paste
+   * 
+   * @param keySlotsB64 Base64url-encoded key slots from the server
+   * @returns Key slots, in order
+   * @throws Error if the key slots are malformed
+   */
+  readKeySlots(keySlotsB64: string): KeySlot[] {
+    return decodeKeySlots(new Uint8Array(decodeBase64Url(keySlotsB64)));
+  }
+
+  /**
+   * Add a password to a key-slot paste
+   * 
+   * @param keySlotsB64 Current base64url-encoded key slots
+   * @param slotKey Slot key from unlockKeySlots
+   * @param password New password
+   * @param salt Salt from the paste (as Uint8Array)
+   * @param kdf Key derivation function for the new password (defaults to PBKDF2)
+   * @returns Promise resolving to the updated base64url-encoded key slots
+   * @throws Error if the paste already has the maximum number of slots
+   */
+  async addKeySlot(
+    keySlotsB64: string,
+    slotKey: CryptoKey,
+    password: string,
+    salt: Uint8Array,
+    kdf: PasswordKdfAlgorithm = 'pbkdf2-sha256'
+  ): Promise<string> {
+    const slots = this.readKeySlots(keySlotsB64);
+    const slotKdf = defaultKdfParams(kdf);
+    const wrapKey = await deriveKeySlotWrapKey(password, salt, slotKdf);
+    slots.push({ kdf: slotKdf, wrappedKey: await wrapKeySlot(slotKey, wrapKey) });
+    return encodeBase64Url(encodeKeySlots(slots));
+  }
+
+  /**
+   * Remove a password from a key-slot paste
+   * 
+   * @param keySlotsB64 Current base64url-encoded key slots
+   * @param index Index of the slot to remove
+   * @returns Updated base64url-encoded key slots
+   * @throws Error if the index is out of range or the slot is the last one
+   */
+  removeKeySlot(keySlotsB64: string, index: number): string {
+    const slots = this.readKeySlots(keySlotsB64);
+    if (!Number.isInteger(index) || index < 0 || index >= slots.length) {
+      throw new Error('Key slot not found');
+    }
+    if (slots.length === 1) {
+      throw new Error('A paste needs at least one password');
+    }
+    slots.splice(index, 1);
+    return encodeBase64Url(encodeKeySlots(slots));
+  }
+
+  /**
+   * Derive all keys for a recipient-key paste with this browser's keypair
+   * 
+   * @param header Envelope header of the paste (ECDH P-256)
+   * @param salt Salt from the paste (as Uint8Array)
+   * @param keyPair Recipient keypair from the key store
+   * @returns Promise resolving to content key, chat key and delete authorization
+   * @throws Error if the paste was not encrypted for this keypair
+   */
+  async deriveRecipientKeys(
+    header: EnvelopeHeader,
+    salt: Uint8Array,
+    keyPair: CryptoKeyPair
+  ): Promise<PasteKeys> {
+    if (header.kdf.algorithm !== 'ecdh-p256') {
+      throw new Error('Paste is not encrypted for recipients');
+    }
+    const keyId = await recipientKeyId(await exportRecipientPublicKey(keyPair.publicKey));
+    const recipient = header.recipients?.find(r => r.keyId.every((b, i) => b === keyId[i]));
+    if (!recipient) {
+      throw new Error('This paste was not encrypted for your key');
+    }
+
+    const linkKey = await unwrapLinkKeyForRecipient(
+      keyPair.privateKey,
+      header.kdf.ephemeralPublicKey,
+      recipient.wrappedKey,
+      salt
+    );
+    try {
+      return await deriveLinkKeys(linkKey);
+    } finally {
+      secureClearBuffer(linkKey.buffer as ArrayBuffer);
+    }
+  }
+
+  /**
+   * Encode a recipient public key for sharing
+   * 
+   * @param publicKey ECDH P-256 public key
+   * @returns Promise resolving to the base64url-encoded raw public key
+   */
+  async encodeRecipientPublicKey(publicKey: CryptoKey): Promise<string> {
+    return encodeBase64Url(await exportRecipientPublicKey(publicKey));
+  }
+
+  /**
+   * Read the envelope header of a paste
+   * 
+   * @param ctB64 Base64url-encoded ciphertext as returned by the server
+   * @returns Envelope header, or null for legacy pastes without an envelope
+   * @throws Error if the envelope is truncated or uses an unsupported format
+   */
+  readEnvelope(ctB64: string): EnvelopeHeader | null {
+    const envelope = parseEnvelope(new Uint8Array(decodeBase64Url(ctB64)));
+    return envelope ? envelope.header : null;
+  }
+
+  /**
+   * Derive all keys for a paste from its password
+   * 
+   * PBKDF2 pastes use separate PBKDF2 derivations for the content key and
+   * delete authorization, and chat shares the content key. Argon2id pastes
+   * run Argon2id once and expand the three values from its output.
+   * Two-factor pastes combine the stretched password with the link secret.
+   * 
+   * @param password User-provided password
+   * @param salt Salt from the paste (as Uint8Array)
+   * @param kdf KDF parameters from the paste envelope (omit for legacy pastes)
+   * @param linkSecret Secret from the URL fragment (two-factor pastes only)
+   * @returns Promise resolving to content key, chat key, delete authorization and key commitment
+   */
+  async derivePasteKeys(
+    password: string,
+    salt: Uint8Array,
+    kdf?: KdfParams,
+    linkSecret?: Uint8Array
+  ): Promise<PasteKeys> {
+    if (kdf?.algorithm === 'none') {
+      throw new Error('Link-key pastes are not password protected');
+    }
+    if (kdf?.algorithm === 'ecdh-p256') {
+      throw new Error('Recipient-key pastes are not password protected');
+    }
+    if (kdf?.algorithm === 'key-slots') {
+      throw new Error('Key-slot pastes are unlocked through their key slots');
+    }
+    if (linkSecret) {
+      return deriveTwoFactorKeys(password, salt, linkSecret, kdf ?? defaultKdfParams('pbkdf2-sha256'));
+    }
+    if (kdf?.algorithm === 'argon2id') {
+      return deriveArgon2idKeys(password, salt, kdf);
+    }
+
+    const iterations = kdf?.iterations ?? PBKDF2_ITERATIONS;
+    const [{ contentKey, commitment }, deleteAuth] = await Promise.all([
+      derivePbkdf2ContentKey(password, salt, iterations),
+      deriveDeleteAuth(password, salt, iterations)
+    ]);
+    return { contentKey, chatKey: contentKey, deleteAuth, commitment };
+  }
+
+  /**
+   * Derive all keys for a link-key paste
+   * 
+   * @param linkKeyB64 Base64url-encoded link key from the URL fragment
+   * @returns Promise resolving to content key, chat key and delete authorization
+   * @throws Error if the link key is malformed
+   */
+  async deriveLinkKeys(linkKeyB64: string): Promise<PasteKeys> {
+    return deriveLinkKeys(new Uint8Array(decodeBase64Url(linkKeyB64)));
+  }
+
+  /**
+   * Check the keys for a paste against its key commitment
+   * 
+   * A mismatch means the keys came from a wrong password or link. This is
+   * much cheaper than a failed AES-GCM decryption, and it tells the two
+   * apart: once the commitment matches, a decryption failure means the
+   * ciphertext was altered.
+   * 
+   * @param header Envelope header of the paste (null for legacy pastes)
+   * @param keys Keys derived for the paste
+   * @returns True if the keys match, false if not, or null if the paste has no key commitment
+   */
+  checkKeyCommitment(header: EnvelopeHeader | null, keys: PasteKeys): boolean | null {
+    if (!header || header.version < KEY_COMMITMENT_MIN_VERSION || !header.commitment) {
+      return null;
+    }
+    return keyCommitmentsEqual(header.commitment, keys.commitment);
+  }
+
+  /**
+   * Encode paste content for encryption
+   * 
+   * A paste document is encoded as JSON, so its title, filename and
+   * language are encrypted with the body; plain text is encoded as is.
+   * Compressed content is only used when it is smaller than the plain
+   * UTF-8 bytes, so incompressible content is never stored larger.
+   * 
+   * @param content Paste document, or plain text
+   * @param compressContent Compress the content with raw DEFLATE
+   * @returns Promise resolving to the bytes to encrypt
+   */
+  async encodeContent(content: PasteDocument | string, compressContent: boolean = true): Promise<EncodedContent> {
+    const structured = typeof content !== 'string';
+    const bytes = new TextEncoder().encode(structured ? encodePasteDocument(content) : content);
+    if (compressContent && bytes.length > 0) {
+      const compressed = await compress(bytes);
+      if (compressed.length < bytes.length) {
+        return { bytes: compressed, compressed: true, structured };
+      }
+    }
+    return { bytes, compressed: false, structured };
+  }
+
+  /**
+   * Upper bound on the size of the envelope sealEnvelope produces
+   * 
+   * @param content Content from encodeContent
+   * @param padding Length-hiding padding of the content
+   * @returns Size of the enveloped ciphertext in bytes, at most
+   */
+  sealedLength(content: EncodedContent, padding: PaddingParams = DEFAULT_PADDING): number {
+    const plaintextLength = padding.scheme !== 'none'
+      ? paddedLength(content.bytes.length + 1, padding)
+      : content.bytes.length;
+    const chunks = plaintextLength > CHUNK_SIZE ? Math.ceil(plaintextLength / CHUNK_SIZE) : 1;
+    return MAX_ENVELOPE_HEADER_LENGTH + plaintextLength + chunks * AES_GCM_TAG_LENGTH;
+  }
+
+  /**
+   * Encrypt content and wrap it in an envelope
+   * 
+   * The header commits to the content key and records the IV, and the
+   * encoded header and the paste metadata are authenticated as AES-GCM
+   * associated data. Paste
+   * documents set the STRUCTURED flag, compressed content the COMPRESSED
+   * flag and padded content the PADDED flag; padding is applied after
+   * compression. Plaintext larger than one chunk is encrypted with chunked
+   * AES-GCM (see chunked-aead.ts), so progress can be reported as it goes.
+   * 
+   * @returns Promise resolving to the base64url-encoded envelope
+   */
+  private async sealEnvelope(
+    header: EnvelopeHeader,
+    keys: PasteKeys,
+    iv: Uint8Array,
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    padding: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<string> {
+    const encoded = typeof content === 'string'
+      ? { bytes: new TextEncoder().encode(content), compressed: false, structured: false }
+      : content;
+    const padded = padding.scheme !== 'none';
+    let flags = header.flags;
+    if (encoded.structured) flags |= ENVELOPE_FLAGS.STRUCTURED;
+    if (encoded.compressed) flags |= ENVELOPE_FLAGS.COMPRESSED;
+    if (padded) flags |= ENVELOPE_FLAGS.PADDED;
+    const plaintext = padded ? padPlaintext(encoded.bytes, padding) : encoded.bytes;
+    const chunked = plaintext.length > CHUNK_SIZE;
+    const headerBytes = encodeEnvelopeHeader({
+      ...header,
+      flags,
+      cipher: chunked ? 'aes-256-gcm-chunked' : header.cipher,
+      commitment: keys.commitment,
+      iv
+    });
+    const additionalData = encodeAssociatedData(headerBytes, meta, header.version);
+    let encryptedData: Uint8Array;
+    if (chunked) {
+      encryptedData = await encryptChunked(keys.contentKey, iv, plaintext, additionalData, onProgress);
+    } else {
+      encryptedData = new Uint8Array(await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv: iv as BufferSource,
+          additionalData: additionalData as BufferSource
+        },
+        keys.contentKey,
+        plaintext as BufferSource
+      ));
+      onProgress?.(1);
+    }
+
+    const out = new Uint8Array(headerBytes.length + encryptedData.length);
+    out.set(headerBytes, 0);
+    out.set(encryptedData, headerBytes.length);
+    return encodeBase64Url(out);
+  }
+
+  /**
+   * Decrypt a paste document with pre-derived keys
+   * 
+   * Envelopes from version 2 on also check the header and the paste
+   * metadata, so a server that altered either makes decryption fail. From
+   * version 3 the keys must match the envelope's key commitment before
+   * anything is decrypted, and from version 4 the IV must match the one
+   * recorded in the header. Padding is removed from padded content, and
+   * compressed content is inflated. Pastes stored as plain text decrypt to
+   * a document with only a body.
+   * Clears decrypted data buffer from memory after decoding for security.
+   * 
+   * @param ctB64 Base64url-encoded ciphertext (enveloped or legacy)
+   * @param keys Keys from derivePasteKeys, deriveLinkKeys, deriveRecipientKeys or unlockKeySlots
+   * @param ivB64 Base64url-encoded IV
+   * @param meta Paste metadata returned with the ciphertext (required from envelope version 2)
+   * @param onProgress Optional callback with the fraction of the content decrypted
+   * @returns Promise resolving to the decrypted paste document
+   * @throws Error if decryption fails (wrong key, or altered or corrupted data)
+   */
+  async decryptPasteDocument(
+    ctB64: string,
+    keys: PasteKeys,
+    ivB64: string,
+    meta?: PasteMetadata,
+    onProgress?: ProgressCallback
+  ): Promise<PasteDocument> {
+    const payload = new Uint8Array(decodeBase64Url(ctB64));
+    const envelope = parseEnvelope(payload);
+    if (envelope && this.checkKeyCommitment(envelope.header, keys) === false) {
+      throw new Error(KEY_REJECTED_MESSAGES.KEY_MISMATCH);
+    }
+    // Legacy pastes are raw AES-GCM ciphertext
+    const ciphertext = envelope ? envelope.ciphertext : payload;
+    const iv = new Uint8Array(decodeBase64Url(ivB64));
+    if (envelope && !envelopeMatchesIv(envelope.header, iv)) {
+      throw new Error('Paste does not belong to this link');
+    }
+
+    const params: AesGcmParams = {
+      name: 'AES-GCM',
+      iv: iv as BufferSource
+    };
+    if (envelope && usesAssociatedData(envelope.header.version)) {
+      if (!meta) {
+        throw new Error('Paste metadata is required to decrypt this paste');
+      }
+      params.additionalData = encodeAssociatedData(envelope.headerBytes, meta, envelope.header.version) as BufferSource;
+    }
+
+    let decryptedData: ArrayBuffer;
+    try {
+      if (envelope && envelope.header.cipher === 'aes-256-gcm-chunked') {
+        const decrypted = await decryptChunked(
+          keys.contentKey,
+          iv,
+          ciphertext,
+          (params.additionalData as Uint8Array) ?? new Uint8Array(0),
+          onProgress
+        );
+        decryptedData = decrypted.buffer as ArrayBuffer;
+      } else {
+        decryptedData = await crypto.subtle.decrypt(
+          params,
+          keys.contentKey,
+          ciphertext as BufferSource
+        );
+        onProgress?.(1);
+      }
+    } catch {
+      // The tag did not verify: wrong key, or altered or corrupted data
+      throw new Error(KEY_REJECTED_MESSAGES.DECRYPTION_FAILED);
+    }
+
+    try {
+      let plaintext: Uint8Array = new Uint8Array(decryptedData);
+      if (envelope && hasEnvelopeFlag(envelope.header, ENVELOPE_FLAGS.PADDED)) {
+        plaintext = unpadPlaintext(plaintext);
+      }
+      if (envelope && hasEnvelopeFlag(envelope.header, ENVELOPE_FLAGS.COMPRESSED)) {
+        plaintext = await decompress(plaintext, MAX_DOCUMENT_SIZE);
+      }
+      const text = new TextDecoder().decode(plaintext);
+      return envelope && hasEnvelopeFlag(envelope.header, ENVELOPE_FLAGS.STRUCTURED)
+        ? decodePasteDocument(text)
+        : { body: text };
+    } finally {
+      // Clear decrypted data buffer from memory (best effort)
+      secureClearBuffer(decryptedData);
+    }
+  }
+
+  /**
+   * Decrypt paste content with pre-derived keys
+   * 
+   * @param ctB64 Base64url-encoded ciphertext (enveloped or legacy)
+   * @param keys Keys from derivePasteKeys, deriveLinkKeys, deriveRecipientKeys or unlockKeySlots
+   * @param ivB64 Base64url-encoded IV
+   * @param meta Paste metadata returned with the ciphertext (required from envelope version 2)
+   * @returns Promise resolving to the decrypted text (the body of a paste document)
+   * @throws Error if decryption fails (wrong key, or altered or corrupted data)
+   */
+  async decryptPasteWithKey(
+    ctB64: string,
+    keys: PasteKeys,
+    ivB64: string,
+    meta?: PasteMetadata
+  ): Promise<string> {
+    return (await this.decryptPasteDocument(ctB64, keys, ivB64, meta)).body;
   }
 
   /**
    * Decrypt paste content with password
    * 
+   * Enveloped pastes are decrypted with the KDF parameters recorded in their
+   * header; legacy pastes fall back to PBKDF2 with the default iteration count.
+   * 
    * @param ctB64 Base64url-encoded ciphertext
    * @param password User-provided password
    * @param saltB64 Base64url-encoded salt
    * @param ivB64 Base64url-encoded IV
+   * @param meta Paste metadata returned with the ciphertext (required from envelope version 2)
    * @returns Promise resolving to decrypted plaintext
-   * @throws Error if decryption fails (wrong password or corrupted data)
+   * @throws Error if decryption fails (wrong password, or altered or corrupted data)
    */
   async decryptPaste(
     ctB64: string,
     password: string,
     saltB64: string,
-    ivB64: string
+    ivB64: string,
+    meta?: PasteMetadata
   ): Promise<string> {
-    const ctBuffer = decodeBase64Url(ctB64);
-    const saltBuffer = decodeBase64Url(saltB64);
-    const ivBuffer = decodeBase64Url(ivB64);
-    
-    return decryptWithPassword(ctBuffer, password, saltBuffer, ivBuffer);
+    const header = this.readEnvelope(ctB64);
+    const salt = new Uint8Array(decodeBase64Url(saltB64));
+    const keys = await this.derivePasteKeys(password, salt, header?.kdf);
+    return this.decryptPasteWithKey(ctB64, keys, ivB64, meta);
   }
 
   /**
@@ -82,25 +828,43 @@ export class EncryptionService {
    * 
    * @param password User-provided password
    * @param salt Salt from the paste (as Uint8Array)
+   * @param kdf KDF parameters from the paste envelope (omit for legacy pastes)
    * @returns Promise resolving to base64url-encoded delete authorization
    */
-  async deriveDeleteAuth(password: string, salt: Uint8Array): Promise<string> {
-    return deriveDeleteAuth(password, salt);
+  async deriveDeleteAuth(password: string, salt: Uint8Array, kdf?: KdfParams): Promise<string> {
+    if (kdf?.algorithm === 'none') {
+      throw new Error('Link-key pastes are not password protected');
+    }
+    if (kdf?.algorithm === 'ecdh-p256') {
+      throw new Error('Recipient-key pastes are not password protected');
+    }
+    if (kdf?.algorithm === 'key-slots') {
+      throw new Error('Key-slot pastes are unlocked through their key slots');
+    }
+    if (kdf?.algorithm === 'argon2id') {
+      return (await deriveArgon2idKeys(password, salt, kdf)).deleteAuth;
+    }
+    return deriveDeleteAuth(password, salt, kdf?.iterations ?? PBKDF2_ITERATIONS);
   }
 
   /**
    * Encrypt a chat message using a pre-derived CryptoKey
-   * Encrypts message as JSON payload: { text, username }
+   * Encrypts message as JSON payload: { text, username, pad }
+   * 
+   * The pad field holds spaces that bring the payload to its padded length;
+   * readers ignore it, so padded messages stay readable by older clients.
    * 
    * @param message Plaintext message
    * @param key Pre-derived encryption key
    * @param username Optional username (truncated to 20 chars)
+   * @param padding Length-hiding padding of the payload
    * @returns Promise resolving to encrypted data and IV
    */
   async encryptChatMessage(
     message: string,
     key: CryptoKey,
-    username?: string
+    username?: string,
+    padding: PaddingParams = DEFAULT_CHAT_PADDING
   ): Promise<{ encryptedData: ArrayBuffer; iv: ArrayBuffer }> {
     // Truncate username to max 20 chars
     if (username && username.length > 20) {
@@ -112,7 +876,14 @@ export class EncryptionService {
     crypto.getRandomValues(iv);
 
     // Create payload with message and optional username
-    const payload = username ? { text: message, username } : { text: message };
+    const payload: { text: string; username?: string; pad?: string } = username
+      ? { text: message, username }
+      : { text: message };
+    if (padding.scheme !== 'none') {
+      // Adding the field costs ,"pad":"" on top of the spaces
+      const length = new TextEncoder().encode(JSON.stringify(payload)).length + CHAT_PAD_FIELD_OVERHEAD;
+      payload.pad = ' '.repeat(paddedLength(length, padding) - length);
+    }
     const payloadStr = JSON.stringify(payload);
 
     // Encrypt message
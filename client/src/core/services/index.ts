@@ -4,4 +4,5 @@
 
 export { EncryptionService } from './encryption-service.js';
 export { PasteService } from './paste-service.js';
+export type { ParsedViewUrl } from './paste-service.js';
 export type { ChatMessage, DecryptedChatMessage } from './encryption-service.js';
@@ -8,12 +8,39 @@
 import {
   validateContentSize,
   validateExpiration,
+  validateKeySlotPasswords,
   validatePassword,
+  validateRecipientPublicKeys,
+  validateViewCount,
   isValidUTF8
 } from '../validators/index.js';
+import type { LineRange, ViewAnchor } from '../models/paste.js';
 import type { Result } from '../models/result.js';
 import { success, failure } from '../models/result.js';
 
+/** Line range in a view URL fragment: L40 or L40-L55 */
+const LINE_RANGE_PATTERN = /^L(\d{1,9})(?:-L(\d{1,9}))?$/;
+
+/** Heading id in a view URL fragment, as made by the markdown renderer */
+const HEADING_ID_PATTERN = /^[\p{L}\p{N}_-]{1,100}$/u;
+
+/**
+ * Paste ID and fragment parts of a view URL
+ */
+export interface ParsedViewUrl {
+  pasteId: string;
+  /** Base64url-encoded salt, or the link key for link-key pastes */
+  salt: string;
+  /** Base64url-encoded IV */
+  iv: string;
+  /** Base64url-encoded link secret (two-factor pastes only) */
+  linkSecret?: string;
+  /** Lines or heading to show */
+  anchor?: ViewAnchor;
+  /** Wait for the reader to click before fetching the paste */
+  clickToReveal?: boolean;
+}
+
 /**
  * Paste domain service for business logic operations
  */
@@ -24,21 +51,47 @@ export class PasteService {
    * @param content Paste content
    * @param expirationMinutes Expiration time in minutes
    * @param password User password
+   * @param requirePassword False for link-key and recipient-key pastes, which have no password
+   * @param recipients Recipient public keys (recipient-key pastes only)
+   * @param additionalPasswords Passwords besides the first one (key-slot pastes only)
+   * @param payloadSize Size of the encoded, possibly compressed content in bytes
+   * @param maxPayloadSize Limit on the payload size (defaults to MAX_CONTENT_SIZE)
+   * @param hasAttachments Whether files are attached (the text may then be empty)
+   * @param maxViews View limit (undefined for unlimited views)
    * @returns Result indicating validation success or errors
    */
   validatePasteCreation(
     content: string,
     expirationMinutes: number,
-    password: string
+    password: string,
+    requirePassword: boolean = true,
+    recipients: string[] = [],
+    additionalPasswords: string[] = [],
+    payloadSize?: number,
+    maxPayloadSize?: number,
+    hasAttachments: boolean = false,
+    maxViews?: number
   ): Result<void, string[]> {
-    const contentValidation = validateContentSize(content);
+    const contentValidation = validateContentSize(content, payloadSize, maxPayloadSize, hasAttachments);
     const expirationValidation = validateExpiration(expirationMinutes);
-    const passwordValidation = validatePassword(password);
+    const passwordValidation = !requirePassword
+      ? { isValid: true, errors: [] }
+      : additionalPasswords.length > 0
+      ? validateKeySlotPasswords([password, ...additionalPasswords])
+      : validatePassword(password);
+    const recipientValidation = recipients.length > 0
+      ? validateRecipientPublicKeys(recipients)
+      : { isValid: true, errors: [] };
+    const viewCountValidation = maxViews !== undefined
+      ? validateViewCount(maxViews)
+      : { isValid: true, errors: [] };
 
     const allErrors = [
       ...contentValidation.errors,
       ...expirationValidation.errors,
-      ...passwordValidation.errors
+      ...passwordValidation.errors,
+      ...recipientValidation.errors,
+      ...viewCountValidation.errors
     ];
 
     if (allErrors.length > 0) {
@@ -57,15 +110,88 @@ export class PasteService {
    * Build shareable URL for a paste
    * 
    * @param pasteId Paste identifier
-   * @param saltB64 Base64url-encoded salt (encryption key identifier)
+   * @param saltB64 Base64url-encoded salt, or the link key for link-key pastes
    * @param ivB64 Base64url-encoded IV
+   * @param linkSecretB64 Base64url-encoded link secret (two-factor pastes only)
+   * @param clickToReveal Add `reveal=1` to the query, so the viewer waits for a click before fetching
    * @returns Shareable URL with encryption key in fragment
    */
-  buildShareUrl(pasteId: string, saltB64: string, ivB64: string): string {
+  buildShareUrl(
+    pasteId: string,
+    saltB64: string,
+    ivB64: string,
+    linkSecretB64?: string,
+    clickToReveal: boolean = false
+  ): string {
     const baseUrl = typeof window !== 'undefined' 
       ? `${window.location.origin}/view.html`
       : '/view.html';
-    return `${baseUrl}?p=${encodeURIComponent(pasteId)}#${saltB64}:${ivB64}`;
+    const query = `?p=${encodeURIComponent(pasteId)}${clickToReveal ? '&reveal=1' : ''}`;
+    return `${baseUrl}${query}#${this.buildViewFragment(saltB64, ivB64, linkSecretB64)}`;
+  }
+
+  /**
+   * Build the fragment of a view URL
+   * 
+   * The key material comes first, as `salt:iv` or `salt:iv:secret`. An
+   * anchor follows after a slash, which never occurs in base64url: a line
+   * range as in `salt:iv/L40-L55`, or a heading id as in `salt:iv/usage`.
+   * 
+   * @param saltB64 Base64url-encoded salt, or the link key for link-key pastes
+   * @param ivB64 Base64url-encoded IV
+   * @param linkSecretB64 Base64url-encoded link secret (two-factor pastes only)
+   * @param anchor Lines or heading to show when the paste is opened
+   * @returns Fragment without the leading #
+   */
+  buildViewFragment(saltB64: string, ivB64: string, linkSecretB64?: string, anchor?: ViewAnchor): string {
+    const keys = linkSecretB64 ? `${saltB64}:${ivB64}:${linkSecretB64}` : `${saltB64}:${ivB64}`;
+    if (!anchor) return keys;
+    return anchor.kind === 'lines'
+      ? `${keys}/${this.formatLineRange(anchor.range)}`
+      : `${keys}/${encodeURIComponent(anchor.id)}`;
+  }
+
+  /**
+   * Parse the anchor part of a view URL fragment
+   * 
+   * @param text Text after the slash, still percent-encoded
+   * @returns Anchor, or null if the text is neither a line range nor a heading id
+   */
+  parseViewAnchor(text: string): ViewAnchor | null {
+    const range = this.parseLineRange(text);
+    if (range) return { kind: 'lines', range };
+    let id: string;
+    try {
+      id = decodeURIComponent(text);
+    } catch {
+      return null;
+    }
+    return HEADING_ID_PATTERN.test(id) ? { kind: 'heading', id } : null;
+  }
+
+  /**
+   * Format a line range for a view URL
+   * 
+   * @param range Line range
+   * @returns `L40` for a single line, otherwise `L40-L55`
+   */
+  formatLineRange(range: LineRange): string {
+    return range.start === range.end ? `L${range.start}` : `L${range.start}-L${range.end}`;
+  }
+
+  /**
+   * Parse a line range from a view URL
+   * 
+   * @param text `L40` or `L40-L55`; a reversed range is put in order
+   * @returns Line range, or null if the text is not a valid range
+   */
+  parseLineRange(text: string): LineRange | null {
+    const match = LINE_RANGE_PATTERN.exec(text);
+    if (!match) return null;
+    const first = parseInt(match[1], 10);
+    const last = match[2] ? parseInt(match[2], 10) : first;
+    if (first < 1 || last < 1) return null;
+    return { start: Math.min(first, last), end: Math.max(first, last) };
   }
 
   /**
@@ -85,10 +211,15 @@ export class PasteService {
   /**
    * Parse view URL to extract paste ID and encryption parameters
    * 
+   * The fragment is `salt:iv`, or `salt:iv:secret` for two-factor pastes,
+   * optionally followed by an anchor (see buildViewFragment). A malformed
+   * anchor is ignored rather than failing the whole link. The query holds
+   * the paste ID, and `reveal=1` for click-to-reveal pastes.
+   * 
    * @param url URL to parse (can be URL object or string)
    * @returns Parsed URL data or null if invalid
    */
-  parseViewUrl(url: URL | string): { pasteId: string; salt: string; iv: string } | null {
+  parseViewUrl(url: URL | string): ParsedViewUrl | null {
     const urlObj = typeof url === 'string' ? new URL(url, typeof window !== 'undefined' ? window.location.href : 'http://localhost') : url;
     
     const pasteId = urlObj.searchParams.get('p');
@@ -98,12 +229,19 @@ export class PasteService {
       return null;
     }
     
-    const [salt, iv] = frag.split(':');
+    const slash = frag.indexOf('/');
+    const keys = slash === -1 ? frag : frag.slice(0, slash);
+    const [salt, iv, linkSecret] = keys.split(':');
     if (!salt || !iv) {
       return null;
     }
     
-    return { pasteId, salt, iv };
+    const parsed: ParsedViewUrl = { pasteId, salt, iv };
+    if (linkSecret) parsed.linkSecret = linkSecret;
+    const anchor = slash === -1 ? null : this.parseViewAnchor(frag.slice(slash + 1));
+    if (anchor) parsed.anchor = anchor;
+    if (urlObj.searchParams.get('reveal') === '1') parsed.clickToReveal = true;
+    return parsed;
   }
 
   /**
@@ -0,0 +1,241 @@
+/**
+ * paste-document.ts - JSON encoding of structured paste plaintext
+ *
+ * Pastes with the STRUCTURED envelope flag encrypt a JSON object instead of
+ * bare text:
+ *
+ *   { "title": ..., "filename": ..., "language": ..., "body": ..., "createdAt": ...,
+ *     "attachments": [{ "name": ..., "mime": ..., "size": ..., "data": ... }] }
+ *
+ * Only `body` is required. Attachment data is base64url-encoded. Decoding
+ * is strict, because the decoded fields are shown on the view page, the
+ * language is used as a class name and attachments become downloads.
+ */
+
+import type { PasteAttachment, PasteDocument, PasteImage } from '../models/paste.js';
+import { decodeBase64Url, encodeBase64Url } from '../crypto/encoding.js';
+
+/**
+ * Bounds on the paste document fields
+ */
+export const PASTE_DOCUMENT_LIMITS = {
+  MAX_TITLE_LENGTH: 200,
+  MAX_FILENAME_LENGTH: 255,
+  MAX_LANGUAGE_LENGTH: 32,
+  MAX_ATTACHMENTS: 10,
+  MAX_MIME_LENGTH: 127
+} as const;
+
+/** MIME type used when the browser reports none, or an invalid one */
+export const DEFAULT_ATTACHMENT_MIME = 'application/octet-stream';
+
+/** Language identifiers as used by highlight.js (e.g. "cpp", "objective-c", "c#") */
+const LANGUAGE_PATTERN = /^[a-z0-9][a-z0-9+#-]*$/;
+
+/** MIME type/subtype without parameters (RFC 6838 restricted names) */
+const MIME_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/i;
+
+/** Unpadded base64url */
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * Check whether a language identifier is well-formed
+ *
+ * @param language Language identifier
+ * @returns True if the identifier may be stored in a paste document
+ */
+export function isValidLanguage(language: string): boolean {
+  return language.length <= PASTE_DOCUMENT_LIMITS.MAX_LANGUAGE_LENGTH && LANGUAGE_PATTERN.test(language);
+}
+
+/**
+ * Check whether a MIME type is well-formed
+ *
+ * @param mime MIME type without parameters
+ * @returns True if the type may be stored with an attachment
+ */
+export function isValidMimeType(mime: string): boolean {
+  return mime.length <= PASTE_DOCUMENT_LIMITS.MAX_MIME_LENGTH && MIME_PATTERN.test(mime);
+}
+
+/**
+ * Create an attachment from file content
+ *
+ * @param name File name
+ * @param mime MIME type reported by the browser (may be empty)
+ * @param bytes File content
+ * @returns Attachment for a paste document
+ */
+export function createAttachment(name: string, mime: string, bytes: Uint8Array): PasteAttachment {
+  return {
+    name,
+    mime: isValidMimeType(mime) ? mime.toLowerCase() : DEFAULT_ATTACHMENT_MIME,
+    size: bytes.length,
+    data: encodeBase64Url(bytes)
+  };
+}
+
+/**
+ * Decode the content of an attachment
+ *
+ * @param attachment Attachment from a decoded paste document
+ * @returns File content
+ */
+export function attachmentBytes(attachment: PasteAttachment): Uint8Array {
+  return new Uint8Array(decodeBase64Url(attachment.data));
+}
+
+/**
+ * Format a file size for display
+ *
+ * @param size Size in bytes
+ * @returns Size in B, KB or MB
+ */
+export function formatFileSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${Math.ceil(size / 1024).toLocaleString()} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Detect an image format the view page shows inline
+ *
+ * The type comes from the file's magic number, not from the MIME type
+ * stored with the attachment, so other content (SVG in particular) is
+ * never rendered as an image.
+ *
+ * @param bytes File content
+ * @returns image/png, image/jpeg, image/gif or image/webp, or null
+ */
+export function detectImageType(bytes: Uint8Array): string | null {
+  const startsWith = (signature: number[], offset = 0): boolean =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38, 0x37, 0x61]) || startsWith([0x47, 0x49, 0x46, 0x38, 0x39, 0x61])) {
+    return 'image/gif';
+  }
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  return null;
+}
+
+/**
+ * Find the image of an image paste
+ *
+ * An image paste has no text and a single attachment that is a PNG, JPEG,
+ * GIF or WebP image.
+ *
+ * @param document Decoded paste document
+ * @returns The image and its detected type, or null for any other paste
+ */
+export function pasteImage(document: PasteDocument): PasteImage | null {
+  if (document.body.trim() !== '' || document.attachments?.length !== 1) return null;
+  const attachment = document.attachments[0];
+  const bytes = attachmentBytes(attachment);
+  const mime = detectImageType(bytes);
+  return mime ? { attachment, bytes, mime } : null;
+}
+
+/**
+ * Size of the bytes encoded by unpadded base64url text, or -1 if no
+ * bytes encode to that length
+ */
+function base64UrlDecodedLength(length: number): number {
+  return length % 4 === 1 ? -1 : Math.floor(length * 3 / 4);
+}
+
+/**
+ * Check a decoded attachment
+ *
+ * @throws Error if any field is missing or malformed
+ */
+function decodeAttachment(value: unknown): PasteAttachment {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid paste document');
+  }
+  const { name, mime, size, data } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || name.length === 0 || name.length > PASTE_DOCUMENT_LIMITS.MAX_FILENAME_LENGTH ||
+      typeof mime !== 'string' || !isValidMimeType(mime) ||
+      typeof data !== 'string' || !BASE64URL_PATTERN.test(data) ||
+      !Number.isInteger(size) || base64UrlDecodedLength(data.length) !== size) {
+    throw new Error('Invalid paste document');
+  }
+  return { name, mime, size: size as number, data };
+}
+
+/**
+ * Encode a paste document as JSON
+ *
+ * Empty optional fields are left out.
+ *
+ * @param document Paste document
+ * @returns JSON text
+ */
+export function encodePasteDocument(document: PasteDocument): string {
+  const out: PasteDocument = { body: document.body };
+  if (document.title) out.title = document.title;
+  if (document.filename) out.filename = document.filename;
+  if (document.language) out.language = document.language;
+  if (document.createdAt !== undefined) out.createdAt = document.createdAt;
+  if (document.attachments?.length) out.attachments = document.attachments;
+  return JSON.stringify(out);
+}
+
+/**
+ * Decode a paste document from JSON
+ *
+ * @param json JSON text from encodePasteDocument
+ * @returns Paste document
+ * @throws Error if the JSON is not a valid paste document
+ */
+export function decodePasteDocument(json: string): PasteDocument {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid paste document');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid paste document');
+  }
+
+  const fields = value as Record<string, unknown>;
+  const optionalString = (name: string, maxLength: number): string | undefined => {
+    const field = fields[name];
+    if (field === undefined) return undefined;
+    if (typeof field !== 'string' || field.length > maxLength) {
+      throw new Error('Invalid paste document');
+    }
+    return field;
+  };
+
+  if (typeof fields.body !== 'string') {
+    throw new Error('Invalid paste document');
+  }
+  const document: PasteDocument = { body: fields.body };
+
+  const title = optionalString('title', PASTE_DOCUMENT_LIMITS.MAX_TITLE_LENGTH);
+  const filename = optionalString('filename', PASTE_DOCUMENT_LIMITS.MAX_FILENAME_LENGTH);
+  const language = optionalString('language', PASTE_DOCUMENT_LIMITS.MAX_LANGUAGE_LENGTH);
+  if (language !== undefined && !isValidLanguage(language)) {
+    throw new Error('Invalid paste document');
+  }
+  if (fields.createdAt !== undefined && !Number.isFinite(fields.createdAt)) {
+    throw new Error('Invalid paste document');
+  }
+  let attachments: PasteAttachment[] | undefined;
+  if (fields.attachments !== undefined) {
+    if (!Array.isArray(fields.attachments) || fields.attachments.length > PASTE_DOCUMENT_LIMITS.MAX_ATTACHMENTS) {
+      throw new Error('Invalid paste document');
+    }
+    attachments = fields.attachments.map(decodeAttachment);
+  }
+
+  if (title) document.title = title;
+  if (filename) document.filename = filename;
+  if (language) document.language = language;
+  if (fields.createdAt !== undefined) document.createdAt = fields.createdAt as number;
+  if (attachments?.length) document.attachments = attachments;
+  return document;
+}
@@ -3,6 +3,10 @@
  * Privacy-preserving validation without content analysis
  */
 
+import { MAX_RECIPIENTS } from '../crypto/envelope.js';
+import { MAX_KEY_SLOTS } from '../crypto/key-slots.js';
+import { PASTE_DOCUMENT_LIMITS, isValidLanguage } from '../utils/paste-document.js';
+
 /**
  * Validation result for privacy-preserving checks
  */
@@ -12,10 +16,28 @@ export interface ValidationResult {
 }
 
 /**
- * Maximum content size in bytes (1MB)
+ * Maximum content size in bytes (1MB), after compression, used when the
+ * server does not publish its own limit
  */
 export const MAX_CONTENT_SIZE = 1024 * 1024;
 
+/**
+ * Maximum content size in bytes before compression (10MB)
+ */
+export const MAX_UNCOMPRESSED_CONTENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Maximum total size of the files attached to a paste (16MB), whatever
+ * the server allows
+ */
+export const MAX_ATTACHMENTS_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Maximum size of a decompressed paste document (32MB): the text plus the
+ * base64url-encoded attachments
+ */
+export const MAX_DOCUMENT_SIZE = 32 * 1024 * 1024;
+
 /**
  * Maximum expiration time in minutes (7 days)
  */
@@ -59,21 +81,39 @@ export const MAX_PIN_LENGTH = 12;
 /**
  * Validate content size without reading content
  * 
+ * When the size of the encoded (possibly compressed) payload is given, the
+ * size limit applies to the payload, and the content itself may be up to
+ * MAX_UNCOMPRESSED_CONTENT_SIZE.
+ * 
  * @param content The content to validate
+ * @param payloadSize Size of the content as it will be uploaded, in bytes
+ * @param maxPayloadSize Limit on the payload size (the server's, if it publishes one)
+ * @param allowEmpty Accept empty content (pastes with attachments)
  * @returns Validation result
  */
-export function validateContentSize(content: string): ValidationResult {
+export function validateContentSize(
+  content: string,
+  payloadSize?: number,
+  maxPayloadSize: number = MAX_CONTENT_SIZE,
+  allowEmpty: boolean = false
+): ValidationResult {
   const errors: string[] = [];
   
   // Check if content is empty
-  if (!content || content.length === 0) {
+  if ((!content || content.length === 0) && !allowEmpty) {
     errors.push("Content cannot be empty");
   }
   
   // Check content size (using UTF-8 byte length approximation)
   const byteLength = new TextEncoder().encode(content).length;
-  if (byteLength > MAX_CONTENT_SIZE) {
-    errors.push(`Content too large (${Math.round(byteLength / 1024)}KB, max ${Math.round(MAX_CONTENT_SIZE / 1024)}KB)`);
+  if (payloadSize === undefined) {
+    if (byteLength > MAX_CONTENT_SIZE) {
+      errors.push(`Content too large (${Math.round(byteLength / 1024)}KB, max ${Math.round(MAX_CONTENT_SIZE / 1024)}KB)`);
+    }
+  } else if (byteLength > MAX_UNCOMPRESSED_CONTENT_SIZE) {
+    errors.push(`Content too large (${Math.round(byteLength / 1024)}KB, max ${Math.round(MAX_UNCOMPRESSED_CONTENT_SIZE / 1024)}KB)`);
+  } else if (payloadSize > maxPayloadSize) {
+    errors.push(`Content too large (${Math.round(payloadSize / 1024)}KB compressed, max ${Math.round(maxPayloadSize / 1024)}KB)`);
   }
   
   return {
@@ -177,6 +217,113 @@ export function validatePassword(password: string): ValidationResult {
   };
 }
 
+/**
+ * Validate the title, filename and language of a paste
+ * 
+ * @param title Paste title
+ * @param filename Paste filename
+ * @param language Language for syntax highlighting
+ * @returns Validation result
+ */
+export function validatePasteDetails(title?: string, filename?: string, language?: string): ValidationResult {
+  const errors: string[] = [];
+
+  if (title && title.length > PASTE_DOCUMENT_LIMITS.MAX_TITLE_LENGTH) {
+    errors.push(`Title must be at most ${PASTE_DOCUMENT_LIMITS.MAX_TITLE_LENGTH} characters`);
+  }
+  if (filename && filename.length > PASTE_DOCUMENT_LIMITS.MAX_FILENAME_LENGTH) {
+    errors.push(`Filename must be at most ${PASTE_DOCUMENT_LIMITS.MAX_FILENAME_LENGTH} characters`);
+  }
+  if (language && !isValidLanguage(language)) {
+    errors.push('Unknown language');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate the files attached to a paste
+ * 
+ * @param attachments Name and size of each file
+ * @returns Validation result
+ */
+export function validateAttachments(attachments: { name: string; size: number }[]): ValidationResult {
+  const errors: string[] = [];
+
+  if (attachments.length > PASTE_DOCUMENT_LIMITS.MAX_ATTACHMENTS) {
+    errors.push(`A paste can have at most ${PASTE_DOCUMENT_LIMITS.MAX_ATTACHMENTS} attachments`);
+  }
+  if (attachments.some(file => file.name.length === 0 || file.name.length > PASTE_DOCUMENT_LIMITS.MAX_FILENAME_LENGTH)) {
+    errors.push(`Attachment names must be 1 to ${PASTE_DOCUMENT_LIMITS.MAX_FILENAME_LENGTH} characters`);
+  }
+  const totalSize = attachments.reduce((sum, file) => sum + file.size, 0);
+  if (totalSize > MAX_ATTACHMENTS_SIZE) {
+    errors.push(`Attachments too large (${Math.round(totalSize / 1024)}KB, max ${Math.round(MAX_ATTACHMENTS_SIZE / 1024)}KB)`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate the passwords of a key-slot paste
+ * 
+ * @param passwords Passwords, one per key slot
+ * @returns Validation result (each distinct error is reported once)
+ */
+export function validateKeySlotPasswords(passwords: string[]): ValidationResult {
+  const errors: string[] = [];
+
+  if (passwords.length > MAX_KEY_SLOTS) {
+    errors.push(`A paste can have at most ${MAX_KEY_SLOTS} passwords`);
+  }
+  for (const password of passwords) {
+    for (const error of validatePassword(password).errors) {
+      if (!errors.includes(error)) errors.push(error);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate recipient public keys for a recipient-key paste
+ * 
+ * Checks the count and encoding only; whether each key is a valid P-256
+ * point is checked when it is imported.
+ * 
+ * @param keys Base64url-encoded raw public keys
+ * @returns Validation result
+ */
+export function validateRecipientPublicKeys(keys: string[]): ValidationResult {
+  const errors: string[] = [];
+
+  if (keys.length === 0) {
+    errors.push('At least one recipient public key is required');
+  } else if (keys.length > MAX_RECIPIENTS) {
+    errors.push(`A paste can have at most ${MAX_RECIPIENTS} recipients`);
+  }
+
+  // An uncompressed P-256 point is 65 bytes, 87 base64url characters
+  const invalid = keys.filter(key => !/^[A-Za-z0-9_-]{87}$/.test(key));
+  if (invalid.length > 0) {
+    errors.push(`${invalid.length === 1 ? 'A recipient public key is' : 'Some recipient public keys are'} not valid`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 /**
  * Check if string is valid UTF-8 without reading content
  * 
@@ -23,13 +23,15 @@ export { generateRandomUsernameFromView as generateRandomUsername };
  * @param pasteId The paste ID
  * @param salt The salt from the paste URL for key derivation
  * @param initialPassword Optional password from paste view - avoids repeated prompts for refresh/send
+ * @param chatKey Optional chat key derived by the paste view
  */
 export function setupPasteChat(
   pasteId: string,
   salt: Uint8Array,
-  initialPassword?: string
+  initialPassword?: string,
+  chatKey?: CryptoKey
 ): void {
-  chatView.setup(pasteId, salt, initialPassword);
+  chatView.setup(pasteId, salt, initialPassword, chatKey);
 }
 
 /**
@@ -7,18 +7,31 @@
 
 import { PasteCreatorView } from '../presentation/components/paste-creator-view.js';
 import { CreatePasteUseCase } from '../application/use-cases/create-paste-use-case.js';
+import { RecipientKeyUseCase } from '../application/use-cases/recipient-key-use-case.js';
 import { EncryptionService } from '../core/services/encryption-service.js';
 import { PasteService } from '../core/services/paste-service.js';
 import { HttpApiClient } from '../infrastructure/api/http-client.js';
-import { InlinePowSolver } from '../infrastructure/pow/inline-solver.js';
+import { WorkerPowSolver } from '../infrastructure/pow/worker-solver.js';
+import { PowPresolver } from '../infrastructure/pow/presolver.js';
+import { WorkerPasteCrypto } from '../infrastructure/crypto/worker-crypto.js';
+import { IndexedDbRecipientKeyStore } from '../infrastructure/keys/indexeddb-key-store.js';
 
 // Initialize dependencies
 const apiClient = new HttpApiClient();
-const powSolver = new InlinePowSolver();
+const powSolver = new WorkerPowSolver();
 const encryptionService = new EncryptionService();
 const pasteService = new PasteService();
-const useCase = new CreatePasteUseCase(apiClient, powSolver, encryptionService, pasteService);
-const view = new PasteCreatorView(useCase);
+const powPresolver = new PowPresolver(apiClient, powSolver);
+const useCase = new CreatePasteUseCase(
+  apiClient,
+  powSolver,
+  encryptionService,
+  pasteService,
+  powPresolver,
+  new WorkerPasteCrypto()
+);
+const recipientKeyUseCase = new RecipientKeyUseCase(new IndexedDbRecipientKeyStore(), encryptionService);
+const view = new PasteCreatorView(useCase, recipientKeyUseCase);
 
 /**
  * Create a new paste (backward compatibility wrapper)
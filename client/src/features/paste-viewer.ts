@@ -8,21 +8,32 @@
 import { PasteViewerView } from '../presentation/components/paste-viewer-view.js';
 import { ViewPasteUseCase } from '../application/use-cases/view-paste-use-case.js';
 import { DeletePasteUseCase } from '../application/use-cases/delete-paste-use-case.js';
+import { ManageKeySlotsUseCase } from '../application/use-cases/manage-key-slots-use-case.js';
+import { KeySlotsView } from '../presentation/components/key-slots-view.js';
 import { EncryptionService } from '../core/services/encryption-service.js';
 import { HttpApiClient } from '../infrastructure/api/http-client.js';
+import { IndexedDbRecipientKeyStore } from '../infrastructure/keys/indexeddb-key-store.js';
+import { WorkerPasteCrypto } from '../infrastructure/crypto/worker-crypto.js';
 import { setupPasteChat } from './paste-chat.js';
 import type { PasteMetadata } from '../core/models/paste.js';
 
 // Initialize dependencies
 const apiClient = new HttpApiClient();
 const encryptionService = new EncryptionService();
-const viewUseCase = new ViewPasteUseCase(apiClient, encryptionService);
+const pasteCrypto = new WorkerPasteCrypto();
+const viewUseCase = new ViewPasteUseCase(
+  apiClient,
+  encryptionService,
+  new IndexedDbRecipientKeyStore(),
+  pasteCrypto
+);
 const deleteUseCase = new DeletePasteUseCase(apiClient);
-const view = new PasteViewerView(viewUseCase, deleteUseCase);
+const keySlotsView = new KeySlotsView(new ManageKeySlotsUseCase(apiClient, encryptionService, pasteCrypto));
+const view = new PasteViewerView(viewUseCase, deleteUseCase, keySlotsView);
 
 /** Returns true if chat should be initialized for this paste (for testing). */
-export function shouldInitChat(meta: PasteMetadata): boolean {
-  return view.shouldInitChat(meta);
+export function shouldInitChat(meta: PasteMetadata, viewsRemaining?: number): boolean {
+  return view.shouldInitChat(meta, viewsRemaining);
 }
 
 /**
@@ -33,12 +44,13 @@ export async function viewPaste(): Promise<void> {
   
   const result = await view.handleView();
   
-  // Initialize chat if paste was successfully viewed (pass password to avoid repeated prompts)
-  if (result && shouldInitChat(result.metadata)) {
+  // Initialize chat if paste was successfully viewed (pass password and chat key to avoid repeated prompts)
+  if (result && shouldInitChat(result.metadata, result.viewsRemaining)) {
     setupPasteChat(
       result.pasteId,
       result.salt,
-      result.initialPassword
+      result.initialPassword,
+      result.chatKey
     );
   }
 }
@@ -10,25 +10,121 @@ import {
   PasteRetrieveResponse,
   PowChallenge
 } from './interfaces.js';
+import type { PasteLimits, ProgressCallback } from '../../core/models/paste.js';
 
 // Note: These are now aliases to the core domain models
 
+/**
+ * Size of a ciphertext chunk in chunked upload and download, in bytes
+ *
+ * Matches TRANSFER_CHUNK_BYTES on the server. A multiple of 3, so each
+ * chunk but the last encodes to base64url without padding, and the encoded
+ * chunks concatenate to the encoded ciphertext.
+ */
+export const TRANSFER_CHUNK_SIZE = 393216;
+
+/** Length of a full transfer chunk in base64url characters */
+const TRANSFER_CHUNK_CHARS = (TRANSFER_CHUNK_SIZE / 3) * 4;
+
+/**
+ * Paste as returned by GET /pastes/{id}?chunked=true, where ciphertext
+ * larger than one chunk is left out and read with the read token
+ */
+type ChunkedRetrieveResponse = Omit<PasteRetrieveResponse, 'ct'> & {
+  ct: string | null;
+  ctSize?: number | null;
+  readToken?: string | null;
+};
+
 /**
  * HTTP-based API client using fetch
+ *
+ * Ciphertext larger than one transfer chunk (TRANSFER_CHUNK_SIZE) travels
+ * in chunks, each in its own request: a paste is created with its size
+ * only, and its chunks are then PUT one by one; reading it gives a read
+ * token, with which its chunks are fetched one by one. This keeps every
+ * request under the reverse proxy's body limit, and progress covers the
+ * whole transfer. Smaller ciphertext travels as a single `ct` field.
  */
 export class HttpApiClient implements IApiClient {
   constructor(private baseUrl: string = '/api') {}
 
   /**
    * Create a new paste
+   *
+   * Ciphertext larger than one transfer chunk is uploaded in chunks after
+   * the paste is created; if a chunk fails, the unfinished paste is deleted.
+   *
+   * With a progress callback (and XMLHttpRequest available), request
+   * bodies are uploaded with XMLHttpRequest, since fetch cannot report
+   * upload progress.
+   *
+   * @param request Paste to create
+   * @param onProgress Optional callback with the fraction of the ciphertext uploaded
+   * @param signal Optional signal that aborts the upload
    */
-  async createPaste(request: PasteCreateRequest): Promise<PasteCreateResponse> {
-    const response = await fetch(`${this.baseUrl}/pastes`, {
-      method: 'POST',
+  async createPaste(
+    request: PasteCreateRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<PasteCreateResponse> {
+    const ct = request.ct.replace(/=+$/, '');
+    if (ct.length <= TRANSFER_CHUNK_CHARS) {
+      return this.sendJson('POST', `${this.baseUrl}/pastes`, JSON.stringify(request), onProgress, signal);
+    }
+
+    // Without ct, the paste is created empty and waits for its chunks
+    const ctSize = Math.floor((ct.length * 3) / 4);
+    const created = await this.sendJson<PasteCreateResponse>(
+      'POST', `${this.baseUrl}/pastes`, JSON.stringify({ ...request, ct: undefined, ctSize }), undefined, signal
+    );
+    const count = Math.ceil(ctSize / TRANSFER_CHUNK_SIZE);
+    try {
+      for (let i = 0; i < count; i++) {
+        if (signal?.aborted) {
+          throw new Error('Upload was cancelled');
+        }
+        const data = ct.slice(i * TRANSFER_CHUNK_CHARS, (i + 1) * TRANSFER_CHUNK_CHARS);
+        await this.sendJson(
+          'PUT',
+          `${this.baseUrl}/pastes/${encodeURIComponent(created.id)}/chunks/${i}`,
+          JSON.stringify({ deleteToken: created.deleteToken, data }),
+          onProgress && (fraction => onProgress((i + fraction) / count)),
+          signal
+        );
+      }
+    } catch (err) {
+      await this.deletePaste(created.id, created.deleteToken).catch(() => undefined);
+      throw err;
+    }
+    return created;
+  }
+
+  /**
+   * Send a JSON body and parse the JSON response (undefined for 204)
+   */
+  private async sendJson<T>(
+    method: 'POST' | 'PUT',
+    url: string,
+    body: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (onProgress && typeof XMLHttpRequest !== 'undefined') {
+      const response = await this.uploadWithProgress(method, url, body, onProgress, signal);
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(HttpApiClient.errorMessageFromText(response.status, response.statusText, response.text));
+      }
+      return response.text ? JSON.parse(response.text) : undefined;
+    }
+
+    const response = await fetch(url, {
+      method,
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify(request)
+      body,
+      signal
     });
 
     if (!response.ok) {
@@ -41,18 +137,62 @@ export class HttpApiClient implements IApiClient {
         // If response is not JSON, use status text
         const text = await response.text().catch(() => '');
         if (text) {
-          try {
-            const errorData = JSON.parse(text);
-            errorMessage = errorData.error || errorData.message || errorMessage;
-          } catch {
-            errorMessage = text || errorMessage;
-          }
+          errorMessage = HttpApiClient.errorMessageFromText(response.status, response.statusText, text);
         }
       }
       throw new Error(errorMessage);
     }
 
-    return response.json();
+    return response.status === 204 ? undefined : response.json();
+  }
+
+  /**
+   * Build an error message from a failed response body
+   */
+  private static errorMessageFromText(status: number, statusText: string, text: string): string {
+    const fallback = `HTTP ${status}: ${statusText}`;
+    try {
+      const errorData = JSON.parse(text);
+      return errorData.error || errorData.message || fallback;
+    } catch {
+      return text || fallback;
+    }
+  }
+
+  /**
+   * Send a JSON body with XMLHttpRequest, reporting upload progress
+   */
+  private uploadWithProgress(
+    method: 'POST' | 'PUT',
+    url: string,
+    body: string,
+    onProgress: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<{ status: number; statusText: string; text: string }> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Upload was cancelled'));
+        return;
+      }
+      const xhr = new XMLHttpRequest();
+      const abort = (): void => xhr.abort();
+      signal?.addEventListener('abort', abort, { once: true });
+      xhr.onloadend = () => signal?.removeEventListener('abort', abort);
+      xhr.open(method, url);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.upload.onprogress = (event: ProgressEvent) => {
+        if (event.lengthComputable && event.total > 0) {
+          onProgress(event.loaded / event.total);
+        }
+      };
+      xhr.onload = () => {
+        onProgress(1);
+        resolve({ status: xhr.status, statusText: xhr.statusText, text: xhr.responseText });
+      };
+      xhr.onerror = () => reject(new Error('Network error while uploading the paste'));
+      xhr.onabort = () => reject(new Error('Upload was cancelled'));
+      xhr.send(body);
+    });
   }
 
   /** Request timeout in ms (prevents indefinite hang on slow/unresponsive server) */
@@ -60,14 +200,52 @@ export class HttpApiClient implements IApiClient {
 
   /**
    * Retrieve a paste by ID
+   *
+   * Ciphertext larger than one transfer chunk is read in chunks with the
+   * read token of this view, and returned assembled.
+   *
+   * @param id Paste ID
+   * @param onProgress Optional callback with the fraction of the ciphertext downloaded
+   *   (partial fractions only when the server sends a Content-Length)
    */
-  async retrievePaste(id: string): Promise<PasteRetrieveResponse> {
+  async retrievePaste(id: string, onProgress?: ProgressCallback): Promise<PasteRetrieveResponse> {
+    const pasteUrl = `${this.baseUrl}/pastes/${encodeURIComponent(id)}`;
+    // The paste itself is only a small part of a chunked read, so it does not finish the progress
+    const paste = await this.getJson<ChunkedRetrieveResponse>(
+      `${pasteUrl}?chunked=true`,
+      onProgress && (fraction => { if (fraction < 1) onProgress(fraction); })
+    );
+    const { ct, ctSize, readToken, ...rest } = paste;
+    if (ct !== null) {
+      onProgress?.(1);
+      return { ...rest, ct };
+    }
+    if (!readToken || !ctSize) {
+      throw new Error('Server sent the paste without its content');
+    }
+
+    const count = Math.ceil(ctSize / TRANSFER_CHUNK_SIZE);
+    const chunks: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const chunk = await this.getJson<{ data: string }>(
+        `${pasteUrl}/chunks/${i}?read=${encodeURIComponent(readToken)}`,
+        onProgress && (fraction => onProgress((i + fraction) / count))
+      );
+      chunks.push(chunk.data);
+    }
+    return { ...rest, ct: chunks.join('') };
+  }
+
+  /**
+   * GET a JSON response with a timeout, reporting download progress
+   */
+  private async getJson<T>(url: string, onProgress?: ProgressCallback): Promise<T> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), HttpApiClient.FETCH_TIMEOUT_MS);
 
     let response: Response;
     try {
-      response = await fetch(`${this.baseUrl}/pastes/${encodeURIComponent(id)}`, {
+      response = await fetch(url, {
         signal: controller.signal
       });
     } catch (err) {
@@ -101,9 +279,37 @@ export class HttpApiClient implements IApiClient {
       );
     }
 
+    const total = Number(response.headers?.get('Content-Length'));
+    if (onProgress && response.body && total > 0) {
+      return JSON.parse(await HttpApiClient.readWithProgress(response.body, total, onProgress));
+    }
     return response.json();
   }
 
+  /**
+   * Read a response body to text, reporting download progress
+   */
+  private static async readWithProgress(
+    body: ReadableStream<Uint8Array>,
+    total: number,
+    onProgress: ProgressCallback
+  ): Promise<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parts: string[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      loaded += value.length;
+      parts.push(decoder.decode(value, { stream: true }));
+      onProgress(Math.min(1, loaded / total));
+    }
+    parts.push(decoder.decode());
+    onProgress(1);
+    return parts.join('');
+  }
+
   /**
    * Delete a paste
    */
@@ -119,6 +325,24 @@ export class HttpApiClient implements IApiClient {
     }
   }
 
+  /**
+   * Replace the password key slots of a paste
+   */
+  async updateKeySlots(id: string, token: string, keySlots: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/pastes/${encodeURIComponent(id)}/slots`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ deleteToken: token, keySlots })
+    });
+
+    if (!response.ok && response.status !== 204) {
+      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(error.error || 'Invalid token or paste not found');
+    }
+  }
+
   /**
    * Get PoW challenge
    */
@@ -136,6 +360,27 @@ export class HttpApiClient implements IApiClient {
     return response.json();
   }
 
+  /**
+   * Get the paste limits published by the server
+   *
+   * Servers that predate GET /limits, or fail to answer, give null, so
+   * callers fall back to their own limits.
+   */
+  async getLimits(): Promise<PasteLimits | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/limits`);
+      if (!response.ok) {
+        return null;
+      }
+      const limits = await response.json();
+      return Number.isInteger(limits?.maxSizeBytes) && limits.maxSizeBytes > 0
+        ? { maxSizeBytes: limits.maxSizeBytes }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Health check
    */
@@ -8,7 +8,9 @@ import {
   PowSolution,
   CreatePasteRequest,
   CreatePasteResponse,
-  GetPasteResponse
+  GetPasteResponse,
+  PasteLimits,
+  ProgressCallback
 } from '../../core/models/paste.js';
 
 // Re-export types for convenience
@@ -17,7 +19,8 @@ export type {
   PowSolution,
   CreatePasteRequest,
   CreatePasteResponse,
-  GetPasteResponse
+  GetPasteResponse,
+  PasteLimits
 };
 
 // Legacy aliases for backward compatibility
@@ -30,25 +33,45 @@ export type PasteRetrieveResponse = GetPasteResponse;
  */
 export interface IApiClient {
   /**
-   * Create a new paste
+   * Create a new paste, optionally reporting upload progress
+   *
+   * Large ciphertext may be uploaded in several requests; progress covers
+   * all of them. Aborting the signal stops the upload and rejects the promise.
    */
-  createPaste(request: PasteCreateRequest): Promise<PasteCreateResponse>;
+  createPaste(
+    request: PasteCreateRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<PasteCreateResponse>;
 
   /**
-   * Retrieve a paste by ID
+   * Retrieve a paste by ID, optionally reporting download progress
+   *
+   * Large ciphertext may be downloaded in several requests; it is returned
+   * assembled, and progress covers all of them.
    */
-  retrievePaste(id: string): Promise<PasteRetrieveResponse>;
+  retrievePaste(id: string, onProgress?: ProgressCallback): Promise<PasteRetrieveResponse>;
 
   /**
    * Delete a paste
    */
   deletePaste(id: string, token: string): Promise<void>;
 
+  /**
+   * Replace the password key slots of a paste
+   */
+  updateKeySlots(id: string, token: string, keySlots: string): Promise<void>;
+
   /**
    * Get PoW challenge (returns null if PoW disabled)
    */
   getPowChallenge(): Promise<PowChallenge | null>;
 
+  /**
+   * Get the paste limits published by the server (null if it publishes none)
+   */
+  getLimits(): Promise<PasteLimits | null>;
+
   /**
    * Health check
    */
@@ -10,17 +10,32 @@ import {
   PasteRetrieveResponse,
   PowChallenge
 } from './interfaces.js';
-import type { PasteMetadata } from '../../core/models/paste.js';
+import type { PasteLimits, PasteMetadata, ProgressCallback } from '../../core/models/paste.js';
 
 /**
  * Mock API client for testing
  * Stores pastes in memory and simulates server behavior
  */
 export class MockApiClient implements IApiClient {
-  private pastes = new Map<string, { ct: string; iv: string; meta: PasteMetadata; deleteToken: string }>();
+  private pastes = new Map<string, {
+    ct: string;
+    iv: string;
+    meta: PasteMetadata;
+    deleteToken: string;
+    keySlots?: string;
+    views: number;
+  }>();
   private powEnabled = false;
+  private limits: PasteLimits | null = null;
   private nextId = 1;
 
+  /**
+   * Set the paste limits the mock server publishes
+   */
+  setLimits(limits: PasteLimits | null): void {
+    this.limits = limits;
+  }
+
   /**
    * Enable or disable PoW challenges
    */
@@ -31,7 +46,14 @@ export class MockApiClient implements IApiClient {
   /**
    * Create a new paste
    */
-  async createPaste(request: PasteCreateRequest): Promise<PasteCreateResponse> {
+  async createPaste(
+    request: PasteCreateRequest,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<PasteCreateResponse> {
+    if (signal?.aborted) {
+      throw new Error('Upload was cancelled');
+    }
     const id = `mock-${this.nextId++}`;
     const deleteToken = `token-${Math.random().toString(36).substring(7)}`;
     
@@ -39,26 +61,42 @@ export class MockApiClient implements IApiClient {
       ct: request.ct,
       iv: request.iv,
       meta: request.meta,
-      deleteToken
+      deleteToken,
+      keySlots: request.keySlots,
+      views: 0
     });
 
+    onProgress?.(1);
     return { id, deleteToken };
   }
 
   /**
-   * Retrieve a paste by ID
+   * Retrieve a paste by ID, counting a view and deleting the paste after
+   * its last one if it has a view limit
    */
-  async retrievePaste(id: string): Promise<PasteRetrieveResponse> {
+  async retrievePaste(id: string, onProgress?: ProgressCallback): Promise<PasteRetrieveResponse> {
     const paste = this.pastes.get(id);
     
     if (!paste) {
       throw new Error('Content not found or has expired');
     }
 
+    let viewsRemaining: number | null = null;
+    if (paste.meta.maxViews) {
+      paste.views++;
+      viewsRemaining = paste.meta.maxViews - paste.views;
+      if (viewsRemaining === 0) {
+        this.pastes.delete(id);
+      }
+    }
+
+    onProgress?.(1);
     return {
       ct: paste.ct,
       iv: paste.iv,
-      meta: paste.meta
+      meta: paste.meta,
+      keySlots: paste.keySlots ?? null,
+      viewsRemaining
     };
   }
 
@@ -79,6 +117,19 @@ export class MockApiClient implements IApiClient {
     this.pastes.delete(id);
   }
 
+  /**
+   * Replace the password key slots of a paste
+   */
+  async updateKeySlots(id: string, token: string, keySlots: string): Promise<void> {
+    const paste = this.pastes.get(id);
+
+    if (!paste || paste.deleteToken !== token || !paste.keySlots) {
+      throw new Error('invalid_token');
+    }
+
+    paste.keySlots = keySlots;
+  }
+
   /**
    * Get PoW challenge
    */
@@ -93,6 +144,13 @@ export class MockApiClient implements IApiClient {
     };
   }
 
+  /**
+   * Get the paste limits (null unless set with setLimits)
+   */
+  async getLimits(): Promise<PasteLimits | null> {
+    return this.limits;
+  }
+
   /**
    * Health check
    */
@@ -0,0 +1,113 @@
+/**
+ * Crypto Worker Operations
+ * Messages between WorkerPasteCrypto and the crypto worker, and the
+ * dispatch shared by the worker and the in-page fallback
+ */
+
+import { IPasteCrypto } from './interfaces.js';
+import type { PasswordKdfAlgorithm } from '../../core/crypto/envelope.js';
+import type { PaddingParams } from '../../core/crypto/padding.js';
+import type { EncodedContent, PasteKeys, PasteMetadata, ProgressCallback } from '../../core/models/paste.js';
+
+/**
+ * Operation for the crypto worker, named after the IPasteCrypto method it
+ * calls, with that method's arguments (progress is reported by message)
+ */
+export type CryptoOperation =
+  | {
+    kind: 'encryptPaste';
+    args: [
+      content: string | EncodedContent,
+      meta: PasteMetadata,
+      password: string,
+      kdf?: PasswordKdfAlgorithm,
+      twoFactor?: boolean,
+      padding?: PaddingParams
+    ];
+  }
+  | {
+    kind: 'encryptPasteWithLinkKey';
+    args: [content: string | EncodedContent, meta: PasteMetadata, padding?: PaddingParams];
+  }
+  | {
+    kind: 'encryptPasteForRecipients';
+    args: [content: string | EncodedContent, meta: PasteMetadata, recipientPublicKeys: string[], padding?: PaddingParams];
+  }
+  | {
+    kind: 'encryptPasteWithKeySlots';
+    args: [
+      content: string | EncodedContent,
+      meta: PasteMetadata,
+      passwords: string[],
+      kdf?: PasswordKdfAlgorithm,
+      padding?: PaddingParams
+    ];
+  }
+  | { kind: 'addKeySlot'; args: Parameters<IPasteCrypto['addKeySlot']> }
+  | { kind: 'derivePasteKeys'; args: Parameters<IPasteCrypto['derivePasteKeys']> }
+  | { kind: 'unlockKeySlots'; args: Parameters<IPasteCrypto['unlockKeySlots']> }
+  | { kind: 'deriveLinkKeys'; args: Parameters<IPasteCrypto['deriveLinkKeys']> }
+  | { kind: 'deriveDeleteAuth'; args: Parameters<IPasteCrypto['deriveDeleteAuth']> }
+  | { kind: 'decryptPasteDocument'; args: [ctB64: string, keys: PasteKeys, ivB64: string, meta?: PasteMetadata] };
+
+/**
+ * Message that starts an operation in the worker
+ *
+ * The id matches the replies to the request, since several can be in
+ * flight at once.
+ */
+export type CryptoWorkerRequest = CryptoOperation & { id: number };
+
+/**
+ * Message the worker sends about a request: its progress, its result, or
+ * the message of the error it failed with
+ */
+export type CryptoWorkerMessage =
+  | { id: number; kind: 'progress'; fraction: number }
+  | { id: number; kind: 'done'; value: unknown }
+  | { id: number; kind: 'failed'; message: string };
+
+/**
+ * Perform an operation with an IPasteCrypto
+ *
+ * @param crypto Implementation that does the work
+ * @param operation Operation and its arguments
+ * @param onProgress Optional callback with encryption or decryption progress
+ * @returns Promise resolving to the method's result
+ */
+export function performCryptoOperation(
+  crypto: IPasteCrypto,
+  operation: CryptoOperation,
+  onProgress?: ProgressCallback
+): Promise<unknown> {
+  switch (operation.kind) {
+    case 'encryptPaste': {
+      const [content, meta, password, kdf, twoFactor, padding] = operation.args;
+      return crypto.encryptPaste(content, meta, password, kdf, twoFactor, padding, onProgress);
+    }
+    case 'encryptPasteWithLinkKey': {
+      const [content, meta, padding] = operation.args;
+      return crypto.encryptPasteWithLinkKey(content, meta, padding, onProgress);
+    }
+    case 'encryptPasteForRecipients': {
+      const [content, meta, recipientPublicKeys, padding] = operation.args;
+      return crypto.encryptPasteForRecipients(content, meta, recipientPublicKeys, padding, onProgress);
+    }
+    case 'encryptPasteWithKeySlots': {
+      const [content, meta, passwords, kdf, padding] = operation.args;
+      return crypto.encryptPasteWithKeySlots(content, meta, passwords, kdf, padding, onProgress);
+    }
+    case 'addKeySlot':
+      return crypto.addKeySlot(...operation.args);
+    case 'derivePasteKeys':
+      return crypto.derivePasteKeys(...operation.args);
+    case 'unlockKeySlots':
+      return crypto.unlockKeySlots(...operation.args);
+    case 'deriveLinkKeys':
+      return crypto.deriveLinkKeys(...operation.args);
+    case 'deriveDeleteAuth':
+      return crypto.deriveDeleteAuth(...operation.args);
+    case 'decryptPasteDocument':
+      return crypto.decryptPasteDocument(...operation.args, onProgress);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Crypto Worker
+ * Encrypts pastes, derives paste keys and decrypts pastes for
+ * WorkerPasteCrypto, off the page's main thread. Keys are CryptoKey
+ * objects, which are passed to and from the page as they are.
+ */
+
+import { EncryptionService } from '../../core/services/encryption-service.js';
+import { performCryptoOperation } from './crypto-operations.js';
+import type { CryptoWorkerMessage, CryptoWorkerRequest } from './crypto-operations.js';
+
+const encryptionService = new EncryptionService();
+const post = (message: CryptoWorkerMessage): void => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<CryptoWorkerRequest>) => {
+  const { id } = event.data;
+  void performCryptoOperation(encryptionService, event.data, fraction => post({ id, kind: 'progress', fraction }))
+    .then(
+      value => post({ id, kind: 'done', value }),
+      (error: unknown) => post({ id, kind: 'failed', message: error instanceof Error ? error.message : String(error) })
+    );
+});
@@ -0,0 +1,9 @@
+/**
+ * Paste Crypto Module
+ * Exports paste encryption, key derivation and decryption off the main thread
+ */
+
+export { IPasteCrypto } from './interfaces.js';
+export { WorkerPasteCrypto, CRYPTO_WORKER_URL } from './worker-crypto.js';
+export { performCryptoOperation } from './crypto-operations.js';
+export type { CryptoOperation, CryptoWorkerMessage, CryptoWorkerRequest } from './crypto-operations.js';
@@ -0,0 +1,174 @@
+/**
+ * Paste Crypto Interface
+ */
+
+import type { KdfParams, PasswordKdfAlgorithm } from '../../core/crypto/envelope.js';
+import type { PaddingParams } from '../../core/crypto/padding.js';
+import type {
+  EncodedContent,
+  EncryptedPaste,
+  PasteDocument,
+  PasteKeys,
+  PasteMetadata,
+  ProgressCallback
+} from '../../core/models/paste.js';
+
+/**
+ * Encryption, key derivation and decryption for creating and opening a paste
+ *
+ * The slow steps of creating and viewing a paste. EncryptionService
+ * performs them in the page; WorkerPasteCrypto performs them in a Web
+ * Worker.
+ */
+export interface IPasteCrypto {
+  /**
+   * Encrypt a password paste
+   * 
+   * @param content Content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param password Password chosen by the creator
+   * @param kdf Key derivation function for the password
+   * @param twoFactor Also require a random secret carried in the share link
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to the encrypted paste and its delete authorization
+   */
+  encryptPaste(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    password: string,
+    kdf?: PasswordKdfAlgorithm,
+    twoFactor?: boolean,
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste>;
+
+  /**
+   * Encrypt a paste with a random key carried in the share link
+   * 
+   * @param content Content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to the encrypted paste (keyB64 is the link key)
+   */
+  encryptPasteWithLinkKey(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste>;
+
+  /**
+   * Encrypt a paste for one or more recipients' public keys
+   * 
+   * @param content Content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param recipientPublicKeys Base64url-encoded raw public keys of the recipients
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to the encrypted paste (keyB64 is the salt)
+   */
+  encryptPasteForRecipients(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    recipientPublicKeys: string[],
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste>;
+
+  /**
+   * Encrypt a paste that any of several passwords opens
+   * 
+   * @param content Content from encodeContent
+   * @param meta Paste metadata that will be stored with the paste
+   * @param passwords Passwords chosen by the creator
+   * @param kdf Key derivation function for the passwords
+   * @param padding Length-hiding padding of the content
+   * @param onProgress Optional callback with the fraction of the content encrypted
+   * @returns Promise resolving to the encrypted paste (keyB64 is the salt) and its key slots
+   */
+  encryptPasteWithKeySlots(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    passwords: string[],
+    kdf?: PasswordKdfAlgorithm,
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste>;
+
+  /**
+   * Add a password to a key-slot paste
+   * 
+   * @param keySlotsB64 Current base64url-encoded key slots
+   * @param slotKey Slot key from unlockKeySlots
+   * @param password New password
+   * @param salt Salt from the URL fragment
+   * @param kdf Key derivation function for the new password
+   * @returns Promise resolving to the updated base64url-encoded key slots
+   */
+  addKeySlot(
+    keySlotsB64: string,
+    slotKey: CryptoKey,
+    password: string,
+    salt: Uint8Array,
+    kdf?: PasswordKdfAlgorithm
+  ): Promise<string>;
+
+  /**
+   * Derive the keys of a password paste
+   * 
+   * @param password Password entered by the reader or the creator
+   * @param salt Salt from the URL fragment
+   * @param kdf KDF parameters from the envelope header (absent for legacy pastes)
+   * @param linkSecret Secret from the link (two-factor pastes only)
+   * @returns Promise resolving to content key, chat key, delete authorization and key commitment
+   */
+  derivePasteKeys(password: string, salt: Uint8Array, kdf?: KdfParams, linkSecret?: Uint8Array): Promise<PasteKeys>;
+
+  /**
+   * Derive the keys of a key-slot paste from one of its passwords
+   * 
+   * @param keySlotsB64 Base64url-encoded key slots stored with the paste
+   * @param password Password entered by the reader
+   * @param salt Salt from the URL fragment
+   * @returns Promise resolving to the paste keys, with the slot key
+   */
+  unlockKeySlots(keySlotsB64: string, password: string, salt: Uint8Array): Promise<PasteKeys>;
+
+  /**
+   * Derive the keys of a link-key paste
+   * 
+   * @param linkKeyB64 Base64url-encoded link key from the URL fragment
+   * @returns Promise resolving to the paste keys
+   */
+  deriveLinkKeys(linkKeyB64: string): Promise<PasteKeys>;
+
+  /**
+   * Derive the delete authorization of a password paste
+   * 
+   * @param password Password entered by the reader
+   * @param salt Salt from the URL fragment
+   * @param kdf KDF parameters from the envelope header (absent for legacy pastes)
+   * @returns Promise resolving to the base64url-encoded delete authorization
+   */
+  deriveDeleteAuth(password: string, salt: Uint8Array, kdf?: KdfParams): Promise<string>;
+
+  /**
+   * Decrypt a paste and decode its document
+   * 
+   * @param ctB64 Base64url-encoded ciphertext
+   * @param keys Keys from one of the derivations
+   * @param ivB64 Base64url-encoded IV
+   * @param meta Paste metadata, authenticated with the content
+   * @param onProgress Optional callback with the fraction of the content decrypted
+   * @returns Promise resolving to the paste document
+   */
+  decryptPasteDocument(
+    ctB64: string,
+    keys: PasteKeys,
+    ivB64: string,
+    meta?: PasteMetadata,
+    onProgress?: ProgressCallback
+  ): Promise<PasteDocument>;
+}
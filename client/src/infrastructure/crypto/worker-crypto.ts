@@ -0,0 +1,257 @@
+/**
+ * Worker Paste Crypto
+ * Encrypts pastes, derives paste keys and decrypts pastes in a Web Worker,
+ * so that PBKDF2, Argon2id and encrypting or decrypting a large paste do not
+ * freeze the page. Falls back to the page where workers are unavailable
+ */
+
+import { IPasteCrypto } from './interfaces.js';
+import { performCryptoOperation } from './crypto-operations.js';
+import type { CryptoOperation, CryptoWorkerMessage, CryptoWorkerRequest } from './crypto-operations.js';
+import { EncryptionService } from '../../core/services/encryption-service.js';
+import type { KdfParams, PasswordKdfAlgorithm } from '../../core/crypto/envelope.js';
+import type { PaddingParams } from '../../core/crypto/padding.js';
+import type {
+  EncodedContent,
+  EncryptedPaste,
+  PasteDocument,
+  PasteKeys,
+  PasteMetadata,
+  ProgressCallback
+} from '../../core/models/paste.js';
+
+/**
+ * Compiled worker script, relative to the page
+ */
+export const CRYPTO_WORKER_URL = 'js/infrastructure/crypto/crypto-worker.js';
+
+/**
+ * Request sent to the worker and not yet answered
+ */
+interface PendingOperation {
+  operation: CryptoOperation;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Web Worker paste crypto
+ */
+export class WorkerPasteCrypto implements IPasteCrypto {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingOperation>();
+  private nextId = 1;
+  private fellBack = false;
+
+  constructor(
+    private workerUrl: string = CRYPTO_WORKER_URL,
+    private fallback: IPasteCrypto = new EncryptionService()
+  ) {}
+
+  /**
+   * Check whether this environment can run workers
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Encrypt a password paste
+   */
+  async encryptPaste(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    password: string,
+    kdf?: PasswordKdfAlgorithm,
+    twoFactor?: boolean,
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    return await this.run(
+      { kind: 'encryptPaste', args: [content, meta, password, kdf, twoFactor, padding] },
+      onProgress
+    ) as EncryptedPaste;
+  }
+
+  /**
+   * Encrypt a paste with a random key carried in the share link
+   */
+  async encryptPasteWithLinkKey(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    return await this.run({ kind: 'encryptPasteWithLinkKey', args: [content, meta, padding] }, onProgress) as EncryptedPaste;
+  }
+
+  /**
+   * Encrypt a paste for one or more recipients' public keys
+   */
+  async encryptPasteForRecipients(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    recipientPublicKeys: string[],
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    return await this.run(
+      { kind: 'encryptPasteForRecipients', args: [content, meta, recipientPublicKeys, padding] },
+      onProgress
+    ) as EncryptedPaste;
+  }
+
+  /**
+   * Encrypt a paste that any of several passwords opens
+   */
+  async encryptPasteWithKeySlots(
+    content: string | EncodedContent,
+    meta: PasteMetadata,
+    passwords: string[],
+    kdf?: PasswordKdfAlgorithm,
+    padding?: PaddingParams,
+    onProgress?: ProgressCallback
+  ): Promise<EncryptedPaste> {
+    return await this.run(
+      { kind: 'encryptPasteWithKeySlots', args: [content, meta, passwords, kdf, padding] },
+      onProgress
+    ) as EncryptedPaste;
+  }
+
+  /**
+   * Add a password to a key-slot paste
+   */
+  async addKeySlot(
+    keySlotsB64: string,
+    slotKey: CryptoKey,
+    password: string,
+    salt: Uint8Array,
+    kdf?: PasswordKdfAlgorithm
+  ): Promise<string> {
+    return await this.run({ kind: 'addKeySlot', args: [keySlotsB64, slotKey, password, salt, kdf] }) as string;
+  }
+
+  /**
+   * Derive the keys of a password paste
+   */
+  async derivePasteKeys(password: string, salt: Uint8Array, kdf?: KdfParams, linkSecret?: Uint8Array): Promise<PasteKeys> {
+    return await this.run({ kind: 'derivePasteKeys', args: [password, salt, kdf, linkSecret] }) as PasteKeys;
+  }
+
+  /**
+   * Derive the keys of a key-slot paste from one of its passwords
+   */
+  async unlockKeySlots(keySlotsB64: string, password: string, salt: Uint8Array): Promise<PasteKeys> {
+    return await this.run({ kind: 'unlockKeySlots', args: [keySlotsB64, password, salt] }) as PasteKeys;
+  }
+
+  /**
+   * Derive the keys of a link-key paste
+   */
+  async deriveLinkKeys(linkKeyB64: string): Promise<PasteKeys> {
+    return await this.run({ kind: 'deriveLinkKeys', args: [linkKeyB64] }) as PasteKeys;
+  }
+
+  /**
+   * Derive the delete authorization of a password paste
+   */
+  async deriveDeleteAuth(password: string, salt: Uint8Array, kdf?: KdfParams): Promise<string> {
+    return await this.run({ kind: 'deriveDeleteAuth', args: [password, salt, kdf] }) as string;
+  }
+
+  /**
+   * Decrypt a paste and decode its document
+   */
+  async decryptPasteDocument(
+    ctB64: string,
+    keys: PasteKeys,
+    ivB64: string,
+    meta?: PasteMetadata,
+    onProgress?: ProgressCallback
+  ): Promise<PasteDocument> {
+    return await this.run({ kind: 'decryptPasteDocument', args: [ctB64, keys, ivB64, meta] }, onProgress) as PasteDocument;
+  }
+
+  /**
+   * Send an operation to the worker, or perform it in the page without one
+   */
+  private run(operation: CryptoOperation, onProgress?: ProgressCallback): Promise<unknown> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return performCryptoOperation(this.fallback, operation, onProgress);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { operation, resolve, reject, onProgress });
+      try {
+        const request: CryptoWorkerRequest = { ...operation, id };
+        worker.postMessage(request);
+      } catch {
+        // Arguments the browser cannot pass to a worker
+        this.pending.delete(id);
+        performCryptoOperation(this.fallback, operation, onProgress).then(resolve, reject);
+      }
+    });
+  }
+
+  /**
+   * Start the worker on first use
+   *
+   * @returns The worker, or null once falling back to the page
+   */
+  private getWorker(): Worker | null {
+    if (this.worker || this.fellBack) return this.worker;
+    if (!WorkerPasteCrypto.isSupported()) {
+      this.fellBack = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(this.workerUrl, { type: 'module' });
+    } catch {
+      this.fellBack = true;
+      return null;
+    }
+    this.worker.addEventListener('message', (event: MessageEvent<CryptoWorkerMessage>) => this.handleMessage(event.data));
+    // A worker that cannot load (blocked by CSP, or a module worker the
+    // browser does not support) hands its requests to the page
+    this.worker.addEventListener('error', () => this.useFallback());
+    return this.worker;
+  }
+
+  /**
+   * Settle a request, or report its progress
+   */
+  private handleMessage(message: CryptoWorkerMessage): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    if (message.kind === 'progress') {
+      pending.onProgress?.(message.fraction);
+      return;
+    }
+    this.pending.delete(message.id);
+    if (message.kind === 'done') {
+      pending.resolve(message.value);
+    } else {
+      pending.reject(new Error(message.message));
+    }
+  }
+
+  /**
+   * Stop using the worker and perform its outstanding requests in the page
+   */
+  private useFallback(): void {
+    if (this.fellBack) return;
+    this.fellBack = true;
+    this.worker?.terminate();
+    this.worker = null;
+
+    const outstanding = [...this.pending.values()];
+    this.pending.clear();
+    for (const { operation, resolve, reject, onProgress } of outstanding) {
+      performCryptoOperation(this.fallback, operation, onProgress).then(resolve, reject);
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Recipient Key Storage Module
+ * Exports recipient key store implementations
+ */
+
+export { IRecipientKeyStore } from './interfaces.js';
+export { IndexedDbRecipientKeyStore } from './indexeddb-key-store.js';
+export { MemoryRecipientKeyStore } from './memory-key-store.js';
@@ -0,0 +1,65 @@
+/**
+ * IndexedDB Recipient Key Store
+ * 
+ * Keeps the recipient keypair as CryptoKey objects in IndexedDB. The private
+ * key is non-extractable, so it can be used by this origin but its bytes
+ * can never be read back.
+ */
+
+import type { IRecipientKeyStore } from './interfaces.js';
+
+const DB_NAME = 'delerium-paste';
+const DB_VERSION = 1;
+const STORE_NAME = 'recipient-keys';
+const KEY_NAME = 'default';
+
+/**
+ * Recipient key store backed by IndexedDB
+ */
+export class IndexedDbRecipientKeyStore implements IRecipientKeyStore {
+  /**
+   * Open the database, creating the object store on first use
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Key storage is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Key storage is not available in this browser'));
+    });
+  }
+
+  /**
+   * Run a single request against the key store
+   */
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(new Error('Failed to access key storage'));
+      });
+    } finally {
+      db.close();
+    }
+  }
+
+  async load(): Promise<CryptoKeyPair | null> {
+    const keyPair = await this.withStore<CryptoKeyPair | undefined>('readonly', store => store.get(KEY_NAME));
+    return keyPair ?? null;
+  }
+
+  async save(keyPair: CryptoKeyPair): Promise<void> {
+    await this.withStore<IDBValidKey>('readwrite', store => store.put(keyPair, KEY_NAME));
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Recipient Key Store Interface
+ * Allows swapping key storage implementations (IndexedDB, in-memory)
+ */
+
+/**
+ * Store for this browser's recipient keypair
+ */
+export interface IRecipientKeyStore {
+  /**
+   * Load the stored keypair
+   * 
+   * @returns Promise resolving to the keypair, or null if none is stored
+   */
+  load(): Promise<CryptoKeyPair | null>;
+
+  /**
+   * Store a keypair, replacing any existing one
+   * 
+   * @param keyPair ECDH keypair with a non-extractable private key
+   */
+  save(keyPair: CryptoKeyPair): Promise<void>;
+}
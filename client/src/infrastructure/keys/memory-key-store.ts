@@ -0,0 +1,21 @@
+/**
+ * In-Memory Recipient Key Store
+ * For testing and for browsers without IndexedDB (keys are lost on reload)
+ */
+
+import type { IRecipientKeyStore } from './interfaces.js';
+
+/**
+ * Recipient key store that keeps the keypair in memory
+ */
+export class MemoryRecipientKeyStore implements IRecipientKeyStore {
+  private keyPair: CryptoKeyPair | null = null;
+
+  async load(): Promise<CryptoKeyPair | null> {
+    return this.keyPair;
+  }
+
+  async save(keyPair: CryptoKeyPair): Promise<void> {
+    this.keyPair = keyPair;
+  }
+}
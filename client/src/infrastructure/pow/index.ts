@@ -5,3 +5,5 @@
 
 export { IPowSolver } from './interfaces.js';
 export { InlinePowSolver } from './inline-solver.js';
+export { WorkerPowSolver, defaultPowWorkerCount, POW_WORKER_URL, MAX_POW_WORKERS } from './worker-solver.js';
+export { PowPresolver, POW_EXPIRY_MARGIN_SECONDS } from './presolver.js';
@@ -5,7 +5,9 @@
  */
 
 import { IPowSolver } from './interfaces.js';
+import { POW_PROGRESS_INTERVAL, powHashBits, powProgress } from './pow-search.js';
 import { PowChallenge, PowSolution } from '../api/interfaces.js';
+import type { PowProgressCallback } from '../../core/models/paste.js';
 
 /**
  * Inline (main thread) PoW solver
@@ -16,9 +18,10 @@ export class InlinePowSolver implements IPowSolver {
   /**
    * Solve PoW challenge
    */
-  async solve(challenge: PowChallenge): Promise<PowSolution> {
+  async solve(challenge: PowChallenge, onProgress?: PowProgressCallback): Promise<PowSolution> {
     this.cancelled = false;
     const target = challenge.difficulty;
+    const startedAt = performance.now();
     let nonce = 0;
 
     return new Promise((resolve, reject) => {
@@ -28,29 +31,15 @@ export class InlinePowSolver implements IPowSolver {
           return;
         }
 
-        const text = `${challenge.challenge}:${nonce}`;
-        const encoder = new TextEncoder();
-        const data = encoder.encode(text);
-        const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-        const hashArray = new Uint8Array(hashBuffer);
-
-        // Count leading zero bits
-        let bits = 0;
-        for (const byte of hashArray) {
-          if (byte === 0) {
-            bits += 8;
-            continue;
-          }
-          bits += Math.clz32(byte) - 24;
-          break;
-        }
+        const bits = await powHashBits(challenge.challenge, nonce);
 
         if (bits >= target) {
           resolve({ challenge: challenge.challenge, nonce });
         } else {
           nonce++;
           // Yield every 1000 iterations to avoid blocking
-          if (nonce % 1000 === 0) {
+          if (nonce % POW_PROGRESS_INTERVAL === 0) {
+            onProgress?.(powProgress(nonce, startedAt, target));
             setTimeout(step, 0);
           } else {
             step();
@@ -3,6 +3,7 @@
  */
 
 import { PowChallenge, PowSolution } from '../api/interfaces.js';
+import type { PowProgressCallback } from '../../core/models/paste.js';
 
 /**
  * PoW Solver Interface
@@ -12,9 +13,10 @@ export interface IPowSolver {
    * Solve a proof-of-work challenge
    * 
    * @param challenge PoW challenge from server
+   * @param onProgress Optional callback with hashes tried, hash rate and expected hashes
    * @returns Promise resolving to solution
    */
-  solve(challenge: PowChallenge): Promise<PowSolution>;
+  solve(challenge: PowChallenge, onProgress?: PowProgressCallback): Promise<PowSolution>;
 
   /**
    * Cancel ongoing solve operation
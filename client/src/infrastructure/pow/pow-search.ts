@@ -0,0 +1,92 @@
+/**
+ * Proof-of-Work Search
+ * Hashing shared by the inline solver and the solver workers
+ */
+
+import type { PowProgress } from '../../core/models/paste.js';
+
+/**
+ * Number of hashes between progress reports
+ */
+export const POW_PROGRESS_INTERVAL = 1000;
+
+/**
+ * Message that starts a worker on its share of the nonce space
+ *
+ * The worker tries start, start + stride, start + 2 * stride, ... so N
+ * workers with starts 0 to N - 1 and stride N cover every nonce once.
+ */
+export interface PowWorkerRequest {
+  challenge: string;
+  difficulty: number;
+  start: number;
+  stride: number;
+}
+
+/**
+ * Message a worker sends: the hashes it has tried so far, or its solution
+ */
+export type PowWorkerMessage =
+  | { kind: 'progress'; hashes: number }
+  | { kind: 'solved'; nonce: number };
+
+/**
+ * Count the leading zero bits of a hash
+ */
+export function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+/**
+ * Hash a nonce for a challenge as the server does: SHA-256 of "challenge:nonce"
+ *
+ * @returns Number of leading zero bits of the hash
+ */
+export async function powHashBits(challenge: string, nonce: number): Promise<number> {
+  const data = new TextEncoder().encode(`${challenge}:${nonce}`);
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  return leadingZeroBits(new Uint8Array(hash));
+}
+
+/**
+ * Describe the progress of a search
+ *
+ * @param hashes Hashes tried so far
+ * @param startedAt performance.now() when the search started
+ * @param difficulty Leading zero bits required
+ */
+export function powProgress(hashes: number, startedAt: number, difficulty: number): PowProgress {
+  const seconds = (performance.now() - startedAt) / 1000;
+  return {
+    hashes,
+    hashRate: seconds > 0 ? hashes / seconds : 0,
+    expectedHashes: 2 ** difficulty
+  };
+}
+
+/**
+ * Search a share of the nonce space until a nonce solves the challenge
+ *
+ * @param request Challenge and share of the nonce space
+ * @param onProgress Optional callback with the hashes tried, every POW_PROGRESS_INTERVAL hashes
+ * @returns The first nonce in the share that solves the challenge
+ */
+export async function searchNonces(request: PowWorkerRequest, onProgress?: (hashes: number) => void): Promise<number> {
+  for (let nonce = request.start, hashes = 1; ; nonce += request.stride, hashes++) {
+    if (await powHashBits(request.challenge, nonce) >= request.difficulty) {
+      return nonce;
+    }
+    if (hashes % POW_PROGRESS_INTERVAL === 0) {
+      onProgress?.(hashes);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Proof-of-Work Worker
+ * Searches one share of the nonce space for WorkerPowSolver, posting the
+ * hashes it has tried as it goes and the nonce it finds. The solver
+ * terminates the worker once any share is solved.
+ */
+
+import { searchNonces } from './pow-search.js';
+import type { PowWorkerMessage, PowWorkerRequest } from './pow-search.js';
+
+const post = (message: PowWorkerMessage): void => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<PowWorkerRequest>) => {
+  void searchNonces(event.data, hashes => post({ kind: 'progress', hashes }))
+    .then(nonce => post({ kind: 'solved', nonce }));
+});
@@ -0,0 +1,125 @@
+/**
+ * Background PoW Pre-solver
+ * Fetches a challenge and solves it while the paste is still being written,
+ * so the upload does not wait on proof of work. Each solution is handed out
+ * once; one whose challenge is about to expire is replaced by a fresh one
+ * on the next edit or when it is taken, never while the page sits idle.
+ */
+
+import { IPowSolver } from './interfaces.js';
+import type { IApiClient, PowSolution } from '../api/interfaces.js';
+import type { PowProgressCallback } from '../../core/models/paste.js';
+
+/**
+ * Seconds before a challenge expires that its solution is replaced
+ *
+ * Leaves time to encrypt and upload the paste before the server stops
+ * accepting the challenge.
+ */
+export const POW_EXPIRY_MARGIN_SECONDS = 30;
+
+/**
+ * A challenge being fetched and solved
+ */
+interface PendingSolution {
+  /** Unix timestamp (seconds) the challenge expires at, once it is known */
+  expiresAt: number | null;
+  /** Resolves to the solution, or null when the server does not require PoW */
+  solution: Promise<PowSolution | null>;
+}
+
+/**
+ * Solves proof of work ahead of time for the next paste
+ */
+export class PowPresolver {
+  private pending: PendingSolution | null = null;
+  private onProgress: PowProgressCallback | null = null;
+  private taking = false;
+
+  constructor(
+    private apiClient: IApiClient,
+    private solver: IPowSolver
+  ) {}
+
+  /**
+   * Start solving in the background
+   *
+   * Does nothing while a good solution is ready or on its way, or while one
+   * is being taken (the solver works on one challenge at a time). A
+   * solution whose challenge expires soon is replaced.
+   */
+  start(): void {
+    if (this.taking) return;
+    if (this.pending && !PowPresolver.expiresSoon(this.pending.expiresAt)) return;
+    this.discard();
+    this.pending = this.fetchAndSolve();
+  }
+
+  /**
+   * Take a solution for one paste
+   *
+   * Uses the background solution if its challenge is still good, waiting
+   * for it if it is still being solved; otherwise solves a fresh challenge.
+   *
+   * @param onProgress Optional callback with the progress of the solve, if one is still running
+   * @returns Promise resolving to the solution, or null when the server does not require PoW
+   */
+  async take(onProgress?: PowProgressCallback): Promise<PowSolution | null> {
+    const background = this.pending;
+    this.pending = null;
+    this.taking = true;
+    this.onProgress = onProgress ?? null;
+
+    try {
+      if (background && !PowPresolver.expiresSoon(background.expiresAt)) {
+        try {
+          return await background.solution;
+        } catch (error) {
+          if (error instanceof Error && error.message.toLowerCase().includes('cancelled')) {
+            throw error;
+          }
+          // The background attempt failed (e.g. offline while typing): try again now
+        }
+      } else if (background) {
+        this.solver.cancel();
+      }
+      return await this.fetchAndSolve().solution;
+    } finally {
+      this.taking = false;
+      this.onProgress = null;
+    }
+  }
+
+  /**
+   * Drop the background solution, stopping its solve if it is still running
+   */
+  private discard(): void {
+    if (this.pending) {
+      this.pending = null;
+      this.solver.cancel();
+    }
+  }
+
+  /**
+   * Fetch a challenge and start solving it
+   */
+  private fetchAndSolve(): PendingSolution {
+    const entry: PendingSolution = { expiresAt: null, solution: Promise.resolve(null) };
+    entry.solution = (async () => {
+      const challenge = await this.apiClient.getPowChallenge();
+      if (!challenge) return null;
+      entry.expiresAt = challenge.expiresAt ?? null;
+      return this.solver.solve(challenge, progress => this.onProgress?.(progress));
+    })();
+    // Failures are handled when the solution is taken
+    entry.solution.catch(() => {});
+    return entry;
+  }
+
+  /**
+   * Check whether a challenge expires within POW_EXPIRY_MARGIN_SECONDS
+   */
+  private static expiresSoon(expiresAt: number | null): boolean {
+    return expiresAt !== null && expiresAt - POW_EXPIRY_MARGIN_SECONDS <= Date.now() / 1000;
+  }
+}
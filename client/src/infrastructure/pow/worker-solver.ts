@@ -0,0 +1,128 @@
+/**
+ * Worker Pool PoW Solver
+ * Solves proof-of-work off the main thread, splitting the nonce space
+ * across a pool of Web Workers and taking the first solution found.
+ * Falls back to the inline solver where workers are unavailable
+ */
+
+import { IPowSolver } from './interfaces.js';
+import { InlinePowSolver } from './inline-solver.js';
+import { powProgress } from './pow-search.js';
+import type { PowWorkerMessage, PowWorkerRequest } from './pow-search.js';
+import { PowChallenge, PowSolution } from '../api/interfaces.js';
+import type { PowProgressCallback } from '../../core/models/paste.js';
+
+/**
+ * Compiled worker script, relative to the page
+ */
+export const POW_WORKER_URL = 'js/infrastructure/pow/pow-worker.js';
+
+/**
+ * Most workers started for one challenge
+ */
+export const MAX_POW_WORKERS = 8;
+
+/**
+ * Number of workers to start: one per logical core, within MAX_POW_WORKERS
+ */
+export function defaultPowWorkerCount(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return Math.min(Math.max(cores || 2, 1), MAX_POW_WORKERS);
+}
+
+/**
+ * Web Worker pool PoW solver
+ */
+export class WorkerPowSolver implements IPowSolver {
+  private workers: Worker[] = [];
+  private rejectSolve: ((error: Error) => void) | null = null;
+  private fallback = new InlinePowSolver();
+
+  constructor(
+    private workerUrl: string = POW_WORKER_URL,
+    private workerCount: number = defaultPowWorkerCount()
+  ) {}
+
+  /**
+   * Check whether this environment can run workers
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Solve PoW challenge
+   */
+  async solve(challenge: PowChallenge, onProgress?: PowProgressCallback): Promise<PowSolution> {
+    this.cancel();
+    if (!WorkerPowSolver.isSupported()) {
+      return this.fallback.solve(challenge, onProgress);
+    }
+
+    // Hashes tried by each worker, summed for progress reports
+    const hashes = new Array<number>(this.workerCount).fill(0);
+    const startedAt = performance.now();
+
+    return new Promise((resolve, reject) => {
+      this.rejectSolve = reject;
+
+      // A worker that cannot load (blocked by CSP, or a module worker the
+      // browser does not support) hands the challenge to the inline solver
+      let fellBack = false;
+      const useFallback = (): void => {
+        if (fellBack) return;
+        fellBack = true;
+        this.stopWorkers();
+        this.fallback.solve(challenge, onProgress).then(resolve, reject);
+      };
+
+      try {
+        for (let start = 0; start < this.workerCount; start++) {
+          const worker = new Worker(this.workerUrl, { type: 'module' });
+          worker.addEventListener('message', (event: MessageEvent<PowWorkerMessage>) => {
+            const message = event.data;
+            if (message.kind === 'progress') {
+              hashes[start] = message.hashes;
+              onProgress?.(powProgress(hashes.reduce((sum, n) => sum + n, 0), startedAt, challenge.difficulty));
+              return;
+            }
+            this.stopWorkers();
+            resolve({ challenge: challenge.challenge, nonce: message.nonce });
+          });
+          worker.addEventListener('error', useFallback);
+          this.workers.push(worker);
+
+          const request: PowWorkerRequest = {
+            challenge: challenge.challenge,
+            difficulty: challenge.difficulty,
+            start,
+            stride: this.workerCount
+          };
+          worker.postMessage(request);
+        }
+      } catch {
+        useFallback();
+      }
+    });
+  }
+
+  /**
+   * Cancel solving
+   */
+  cancel(): void {
+    this.fallback.cancel();
+    if (this.workers.length > 0) {
+      this.stopWorkers();
+      this.rejectSolve?.(new Error('PoW solving cancelled'));
+    }
+    this.rejectSolve = null;
+  }
+
+  /**
+   * Terminate every worker of the current solve
+   */
+  private stopWorkers(): void {
+    this.workers.forEach(worker => worker.terminate());
+    this.workers = [];
+  }
+}
@@ -35,6 +35,8 @@ interface ChatContext {
   currentUsername?: string;
   /** Cached password from paste view - avoids repeated prompts for refresh/send */
   cachedPassword?: string;
+  /** Chat key derived by the paste view - used instead of the password when present */
+  chatKey?: CryptoKey;
 }
 
 /**
@@ -122,10 +124,11 @@ export class ChatView {
     const messagesDiv = document.getElementById('chatMessages');
     if (!messagesDiv) return;
 
+    const chatKey = this.context.chatKey;
     let pwd = password ?? this.context.cachedPassword;
 
-    // Prompt for password if not provided and not cached
-    if (!pwd) {
+    // Prompt for password if not provided, not cached and no chat key
+    if (!chatKey && !pwd) {
       pwd = await showPasswordModal({
         title: 'Password Required',
         message: 'Enter the paste password to decrypt messages.',
@@ -143,11 +146,9 @@ export class ChatView {
       }
 
       // Call use case
-      const result = await this.useCase.refreshMessages(
-        this.context.pasteId,
-        pwd,
-        this.context.salt
-      );
+      const result = chatKey
+        ? await this.useCase.refreshMessagesWithKey(this.context.pasteId, chatKey)
+        : await this.useCase.refreshMessages(this.context.pasteId, pwd, this.context.salt);
 
       // Display messages
       this.displayMessages(result.messages);
@@ -191,6 +192,13 @@ export class ChatView {
     const usernameInput = document.getElementById('usernameInput') as HTMLInputElement;
     const username = usernameInput?.value.trim() || this.context.currentUsername || generateRandomUsername();
 
+    // Use the chat key from paste view if available
+    const chatKey = this.context.chatKey;
+    if (chatKey) {
+      await this.sendWith(input, message, username, async () => chatKey);
+      return;
+    }
+
     // Use cached password from paste view if available, otherwise prompt
     let password = this.context.cachedPassword;
     if (!password) {
@@ -205,22 +213,39 @@ export class ChatView {
       return;
     }
 
+    const salt = this.context.salt;
+    try {
+      await this.sendWith(input, message, username, () => this.useCase.deriveChatKey(password, salt), password);
+    } finally {
+      // Clear password after use (only if we prompted - not if it was cached)
+      if (password !== this.context?.cachedPassword) {
+        secureClear(password);
+      }
+    }
+  }
+
+  /**
+   * Encrypt and send a message, then refresh the messages
+   * @param getKey Supplies the chat key (from the paste view, or derived from the password)
+   * @param password Password to refresh messages with, when there is no chat key
+   */
+  private async sendWith(
+    input: HTMLInputElement | HTMLTextAreaElement,
+    message: string,
+    username: string,
+    getKey: () => Promise<CryptoKey>,
+    password?: string
+  ): Promise<void> {
+    if (!this.context) return;
+    const pasteId = this.context.pasteId;
+
     try {
       // Disable input and button while sending
       input.disabled = true;
       const sendBtn = document.getElementById('sendMessageBtn') as HTMLButtonElement;
       if (sendBtn) sendBtn.disabled = true;
 
-      // Call use case
-      const result = await this.useCase.sendMessage(
-        {
-          pasteId: this.context.pasteId,
-          message,
-          username,
-          password
-        },
-        this.context.salt
-      );
+      const result = await this.useCase.sendMessageWithKey(pasteId, message, username, await getKey());
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to send message');
@@ -229,11 +254,6 @@ export class ChatView {
       // Clear input and refresh messages
       input.value = '';
       await this.handleRefreshMessages(password);
-
-      // Clear password after use (only if we prompted - not if it was cached)
-      if (password !== this.context?.cachedPassword) {
-        secureClear(password);
-      }
     } catch (error) {
       if (DEBUG_MODE) {
         console.error('Error sending message:', error);
@@ -241,9 +261,6 @@ export class ChatView {
         console.error('Error sending message');
       }
       this.showChatError(error instanceof Error ? error.message : 'Failed to send message');
-      if (password !== this.context?.cachedPassword) {
-        secureClear(password);
-      }
     } finally {
       input.disabled = false;
       const sendBtn = document.getElementById('sendMessageBtn') as HTMLButtonElement;
@@ -257,8 +274,9 @@ export class ChatView {
    * @param pasteId The paste ID
    * @param salt The salt from the paste URL for key derivation
    * @param initialPassword Optional password from paste view — avoids repeated prompts
+   * @param chatKey Optional chat key from paste view — required for Argon2id pastes
    */
-  setup(pasteId: string, salt: Uint8Array, initialPassword?: string): void {
+  setup(pasteId: string, salt: Uint8Array, initialPassword?: string, chatKey?: CryptoKey): void {
     const chatSection = document.getElementById('chatSection');
     const sendBtn = document.getElementById('sendMessageBtn');
     const chatInput = document.getElementById('chatInput') as HTMLInputElement | HTMLTextAreaElement;
@@ -284,7 +302,8 @@ export class ChatView {
       pasteId,
       salt,
       currentUsername: generateRandomUsername(),
-      cachedPassword: initialPassword
+      cachedPassword: initialPassword,
+      chatKey
     };
 
     // Clear cached password and stop polling on page unload
@@ -293,6 +312,9 @@ export class ChatView {
         secureClear(this.context.cachedPassword);
         this.context.cachedPassword = undefined;
       }
+      if (this.context) {
+        this.context.chatKey = undefined;
+      }
       if (this.pollInterval !== null) {
         clearInterval(this.pollInterval);
         this.pollInterval = null;
@@ -314,7 +336,7 @@ export class ChatView {
 
     // Update info text
     if (chatInfoText) {
-      chatInfoText.textContent = '💡 Messages are encrypted with your paste password. Auto-refreshing every 30 seconds.';
+      chatInfoText.textContent = '💡 Messages are encrypted with this paste\'s key. Auto-refreshing every 30 seconds.';
     }
 
     // Send message handler
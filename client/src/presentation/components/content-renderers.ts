@@ -0,0 +1,492 @@
+/**
+ * Content renderers for the paste viewer
+ *
+ * A registry of renderers keyed by content type. The viewer picks one from
+ * the content type of the decrypted paste and lets the reader switch to any
+ * other renderer that accepts the paste.
+ *
+ * The content type is derived from encrypted fields, so the server never
+ * learns it: an image paste is an image, a paste without a language is
+ * markdown, and a few languages have renderers of their own. Every other
+ * language is shown as highlighted source code.
+ *
+ * SECURITY: renderers build the DOM with textContent, and any HTML string
+ * goes through sanitizeHtml() before innerHTML assignment.
+ */
+
+import { sanitizeHtml } from '../../core/utils/sanitize.js';
+import { attachmentBytes } from '../../core/utils/paste-document.js';
+import type { PasteAttachment, PasteDocument, PasteImage } from '../../core/models/paste.js';
+
+/**
+ * Decrypted paste as handed to a renderer
+ */
+export interface RenderInput {
+  /** Decrypted paste document */
+  document: PasteDocument;
+  /** The image of an image paste, or null */
+  image: PasteImage | null;
+}
+
+/**
+ * Renders a paste into the content element
+ */
+export interface ContentRenderer {
+  /** Content type this renderer is registered for */
+  id: string;
+  /** Name shown in the renderer dropdown */
+  label: string;
+  /** Whether the output is a single <pre> with a line per line of text, so it can have line numbers */
+  lineNumbers?: boolean;
+  /** Whether the renderer can show this paste */
+  accepts(input: RenderInput): boolean;
+  /**
+   * Replace the container's children with the rendered paste
+   *
+   * @returns Optional function that releases what the rendering holds on to
+   *   (such as a Blob URL), called when the renderer is replaced
+   */
+  render(container: HTMLElement, input: RenderInput): RenderDisposer | void;
+}
+
+/**
+ * Releases what a rendering holds on to
+ */
+export type RenderDisposer = () => void;
+
+/**
+ * Content type for languages that have a renderer of their own
+ */
+const LANGUAGE_CONTENT_TYPES: Record<string, string> = {
+  plaintext: 'text',
+  json: 'json',
+  csv: 'csv',
+  diff: 'diff'
+};
+
+/**
+ * Prefix of element ids in rendered markdown, so paste content cannot take
+ * the id of an element of the page (such as #content)
+ */
+export const CONTENT_ID_PREFIX = 'paste-';
+
+/** Rows shown by the CSV renderer; the rest are summarised */
+export const MAX_CSV_ROWS = 5000;
+
+/**
+ * Zoom range and step of the image viewer
+ */
+const IMAGE_ZOOM = {
+  MIN: 0.1,
+  MAX: 8,
+  STEP: 1.25
+} as const;
+
+/**
+ * Render text as sanitized markdown.
+ * Falls back to plain-text display if marked is unavailable.
+ * SECURITY: sanitizeHtml() is called before every innerHTML assignment.
+ */
+function renderMarkdown(container: HTMLElement, text: string): void {
+  if (typeof marked !== 'undefined') {
+    const raw = marked.parse(text, { gfm: true, breaks: true });
+    // SECURITY: sanitizeHtml strips all dangerous tags/attrs before innerHTML assignment
+    const safeHtml = sanitizeHtml(raw);
+    container.innerHTML = safeHtml;
+  } else {
+    // Fallback: plain text (safe — textContent only)
+    container.textContent = text;
+  }
+
+  // Syntax-highlight code blocks
+  if (typeof hljs !== 'undefined') {
+    const blocks = container.querySelectorAll<HTMLElement>('pre code');
+    blocks.forEach(block => hljs.highlightElement(block));
+  }
+
+  addHeadingAnchors(container);
+}
+
+/**
+ * Make an id for a heading from its text, as GitHub does
+ *
+ * @param text Heading text
+ * @returns Lowercase letters, digits, underscores and hyphens (may be empty)
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s+/g, '-')
+    .slice(0, 100);
+}
+
+/**
+ * Give every heading of rendered markdown a stable id and a permalink
+ *
+ * Ids written by the author are prefixed like generated ones, and so are
+ * `name` attributes, which browsers also expose as document properties.
+ * Repeated headings get -1, -2... appended, in document order, so the
+ * same paste always gets the same ids.
+ */
+function addHeadingAnchors(container: HTMLElement): void {
+  const used = new Set<string>();
+  container.querySelectorAll<HTMLElement>('[id], [name]').forEach(element => {
+    if (element.id) {
+      element.id = `${CONTENT_ID_PREFIX}${element.id}`;
+      used.add(element.id);
+    }
+    const name = element.getAttribute('name');
+    if (name) element.setAttribute('name', `${CONTENT_ID_PREFIX}${name}`);
+  });
+
+  container.querySelectorAll<HTMLElement>('h1, h2, h3, h4, h5, h6').forEach(heading => {
+    if (!heading.id) {
+      const slug = slugify(heading.textContent ?? '') || 'section';
+      let id = `${CONTENT_ID_PREFIX}${slug}`;
+      for (let n = 1; used.has(id); n++) {
+        id = `${CONTENT_ID_PREFIX}${slug}-${n}`;
+      }
+      heading.id = id;
+      used.add(id);
+    }
+
+    const permalink = document.createElement('a');
+    permalink.className = 'heading-anchor';
+    permalink.href = `#${heading.id.slice(CONTENT_ID_PREFIX.length)}`;
+    permalink.textContent = '#';
+    permalink.setAttribute('aria-label', `Link to ${heading.textContent ?? 'this section'}`);
+    permalink.dataset.copyExclude = '';
+    heading.appendChild(permalink);
+  });
+}
+
+/**
+ * Render text as a highlighted code block.
+ * Text is assigned with textContent; highlight.js escapes it when highlighting.
+ */
+function renderCode(container: HTMLElement, text: string, language: string): void {
+  const pre = document.createElement('pre');
+  const code = document.createElement('code');
+  code.textContent = text;
+  pre.appendChild(code);
+  container.replaceChildren(pre);
+
+  if (typeof hljs !== 'undefined' && language !== 'plaintext' && hljs.getLanguage(language)) {
+    code.className = `language-${language}`;
+    hljs.highlightElement(code);
+  }
+}
+
+/**
+ * Render text as preformatted plain text
+ */
+function renderText(container: HTMLElement, text: string): void {
+  const pre = document.createElement('pre');
+  pre.className = 'plain-text';
+  pre.textContent = text;
+  container.replaceChildren(pre);
+}
+
+/**
+ * Render JSON indented, or as it is if it does not parse
+ */
+function renderJson(container: HTMLElement, text: string): void {
+  let formatted = text;
+  try {
+    formatted = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Show invalid JSON unchanged rather than hiding it
+  }
+  renderCode(container, formatted, 'json');
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180)
+ *
+ * Quoted fields may contain commas, doubled quotes and line breaks. Parsing
+ * stops after maxRows rows.
+ *
+ * @param text CSV text
+ * @param maxRows Number of rows to return at most
+ * @returns Rows of fields, and whether rows were left out
+ */
+export function parseCsv(text: string, maxRows = MAX_CSV_ROWS): { rows: string[][]; truncated: boolean } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRow = (): void => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      if (rows.length >= maxRows) {
+        return { rows, truncated: i + 1 < text.length };
+      }
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return { rows, truncated: false };
+}
+
+/**
+ * Render CSV as a table, with the first row as the header
+ */
+function renderCsv(container: HTMLElement, text: string): void {
+  const { rows, truncated } = parseCsv(text);
+  const table = document.createElement('table');
+  table.className = 'csv-table';
+
+  rows.forEach((fields, index) => {
+    const tr = document.createElement('tr');
+    for (const field of fields) {
+      const cell = document.createElement(index === 0 ? 'th' : 'td');
+      cell.textContent = field;
+      tr.appendChild(cell);
+    }
+    if (index === 0) {
+      const thead = document.createElement('thead');
+      thead.appendChild(tr);
+      table.appendChild(thead);
+    } else {
+      if (!table.tBodies.length) table.appendChild(document.createElement('tbody'));
+      table.tBodies[0].appendChild(tr);
+    }
+  });
+
+  const frame = document.createElement('div');
+  frame.className = 'csv-frame';
+  frame.appendChild(table);
+  container.replaceChildren(frame);
+
+  if (truncated) {
+    const note = document.createElement('p');
+    note.className = 'render-note';
+    note.textContent = `Showing the first ${MAX_CSV_ROWS.toLocaleString()} rows. Switch to Plain text to see the rest.`;
+    container.appendChild(note);
+  }
+}
+
+/**
+ * Class of a unified diff line, by its first characters
+ */
+function diffLineClass(line: string): string | null {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ') || line.startsWith('index ')) {
+    return 'diff-meta';
+  }
+  if (line.startsWith('@@')) return 'diff-hunk';
+  if (line.startsWith('+')) return 'diff-add';
+  if (line.startsWith('-')) return 'diff-del';
+  return null;
+}
+
+/**
+ * Render a unified diff with added, removed and hunk lines marked
+ */
+function renderDiff(container: HTMLElement, text: string): void {
+  const pre = document.createElement('pre');
+  pre.className = 'diff';
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  for (const line of lines) {
+    const span = document.createElement('span');
+    span.className = diffLineClass(line) ?? 'diff-line';
+    span.textContent = `${line}\n`;
+    pre.appendChild(span);
+  }
+  container.replaceChildren(pre);
+}
+
+/**
+ * Save an attachment through a temporary Blob URL
+ */
+export function downloadAttachment(attachment: PasteAttachment): void {
+  const url = URL.createObjectURL(new Blob([attachmentBytes(attachment) as BlobPart], { type: attachment.mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = attachment.name;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser time to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+/**
+ * Render an image paste from a Blob URL
+ *
+ * The image starts fitted to the width of the page. Zooming switches to
+ * the image's natural size times the zoom level.
+ *
+ * @returns Function that revokes the Blob URL
+ */
+function renderImage(container: HTMLElement, image: PasteImage, alt: string): RenderDisposer {
+  const url = URL.createObjectURL(new Blob([image.bytes as BlobPart], { type: image.mime }));
+
+  const img = document.createElement('img');
+  img.className = 'paste-image fit';
+  img.src = url;
+  img.alt = alt;
+
+  const toolbar = document.createElement('div');
+  toolbar.className = 'image-toolbar';
+  toolbar.dataset.copyExclude = '';
+  const button = (label: string, title: string, onClick: () => void): HTMLButtonElement => {
+    const element = document.createElement('button');
+    element.type = 'button';
+    element.className = 'btn btn-secondary btn-sm';
+    element.textContent = label;
+    element.title = title;
+    element.setAttribute('aria-label', title);
+    element.addEventListener('click', onClick);
+    return element;
+  };
+
+  const zoomLabel = document.createElement('span');
+  zoomLabel.className = 'image-zoom';
+  zoomLabel.textContent = 'Fit';
+
+  let zoom = 1;
+  const fitButton = button('Fit', 'Fit to width', () => {
+    img.classList.add('fit');
+    img.style.width = '';
+    fitButton.setAttribute('aria-pressed', 'true');
+    zoomLabel.textContent = 'Fit';
+  });
+  fitButton.setAttribute('aria-pressed', 'true');
+
+  const setZoom = (factor: number): void => {
+    if (img.naturalWidth === 0) return;
+    if (img.classList.contains('fit')) {
+      // Zoom from the size the image is shown at
+      zoom = img.clientWidth / img.naturalWidth || 1;
+    }
+    zoom = Math.min(IMAGE_ZOOM.MAX, Math.max(IMAGE_ZOOM.MIN, zoom * factor));
+    img.classList.remove('fit');
+    img.style.width = `${Math.round(img.naturalWidth * zoom)}px`;
+    fitButton.setAttribute('aria-pressed', 'false');
+    zoomLabel.textContent = `${Math.round(zoom * 100)}%`;
+  };
+
+  toolbar.append(
+    button('−', 'Zoom out', () => setZoom(1 / IMAGE_ZOOM.STEP)),
+    zoomLabel,
+    button('+', 'Zoom in', () => setZoom(IMAGE_ZOOM.STEP)),
+    fitButton,
+    button('Download', `Download ${image.attachment.name}`, () => downloadAttachment(image.attachment))
+  );
+
+  const frame = document.createElement('div');
+  frame.className = 'image-frame';
+  frame.appendChild(img);
+  container.replaceChildren(toolbar, frame);
+  return () => URL.revokeObjectURL(url);
+}
+
+const renderers = new Map<string, ContentRenderer>();
+
+/**
+ * Add a renderer, replacing any registered for the same content type
+ *
+ * @param renderer Renderer to add
+ */
+export function registerRenderer(renderer: ContentRenderer): void {
+  renderers.set(renderer.id, renderer);
+}
+
+/**
+ * Look up the renderer for a content type
+ *
+ * @param id Content type
+ * @returns Renderer, or undefined if none is registered
+ */
+export function getRenderer(id: string): ContentRenderer | undefined {
+  return renderers.get(id);
+}
+
+/**
+ * List the renderers that can show a paste, in registration order
+ *
+ * @param input Decrypted paste
+ * @returns Accepting renderers
+ */
+export function renderersFor(input: RenderInput): ContentRenderer[] {
+  return Array.from(renderers.values()).filter(renderer => renderer.accepts(input));
+}
+
+/**
+ * Derive the content type of a decrypted paste
+ *
+ * @param input Decrypted paste
+ * @returns Content type to pick the default renderer by
+ */
+export function contentTypeOf(input: RenderInput): string {
+  if (input.image) return 'image';
+  const { language } = input.document;
+  if (!language) return 'markdown';
+  return LANGUAGE_CONTENT_TYPES[language] ?? 'code';
+}
+
+const isText = (input: RenderInput): boolean => input.image === null;
+
+/**
+ * Built-in renderers, in the order the dropdown lists them
+ */
+const BUILT_IN_RENDERERS: ContentRenderer[] = [
+  { id: 'text', label: 'Plain text', lineNumbers: true, accepts: isText, render: (c, { document }) => renderText(c, document.body) },
+  { id: 'markdown', label: 'Markdown', accepts: isText, render: (c, { document }) => renderMarkdown(c, document.body) },
+  {
+    id: 'code',
+    label: 'Source code',
+    lineNumbers: true,
+    accepts: isText,
+    render: (c, { document }) => renderCode(c, document.body, document.language ?? 'plaintext')
+  },
+  { id: 'json', label: 'JSON', lineNumbers: true, accepts: isText, render: (c, { document }) => renderJson(c, document.body) },
+  { id: 'csv', label: 'CSV table', accepts: isText, render: (c, { document }) => renderCsv(c, document.body) },
+  { id: 'diff', label: 'Diff', lineNumbers: true, accepts: isText, render: (c, { document }) => renderDiff(c, document.body) },
+  {
+    id: 'image',
+    label: 'Image',
+    accepts: input => input.image !== null,
+    render: (c, { document, image }) => image ? renderImage(c, image, document.title || image.attachment.name) : undefined
+  }
+];
+
+BUILT_IN_RENDERERS.forEach(registerRenderer);
@@ -0,0 +1,133 @@
+/**
+ * Fragment router for the paste viewer
+ *
+ * The URL fragment holds the key material that decrypts the paste, so
+ * nothing else may replace it. In-page navigation is kept after the keys
+ * instead (`#salt:iv/usage`, `#salt:iv/L40-L55`; see
+ * PasteService.buildViewFragment):
+ *
+ * - Clicks on `#...` links inside the rendered paste are intercepted and
+ *   turned into heading anchors.
+ * - A fragment that lost its keys anyway (typed in, or set by a link that
+ *   was not intercepted) is treated as a heading anchor and put back after
+ *   the keys, so a reload still decrypts.
+ * - Back and forward between anchors are reported to the listener.
+ * - A fragment with other keys reloads the page to open that paste.
+ */
+
+import type { PasteService } from '../../core/services/paste-service.js';
+import type { ViewAnchor } from '../../core/models/paste.js';
+import { CONTENT_ID_PREFIX } from './content-renderers.js';
+
+/**
+ * Key material of the open paste
+ */
+export interface FragmentKeys {
+  salt: string;
+  iv: string;
+  linkSecret?: string;
+}
+
+/**
+ * Find the element of rendered paste content that a heading anchor points to
+ *
+ * @param container Rendered content
+ * @param id Heading id without the content prefix
+ * @returns Element, or null if the paste has no such heading
+ */
+export function findAnchorTarget(container: HTMLElement, id: string): HTMLElement | null {
+  const target = document.getElementById(`${CONTENT_ID_PREFIX}${id}`);
+  return target && container.contains(target) ? target : null;
+}
+
+/**
+ * Keeps the key material in the URL fragment while the reader navigates
+ */
+export class FragmentRouter {
+  /** Fragment last written or handled, to skip events for it */
+  private current = '';
+  private listener: (anchor: ViewAnchor | null) => void = () => {};
+
+  constructor(
+    private pasteService: PasteService,
+    private keys: FragmentKeys
+  ) {
+    this.current = location.hash.slice(1);
+  }
+
+  /**
+   * Watch for fragment changes made outside the router
+   *
+   * @param listener Called with the new anchor after back, forward or a
+   *   fragment edit
+   */
+  start(listener: (anchor: ViewAnchor | null) => void): void {
+    this.listener = listener;
+    window.addEventListener('popstate', () => this.handleChange());
+    window.addEventListener('hashchange', () => this.handleChange());
+  }
+
+  /**
+   * Show an anchor in the URL
+   *
+   * @param anchor Lines or heading, or null for none
+   * @param push Add a history entry, so Back returns to the previous anchor
+   */
+  navigate(anchor: ViewAnchor | null, push: boolean = false): void {
+    const fragment = this.pasteService.buildViewFragment(
+      this.keys.salt, this.keys.iv, this.keys.linkSecret, anchor ?? undefined
+    );
+    if (fragment === this.current) return;
+    this.current = fragment;
+    if (push) {
+      history.pushState(null, '', `#${fragment}`);
+    } else {
+      history.replaceState(null, '', `#${fragment}`);
+    }
+  }
+
+  /**
+   * Handle clicks on in-page links of rendered content
+   *
+   * @param container Rendered content
+   * @param onHeading Called with the heading id of each link followed
+   */
+  interceptLinks(container: HTMLElement, onHeading: (id: string) => void): void {
+    container.addEventListener('click', (event: MouseEvent) => {
+      const link = (event.target as HTMLElement | null)?.closest<HTMLAnchorElement>('a[href^="#"]');
+      if (!link || !container.contains(link)) return;
+      event.preventDefault();
+
+      const anchor = this.pasteService.parseViewAnchor(link.getAttribute('href')!.slice(1));
+      if (anchor?.kind !== 'heading') return;
+      this.navigate(anchor, true);
+      onHeading(anchor.id);
+    });
+  }
+
+  /**
+   * Put keys back in front of a bare fragment, or report a new anchor
+   */
+  private handleChange(): void {
+    const fragment = location.hash.slice(1);
+    if (fragment === this.current) return;
+
+    const parsed = this.pasteService.parseViewUrl(new URL(location.href));
+    const sameKeys = parsed !== null && parsed.salt === this.keys.salt && parsed.iv === this.keys.iv &&
+      parsed.linkSecret === this.keys.linkSecret;
+
+    let anchor: ViewAnchor | null;
+    if (sameKeys) {
+      this.current = fragment;
+      anchor = parsed.anchor ?? null;
+    } else if (parsed) {
+      // Keys of another paste: open it
+      location.reload();
+      return;
+    } else {
+      anchor = fragment ? this.pasteService.parseViewAnchor(fragment) : null;
+      this.navigate(anchor);
+    }
+    this.listener(anchor);
+  }
+}
@@ -4,8 +4,16 @@
 
 export { PasteCreatorView } from './paste-creator-view.js';
 export { PasteViewerView } from './paste-viewer-view.js';
+export { KeySlotsView } from './key-slots-view.js';
 export { ChatView, generateRandomUsername, escapeHtml } from './chat-view.js';
 export { PasswordModal, showPasswordModal, getPasswordModal } from './password-modal.js';
 export type { PasswordModalOptions, PasswordModalResult } from './password-modal.js';
 export { LoadingIndicator, showLoading, updateLoading, hideLoading, getLoadingIndicator } from './loading-indicator.js';
-export type { LoadingIndicatorOptions } from './loading-indicator.js';
+export type { LoadingIndicatorOptions, LoadingStep } from './loading-indicator.js';
+export { registerRenderer, getRenderer, renderersFor, contentTypeOf, parseCsv, slugify, CONTENT_ID_PREFIX } from './content-renderers.js';
+export type { ContentRenderer, RenderDisposer, RenderInput } from './content-renderers.js';
+export { addLineNumbers } from './line-numbers.js';
+export type { LineGutter } from './line-numbers.js';
+export { FragmentRouter, findAnchorTarget } from './fragment-router.js';
+export type { FragmentKeys } from './fragment-router.js';
+export { waitForReveal } from './reveal-gate.js';
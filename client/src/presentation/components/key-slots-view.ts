@@ -0,0 +1,128 @@
+/**
+ * Key Slots View Component
+ *
+ * Presentation layer component for managing the passwords of a key-slot
+ * paste from the view page. Shown only after the paste was opened with one
+ * of its passwords; changes need the paste's deletion token.
+ */
+
+import { ManageKeySlotsUseCase } from '../../application/use-cases/manage-key-slots-use-case.js';
+import { getDeleteToken } from '../../utils/storage.js';
+import { secureClear } from '../../security.js';
+import { isFailure } from '../../core/models/result.js';
+
+/** Display names of the key derivation functions */
+const KDF_LABELS: Record<string, string> = {
+  'pbkdf2-sha256': 'PBKDF2',
+  'argon2id': 'Argon2id'
+};
+
+/**
+ * Key slots view component
+ */
+export class KeySlotsView {
+  constructor(private useCase: ManageKeySlotsUseCase) {}
+
+  /**
+   * Show the password list and add/remove controls for a key-slot paste
+   *
+   * @param pasteId Paste ID
+   * @param salt Base64url-encoded salt from the URL fragment
+   * @param keySlots Base64url-encoded key slots the paste was opened with
+   * @param slotKey Slot key from viewing the paste
+   */
+  setup(pasteId: string, salt: string, keySlots: string, slotKey: CryptoKey): void {
+    const section = document.getElementById('keySlotsSection');
+    const list = document.getElementById('keySlotList');
+    const tokenInput = document.getElementById('keySlotToken') as HTMLInputElement | null;
+    const passwordInput = document.getElementById('newSlotPassword') as HTMLInputElement | null;
+    const addButton = document.getElementById('addSlotBtn') as HTMLButtonElement | null;
+    const status = document.getElementById('keySlotStatus');
+    if (!section || !list || !tokenInput || !passwordInput || !addButton) return;
+
+    let currentSlots = keySlots;
+    let busy = false;
+
+    const setStatus = (message: string): void => {
+      if (status) status.textContent = message;
+    };
+
+    const run = async (action: () => Promise<string | null>, done: string): Promise<void> => {
+      if (busy) return;
+      busy = true;
+      addButton.disabled = true;
+      try {
+        setStatus('Saving...');
+        const error = await action();
+        setStatus(error ?? done);
+        if (!error) render();
+      } finally {
+        busy = false;
+        addButton.disabled = false;
+      }
+    };
+
+    const render = (): void => {
+      const result = this.useCase.listPasswords(currentSlots);
+      list.replaceChildren();
+      if (isFailure(result)) {
+        setStatus(result.error);
+        return;
+      }
+      result.value.forEach((kdf, index) => {
+        const item = document.createElement('li');
+        item.className = 'flex items-center justify-between gap-3';
+
+        const label = document.createElement('span');
+        label.textContent = `Password ${index + 1} (${KDF_LABELS[kdf] ?? kdf})`;
+
+        const removeButton = document.createElement('button');
+        removeButton.type = 'button';
+        removeButton.className = 'btn btn-danger btn-sm';
+        removeButton.textContent = 'Remove';
+        removeButton.setAttribute('aria-label', `Remove password ${index + 1}`);
+        removeButton.disabled = result.value.length === 1;
+        removeButton.addEventListener('click', () => {
+          if (!window.confirm(`Remove password ${index + 1}? It will no longer open this paste, but anyone who already opened it with this password keeps access.`)) return;
+          void run(async () => {
+            const removed = await this.useCase.removePassword({
+              pasteId,
+              deleteToken: tokenInput.value.trim(),
+              keySlots: currentSlots,
+              index
+            });
+            if (isFailure(removed)) return removed.error;
+            currentSlots = removed.value;
+            return null;
+          }, 'Password removed.');
+        });
+
+        item.append(label, removeButton);
+        list.appendChild(item);
+      });
+    };
+
+    addButton.addEventListener('click', () => {
+      void run(async () => {
+        const password = passwordInput.value;
+        const added = await this.useCase.addPassword({
+          pasteId,
+          deleteToken: tokenInput.value.trim(),
+          keySlots: currentSlots,
+          slotKey,
+          salt,
+          password
+        });
+        secureClear(password);
+        if (isFailure(added)) return added.error;
+        passwordInput.value = '';
+        currentSlots = added.value;
+        return null;
+      }, 'Password added.');
+    });
+
+    tokenInput.value = getDeleteToken(pasteId) ?? '';
+    render();
+    section.hidden = false;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Line numbers for the paste viewer
+ *
+ * Wraps a rendered <pre> with a gutter of line numbers. Clicking a number
+ * selects that line and shift-clicking extends the selection from the
+ * line clicked before. The selection is highlighted by an overlay behind
+ * the text, placed using the gutter's own line boxes, so it lines up with
+ * highlighted code as well as plain text as long as lines do not wrap.
+ */
+
+import type { LineRange } from '../../core/models/paste.js';
+
+/**
+ * Line numbers added to a rendered paste
+ */
+export interface LineGutter {
+  /** Number of lines in the gutter */
+  readonly lineCount: number;
+  /**
+   * Highlight a range, or clear the highlight with null
+   *
+   * @returns The range after clamping to the lines there are, or null if
+   *   none of it exists
+   */
+  select(range: LineRange | null): LineRange | null;
+  /** Scroll the first line of a range into the middle of the view */
+  scrollTo(range: LineRange): void;
+}
+
+/**
+ * Count the lines of rendered text; a final line break does not start a line
+ */
+function countLines(text: string): number {
+  const lines = text.split('\n');
+  return lines.length > 1 && lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+}
+
+/**
+ * Add line numbers to a rendered <pre>
+ *
+ * @param pre Rendered text, already in the document
+ * @param onSelect Called with the range the reader selects in the gutter
+ * @returns Gutter for highlighting ranges
+ */
+export function addLineNumbers(pre: HTMLElement, onSelect: (range: LineRange) => void): LineGutter {
+  const lineCount = countLines(pre.textContent ?? '');
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'numbered-lines';
+
+  const gutter = document.createElement('div');
+  gutter.className = 'line-gutter';
+  gutter.setAttribute('aria-hidden', 'true');
+  gutter.dataset.copyExclude = '';
+  const numbers: HTMLElement[] = [];
+  for (let line = 1; line <= lineCount; line++) {
+    const number = document.createElement('span');
+    number.className = 'line-number';
+    number.dataset.line = String(line);
+    number.textContent = String(line);
+    numbers.push(number);
+  }
+  gutter.append(...numbers);
+
+  const highlight = document.createElement('div');
+  highlight.className = 'line-highlight';
+  highlight.hidden = true;
+
+  pre.replaceWith(wrapper);
+  wrapper.append(gutter, highlight, pre);
+
+  let selected: LineRange | null = null;
+  let anchor: number | null = null;
+
+  const select = (range: LineRange | null): LineRange | null => {
+    if (selected) {
+      numbers.slice(selected.start - 1, selected.end).forEach(n => n.classList.remove('selected'));
+    }
+    selected = range && range.start <= lineCount
+      ? { start: range.start, end: Math.min(range.end, lineCount) }
+      : null;
+    if (!selected) {
+      highlight.hidden = true;
+      return null;
+    }
+
+    const first = numbers[selected.start - 1];
+    const last = numbers[selected.end - 1];
+    numbers.slice(selected.start - 1, selected.end).forEach(n => n.classList.add('selected'));
+    highlight.style.top = `${first.offsetTop}px`;
+    highlight.style.height = `${last.offsetTop + last.offsetHeight - first.offsetTop}px`;
+    highlight.hidden = false;
+    return selected;
+  };
+
+  gutter.addEventListener('click', (event: MouseEvent) => {
+    const number = (event.target as HTMLElement | null)?.closest<HTMLElement>('[data-line]');
+    if (!number) return;
+    const line = Number(number.dataset.line);
+    const range = event.shiftKey && anchor !== null
+      ? { start: Math.min(anchor, line), end: Math.max(anchor, line) }
+      : { start: line, end: line };
+    if (!event.shiftKey || anchor === null) anchor = line;
+    select(range);
+    onSelect(range);
+  });
+
+  return {
+    lineCount,
+    select,
+    scrollTo(range: LineRange): void {
+      numbers[Math.min(range.start, lineCount) - 1]?.scrollIntoView({ block: 'center' });
+    }
+  };
+}
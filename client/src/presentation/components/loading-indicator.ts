@@ -1,13 +1,31 @@
 /**
  * Loading Indicator Component
  * 
- * Provides contextual loading indicators with progress feedback.
+ * Provides contextual loading indicators with progress feedback, an
+ * optional line of detail (such as time left), an optional list of the
+ * steps of a multi-step operation and an optional Cancel button.
  */
 
+/**
+ * One step of a multi-step operation
+ */
+export interface LoadingStep {
+  label: string;
+  state: 'pending' | 'active' | 'done';
+  /** Shown after the label, such as the share of the step done */
+  detail?: string;
+}
+
 export interface LoadingIndicatorOptions {
   message?: string;
   showProgress?: boolean;
   progress?: number; // 0-100
+  /** Smaller text under the progress bar, hidden when absent */
+  detail?: string;
+  /** Shows a Cancel button that calls this, hidden when absent */
+  onCancel?: () => void;
+  /** Steps listed under the detail line, hidden when absent */
+  steps?: LoadingStep[];
 }
 
 /**
@@ -16,6 +34,7 @@ export interface LoadingIndicatorOptions {
 export class LoadingIndicator {
   private indicatorElement: HTMLDivElement | null = null;
   private isVisible = false;
+  private onCancel: (() => void) | null = null;
 
   /**
    * Show loading indicator
@@ -52,6 +71,8 @@ export class LoadingIndicator {
     } else if (progressElement) {
       progressElement.style.display = 'none';
     }
+
+    this.updateExtras(options);
   }
 
   /**
@@ -70,6 +91,49 @@ export class LoadingIndicator {
       }
       this.isVisible = false;
     }, 200);
+    this.onCancel = null;
+  }
+
+  /**
+   * Show or hide the detail line, the steps and the Cancel button
+   */
+  private updateExtras(options: LoadingIndicatorOptions): void {
+    if (!this.indicatorElement) return;
+    const detailElement = this.indicatorElement.querySelector('.loading-detail') as HTMLElement | null;
+    const stepsElement = this.indicatorElement.querySelector('.loading-steps') as HTMLOListElement | null;
+    const cancelButton = this.indicatorElement.querySelector('.loading-cancel') as HTMLButtonElement | null;
+
+    if (detailElement) {
+      detailElement.textContent = options.detail ?? '';
+      detailElement.hidden = options.detail === undefined;
+    }
+    if (stepsElement) {
+      stepsElement.replaceChildren(...(options.steps ?? []).map(step => this.createStep(step)));
+      stepsElement.hidden = options.steps === undefined;
+    }
+    this.onCancel = options.onCancel ?? null;
+    if (cancelButton) {
+      cancelButton.hidden = !this.onCancel;
+    }
+  }
+
+  /**
+   * Create the list item for one step
+   */
+  private createStep(step: LoadingStep): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = `loading-step loading-step-${step.state}`;
+    if (step.state === 'active') {
+      item.setAttribute('aria-current', 'step');
+    }
+    item.textContent = step.label;
+    if (step.detail !== undefined) {
+      const detail = document.createElement('span');
+      detail.className = 'loading-step-detail';
+      detail.textContent = step.detail;
+      item.appendChild(detail);
+    }
+    return item;
   }
 
   /**
@@ -93,7 +157,7 @@ export class LoadingIndicator {
     messageElement.className = 'loading-message';
     messageElement.textContent = message;
 
-    // Progress bar (optional)
+    // Progress bar (hidden until progress is shown)
     const progressElement = document.createElement('div');
     progressElement.className = 'loading-progress';
     progressElement.style.display = showProgress ? 'block' : 'none';
@@ -104,12 +168,32 @@ export class LoadingIndicator {
 
     progressElement.appendChild(progressBar);
 
+    // Detail line, steps and Cancel button (hidden until used)
+    const detailElement = document.createElement('div');
+    detailElement.className = 'loading-detail';
+
+    const stepsElement = document.createElement('ol');
+    stepsElement.className = 'loading-steps';
+
+    const cancelButton = document.createElement('button');
+    cancelButton.type = 'button';
+    cancelButton.className = 'btn btn-secondary btn-sm loading-cancel';
+    cancelButton.textContent = 'Cancel';
+    cancelButton.addEventListener('click', () => {
+      const onCancel = this.onCancel;
+      this.onCancel = null;
+      cancelButton.hidden = true;
+      onCancel?.();
+    });
+
     // Assemble
     this.indicatorElement.appendChild(spinner);
     this.indicatorElement.appendChild(messageElement);
-    if (showProgress) {
-      this.indicatorElement.appendChild(progressElement);
-    }
+    this.indicatorElement.appendChild(progressElement);
+    this.indicatorElement.appendChild(detailElement);
+    this.indicatorElement.appendChild(stepsElement);
+    this.indicatorElement.appendChild(cancelButton);
+    this.updateExtras(options);
 
     // Add to DOM
     document.body.appendChild(this.indicatorElement);
@@ -148,10 +232,22 @@ export function showLoading(message?: string, showProgress?: boolean, progress?:
 
 /**
  * Update loading indicator (convenience function)
+ *
+ * @param message Main message
+ * @param progress Percentage for the progress bar, or undefined to hide it
+ * @param detail Line under the progress bar, or undefined to hide it
+ * @param onCancel Called by the Cancel button, or undefined to hide the button
+ * @param steps Steps of the operation, or undefined to hide the list
  */
-export function updateLoading(message?: string, progress?: number): void {
+export function updateLoading(
+  message?: string,
+  progress?: number,
+  detail?: string,
+  onCancel?: () => void,
+  steps?: LoadingStep[]
+): void {
   const indicator = getLoadingIndicator();
-  indicator.update({ message, showProgress: progress !== undefined, progress });
+  indicator.update({ message, showProgress: progress !== undefined, progress, detail, onCancel, steps });
 }
 
 /**
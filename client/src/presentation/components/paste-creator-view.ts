@@ -6,20 +6,145 @@
  *
  * Features:
  * - Write/Preview markdown editor tabs
+ * - Password, link-key and recipient-key modes
+ * - Several passwords per paste (key slots)
+ * - Length-hiding padding choice
+ * - Compression, with the compressed upload size
+ * - Title, filename and language, encrypted with the content
+ * - File attachments, and images pasted from the clipboard
+ * - This browser's recipient public key for sharing
+ * - Progress of each creation stage, with Cancel
  */
 
 import { CreatePasteUseCase } from '../../application/use-cases/create-paste-use-case.js';
+import { RecipientKeyUseCase } from '../../application/use-cases/recipient-key-use-case.js';
+import type { CreatePasteEventCallback, CreatePasteStage } from '../../application/dtos/paste-dtos.js';
 import { showLoading, showError, showSuccess } from '../../ui/ui-manager.js';
+import { updateLoading } from './loading-indicator.js';
+import type { LoadingStep } from './loading-indicator.js';
 import { secureClear } from '../../security.js';
 import { storeDeleteToken } from '../../utils/storage.js';
 import { isFailure } from '../../core/models/result.js';
 import { sanitizeHtml } from '../../core/utils/sanitize.js';
+import { MAX_KEY_SLOTS } from '../../core/crypto/key-slots.js';
+import { DEFAULT_PADDING } from '../../core/crypto/padding.js';
+import type { PaddingParams } from '../../core/crypto/padding.js';
+import { createAttachment, formatFileSize } from '../../core/utils/paste-document.js';
+import type { PasteAttachment, PowProgress } from '../../core/models/paste.js';
+
+/**
+ * Padding for each choice of the #padding select
+ */
+const PADDING_OPTIONS: Record<string, PaddingParams> = {
+  'power-of-two': DEFAULT_PADDING,
+  'block': { scheme: 'block', blockSize: 4096 },
+  'none': { scheme: 'none' }
+};
+
+/**
+ * Read a file's content
+ */
+function readFile(file: File): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Read the selected padding choice
+ */
+function selectedPadding(): PaddingParams {
+  return PADDING_OPTIONS[(document.getElementById('padding') as HTMLSelectElement | null)?.value ?? '']
+    ?? DEFAULT_PADDING;
+}
+
+/**
+ * Describe proof-of-work progress: the hash rate and the time left
+ *
+ * The time left assumes the search takes the expected number of hashes.
+ * Any search may take longer, so once it has, that is all it says.
+ *
+ * @param progress Progress reported by the solver
+ * @returns Text for the loading indicator's detail line
+ */
+export function describePowProgress(progress: PowProgress): string {
+  const rate = `${Math.round(progress.hashRate).toLocaleString()} hashes/s`;
+  if (progress.hashRate <= 0) return rate;
+  const seconds = (progress.expectedHashes - progress.hashes) / progress.hashRate;
+  if (seconds <= 0) return `${rate}, taking longer than usual`;
+  const left = seconds < 60 ? `${Math.ceil(seconds)} s` : `${Math.ceil(seconds / 60)} min`;
+  return `${rate}, about ${left} left`;
+}
+
+/**
+ * Stages of paste creation as the loading indicator lists them
+ */
+const CREATE_STAGE_LABELS: Record<CreatePasteStage, string> = {
+  validating: 'Check',
+  encrypting: 'Encrypt',
+  solving: 'Proof of work',
+  uploading: 'Upload'
+};
+
+/**
+ * Show the stages of a paste creation in the loading indicator
+ *
+ * Encrypting and proof of work run at the same time, so each stage shows
+ * its own progress and the bar shows the creation as a whole.
+ *
+ * @param onCancel Called by the Cancel button, which is shown until the upload completes
+ * @returns Callback for the events of CreatePasteUseCase.execute
+ */
+export function showCreateStages(onCancel: () => void): CreatePasteEventCallback {
+  const stages = Object.keys(CREATE_STAGE_LABELS) as CreatePasteStage[];
+  const steps = new Map<CreatePasteStage, LoadingStep & { fraction: number }>(
+    stages.map(stage => [stage, { label: CREATE_STAGE_LABELS[stage], state: 'pending', fraction: 0 }])
+  );
+
+  return event => {
+    const step = steps.get(event.stage)!;
+    if (event.kind === 'completed') {
+      step.state = 'done';
+      step.fraction = 1;
+      step.detail = undefined;
+    } else {
+      step.state = 'active';
+      if (event.kind === 'progress') {
+        step.fraction = event.fraction;
+        step.detail = event.pow ? describePowProgress(event.pow) : `${Math.round(event.fraction * 100)}%`;
+      }
+    }
+
+    const all = [...steps.values()];
+    const progress = all.reduce((sum, { fraction }) => sum + fraction, 0) / all.length;
+    const uploaded = steps.get('uploading')!.state === 'done';
+    updateLoading(
+      'Creating paste...',
+      Math.round(progress * 100),
+      undefined,
+      uploaded ? undefined : onCancel,
+      all.map(({ label, state, detail }) => ({ label, state, detail }))
+    );
+  };
+}
 
 /**
  * Paste creator view component
  */
 export class PasteCreatorView {
-  constructor(private useCase: CreatePasteUseCase) {}
+  /** Files attached to the paste being created */
+  private attachments: PasteAttachment[] = [];
+
+  /** Re-measure the upload size (set by setupPayloadSize) */
+  private refreshPayloadSize: () => void = () => {};
+
+  constructor(
+    private useCase: CreatePasteUseCase,
+    private recipientKeyUseCase?: RecipientKeyUseCase
+  ) {}
 
   /**
    * Setup markdown toolbar buttons
@@ -167,17 +292,57 @@ export class PasteCreatorView {
     const textarea = document.getElementById('paste') as HTMLTextAreaElement | null;
     const text = textarea?.value || '';
     const mins = parseInt((document.getElementById('mins') as HTMLInputElement)?.value || '60', 10);
-    const password = (document.getElementById('password') as HTMLInputElement)?.value || '';
+    const singleView = (document.getElementById('single') as HTMLInputElement | null)?.checked === true;
+    const views = (document.getElementById('views') as HTMLInputElement | null)?.value || '';
+    const maxViews = singleView ? 1 : views ? Number(views) : undefined;
+    const clickToReveal = (document.getElementById('clickToReveal') as HTMLInputElement | null)?.checked === true;
+    const recipientMode = (document.getElementById('recipientMode') as HTMLInputElement | null)?.checked === true;
+    const linkKey = !recipientMode && (document.getElementById('linkKey') as HTMLInputElement | null)?.checked === true;
+    const passwordMode = !recipientMode && !linkKey;
+    const twoFactor = passwordMode && (document.getElementById('twoFactor') as HTMLInputElement | null)?.checked === true;
+    const password = passwordMode ? (document.getElementById('password') as HTMLInputElement)?.value || '' : '';
+    const extraPasswordInputs = Array.from(document.querySelectorAll<HTMLInputElement>('#extraPasswords .extra-password'));
+    const additionalPasswords = passwordMode
+      ? extraPasswordInputs.map(input => input.value).filter(value => value.length > 0)
+      : [];
+    const recipients = recipientMode
+      ? ((document.getElementById('recipients') as HTMLTextAreaElement | null)?.value || '')
+        .split(/\s+/)
+        .filter(key => key.length > 0)
+      : undefined;
+    const kdf = (document.getElementById('kdf') as HTMLSelectElement | null)?.value === 'argon2id'
+      ? 'argon2id'
+      : 'pbkdf2-sha256';
+    const padding = selectedPadding();
+
+    const compress = (document.getElementById('compress') as HTMLInputElement | null)?.checked !== false;
+    const title = (document.getElementById('title') as HTMLInputElement | null)?.value || undefined;
+    const filename = (document.getElementById('filename') as HTMLInputElement | null)?.value || undefined;
+    const language = (document.getElementById('language') as HTMLSelectElement | null)?.value || undefined;
 
-    showLoading(true, 'Encrypting...');
+    showLoading(true, 'Creating paste...');
+    const controller = new AbortController();
 
     try {
       const result = await this.useCase.execute({
         content: text,
         expirationMinutes: mins,
+        maxViews,
+        clickToReveal,
         password,
-        allowChat: true
-      });
+        allowChat: true,
+        kdf,
+        linkKey,
+        twoFactor,
+        recipients,
+        additionalPasswords,
+        padding,
+        compress,
+        title,
+        filename,
+        language,
+        attachments: this.attachments
+      }, showCreateStages(() => controller.abort()), controller.signal);
 
       if (isFailure(result)) {
         showError(result.error);
@@ -189,8 +354,12 @@ export class PasteCreatorView {
 
       secureClear(text);
       secureClear(password);
+      additionalPasswords.forEach(secureClear);
 
       if (textarea) textarea.value = '';
+      extraPasswordInputs.forEach(input => { input.value = ''; });
+      this.attachments = [];
+      this.renderAttachmentList();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       showError(errorMessage);
@@ -199,6 +368,292 @@ export class PasteCreatorView {
     }
   }
 
+  /**
+   * Show the size the content will upload as, after compression
+   * 
+   * The upload limit applies to this size, not to the character count.
+   * Measuring waits for a pause in typing, and results for older text are
+   * dropped.
+   */
+  setupPayloadSize(): void {
+    const textarea = document.getElementById('paste') as HTMLTextAreaElement | null;
+    const compress = document.getElementById('compress') as HTMLInputElement | null;
+    const padding = document.getElementById('padding') as HTMLSelectElement | null;
+    const status = document.getElementById('payloadSize');
+    if (!textarea || !status) return;
+
+    let timer: number | undefined;
+    let generation = 0;
+
+    const update = async (): Promise<void> => {
+      const current = ++generation;
+      const text = textarea.value;
+      if (!text && this.attachments.length === 0) {
+        status.textContent = '';
+        status.classList.remove('danger');
+        return;
+      }
+      const compressed = compress?.checked !== false;
+      const [size, limit] = await Promise.all([
+        this.useCase.measurePayload({ body: text, attachments: this.attachments }, compressed, selectedPadding()),
+        this.useCase.getUploadLimit()
+      ]);
+      if (current !== generation) return;
+      const sizeKb = Math.ceil(size / 1024);
+      const limitKb = Math.round(limit / 1024);
+      status.textContent = compressed
+        ? `Upload size: ${sizeKb.toLocaleString()} KB compressed (limit ${limitKb.toLocaleString()} KB)`
+        : `Upload size: ${sizeKb.toLocaleString()} KB (limit ${limitKb.toLocaleString()} KB)`;
+      status.classList.toggle('danger', size > limit);
+    };
+
+    const schedule = (): void => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => { void update(); }, 300);
+    };
+    this.refreshPayloadSize = schedule;
+    textarea.addEventListener('input', schedule);
+    compress?.addEventListener('change', () => { void update(); });
+    padding?.addEventListener('change', () => { void update(); });
+  }
+
+  /**
+   * Start solving proof of work once the creator starts writing
+   *
+   * By the time the paste is encrypted the solution is usually ready, so
+   * saving does not wait on it.
+   */
+  setupProofOfWork(): void {
+    const textarea = document.getElementById('paste') as HTMLTextAreaElement | null;
+    if (!textarea) return;
+
+    textarea.addEventListener('input', () => {
+      this.useCase.prepareProofOfWork();
+    });
+  }
+
+  /**
+   * Let the creator attach files, which are encrypted with the paste
+   * 
+   * Files are read when they are chosen; their names, types and content
+   * go into the encrypted paste document.
+   */
+  setupAttachments(): void {
+    const input = document.getElementById('attachments') as HTMLInputElement | null;
+    if (!input) return;
+
+    input.addEventListener('change', () => {
+      const files = Array.from(input.files ?? []);
+      input.value = '';
+      this.addFiles(files);
+    });
+  }
+
+  /**
+   * Attach images pasted into the editor
+   *
+   * With no text in the editor, the paste becomes an image paste, which
+   * the view page shows inline. Pasted text is left to the textarea.
+   */
+  setupClipboardImages(): void {
+    const textarea = document.getElementById('paste') as HTMLTextAreaElement | null;
+    if (!textarea) return;
+
+    textarea.addEventListener('paste', (event: ClipboardEvent) => {
+      const images = Array.from(event.clipboardData?.items ?? [])
+        .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+        .map(item => item.getAsFile())
+        .filter((file): file is File => file !== null);
+      if (images.length === 0) return;
+
+      event.preventDefault();
+      this.addFiles(images.map(file => file.name
+        ? file
+        : new File([file], `pasted-image.${file.type.slice('image/'.length) || 'png'}`, { type: file.type })));
+    });
+  }
+
+  /**
+   * Read files and add them to the attachments
+   */
+  private addFiles(files: File[]): void {
+    void Promise.all(files.map(async file => createAttachment(file.name, file.type, await readFile(file))))
+      .then(added => {
+        this.attachments = [...this.attachments, ...added];
+        this.renderAttachmentList();
+        this.refreshPayloadSize();
+      })
+      .catch(error => {
+        showError(error instanceof Error ? error.message : String(error));
+      });
+  }
+
+  /**
+   * Show the attached files with a button to remove each
+   */
+  private renderAttachmentList(): void {
+    const list = document.getElementById('attachmentList');
+    if (!list) return;
+
+    list.replaceChildren();
+    this.attachments.forEach(attachment => {
+      const item = document.createElement('li');
+      item.className = 'attachment-item';
+
+      const name = document.createElement('span');
+      name.className = 'attachment-name';
+      name.textContent = attachment.name;
+
+      const size = document.createElement('span');
+      size.className = 'attachment-size';
+      size.textContent = formatFileSize(attachment.size);
+
+      const removeButton = document.createElement('button');
+      removeButton.type = 'button';
+      removeButton.className = 'btn-copy';
+      removeButton.textContent = 'Remove';
+      removeButton.setAttribute('aria-label', `Remove ${attachment.name}`);
+      removeButton.addEventListener('click', () => {
+        this.attachments = this.attachments.filter(other => other !== attachment);
+        this.renderAttachmentList();
+        this.refreshPayloadSize();
+      });
+
+      item.append(name, size, removeButton);
+      list.appendChild(item);
+    });
+  }
+
+  /**
+   * Hide password options while link-key or recipient-key mode is selected
+   * 
+   * The two password-less modes exclude each other.
+   */
+  setupLinkKeyToggle(): void {
+    const linkKey = document.getElementById('linkKey') as HTMLInputElement | null;
+    const recipientMode = document.getElementById('recipientMode') as HTMLInputElement | null;
+    const recipientsGroup = document.getElementById('recipientsGroup');
+    const passwordGroup = document.getElementById('passwordGroup');
+    const kdfGroup = document.getElementById('kdfGroup');
+    const password = document.getElementById('password') as HTMLInputElement | null;
+    if (!linkKey || !passwordGroup) return;
+
+    const update = (): void => {
+      const passwordless = linkKey.checked || recipientMode?.checked === true;
+      passwordGroup.hidden = passwordless;
+      if (kdfGroup) kdfGroup.hidden = passwordless;
+      if (recipientsGroup) recipientsGroup.hidden = recipientMode?.checked !== true;
+      if (password) {
+        password.required = !passwordless;
+        password.setAttribute('aria-required', String(!passwordless));
+      }
+    };
+    linkKey.addEventListener('change', () => {
+      if (linkKey.checked && recipientMode) recipientMode.checked = false;
+      update();
+    });
+    recipientMode?.addEventListener('change', () => {
+      if (recipientMode.checked) linkKey.checked = false;
+      update();
+    });
+    update();
+  }
+
+  /**
+   * Let the creator add more passwords, each of which opens the paste
+   */
+  setupAdditionalPasswords(): void {
+    const container = document.getElementById('extraPasswords');
+    const addButton = document.getElementById('addPasswordBtn') as HTMLButtonElement | null;
+    if (!container || !addButton) return;
+
+    const update = (): void => {
+      const inputs = container.querySelectorAll<HTMLInputElement>('.extra-password');
+      inputs.forEach((input, i) => {
+        input.setAttribute('aria-label', `Additional password ${i + 1}`);
+      });
+      addButton.disabled = inputs.length >= MAX_KEY_SLOTS - 1;
+    };
+
+    addButton.addEventListener('click', () => {
+      const row = document.createElement('div');
+      row.className = 'output-url';
+
+      const input = document.createElement('input');
+      input.type = 'password';
+      input.className = 'extra-password';
+      input.placeholder = 'Another password or PIN';
+      input.autocomplete = 'new-password';
+
+      const removeButton = document.createElement('button');
+      removeButton.type = 'button';
+      removeButton.className = 'btn-copy';
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        input.value = '';
+        row.remove();
+        update();
+      });
+
+      row.append(input, removeButton);
+      container.appendChild(row);
+      update();
+      input.focus();
+    });
+    update();
+  }
+
+  /**
+   * Show and copy this browser's recipient public key
+   * 
+   * The keypair is created on first request, not on page load, so visitors
+   * who never use recipient keys do not get one stored.
+   */
+  setupRecipientKey(): void {
+    const showButton = document.getElementById('showMyKeyBtn') as HTMLButtonElement | null;
+    const container = document.getElementById('myKeyContainer');
+    const keyInput = document.getElementById('myPublicKey') as HTMLInputElement | null;
+    const copyButton = document.getElementById('copyMyKeyBtn') as HTMLButtonElement | null;
+    if (!this.recipientKeyUseCase || !showButton || !container || !keyInput) return;
+    const recipientKeyUseCase = this.recipientKeyUseCase;
+
+    showButton.addEventListener('click', async () => {
+      showButton.disabled = true;
+      try {
+        const result = await recipientKeyUseCase.execute();
+        if (isFailure(result)) {
+          showError(result.error);
+          return;
+        }
+        keyInput.value = result.value;
+        container.hidden = false;
+        keyInput.select();
+      } finally {
+        showButton.disabled = false;
+      }
+    });
+
+    copyButton?.addEventListener('click', () => {
+      if (!keyInput.value) return;
+      const originalText = copyButton.textContent || 'Copy';
+      const handleComplete = () => {
+        copyButton.textContent = '✓ Copied!';
+        copyButton.classList.add('copied');
+        window.setTimeout(() => {
+          copyButton.textContent = originalText;
+          copyButton.classList.remove('copied');
+        }, 2000);
+      };
+      if (navigator.clipboard && navigator.clipboard.writeText) {
+        navigator.clipboard.writeText(keyInput.value).then(handleComplete).catch(handleComplete);
+      } else {
+        keyInput.select();
+        document.execCommand('copy');
+        handleComplete();
+      }
+    });
+  }
+
   /**
    * Setup event handlers for paste creation
    */
@@ -207,6 +662,13 @@ export class PasteCreatorView {
 
     this.setupEditorTabs();
     this.setupMarkdownToolbar();
+    this.setupLinkKeyToggle();
+    this.setupAdditionalPasswords();
+    this.setupRecipientKey();
+    this.setupPayloadSize();
+    this.setupProofOfWork();
+    this.setupAttachments();
+    this.setupClipboardImages();
 
     const saveButton = document.getElementById('save');
     if (saveButton) {
@@ -3,38 +3,203 @@
  *
  * Presentation layer component for paste viewing.
  * Handles DOM manipulation and delegates business logic to use cases.
- * Renders decrypted content as sanitized markdown via marked.js + hljs.
+ * Renders decrypted content with the renderer for its content type (see
+ * content-renderers.ts); a dropdown switches to any other renderer that
+ * accepts the paste. Line-based renderers get line numbers, and markdown
+ * headings get permalinks; the selected lines or heading are kept in the
+ * URL fragment after the key (see fragment-router.ts). Click-to-reveal
+ * links wait at an interstitial before fetching (see reveal-gate.ts).
  */
 
 import { ViewPasteUseCase } from '../../application/use-cases/view-paste-use-case.js';
 import { DeletePasteUseCase } from '../../application/use-cases/delete-paste-use-case.js';
+import { KeySlotsView } from './key-slots-view.js';
+import { hideLoading, showLoading } from './loading-indicator.js';
 import { PasteService } from '../../core/services/paste-service.js';
 import { secureClear, getSafeErrorMessage } from '../../security.js';
-import { sanitizeHtml } from '../../core/utils/sanitize.js';
 import { WindowWithUI } from '../../ui/ui-manager.js';
-import type { PasteMetadata } from '../../core/models/paste.js';
+import type { LineRange, PasteAttachment, PasteDocument, PasteMetadata, ViewAnchor } from '../../core/models/paste.js';
+import { formatFileSize, pasteImage } from '../../core/utils/paste-document.js';
+import { contentTypeOf, downloadAttachment, getRenderer, renderersFor } from './content-renderers.js';
+import type { ContentRenderer, RenderDisposer, RenderInput } from './content-renderers.js';
+import { addLineNumbers } from './line-numbers.js';
+import type { LineGutter } from './line-numbers.js';
+import { FragmentRouter, findAnchorTarget } from './fragment-router.js';
+import { waitForReveal } from './reveal-gate.js';
+import type { PasteProgressStage, PasteViewError, PasteViewErrorKind } from '../../application/dtos/paste-dtos.js';
 import { isFailure } from '../../core/models/result.js';
 
 /**
- * Render decrypted text content into the #content element as sanitized markdown.
- * Falls back to plain-text display if marked is unavailable.
- * SECURITY: sanitizeHtml() is called before every innerHTML assignment.
+ * Status bar text for each way opening a paste can fail
  */
-function renderMarkdown(container: HTMLElement, text: string): void {
-  if (typeof marked !== 'undefined') {
-    const raw = marked.parse(text, { gfm: true, breaks: true });
-    // SECURITY: sanitizeHtml strips all dangerous tags/attrs before innerHTML assignment
-    const safeHtml = sanitizeHtml(raw);
-    container.innerHTML = safeHtml;
-  } else {
-    // Fallback: plain text (safe — textContent only)
-    container.textContent = text;
+const VIEW_ERROR_STATUS: Record<PasteViewErrorKind, string> = {
+  'wrong-password': 'Wrong password',
+  'corrupted': 'Integrity check failed',
+  'unsupported': 'Unsupported paste format',
+  'incomplete-link': 'Incomplete link',
+  'missing-key': 'No matching recipient key',
+  'password-required': 'Password required',
+  'crypto-failed': 'Decryption failed',
+  'unavailable': 'Paste unavailable'
+};
+
+/**
+ * Hint shown under the error message, where there is something to do about it
+ */
+const VIEW_ERROR_HINTS: Partial<Record<PasteViewErrorKind, string>> = {
+  'wrong-password': 'Check the password with the person who shared the link, then reload the page to try again.',
+  'corrupted': 'Entering the password again will not help. Ask the sender to share the paste again.',
+  'unsupported': 'This paste was created by a newer version of the app. Try again after the page updates.',
+  'incomplete-link': 'Make sure you copied the whole link, including everything after the # sign.',
+  'crypto-failed': 'This did not count as a wrong password. Reload the page to try again.'
+};
+
+/**
+ * Show the title and filename of a paste above its content
+ */
+function renderHeading(pasteDocument: PasteDocument): void {
+  const heading = document.getElementById('pasteHeading');
+  const title = document.getElementById('pasteTitle');
+  const filename = document.getElementById('pasteFilename');
+  if (!heading || !title || !filename) return;
+
+  title.textContent = pasteDocument.title ?? '';
+  title.hidden = !pasteDocument.title;
+  filename.textContent = pasteDocument.filename ?? '';
+  filename.hidden = !pasteDocument.filename;
+  heading.hidden = !pasteDocument.title && !pasteDocument.filename;
+}
+
+/**
+ * Render a paste with the renderer for its content type, and offer the
+ * other renderers that accept it in the #rendererSelect dropdown
+ *
+ * Line-based renderers get line numbers. The selected line range is
+ * highlighted, and kept when the reader switches renderer. What a renderer
+ * holds on to is released when it is replaced, or when the page is hidden.
+ *
+ * @returns Function that shows an anchor: scrolls to a heading, or
+ *   highlights lines and scrolls to them
+ */
+function renderContent(
+  container: HTMLElement,
+  input: RenderInput,
+  anchor: ViewAnchor | null,
+  onSelectLines: (range: LineRange) => void
+): (anchor: ViewAnchor | null) => void {
+  let gutter: LineGutter | null = null;
+  let selected: LineRange | null = null;
+  let dispose: RenderDisposer | null = null;
+
+  const release = (): void => {
+    dispose?.();
+    dispose = null;
+  };
+
+  const showAnchor = (next: ViewAnchor | null, scroll: boolean): void => {
+    if (next?.kind === 'heading') {
+      if (scroll) findAnchorTarget(container, next.id)?.scrollIntoView({ block: 'start' });
+      return;
+    }
+    selected = next ? next.range : null;
+    const range = gutter ? gutter.select(selected) : null;
+    if (range && scroll) gutter.scrollTo(range);
+  };
+
+  const show = (renderer: ContentRenderer): void => {
+    release();
+    dispose = renderer.render(container, input) || null;
+    const pre = container.firstElementChild;
+    gutter = renderer.lineNumbers && pre instanceof HTMLPreElement
+      ? addLineNumbers(pre, range => {
+        selected = range;
+        onSelectLines(range);
+      })
+      : null;
+  };
+
+  const available = renderersFor(input);
+  const preferred = getRenderer(contentTypeOf(input));
+  const initial = preferred && available.includes(preferred) ? preferred : available[0];
+  if (!initial) {
+    container.textContent = input.document.body;
+    return () => {};
   }
+  show(initial);
+  showAnchor(anchor, true);
+  window.addEventListener('pagehide', release, { once: true });
+
+  const bar = document.getElementById('rendererBar');
+  const select = document.getElementById('rendererSelect') as HTMLSelectElement | null;
+  if (bar && select) {
+    select.replaceChildren(...available.map(renderer => {
+      const option = document.createElement('option');
+      option.value = renderer.id;
+      option.textContent = renderer.label;
+      return option;
+    }));
+    select.value = initial.id;
+    select.onchange = () => {
+      const renderer = getRenderer(select.value);
+      if (!renderer) return;
+      show(renderer);
+      if (selected) showAnchor({ kind: 'lines', range: selected }, false);
+    };
+    bar.hidden = available.length < 2;
+  }
+
+  return next => showAnchor(next, true);
+}
 
-  // Syntax-highlight code blocks
-  if (typeof hljs !== 'undefined') {
-    const blocks = container.querySelectorAll<HTMLElement>('pre code');
-    blocks.forEach(block => hljs.highlightElement(block));
+/**
+ * List the attached files with a download button for each
+ */
+function renderAttachments(attachments: PasteAttachment[]): void {
+  const section = document.getElementById('pasteAttachments');
+  const list = document.getElementById('attachmentList');
+  if (!section || !list) return;
+
+  list.replaceChildren();
+  for (const attachment of attachments) {
+    const item = document.createElement('li');
+    item.className = 'attachment-item';
+
+    const name = document.createElement('span');
+    name.className = 'attachment-name';
+    name.textContent = attachment.name;
+
+    const size = document.createElement('span');
+    size.className = 'attachment-size';
+    size.textContent = formatFileSize(attachment.size);
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'btn btn-secondary btn-sm';
+    button.textContent = 'Download';
+    button.setAttribute('aria-label', `Download ${attachment.name}`);
+    button.addEventListener('click', () => downloadAttachment(attachment));
+
+    item.append(name, size, button);
+    list.appendChild(item);
+  }
+  section.hidden = attachments.length === 0;
+}
+
+/**
+ * Tell the reader how many more times a view-limited paste can be opened
+ *
+ * @param viewsRemaining Views left after this one, or undefined for unlimited
+ */
+function renderViewLimit(viewsRemaining?: number): void {
+  const notice = document.getElementById('viewLimitNotice');
+  if (!notice) return;
+
+  notice.hidden = viewsRemaining === undefined;
+  notice.classList.toggle('last-view', viewsRemaining === 0);
+  if (viewsRemaining === 0) {
+    notice.textContent = 'This paste will be destroyed after you close it. It cannot be opened again.';
+  } else if (viewsRemaining !== undefined) {
+    notice.textContent = `${viewsRemaining} ${viewsRemaining === 1 ? 'view' : 'views'} remaining`;
   }
 }
 
@@ -46,14 +211,17 @@ export class PasteViewerView {
 
   constructor(
     private viewUseCase: ViewPasteUseCase,
-    private deleteUseCase: DeletePasteUseCase
+    private deleteUseCase: DeletePasteUseCase,
+    private keySlotsView?: KeySlotsView
   ) {}
 
   /**
    * Check if chat should be initialized for this paste
+   *
+   * A paste opened for the last time is already deleted, and its chat with it.
    */
-  shouldInitChat(_meta: PasteMetadata): boolean {
-    return true;
+  shouldInitChat(_meta: PasteMetadata, viewsRemaining?: number): boolean {
+    return viewsRemaining !== 0;
   }
 
   /**
@@ -136,10 +304,33 @@ export class PasteViewerView {
     });
   }
 
+  /**
+   * Show why a paste could not be opened
+   *
+   * Fetch failures can carry server or network details, so only those are
+   * reduced to a generic message; every other kind has a message written
+   * for the viewer.
+   */
+  private showViewError(error: PasteViewError): void {
+    const content = document.getElementById('content');
+    if (content) {
+      const message = error.kind === 'unavailable'
+        ? getSafeErrorMessage(new Error(error.message), 'paste viewing')
+        : error.message;
+      const hint = VIEW_ERROR_HINTS[error.kind];
+      content.classList.remove('loading');
+      content.classList.add('error');
+      content.dataset.errorKind = error.kind;
+      content.textContent = hint ? `${message}\n\n${hint}` : message;
+    }
+    const updateStatus = (window as WindowWithUI).updateStatus;
+    if (updateStatus) updateStatus(false, VIEW_ERROR_STATUS[error.kind]);
+  }
+
   /**
    * Handle paste viewing
    */
-  async handleView(): Promise<{ pasteId: string; metadata: PasteMetadata; deleteAuth: string; salt: Uint8Array; initialPassword?: string } | null> {
+  async handleView(): Promise<{ pasteId: string; metadata: PasteMetadata; deleteAuth: string; salt: Uint8Array; initialPassword?: string; chatKey?: CryptoKey; viewsRemaining?: number } | null> {
     if (!location.pathname.endsWith('view.html')) return null;
 
     const parsed = this.pasteService.parseViewUrl(new URL(window.location.href));
@@ -155,11 +346,21 @@ export class PasteViewerView {
       return null;
     }
 
-    const { pasteId, salt, iv } = parsed;
+    const { pasteId, salt, iv, linkSecret, anchor, clickToReveal } = parsed;
     const content = document.getElementById('content');
     const updateStatus = (window as WindowWithUI).updateStatus;
     const showInfo = (window as WindowWithUI).showInfo;
 
+    // Nothing is fetched until the reader clicks through
+    const gate = document.getElementById('revealGate');
+    const revealButton = document.getElementById('revealBtn');
+    if (clickToReveal && gate && revealButton) {
+      if (updateStatus) updateStatus(true, 'Waiting for you to continue');
+      if (content) content.hidden = true;
+      await waitForReveal(gate, revealButton);
+      if (content) content.hidden = false;
+    }
+
     try {
       if (updateStatus) updateStatus(true, 'Fetching paste...');
 
@@ -188,21 +389,46 @@ export class PasteViewerView {
         return password;
       };
 
+      // Only large pastes report progress before they finish; the indicator
+      // is hidden again once each stage completes, before any password prompt
+      const onProgress = (stage: PasteProgressStage, fraction: number): void => {
+        if (fraction >= 1) {
+          hideLoading();
+        } else {
+          showLoading(stage === 'downloading' ? 'Downloading...' : 'Decrypting...', true, Math.round(fraction * 100));
+        }
+      };
+
       const result = await this.viewUseCase.execute(
-        { pasteId, salt, iv, password: '' },
-        passwordPrompt
+        { pasteId, salt, iv, password: '', linkSecret },
+        passwordPrompt,
+        onProgress
       );
+      hideLoading();
 
       if (isFailure(result)) {
-        throw new Error(result.error);
+        this.showViewError(result.error);
+        return null;
       }
 
-      const { content: decryptedText, metadata } = result.value;
+      const { document: pasteDocument, metadata, viewsRemaining } = result.value;
 
+      const image = pasteImage(pasteDocument);
+      renderHeading(pasteDocument);
+      renderViewLimit(viewsRemaining);
+      // An image paste's only attachment is the image itself
+      renderAttachments(image ? [] : pasteDocument.attachments ?? []);
       if (content) {
         content.classList.remove('loading');
         content.classList.remove('error');
-        renderMarkdown(content, decryptedText);
+        // Lines and headings go in the fragment after the keys, so the
+        // address bar can be shared and reloaded
+        const router = new FragmentRouter(this.pasteService, { salt, iv, linkSecret });
+        const showAnchor = renderContent(content, { document: pasteDocument, image }, anchor ?? null, range => {
+          router.navigate({ kind: 'lines', range });
+        });
+        router.interceptLinks(content, id => showAnchor({ kind: 'heading', id }));
+        router.start(showAnchor);
       }
 
       if (updateStatus) updateStatus(true, 'Decrypted successfully');
@@ -210,11 +436,16 @@ export class PasteViewerView {
         showInfo(metadata.expireTs);
       }
 
-      if (result.value.deleteAuth) {
+      // Nothing is left to destroy after the last view
+      if (result.value.deleteAuth && viewsRemaining !== 0) {
         this.setupDestroyButton(pasteId, result.value.deleteAuth);
         secureClear(result.value.deleteAuth);
       }
 
+      if (this.keySlotsView && result.value.keySlots && result.value.slotKey) {
+        this.keySlotsView.setup(pasteId, salt, result.value.keySlots, result.value.slotKey);
+      }
+
       const saltArray = new Uint8Array(
         await import('../../core/crypto/encoding.js').then(m =>
           new Uint8Array(m.decodeBase64Url(salt))
@@ -231,7 +462,9 @@ export class PasteViewerView {
         metadata: result.value.metadata,
         deleteAuth: result.value.deleteAuth,
         salt: saltArray,
-        initialPassword: chatPassword
+        initialPassword: chatPassword,
+        chatKey: result.value.chatKey,
+        viewsRemaining
       };
     } catch (e) {
       if (content) {
@@ -0,0 +1,32 @@
+/**
+ * Click-to-reveal gate for the paste viewer
+ *
+ * Chat apps and mail scanners load shared links to build previews. For a
+ * view-limited paste, each of those loads would use up a view before the
+ * person the link was meant for opens it. Pastes created with
+ * click-to-reveal hold the viewer at an interstitial instead, and the paste
+ * is fetched only after a click that comes from the reader rather than
+ * from a script.
+ */
+
+/**
+ * Show the gate and wait for the reader to continue
+ *
+ * @param gate Interstitial, hidden again once the reader continues
+ * @param button Button the reader clicks to continue
+ * @returns Promise that resolves on the first trusted click
+ */
+export function waitForReveal(gate: HTMLElement, button: HTMLElement): Promise<void> {
+  gate.hidden = false;
+  button.focus();
+  return new Promise(resolve => {
+    const onClick = (event: Event): void => {
+      // Clicks dispatched by scripts on the page are not trusted
+      if (!event.isTrusted) return;
+      button.removeEventListener('click', onClick);
+      gate.hidden = true;
+      resolve();
+    };
+    button.addEventListener('click', onClick);
+  });
+}
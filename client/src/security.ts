@@ -11,6 +11,8 @@
  * Note: Validation functions have been moved to core/validators/index.ts
  */
 
+import { argon2id } from './core/crypto/argon2.js';
+
 // ============================================================================
 // MEMORY SECURITY
 // ============================================================================
@@ -49,7 +51,10 @@ export function secureClearBuffer(buffer: ArrayBuffer): void {
     // Overwrite with cryptographically random bytes (best effort).
     // Using crypto.getRandomValues rather than Math.random() is semantically
     // correct and eliminates any chance a JIT treats the writes as dead code.
-    crypto.getRandomValues(new Uint8Array(buffer));
+    // getRandomValues fills at most 65,536 bytes per call.
+    for (let offset = 0; offset < buffer.byteLength; offset += 65536) {
+      crypto.getRandomValues(new Uint8Array(buffer, offset, Math.min(65536, buffer.byteLength - offset)));
+    }
   }
 }
 
@@ -149,6 +154,11 @@ export function getSafeErrorMessage(error: unknown, context: string = 'operation
 // PASSWORD-BASED ENCRYPTION
 // ============================================================================
 
+/**
+ * Default PBKDF2-SHA256 iteration count (also used by all legacy pastes)
+ */
+export const PBKDF2_ITERATIONS = 100000;
+
 /**
  * Derive encryption key from password using PBKDF2
  * 
@@ -156,9 +166,14 @@ export function getSafeErrorMessage(error: unknown, context: string = 'operation
  * 
  * @param password User-provided password
  * @param salt Random salt for key derivation (Uint8Array or ArrayBuffer)
+ * @param iterations PBKDF2 iteration count (defaults to PBKDF2_ITERATIONS)
  * @returns Promise resolving to derived key
  */
-export async function deriveKeyFromPassword(password: string, salt: Uint8Array | ArrayBuffer): Promise<CryptoKey> {
+export async function deriveKeyFromPassword(
+  password: string,
+  salt: Uint8Array | ArrayBuffer,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
   const passwordBuffer = new TextEncoder().encode(password);
   
   try {
@@ -179,7 +194,7 @@ export async function deriveKeyFromPassword(password: string, salt: Uint8Array |
       {
         name: 'PBKDF2',
         salt: saltBuffer as BufferSource,
-        iterations: 100000, // High iteration count for security
+        iterations,
         hash: 'SHA-256'
       },
       keyMaterial,
@@ -212,9 +227,14 @@ export function generateSalt(): Uint8Array {
  * 
  * @param content Content to encrypt
  * @param password User password
+ * @param iterations PBKDF2 iteration count (defaults to PBKDF2_ITERATIONS)
  * @returns Promise resolving to encrypted data with salt
  */
-export async function encryptWithPassword(content: string, password: string): Promise<{
+export async function encryptWithPassword(
+  content: string,
+  password: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{
   encryptedData: ArrayBuffer;
   salt: ArrayBuffer;
   iv: ArrayBuffer;
@@ -222,7 +242,7 @@ export async function encryptWithPassword(content: string, password: string): Pr
   const salt = generateSalt();
   const iv = new Uint8Array(12);
   crypto.getRandomValues(iv);
-  const key = await deriveKeyFromPassword(password, salt);
+  const key = await deriveKeyFromPassword(password, salt, iterations);
   
   const encryptedData = await crypto.subtle.encrypt(
     {
@@ -251,15 +271,17 @@ export async function encryptWithPassword(content: string, password: string): Pr
  * @param password User password
  * @param salt Salt used for key derivation
  * @param iv Initialization vector
+ * @param iterations PBKDF2 iteration count (defaults to PBKDF2_ITERATIONS)
  * @returns Promise resolving to decrypted content
  */
 export async function decryptWithPassword(
-  encryptedData: ArrayBuffer,
+  encryptedData: ArrayBuffer | Uint8Array,
   password: string,
   salt: ArrayBuffer,
-  iv: ArrayBuffer
+  iv: ArrayBuffer,
+  iterations: number = PBKDF2_ITERATIONS
 ): Promise<string> {
-  const key = await deriveKeyFromPassword(password, salt);
+  const key = await deriveKeyFromPassword(password, salt, iterations);
   
   // Ensure iv is properly typed for WebCrypto - convert to Uint8Array if needed
   const ivBuffer = iv instanceof Uint8Array ? iv : new Uint8Array(iv);
@@ -270,7 +292,7 @@ export async function decryptWithPassword(
       iv: ivBuffer as BufferSource
     },
     key,
-    encryptedData
+    encryptedData as BufferSource
   );
   
   try {
@@ -297,9 +319,14 @@ export async function decryptWithPassword(
  * 
  * @param password User-provided password
  * @param salt Salt from the paste (same as encryption salt)
+ * @param iterations PBKDF2 iteration count (defaults to PBKDF2_ITERATIONS)
  * @returns Promise resolving to base64url-encoded delete authorization string
  */
-export async function deriveDeleteAuth(password: string, salt: Uint8Array): Promise<string> {
+export async function deriveDeleteAuth(
+  password: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<string> {
   // Create a distinct salt for delete authorization by appending "delete" marker
   const deleteMarker = new TextEncoder().encode(':delete');
   const deleteSalt = new Uint8Array(salt.length + deleteMarker.length);
@@ -321,7 +348,7 @@ export async function deriveDeleteAuth(password: string, salt: Uint8Array): Prom
       {
         name: 'PBKDF2',
         salt: deleteSalt,
-        iterations: 100000,
+        iterations,
         hash: 'SHA-256'
       },
       importedKey,
@@ -345,3 +372,654 @@ export async function deriveDeleteAuth(password: string, salt: Uint8Array): Prom
   }
 }
 
+// ============================================================================
+// HKDF KEY EXPANSION
+// ============================================================================
+
+/**
+ * Import high-entropy key material for HKDF
+ */
+async function importHkdfKey(material: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    material as BufferSource,
+    'HKDF',
+    false,
+    ['deriveKey', 'deriveBits']
+  );
+}
+
+/**
+ * HKDF-SHA256 parameters for one labelled output
+ */
+function hkdfParams(salt: Uint8Array, info: string): HkdfParams {
+  return {
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: salt as BufferSource,
+    info: new TextEncoder().encode(info)
+  };
+}
+
+/**
+ * Expand a non-extractable AES-256-GCM key from HKDF key material
+ */
+async function deriveHkdfAesKey(master: CryptoKey, salt: Uint8Array, info: string): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    hkdfParams(salt, info),
+    master,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Expand a base64url-encoded delete authorization from HKDF key material
+ */
+async function deriveHkdfDeleteAuth(master: CryptoKey, salt: Uint8Array, info: string): Promise<string> {
+  const bits = await crypto.subtle.deriveBits(hkdfParams(salt, info), master, 256);
+  try {
+    const { encodeBase64Url } = await import('./core/crypto/encoding.js');
+    return encodeBase64Url(bits);
+  } finally {
+    secureClearBuffer(bits);
+  }
+}
+
+/**
+ * Expand a key commitment from HKDF key material
+ */
+async function deriveHkdfCommitment(master: CryptoKey, salt: Uint8Array, info: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.deriveBits(hkdfParams(salt, info), master, 256));
+}
+
+// ============================================================================
+// KEY COMMITMENT
+// ============================================================================
+
+/**
+ * HKDF info label for the key commitment of PBKDF2 pastes
+ */
+const PBKDF2_KEY_INFO = {
+  COMMIT: 'delerium-paste/pbkdf2/commit'
+} as const;
+
+/**
+ * Derive the content key of a PBKDF2 paste with its key commitment
+ * 
+ * The content key is the same as from deriveKeyFromPassword. The commitment
+ * is expanded from the raw key bytes with HKDF-SHA256, so a ciphertext
+ * cannot be made to decrypt under two passwords without also matching two
+ * different keys to one commitment.
+ * 
+ * Clears the password and raw key bytes from memory after use.
+ * 
+ * @param password User-provided password
+ * @param salt Salt from the paste
+ * @param iterations PBKDF2 iteration count (defaults to PBKDF2_ITERATIONS)
+ * @returns Promise resolving to content key and key commitment
+ */
+export async function derivePbkdf2ContentKey(
+  password: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<{
+  contentKey: CryptoKey;
+  commitment: Uint8Array;
+}> {
+  const passwordBuffer = new TextEncoder().encode(password);
+  let raw: Uint8Array | null = null;
+
+  try {
+    raw = await derivePbkdf2Bits(passwordBuffer, salt, iterations);
+    const [contentKey, commitment] = await Promise.all([
+      crypto.subtle.importKey('raw', raw as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt']),
+      importHkdfKey(raw).then(master => deriveHkdfCommitment(master, salt, PBKDF2_KEY_INFO.COMMIT))
+    ]);
+    return { contentKey, commitment };
+  } finally {
+    secureClearBuffer(passwordBuffer.buffer);
+    if (raw) {
+      secureClearBuffer(raw.buffer as ArrayBuffer);
+    }
+  }
+}
+
+/**
+ * Compare two key commitments in constant time
+ * 
+ * @param a Key commitment
+ * @param b Key commitment
+ * @returns True if both commitments are equal
+ */
+export function keyCommitmentsEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+// ============================================================================
+// ARGON2ID KEY DERIVATION
+// ============================================================================
+
+/**
+ * Default Argon2id cost for new pastes (19 MiB, 2 passes, 1 lane)
+ */
+export const ARGON2ID_DEFAULTS = {
+  memoryKiB: 19456,
+  iterations: 2,
+  parallelism: 1
+} as const;
+
+/**
+ * HKDF info labels separating the keys derived from one Argon2id output
+ */
+const ARGON2ID_KEY_INFO = {
+  CONTENT: 'delerium-paste/argon2id/content',
+  CHAT: 'delerium-paste/argon2id/chat',
+  DELETE: 'delerium-paste/argon2id/delete',
+  COMMIT: 'delerium-paste/argon2id/commit'
+} as const;
+
+/**
+ * Derive paste keys from a password using Argon2id
+ * 
+ * Argon2id runs once; the content key, chat key, delete authorization and
+ * key commitment are then expanded from its output with HKDF-SHA256 under
+ * distinct labels, so none of them can be computed from another.
+ * 
+ * Clears the password and Argon2id output from memory after use.
+ * 
+ * @param password User-provided password
+ * @param salt Random salt for key derivation
+ * @param params Argon2id cost parameters
+ * @returns Promise resolving to content key, chat key, base64url-encoded delete authorization and key commitment
+ */
+export async function deriveArgon2idKeys(
+  password: string,
+  salt: Uint8Array,
+  params: { memoryKiB: number; iterations: number; parallelism: number }
+): Promise<{
+  contentKey: CryptoKey;
+  chatKey: CryptoKey;
+  deleteAuth: string;
+  commitment: Uint8Array;
+}> {
+  const passwordBuffer = new TextEncoder().encode(password);
+  let master: Uint8Array | null = null;
+
+  try {
+    master = argon2id(passwordBuffer, salt, {
+      memoryKiB: params.memoryKiB,
+      iterations: params.iterations,
+      parallelism: params.parallelism,
+      tagLength: 32
+    });
+
+    const masterKey = await importHkdfKey(master);
+    const [contentKey, chatKey, deleteAuth, commitment] = await Promise.all([
+      deriveHkdfAesKey(masterKey, salt, ARGON2ID_KEY_INFO.CONTENT),
+      deriveHkdfAesKey(masterKey, salt, ARGON2ID_KEY_INFO.CHAT),
+      deriveHkdfDeleteAuth(masterKey, salt, ARGON2ID_KEY_INFO.DELETE),
+      deriveHkdfCommitment(masterKey, salt, ARGON2ID_KEY_INFO.COMMIT)
+    ]);
+    return { contentKey, chatKey, deleteAuth, commitment };
+  } finally {
+    // Clear password buffer and Argon2id output from memory
+    secureClearBuffer(passwordBuffer.buffer);
+    if (master) {
+      secureClearBuffer(master.buffer as ArrayBuffer);
+    }
+  }
+}
+
+// ============================================================================
+// LINK-KEY DERIVATION
+// ============================================================================
+
+/**
+ * Length in bytes of the random key carried in link-key share URLs
+ */
+export const LINK_KEY_LENGTH = 32;
+
+/**
+ * HKDF info labels for keys expanded from a link key
+ */
+const LINK_KEY_INFO = {
+  CHAT: 'delerium-paste/link/chat',
+  DELETE: 'delerium-paste/link/delete',
+  COMMIT: 'delerium-paste/link/commit'
+} as const;
+
+/**
+ * Derive paste keys from a link key (password-less pastes)
+ * 
+ * The link key is the AES-256-GCM content key itself. The chat key, delete
+ * authorization and key commitment are expanded from it with HKDF-SHA256,
+ * so anyone holding the link can chat and delete, and the delete
+ * authorization sent to the server reveals nothing about the content key.
+ * 
+ * @param linkKey Raw 32-byte key from the URL fragment
+ * @returns Promise resolving to content key, chat key, base64url-encoded delete authorization and key commitment
+ * @throws Error if the key has the wrong length
+ */
+export async function deriveLinkKeys(linkKey: Uint8Array): Promise<{
+  contentKey: CryptoKey;
+  chatKey: CryptoKey;
+  deleteAuth: string;
+  commitment: Uint8Array;
+}> {
+  if (linkKey.length !== LINK_KEY_LENGTH) {
+    throw new Error('Invalid link key length');
+  }
+
+  const noSalt = new Uint8Array(0);
+  const masterKey = await importHkdfKey(linkKey);
+  const [contentKey, chatKey, deleteAuth, commitment] = await Promise.all([
+    crypto.subtle.importKey('raw', linkKey as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt']),
+    deriveHkdfAesKey(masterKey, noSalt, LINK_KEY_INFO.CHAT),
+    deriveHkdfDeleteAuth(masterKey, noSalt, LINK_KEY_INFO.DELETE),
+    deriveHkdfCommitment(masterKey, noSalt, LINK_KEY_INFO.COMMIT)
+  ]);
+  return { contentKey, chatKey, deleteAuth, commitment };
+}
+
+// ============================================================================
+// TWO-FACTOR (PASSWORD + LINK SECRET) DERIVATION
+// ============================================================================
+
+/**
+ * HKDF info labels for keys expanded from a password and link secret
+ */
+const TWO_FACTOR_KEY_INFO = {
+  CONTENT: 'delerium-paste/two-factor/content',
+  CHAT: 'delerium-paste/two-factor/chat',
+  DELETE: 'delerium-paste/two-factor/delete',
+  COMMIT: 'delerium-paste/two-factor/commit'
+} as const;
+
+/**
+ * Generate a random secret for the URL fragment of two-factor pastes
+ * 
+ * @returns Random LINK_KEY_LENGTH-byte secret
+ */
+export function generateLinkSecret(): Uint8Array {
+  const secret = new Uint8Array(LINK_KEY_LENGTH);
+  crypto.getRandomValues(secret);
+  return secret;
+}
+
+/**
+ * Derive 256 raw bits from a password with PBKDF2-SHA256
+ */
+async function derivePbkdf2Bits(password: Uint8Array, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    password as BufferSource,
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Stretch a password into 32 bytes with PBKDF2-SHA256 or Argon2id
+ */
+async function stretchPassword(
+  password: Uint8Array,
+  salt: Uint8Array,
+  kdf:
+    | { algorithm: 'pbkdf2-sha256'; iterations: number }
+    | { algorithm: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number }
+): Promise<Uint8Array> {
+  return kdf.algorithm === 'argon2id'
+    ? argon2id(password, salt, {
+      memoryKiB: kdf.memoryKiB,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+      tagLength: 32
+    })
+    : derivePbkdf2Bits(password, salt, kdf.iterations);
+}
+
+/**
+ * Derive paste keys from both a password and a secret from the share link
+ * 
+ * The password is stretched with the paste's KDF as usual, then combined
+ * with the link secret through HKDF-SHA256. Without the link secret the
+ * ciphertext cannot be attacked offline, however weak the password; without
+ * the password the link alone does not decrypt the paste.
+ * 
+ * Clears the password and intermediate key material from memory after use.
+ * 
+ * @param password User-provided password
+ * @param salt Random salt for key derivation
+ * @param linkSecret Random secret from the URL fragment
+ * @param kdf Password KDF and its parameters
+ * @returns Promise resolving to content key, chat key, base64url-encoded delete authorization and key commitment
+ * @throws Error if the link secret has the wrong length
+ */
+export async function deriveTwoFactorKeys(
+  password: string,
+  salt: Uint8Array,
+  linkSecret: Uint8Array,
+  kdf:
+    | { algorithm: 'pbkdf2-sha256'; iterations: number }
+    | { algorithm: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number }
+): Promise<{
+  contentKey: CryptoKey;
+  chatKey: CryptoKey;
+  deleteAuth: string;
+  commitment: Uint8Array;
+}> {
+  if (linkSecret.length !== LINK_KEY_LENGTH) {
+    throw new Error('Invalid link secret length');
+  }
+
+  const passwordBuffer = new TextEncoder().encode(password);
+  let passwordBits: Uint8Array | null = null;
+  let material: Uint8Array | null = null;
+
+  try {
+    passwordBits = await stretchPassword(passwordBuffer, salt, kdf);
+
+    material = new Uint8Array(passwordBits.length + linkSecret.length);
+    material.set(passwordBits);
+    material.set(linkSecret, passwordBits.length);
+
+    const masterKey = await importHkdfKey(material);
+    const [contentKey, chatKey, deleteAuth, commitment] = await Promise.all([
+      deriveHkdfAesKey(masterKey, salt, TWO_FACTOR_KEY_INFO.CONTENT),
+      deriveHkdfAesKey(masterKey, salt, TWO_FACTOR_KEY_INFO.CHAT),
+      deriveHkdfDeleteAuth(masterKey, salt, TWO_FACTOR_KEY_INFO.DELETE),
+      deriveHkdfCommitment(masterKey, salt, TWO_FACTOR_KEY_INFO.COMMIT)
+    ]);
+    return { contentKey, chatKey, deleteAuth, commitment };
+  } finally {
+    // Clear password buffer and intermediate key material from memory
+    secureClearBuffer(passwordBuffer.buffer);
+    if (passwordBits) {
+      secureClearBuffer(passwordBits.buffer as ArrayBuffer);
+    }
+    if (material) {
+      secureClearBuffer(material.buffer as ArrayBuffer);
+    }
+  }
+}
+
+// ============================================================================
+// PASSWORD KEY SLOTS
+// ============================================================================
+
+/**
+ * HKDF info label for the key-encryption key of a password key slot
+ */
+const KEY_SLOT_INFO = {
+  WRAP: 'delerium-paste/slot/wrap'
+} as const;
+
+/**
+ * Derive the key-encryption key of a password key slot
+ * 
+ * The password is stretched with the slot's KDF, then expanded with
+ * HKDF-SHA256 into an AES-KW key. Clears the password and stretched
+ * password from memory after use.
+ * 
+ * @param password User-provided password
+ * @param salt Paste salt
+ * @param kdf Password KDF and its parameters, from the slot
+ * @returns Promise resolving to an AES-KW key
+ */
+export async function deriveKeySlotWrapKey(
+  password: string,
+  salt: Uint8Array,
+  kdf:
+    | { algorithm: 'pbkdf2-sha256'; iterations: number }
+    | { algorithm: 'argon2id'; memoryKiB: number; iterations: number; parallelism: number }
+): Promise<CryptoKey> {
+  const passwordBuffer = new TextEncoder().encode(password);
+  let passwordBits: Uint8Array | null = null;
+
+  try {
+    passwordBits = await stretchPassword(passwordBuffer, salt, kdf);
+    const masterKey = await importHkdfKey(passwordBits);
+    return await crypto.subtle.deriveKey(
+      hkdfParams(salt, KEY_SLOT_INFO.WRAP),
+      masterKey,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  } finally {
+    secureClearBuffer(passwordBuffer.buffer);
+    if (passwordBits) {
+      secureClearBuffer(passwordBits.buffer as ArrayBuffer);
+    }
+  }
+}
+
+/**
+ * Import a raw content key so it can be wrapped into key slots
+ * 
+ * @param linkKey Raw LINK_KEY_LENGTH-byte content key
+ * @returns Promise resolving to an extractable AES-GCM key
+ */
+export async function importKeySlotContentKey(linkKey: Uint8Array): Promise<CryptoKey> {
+  if (linkKey.length !== LINK_KEY_LENGTH) {
+    throw new Error('Invalid link key length');
+  }
+  return crypto.subtle.importKey('raw', linkKey as BufferSource, 'AES-GCM', true, ['encrypt']);
+}
+
+/**
+ * Wrap a content key into a password key slot
+ * 
+ * @param contentKey Extractable content key from importKeySlotContentKey or unwrapKeySlot
+ * @param wrapKey Key-encryption key from deriveKeySlotWrapKey
+ * @returns Promise resolving to the WRAPPED_KEY_LENGTH-byte wrapped key
+ */
+export async function wrapKeySlot(contentKey: CryptoKey, wrapKey: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, wrapKey, 'AES-KW'));
+}
+
+/**
+ * Unwrap the content key from a password key slot
+ * 
+ * @param wrappedKey Wrapped key from the slot
+ * @param wrapKey Key-encryption key from deriveKeySlotWrapKey
+ * @returns Promise resolving to the extractable content key
+ * @throws Error if the password does not open this slot
+ */
+export async function unwrapKeySlot(wrappedKey: Uint8Array, wrapKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrappedKey as BufferSource,
+    wrapKey,
+    'AES-KW',
+    'AES-GCM',
+    true,
+    ['encrypt']
+  );
+}
+
+// ============================================================================
+// RECIPIENT PUBLIC-KEY WRAPPING (ECDH P-256)
+// ============================================================================
+
+/**
+ * Length in bytes of an uncompressed P-256 public key
+ */
+export const RECIPIENT_PUBLIC_KEY_LENGTH = 65;
+
+/**
+ * Length in bytes of the identifier that matches a wrapped key to its recipient
+ */
+export const RECIPIENT_KEY_ID_LENGTH = 8;
+
+/**
+ * Length in bytes of a link key wrapped with AES-KW
+ */
+export const WRAPPED_KEY_LENGTH = LINK_KEY_LENGTH + 8;
+
+/**
+ * HKDF info label for the key-encryption key shared with a recipient
+ */
+const RECIPIENT_KEY_INFO = {
+  WRAP: 'delerium-paste/recipient/wrap'
+} as const;
+
+/**
+ * ECDH algorithm parameters for recipient keys
+ */
+const ECDH_P256: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+/**
+ * Generate a recipient keypair
+ * 
+ * The private key is non-extractable, so it can be stored in IndexedDB
+ * but never read back out of the browser.
+ * 
+ * @returns Promise resolving to the ECDH P-256 keypair
+ */
+export async function generateRecipientKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_P256, false, ['deriveBits']) as Promise<CryptoKeyPair>;
+}
+
+/**
+ * Export a recipient public key in raw uncompressed form
+ * 
+ * @param publicKey ECDH P-256 public key
+ * @returns Promise resolving to the RECIPIENT_PUBLIC_KEY_LENGTH-byte public key
+ */
+export async function exportRecipientPublicKey(publicKey: CryptoKey): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+}
+
+/**
+ * Import a recipient public key from its raw uncompressed form
+ * 
+ * @param raw Raw public key bytes
+ * @returns Promise resolving to the ECDH P-256 public key
+ * @throws Error if the bytes are not a valid P-256 point
+ */
+export async function importRecipientPublicKey(raw: Uint8Array): Promise<CryptoKey> {
+  if (raw.length !== RECIPIENT_PUBLIC_KEY_LENGTH) {
+    throw new Error('Invalid recipient public key');
+  }
+  try {
+    return await crypto.subtle.importKey('raw', raw as BufferSource, ECDH_P256, true, []);
+  } catch {
+    throw new Error('Invalid recipient public key');
+  }
+}
+
+/**
+ * Compute the identifier of a recipient public key
+ * 
+ * @param rawPublicKey Raw public key bytes
+ * @returns Promise resolving to the first RECIPIENT_KEY_ID_LENGTH bytes of its SHA-256 hash
+ */
+export async function recipientKeyId(rawPublicKey: Uint8Array): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', rawPublicKey as BufferSource);
+  return new Uint8Array(digest, 0, RECIPIENT_KEY_ID_LENGTH).slice();
+}
+
+/**
+ * Derive the AES-KW key shared by an ECDH private key and a peer public key
+ */
+async function deriveRecipientWrapKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  salt: Uint8Array
+): Promise<CryptoKey> {
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  try {
+    const masterKey = await importHkdfKey(new Uint8Array(shared));
+    return await crypto.subtle.deriveKey(
+      hkdfParams(salt, RECIPIENT_KEY_INFO.WRAP),
+      masterKey,
+      { name: 'AES-KW', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  } finally {
+    secureClearBuffer(shared);
+  }
+}
+
+/**
+ * Wrap a link key for one or more recipients
+ * 
+ * A fresh ephemeral keypair is generated per paste. For each recipient, the
+ * ECDH secret between it and the recipient's public key is expanded with
+ * HKDF-SHA256 into an AES-KW key that wraps the link key.
+ * 
+ * @param linkKey Raw LINK_KEY_LENGTH-byte content key
+ * @param salt Paste salt (HKDF salt)
+ * @param recipientPublicKeys Raw public keys of the recipients
+ * @returns Promise resolving to the ephemeral public key and one wrapped key per recipient
+ * @throws Error if a recipient public key is invalid
+ */
+export async function wrapLinkKeyForRecipients(
+  linkKey: Uint8Array,
+  salt: Uint8Array,
+  recipientPublicKeys: Uint8Array[]
+): Promise<{
+  ephemeralPublicKey: Uint8Array;
+  recipients: { keyId: Uint8Array; wrappedKey: Uint8Array }[];
+}> {
+  const ephemeral = await crypto.subtle.generateKey(ECDH_P256, false, ['deriveBits']) as CryptoKeyPair;
+  const contentKey = await crypto.subtle.importKey('raw', linkKey as BufferSource, 'AES-GCM', true, ['encrypt']);
+
+  const recipients = await Promise.all(recipientPublicKeys.map(async (raw) => {
+    const publicKey = await importRecipientPublicKey(raw);
+    const wrapKey = await deriveRecipientWrapKey(ephemeral.privateKey, publicKey, salt);
+    const wrapped = await crypto.subtle.wrapKey('raw', contentKey, wrapKey, 'AES-KW');
+    return { keyId: await recipientKeyId(raw), wrappedKey: new Uint8Array(wrapped) };
+  }));
+
+  return {
+    ephemeralPublicKey: await exportRecipientPublicKey(ephemeral.publicKey),
+    recipients
+  };
+}
+
+/**
+ * Unwrap a link key with a recipient's private key
+ * 
+ * @param privateKey Recipient's ECDH P-256 private key
+ * @param ephemeralPublicKey Raw ephemeral public key from the paste
+ * @param wrappedKey Wrapped key addressed to this recipient
+ * @param salt Paste salt (HKDF salt)
+ * @returns Promise resolving to the raw link key
+ * @throws Error if the key was not wrapped for this private key
+ */
+export async function unwrapLinkKeyForRecipient(
+  privateKey: CryptoKey,
+  ephemeralPublicKey: Uint8Array,
+  wrappedKey: Uint8Array,
+  salt: Uint8Array
+): Promise<Uint8Array> {
+  const publicKey = await importRecipientPublicKey(ephemeralPublicKey);
+  const wrapKey = await deriveRecipientWrapKey(privateKey, publicKey, salt);
+  const contentKey = await crypto.subtle.unwrapKey(
+    'raw',
+    wrappedKey as BufferSource,
+    wrapKey,
+    'AES-KW',
+    'AES-GCM',
+    true,
+    ['encrypt']
+  );
+  return new Uint8Array(await crypto.subtle.exportKey('raw', contentKey));
+}
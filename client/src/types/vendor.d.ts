@@ -9,4 +9,5 @@ declare const marked: {
 
 declare const hljs: {
   highlightElement: (el: HTMLElement) => void;
+  getLanguage: (name: string) => object | undefined;
 };
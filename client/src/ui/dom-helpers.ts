@@ -52,7 +52,10 @@ export function setupViewCopyButton(): void {
   if (!copyBtn || !copyText || !content) return;
 
   copyBtn.addEventListener('click', () => {
-    const text = content.textContent ?? '';
+    // Leave out line numbers and controls rendered alongside the paste
+    const copy = content.cloneNode(true) as HTMLElement;
+    copy.querySelectorAll('[data-copy-exclude]').forEach(element => element.remove());
+    const text = copy.textContent ?? '';
     const finish = () => {
       copyText.textContent = '✓ Copied!';
       copyBtn.classList.add('copied');
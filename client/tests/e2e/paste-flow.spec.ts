@@ -172,7 +172,7 @@ test.describe('Paste Creation and Viewing Flow', () => {
 test.describe('Paste Viewing Flow', () => {
   test('should navigate to create page when clicking "Create New Paste" button', async ({ page }) => {
     // Mock the paste API endpoint
-    await page.route('**/api/pastes/test-paste-id', async route => {
+    await page.route('**/api/pastes/test-paste-id?chunked=true', async route => {
       await route.fulfill({
         status: 200,
         contentType: 'application/json',
@@ -204,7 +204,7 @@ test.describe('Paste Viewing Flow', () => {
 
   test('should decrypt and display paste content', async ({ page }) => {
     // Mock returns fake ct/iv so decryption fails; we verify the view page shows the error
-    await page.route('**/api/pastes/test-paste-id', async route => {
+    await page.route('**/api/pastes/test-paste-id?chunked=true', async route => {
       await route.fulfill({
         status: 200,
         contentType: 'application/json',
@@ -246,7 +246,7 @@ test.describe('Paste Viewing Flow', () => {
 
   test('should show error for non-existent paste', async ({ page }) => {
     // Mock API to return 404
-    await page.route('**/api/pastes/non-existent-id', async route => {
+    await page.route('**/api/pastes/non-existent-id?chunked=true', async route => {
       await route.fulfill({
         status: 404,
         contentType: 'application/json',
@@ -268,7 +268,7 @@ test.describe('Paste Viewing Flow', () => {
   });
 
   test('should handle decryption errors', async ({ page }) => {
-    await page.route('**/api/pastes/test-paste-id', async route => {
+    await page.route('**/api/pastes/test-paste-id?chunked=true', async route => {
       await route.fulfill({
         status: 200,
         contentType: 'application/json',
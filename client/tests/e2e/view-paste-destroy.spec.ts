@@ -23,7 +23,7 @@ test.describe('Delete Paste Functionality', () => {
 
   test('should show destroy button on view page after decryption', async ({ page }) => {
     // Mock paste retrieval API
-    await page.route('**/api/pastes/test-paste-id', async route => {
+    await page.route('**/api/pastes/test-paste-id?chunked=true', async route => {
       await route.fulfill({
         status: 200,
         contentType: 'application/json',
@@ -52,7 +52,7 @@ test.describe('Delete Paste Functionality', () => {
   test.skip('should delete paste via destroy button without password prompt', async ({ page }) => {
     // Skip: mock uses fake ct/iv so decryption fails and destroy button stays hidden.
     // TODO: Use real encrypted payload (e.g. from encryptWithPassword in page context) so decryption succeeds.
-    await page.route('**/api/pastes/test-paste-id', async route => {
+    await page.route('**/api/pastes/test-paste-id?chunked=true', async route => {
       await route.fulfill({
         status: 200,
         contentType: 'application/json',
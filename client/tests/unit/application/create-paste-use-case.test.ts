@@ -0,0 +1,151 @@
+/**
+ * Tests for CreatePasteUseCase stages and cancellation
+ *
+ * Covers: each stage is reported as it starts and completes, with proof
+ * of work solved while encrypting; content is encrypted by the paste
+ * crypto given; aborting while solving or before the upload fails without
+ * uploading anything; listeners on the signal are removed once the paste
+ * is created.
+ */
+
+import { CreatePasteUseCase } from '../../../src/application/use-cases/create-paste-use-case.js';
+import type { CreatePasteCommand, CreatePasteEvent } from '../../../src/application/dtos/paste-dtos.js';
+import { EncryptionService } from '../../../src/core/services/encryption-service.js';
+import { PasteService } from '../../../src/core/services/paste-service.js';
+import { MockApiClient } from '../../../src/infrastructure/api/mock-client.js';
+import { InlinePowSolver } from '../../../src/infrastructure/pow/inline-solver.js';
+import type { IPowSolver } from '../../../src/infrastructure/pow/interfaces.js';
+import { isFailure, isSuccess } from '../../../src/core/models/result.js';
+
+describe('CreatePasteUseCase', () => {
+  const command: CreatePasteCommand = {
+    content: 'hello world',
+    expirationMinutes: 60,
+    password: '',
+    linkKey: true
+  };
+  let apiClient: MockApiClient;
+
+  beforeEach(() => {
+    apiClient = new MockApiClient();
+    apiClient.setPowEnabled(true);
+  });
+
+  const createUseCase = (powSolver: IPowSolver = new InlinePowSolver()): CreatePasteUseCase =>
+    new CreatePasteUseCase(apiClient, powSolver, new EncryptionService(), new PasteService());
+
+  /**
+   * Solver that only finishes when cancelled
+   */
+  const hangingSolver = (): IPowSolver => {
+    let reject: (error: Error) => void = () => {};
+    return {
+      solve: () => new Promise((_, rejectSolve) => { reject = rejectSolve; }),
+      cancel: () => reject(new Error('PoW solving cancelled'))
+    };
+  };
+
+  it('should report every stage, solving proof of work while encrypting', async () => {
+    const events: CreatePasteEvent[] = [];
+
+    const result = await createUseCase().execute(command, event => events.push(event));
+
+    expect(isSuccess(result)).toBe(true);
+    const milestones = events.filter(event => event.kind !== 'progress').map(event => `${event.kind} ${event.stage}`);
+    expect(milestones[0]).toBe('started validating');
+    expect(milestones[1]).toBe('completed validating');
+    expect(milestones.indexOf('started solving')).toBeLessThan(milestones.indexOf('completed encrypting'));
+    expect(milestones.slice(-2)).toEqual(['started uploading', 'completed uploading']);
+    expect(milestones).toContain('completed solving');
+  });
+
+  it('should encrypt every kind of paste with the paste crypto it is given', async () => {
+    const encryptionService = new EncryptionService();
+    const pasteCrypto = new EncryptionService();
+    const pageEncrypt = [
+      jest.spyOn(encryptionService, 'encryptPaste'),
+      jest.spyOn(encryptionService, 'encryptPasteWithLinkKey'),
+      jest.spyOn(encryptionService, 'encryptPasteWithKeySlots'),
+      jest.spyOn(encryptionService, 'derivePasteKeys')
+    ];
+    const encrypt = jest.spyOn(pasteCrypto, 'encryptPaste');
+    const encryptWithLinkKey = jest.spyOn(pasteCrypto, 'encryptPasteWithLinkKey');
+    const encryptWithKeySlots = jest.spyOn(pasteCrypto, 'encryptPasteWithKeySlots');
+    const useCase = new CreatePasteUseCase(
+      apiClient,
+      new InlinePowSolver(),
+      encryptionService,
+      new PasteService(),
+      undefined,
+      pasteCrypto
+    );
+
+    const password = await useCase.execute({ ...command, password: 'correct horse battery', linkKey: false });
+    const linkKey = await useCase.execute(command);
+    const keySlots = await useCase.execute({
+      ...command,
+      password: 'correct horse battery',
+      additionalPasswords: ['battery staple'],
+      linkKey: false
+    });
+
+    expect(isSuccess(password) && isSuccess(linkKey) && isSuccess(keySlots)).toBe(true);
+    expect(encrypt).toHaveBeenCalledTimes(1);
+    expect(encryptWithLinkKey).toHaveBeenCalledTimes(1);
+    expect(encryptWithKeySlots).toHaveBeenCalledTimes(1);
+    for (const spy of pageEncrypt) {
+      expect(spy).not.toHaveBeenCalled();
+    }
+  });
+
+  it('should not start encrypting or solving when validation fails', async () => {
+    const events: CreatePasteEvent[] = [];
+
+    const result = await createUseCase().execute({ ...command, content: '' }, event => events.push(event));
+
+    expect(isFailure(result)).toBe(true);
+    expect(events).toEqual([{ kind: 'started', stage: 'validating' }]);
+  });
+
+  it('should stop solving and upload nothing when aborted', async () => {
+    const createPaste = jest.spyOn(apiClient, 'createPaste');
+    const controller = new AbortController();
+
+    const result = await createUseCase(hangingSolver()).execute(command, event => {
+      if (event.kind === 'started' && event.stage === 'solving') {
+        controller.abort();
+      }
+    }, controller.signal);
+
+    expect(isFailure(result) && result.error).toBe('Paste creation cancelled.');
+    expect(createPaste).not.toHaveBeenCalled();
+  });
+
+  it('should stop listening to the signal once the paste is created', async () => {
+    const controller = new AbortController();
+    const added = jest.spyOn(controller.signal, 'addEventListener');
+    const removed = jest.spyOn(controller.signal, 'removeEventListener');
+
+    const result = await createUseCase().execute(command, undefined, controller.signal);
+
+    expect(isSuccess(result)).toBe(true);
+    expect(added).toHaveBeenCalled();
+    expect(removed.mock.calls.map(call => call[1])).toEqual(
+      expect.arrayContaining(added.mock.calls.map(call => call[1]))
+    );
+  });
+
+  it('should pass the signal to the upload', async () => {
+    const createPaste = jest.spyOn(apiClient, 'createPaste');
+    const controller = new AbortController();
+
+    const result = await createUseCase().execute(command, event => {
+      if (event.kind === 'started' && event.stage === 'uploading') {
+        controller.abort();
+      }
+    }, controller.signal);
+
+    expect(isFailure(result) && result.error).toBe('Paste creation cancelled.');
+    expect(createPaste).toHaveBeenCalledWith(expect.anything(), expect.any(Function), controller.signal);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for ViewPasteUseCase failures
+ *
+ * Covers: wrong passwords use up the attempts, while corrupted and
+ * unsupported pastes (including ciphertext swapped in from another paste)
+ * and key derivation or worker errors fail with their own error kind
+ * without burning password prompts; view-limited pastes report the views left; keys are
+ * derived and content decrypted by the paste crypto given.
+ */
+
+import { ViewPasteUseCase } from '../../../src/application/use-cases/view-paste-use-case.js';
+import { EncryptionService, KEY_REJECTED_MESSAGES } from '../../../src/core/services/encryption-service.js';
+import { MockApiClient } from '../../../src/infrastructure/api/mock-client.js';
+import { encodeBase64Url, decodeBase64Url } from '../../../src/core/crypto/encoding.js';
+import { isFailure, isSuccess } from '../../../src/core/models/result.js';
+
+describe('ViewPasteUseCase', () => {
+  const password = 'correct horse battery';
+  const meta = { expireTs: 1900000000, mime: 'text/plain', allowChat: true };
+  let apiClient: MockApiClient;
+  let service: EncryptionService;
+  let useCase: ViewPasteUseCase;
+
+  beforeEach(() => {
+    apiClient = new MockApiClient();
+    service = new EncryptionService();
+    useCase = new ViewPasteUseCase(apiClient, service);
+  });
+
+  /**
+   * Store a password paste, optionally altering its payload first
+   */
+  async function storePaste(alter?: (payload: Uint8Array) => Uint8Array) {
+    const encrypted = await service.encryptPaste('secret text', meta, password);
+    const payload = new Uint8Array(decodeBase64Url(encrypted.ctB64));
+    const ct = encodeBase64Url(alter ? alter(payload) : payload);
+    const { id } = await apiClient.createPaste({ ct, iv: encrypted.ivB64, meta });
+    return { pasteId: id, salt: encrypted.keyB64, iv: encrypted.ivB64, password: '' };
+  }
+
+  it('should open a paste with the right password', async () => {
+    const command = await storePaste();
+    const result = await useCase.execute(command, () => password);
+
+    expect(isSuccess(result) && result.value.document).toEqual({ body: 'secret text' });
+  });
+
+  it('should derive keys and decrypt with the paste crypto it is given', async () => {
+    const command = await storePaste();
+    const pasteCrypto = new EncryptionService();
+    const derive = jest.spyOn(pasteCrypto, 'derivePasteKeys');
+    const decrypt = jest.spyOn(pasteCrypto, 'decryptPasteDocument');
+    const pageDerive = jest.spyOn(service, 'derivePasteKeys');
+    useCase = new ViewPasteUseCase(apiClient, service, undefined, pasteCrypto);
+
+    const result = await useCase.execute(command, () => password);
+
+    expect(isSuccess(result) && result.value.document).toEqual({ body: 'secret text' });
+    expect(derive).toHaveBeenCalledTimes(1);
+    expect(decrypt).toHaveBeenCalledTimes(1);
+    expect(pageDerive).not.toHaveBeenCalled();
+  });
+
+  it('should report a wrong password after every attempt is used', async () => {
+    const command = await storePaste();
+    const prompt = jest.fn(() => 'wrong password');
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('wrong-password');
+    expect(prompt).toHaveBeenCalledTimes(5);
+  });
+
+  it('should report a key derivation or worker error without using up an attempt', async () => {
+    const command = await storePaste();
+    const pasteCrypto = new EncryptionService();
+    jest.spyOn(pasteCrypto, 'derivePasteKeys').mockRejectedValueOnce(new Error('Crypto worker failed'));
+    useCase = new ViewPasteUseCase(apiClient, service, undefined, pasteCrypto);
+    const prompt = jest.fn(() => password);
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('crypto-failed');
+    expect(isFailure(result) && result.error.message).toContain('Crypto worker failed');
+    expect(prompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count a key that fails the tag check of a paste without key commitment as a wrong password', async () => {
+    const command = await storePaste();
+    const pasteCrypto = new EncryptionService();
+    jest.spyOn(pasteCrypto, 'decryptPasteDocument').mockRejectedValue(new Error(KEY_REJECTED_MESSAGES.DECRYPTION_FAILED));
+    jest.spyOn(service, 'checkKeyCommitment').mockReturnValue(null);
+    useCase = new ViewPasteUseCase(apiClient, service, undefined, pasteCrypto);
+    const prompt = jest.fn(() => 'wrong password');
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('wrong-password');
+    expect(prompt).toHaveBeenCalledTimes(5);
+  });
+
+  it('should report a tampered paste as corrupted after the first correct password', async () => {
+    const command = await storePaste(payload => {
+      payload[payload.length - 1] ^= 0x01;
+      return payload;
+    });
+    const prompt = jest.fn(() => password);
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('corrupted');
+    expect(prompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a damaged header as corrupted without prompting', async () => {
+    const command = await storePaste(payload => payload.subarray(0, 12));
+    const prompt = jest.fn(() => password);
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('corrupted');
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('should report ciphertext swapped in from another paste as corrupted without prompting', async () => {
+    const other = await service.encryptPaste('other text', meta, password);
+    const command = await storePaste(() => new Uint8Array(decodeBase64Url(other.ctB64)));
+    const prompt = jest.fn(() => password);
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('corrupted');
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('should report an unknown format version as unsupported without prompting', async () => {
+    const command = await storePaste(payload => {
+      payload[4] = 0xff;
+      return payload;
+    });
+    const prompt = jest.fn(() => password);
+
+    const result = await useCase.execute(command, prompt);
+
+    expect(isFailure(result) && result.error.kind).toBe('unsupported');
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('should report a dismissed prompt and a missing paste by kind', async () => {
+    const command = await storePaste();
+
+    const dismissed = await useCase.execute(command, () => null);
+    const missing = await useCase.execute({ ...command, pasteId: 'missing' }, () => password);
+
+    expect(isFailure(dismissed) && dismissed.error.kind).toBe('password-required');
+    expect(isFailure(missing) && missing.error.kind).toBe('unavailable');
+  });
+
+  it('should report the views left on a view-limited paste until it is gone', async () => {
+    const limited = { ...meta, maxViews: 2 };
+    const encrypted = await service.encryptPaste('secret text', limited, password);
+    const { id } = await apiClient.createPaste({ ct: encrypted.ctB64, iv: encrypted.ivB64, meta: limited });
+    const command = { pasteId: id, salt: encrypted.keyB64, iv: encrypted.ivB64, password: '' };
+
+    const first = await useCase.execute(command, () => password);
+    const last = await useCase.execute(command, () => password);
+    const gone = await useCase.execute(command, () => password);
+
+    expect(isSuccess(first) && first.value.viewsRemaining).toBe(1);
+    expect(isSuccess(last) && last.value.viewsRemaining).toBe(0);
+    expect(isFailure(gone) && gone.error.kind).toBe('unavailable');
+  });
+
+  it('should leave out the views left on a paste without a view limit', async () => {
+    const result = await useCase.execute(await storePaste(), () => password);
+
+    expect(isSuccess(result) && 'viewsRemaining' in result.value).toBe(false);
+  });
+});
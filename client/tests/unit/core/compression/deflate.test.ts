@@ -0,0 +1,89 @@
+/**
+ * Tests for raw DEFLATE compression
+ *
+ * Covers: round-trip of the TypeScript encoder and decoder, interoperability
+ * with zlib in both directions (stored, fixed and dynamic blocks), the
+ * decompressed size limit, and rejection of malformed streams.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { compress, decompress, deflateRaw, inflateRaw } from '../../../../src/core/compression/index.js';
+
+const LIMIT = 16 * 1024 * 1024;
+
+function sampleText(lines: number): Uint8Array {
+  const parts: string[] = [];
+  for (let i = 0; i < lines; i++) {
+    parts.push(`${i} GET /api/pastes/${(i * 7919) % 1000} 200 ${(i * 31) % 97}ms`);
+  }
+  return new TextEncoder().encode(parts.join('\n'));
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(length, offset + 65536)));
+  }
+  return bytes;
+}
+
+describe('raw DEFLATE', () => {
+  it('should round-trip empty, short, repetitive and random data', () => {
+    for (const data of [
+      new Uint8Array(0),
+      new Uint8Array([42]),
+      new Uint8Array(100000).fill(7),
+      sampleText(5000),
+      randomBytes(70000)
+    ]) {
+      expect(Array.from(inflateRaw(deflateRaw(data), LIMIT))).toEqual(Array.from(data));
+    }
+  });
+
+  it('should compress repetitive text well', () => {
+    const text = sampleText(5000);
+    expect(deflateRaw(text).length).toBeLessThan(text.length / 3);
+  });
+
+  it('should produce streams zlib can inflate', () => {
+    const text = sampleText(3000);
+    expect(Array.from(inflateRawSync(deflateRaw(text)))).toEqual(Array.from(text));
+  });
+
+  it('should inflate zlib stored, fixed and dynamic blocks', () => {
+    const text = sampleText(3000);
+    const random = randomBytes(40000);
+    for (const [data, options] of [
+      [text, { level: 0 }],
+      [text, { strategy: 4 }], // Z_FIXED
+      [text, { level: 9 }],
+      [random, { level: 6 }]
+    ] as const) {
+      const compressed = new Uint8Array(deflateRawSync(data, options));
+      expect(Array.from(inflateRaw(compressed, LIMIT))).toEqual(Array.from(data));
+    }
+  });
+
+  it('should refuse to inflate past the size limit', () => {
+    const bomb = deflateRaw(new Uint8Array(1024 * 1024));
+    expect(bomb.length).toBeLessThan(8192);
+    expect(() => inflateRaw(bomb, 1024 * 1024 - 1)).toThrow('Decompressed content is too large');
+    expect(inflateRaw(bomb, 1024 * 1024).length).toBe(1024 * 1024);
+  });
+
+  it('should reject malformed streams', () => {
+    const compressed = deflateRaw(sampleText(100));
+    expect(() => inflateRaw(compressed.subarray(0, compressed.length >> 1), LIMIT)).toThrow(/truncated|Invalid/);
+    expect(() => inflateRaw(new Uint8Array([0x07]), LIMIT)).toThrow('Invalid compressed data');
+    // Stored block whose length does not match its complement
+    expect(() => inflateRaw(new Uint8Array([0x01, 0x05, 0x00, 0x00, 0x00]), LIMIT)).toThrow('Invalid compressed data');
+  });
+
+  it('should compress and decompress through the public API', async () => {
+    const text = sampleText(2000);
+    const compressed = await compress(text);
+    expect(compressed.length).toBeLessThan(text.length);
+    expect(Array.from(await decompress(compressed, LIMIT))).toEqual(Array.from(text));
+    await expect(decompress(compressed, 100)).rejects.toThrow('Decompressed content is too large');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for the pure TypeScript BLAKE2b and Argon2id implementations
+ *
+ * Covers: BLAKE2b against Node's implementation, and Argon2id against the
+ * RFC 9106 test vector.
+ */
+
+import { createHash } from 'crypto';
+import { blake2b } from '../../../../src/core/crypto/blake2b.js';
+import { argon2id } from '../../../../src/core/crypto/argon2.js';
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+describe('blake2b', () => {
+  it('should match the reference digest for "abc"', () => {
+    expect(toHex(blake2b(new TextEncoder().encode('abc')))).toBe(
+      'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1' +
+      '7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923'
+    );
+  });
+
+  it('should match Node for inputs around the block boundary', () => {
+    for (const length of [0, 1, 127, 128, 129, 256, 1000]) {
+      const input = new Uint8Array(length).map((_, i) => (i * 7) & 0xff);
+      const expected = createHash('blake2b512').update(input).digest('hex');
+      expect(toHex(blake2b(input))).toBe(expected);
+    }
+  });
+
+  it('should reject invalid output lengths', () => {
+    expect(() => blake2b(new Uint8Array(1), 0)).toThrow();
+    expect(() => blake2b(new Uint8Array(1), 65)).toThrow();
+  });
+});
+
+describe('argon2id', () => {
+  it('should match the RFC 9106 test vector', () => {
+    const tag = argon2id(new Uint8Array(32).fill(0x01), new Uint8Array(16).fill(0x02), {
+      memoryKiB: 32,
+      iterations: 3,
+      parallelism: 4,
+      tagLength: 32,
+      secret: new Uint8Array(8).fill(0x03),
+      associatedData: new Uint8Array(12).fill(0x04)
+    });
+
+    expect(toHex(tag)).toBe('0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659');
+  });
+
+  it('should depend on the cost parameters', () => {
+    const password = new TextEncoder().encode('1234');
+    const salt = new Uint8Array(16).fill(7);
+    const a = argon2id(password, salt, { memoryKiB: 64, iterations: 1, parallelism: 1 });
+    const b = argon2id(password, salt, { memoryKiB: 64, iterations: 2, parallelism: 1 });
+
+    expect(a.length).toBe(32);
+    expect(toHex(a)).not.toBe(toHex(b));
+  });
+
+  it('should reject invalid parameters', () => {
+    const salt = new Uint8Array(16);
+    expect(() => argon2id(new Uint8Array(1), salt, { memoryKiB: 4, iterations: 1, parallelism: 1 })).toThrow(/memory/);
+    expect(() => argon2id(new Uint8Array(1), salt, { memoryKiB: 64, iterations: 0, parallelism: 1 })).toThrow(/iteration/);
+    expect(() => argon2id(new Uint8Array(1), new Uint8Array(4), { memoryKiB: 64, iterations: 1, parallelism: 1 })).toThrow(/salt/);
+  });
+});
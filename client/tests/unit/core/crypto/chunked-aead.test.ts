@@ -0,0 +1,69 @@
+/**
+ * Tests for chunked AES-256-GCM
+ *
+ * Covers: round-trip at and around chunk boundaries, progress reporting,
+ * and rejection of truncated, reordered and altered ciphertext.
+ */
+
+import { CHUNK_SIZE, decryptChunked, encryptChunked } from '../../../../src/core/crypto/chunked-aead.js';
+
+const TAG_LENGTH = 16;
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(length, offset + 65536)));
+  }
+  return bytes;
+}
+
+describe('chunked AES-GCM', () => {
+  let key: CryptoKey;
+  const iv = randomBytes(12);
+  const aad = new TextEncoder().encode('header');
+
+  beforeAll(async () => {
+    key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  });
+
+  it('should round-trip content at and around chunk boundaries', async () => {
+    for (const length of [0, 1, CHUNK_SIZE - 1, CHUNK_SIZE, CHUNK_SIZE + 1, 2 * CHUNK_SIZE, 3 * CHUNK_SIZE + 5]) {
+      const plaintext = randomBytes(length);
+      const ciphertext = await encryptChunked(key, iv, plaintext, aad);
+      expect(ciphertext.length).toBe(length + Math.max(1, Math.ceil(length / CHUNK_SIZE)) * TAG_LENGTH);
+      expect(Array.from(await decryptChunked(key, iv, ciphertext, aad))).toEqual(Array.from(plaintext));
+    }
+  });
+
+  it('should report progress after each chunk', async () => {
+    const fractions: number[] = [];
+    const ciphertext = await encryptChunked(key, iv, randomBytes(3 * CHUNK_SIZE), aad, f => fractions.push(f));
+    expect(fractions).toEqual([1 / 3, 2 / 3, 1]);
+
+    fractions.length = 0;
+    await decryptChunked(key, iv, ciphertext, aad, f => fractions.push(f));
+    expect(fractions).toEqual([1 / 3, 2 / 3, 1]);
+  });
+
+  it('should reject ciphertext truncated at a chunk boundary', async () => {
+    const ciphertext = await encryptChunked(key, iv, randomBytes(2 * CHUNK_SIZE + 100), aad);
+    const truncated = ciphertext.slice(0, 2 * (CHUNK_SIZE + TAG_LENGTH));
+    await expect(decryptChunked(key, iv, truncated, aad)).rejects.toThrow();
+  });
+
+  it('should reject reordered chunks', async () => {
+    const ciphertext = await encryptChunked(key, iv, randomBytes(3 * CHUNK_SIZE), aad);
+    const segment = CHUNK_SIZE + TAG_LENGTH;
+    const reordered = new Uint8Array(ciphertext.length);
+    reordered.set(ciphertext.subarray(segment, 2 * segment), 0);
+    reordered.set(ciphertext.subarray(0, segment), segment);
+    reordered.set(ciphertext.subarray(2 * segment), 2 * segment);
+    await expect(decryptChunked(key, iv, reordered, aad)).rejects.toThrow();
+  });
+
+  it('should reject altered associated data', async () => {
+    const ciphertext = await encryptChunked(key, iv, randomBytes(CHUNK_SIZE + 1), aad);
+    await expect(decryptChunked(key, iv, ciphertext, new TextEncoder().encode('other'))).rejects.toThrow();
+    await expect(decryptChunked(key, iv, ciphertext.slice(0, 10), aad)).rejects.toThrow('Ciphertext is truncated');
+  });
+});
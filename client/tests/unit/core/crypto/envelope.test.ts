@@ -0,0 +1,218 @@
+/**
+ * Tests for the paste ciphertext envelope
+ *
+ * Covers: header round-trip, legacy detection, key commitment, content IV, and rejection of
+ * truncated or unsupported envelopes.
+ */
+
+import {
+  ARGON2ID_LIMITS,
+  CIPHER_IDS,
+  PBKDF2_LIMITS,
+  ENVELOPE_FLAGS,
+  ENVELOPE_MAGIC,
+  ENVELOPE_VERSION,
+  encodeEnvelope,
+  encodeEnvelopeHeader,
+  envelopeMatchesIv,
+  hasEnvelope,
+  hasEnvelopeFlag,
+  parseEnvelope
+} from '../../../../src/core/crypto/envelope.js';
+import type { EnvelopeHeader } from '../../../../src/core/crypto/envelope.js';
+
+const header: EnvelopeHeader = {
+  version: ENVELOPE_VERSION,
+  flags: 0,
+  kdf: { algorithm: 'pbkdf2-sha256', iterations: 100000 },
+  cipher: 'aes-256-gcm',
+  commitment: new Uint8Array(32).fill(0xc0),
+  iv: new Uint8Array(12).fill(0x1f)
+};
+
+describe('paste envelope', () => {
+  it('should round-trip header and ciphertext', () => {
+    const ciphertext = new Uint8Array([9, 8, 7, 6, 5]);
+    const payload = encodeEnvelope(header, ciphertext);
+
+    const parsed = parseEnvelope(payload);
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.header).toEqual(header);
+    expect(Array.from(parsed!.ciphertext)).toEqual([9, 8, 7, 6, 5]);
+    expect(Array.from(parsed!.headerBytes)).toEqual(Array.from(encodeEnvelopeHeader(header)));
+  });
+
+  it('should round-trip the chunked cipher', () => {
+    const chunked = { ...header, cipher: 'aes-256-gcm-chunked' as const };
+    const payload = encodeEnvelope(chunked, new Uint8Array([1]));
+    expect(payload[9 + 4]).toBe(CIPHER_IDS.AES_256_GCM_CHUNKED);
+    expect(parseEnvelope(payload)!.header).toEqual(chunked);
+  });
+
+  it('should start with the magic bytes', () => {
+    const payload = encodeEnvelope(header, new Uint8Array(0));
+    expect(Array.from(payload.subarray(0, 4))).toEqual(Array.from(ENVELOPE_MAGIC));
+    expect(hasEnvelope(payload)).toBe(true);
+  });
+
+  it('should treat payloads without magic as legacy', () => {
+    const legacy = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(hasEnvelope(legacy)).toBe(false);
+    expect(parseEnvelope(legacy)).toBeNull();
+    expect(parseEnvelope(new Uint8Array(0))).toBeNull();
+  });
+
+  it('should reject unknown versions', () => {
+    const payload = encodeEnvelope(header, new Uint8Array([1]));
+    payload[4] = ENVELOPE_VERSION + 1;
+    expect(() => parseEnvelope(payload)).toThrow(/version/);
+  });
+
+  it('should carry a key commitment from version 3 only', () => {
+    expect(() => encodeEnvelopeHeader({ ...header, commitment: undefined })).toThrow(/key commitment/);
+    expect(() => encodeEnvelopeHeader({ ...header, commitment: new Uint8Array(16) })).toThrow(/key commitment/);
+
+    const payload = encodeEnvelope(header, new Uint8Array([1]));
+    expect(() => parseEnvelope(payload.subarray(0, payload.length - 2))).toThrow(/truncated/);
+
+    const v2 = parseEnvelope(encodeEnvelope({ ...header, version: 2 }, new Uint8Array([1])));
+    expect(v2!.header.commitment).toBeUndefined();
+    expect(Array.from(v2!.ciphertext)).toEqual([1]);
+  });
+
+  it('should carry the content IV from version 4 only', () => {
+    expect(() => encodeEnvelopeHeader({ ...header, iv: undefined })).toThrow(/envelope IV/);
+    expect(() => encodeEnvelopeHeader({ ...header, iv: new Uint8Array(16) })).toThrow(/envelope IV/);
+
+    const v3 = parseEnvelope(encodeEnvelope({ ...header, version: 3 }, new Uint8Array([1])));
+    expect(v3!.header.iv).toBeUndefined();
+    expect(v3!.header.commitment).toEqual(header.commitment);
+    expect(Array.from(v3!.ciphertext)).toEqual([1]);
+  });
+
+  it('should match only the IV the envelope was written for', () => {
+    expect(envelopeMatchesIv(header, new Uint8Array(12).fill(0x1f))).toBe(true);
+    expect(envelopeMatchesIv(header, new Uint8Array(12).fill(0x2f))).toBe(false);
+    expect(envelopeMatchesIv({ ...header, version: 3, iv: undefined }, new Uint8Array(12).fill(0x2f))).toBe(true);
+  });
+
+  it('should round-trip known flags and reject unknown flag bits', () => {
+    const flagged: EnvelopeHeader = { ...header, flags: ENVELOPE_FLAGS.LINK_SECRET };
+    const parsed = parseEnvelope(encodeEnvelope(flagged, new Uint8Array([1])));
+    expect(hasEnvelopeFlag(parsed!.header, ENVELOPE_FLAGS.LINK_SECRET)).toBe(true);
+    expect(hasEnvelopeFlag(header, ENVELOPE_FLAGS.LINK_SECRET)).toBe(false);
+
+    const payload = encodeEnvelope(header, new Uint8Array([1]));
+    payload[5] = 0x80;
+    expect(() => parseEnvelope(payload)).toThrow(/unsupported format features/);
+  });
+
+  it('should reject a link secret on link-key envelopes', () => {
+    expect(() => encodeEnvelopeHeader({
+      ...header,
+      flags: ENVELOPE_FLAGS.LINK_SECRET,
+      kdf: { algorithm: 'none' }
+    })).toThrow(/password key derivation/);
+  });
+
+  it('should round-trip key-slot envelopes and reject a link secret on them', () => {
+    const slotHeader: EnvelopeHeader = { ...header, kdf: { algorithm: 'key-slots' } };
+    const payload = encodeEnvelope(slotHeader, new Uint8Array([3]));
+
+    expect(payload[7]).toBe(4);
+    expect(parseEnvelope(payload)!.header).toEqual(slotHeader);
+    expect(() => encodeEnvelopeHeader({ ...slotHeader, flags: ENVELOPE_FLAGS.LINK_SECRET }))
+      .toThrow(/password key derivation/);
+  });
+
+  it('should round-trip recipient blocks for ECDH P-256 envelopes', () => {
+    const ecdh: EnvelopeHeader = {
+      ...header,
+      kdf: { algorithm: 'ecdh-p256', ephemeralPublicKey: new Uint8Array(65).fill(4) },
+      recipients: [
+        { keyId: new Uint8Array(8).fill(1), wrappedKey: new Uint8Array(40).fill(2) },
+        { keyId: new Uint8Array(8).fill(3), wrappedKey: new Uint8Array(40).fill(5) }
+      ]
+    };
+    const payload = encodeEnvelope(ecdh, new Uint8Array([9, 9]));
+    const parsed = parseEnvelope(payload)!;
+
+    expect(parsed.header).toEqual(ecdh);
+    expect(Array.from(parsed.ciphertext)).toEqual([9, 9]);
+    expect(parsed.headerBytes.length).toBe(payload.length - 2);
+
+    expect(() => encodeEnvelopeHeader({ ...ecdh, recipients: [] })).toThrow(/between 1 and 16 recipients/);
+    expect(() => parseEnvelope(payload.subarray(0, payload.length - 50))).toThrow(/truncated/);
+  });
+
+  it('should reject unknown KDF and cipher ids', () => {
+    const badKdf = encodeEnvelope(header, new Uint8Array([1]));
+    badKdf[7] = 0xfe;
+    expect(() => parseEnvelope(badKdf)).toThrow(/key derivation/);
+
+    const badCipher = encodeEnvelope(header, new Uint8Array([1]));
+    // Cipher id follows the 4-byte PBKDF2 parameters
+    badCipher[9 + 4] = 0xfe;
+    expect(() => parseEnvelope(badCipher)).toThrow(/cipher/);
+  });
+
+  it('should reject truncated headers', () => {
+    const payload = encodeEnvelope(header, new Uint8Array(0));
+    expect(() => parseEnvelope(payload.subarray(0, 6))).toThrow(/truncated/);
+    expect(() => parseEnvelope(payload.subarray(0, payload.length - 1))).toThrow(/truncated/);
+  });
+
+  it('should round-trip Argon2id parameters', () => {
+    const argonHeader: EnvelopeHeader = {
+      ...header,
+      kdf: { algorithm: 'argon2id', memoryKiB: 19456, iterations: 2, parallelism: 1 }
+    };
+    const parsed = parseEnvelope(encodeEnvelope(argonHeader, new Uint8Array([1, 2])));
+
+    expect(parsed!.header).toEqual(argonHeader);
+  });
+
+  it('should round-trip link-key envelopes with empty KDF parameters', () => {
+    const linkHeader: EnvelopeHeader = { ...header, kdf: { algorithm: 'none' } };
+    const payload = encodeEnvelope(linkHeader, new Uint8Array([3]));
+
+    expect(payload[8]).toBe(0);
+    expect(parseEnvelope(payload)!.header).toEqual(linkHeader);
+  });
+
+  it('should reject Argon2id parameters beyond the supported limits', () => {
+    const argonHeader: EnvelopeHeader = {
+      ...header,
+      kdf: { algorithm: 'argon2id', memoryKiB: 19456, iterations: 2, parallelism: 1 }
+    };
+    const payload = encodeEnvelope(argonHeader, new Uint8Array([1]));
+    // Memory size occupies the first four parameter bytes
+    new DataView(payload.buffer).setUint32(9, ARGON2ID_LIMITS.MAX_MEMORY_KIB + 1);
+
+    expect(() => parseEnvelope(payload)).toThrow(/out of range/);
+    expect(() => encodeEnvelopeHeader({
+      ...header,
+      kdf: { algorithm: 'argon2id', memoryKiB: 4, iterations: 2, parallelism: 1 }
+    })).toThrow();
+  });
+
+  it('should reject invalid iteration counts when encoding', () => {
+    expect(() => encodeEnvelopeHeader({
+      ...header,
+      kdf: { algorithm: 'pbkdf2-sha256', iterations: 0 }
+    })).toThrow();
+    expect(() => encodeEnvelopeHeader({
+      ...header,
+      kdf: { algorithm: 'pbkdf2-sha256', iterations: PBKDF2_LIMITS.MAX_ITERATIONS + 1 }
+    })).toThrow();
+  });
+
+  it('should reject PBKDF2 iteration counts beyond the supported limit', () => {
+    const payload = encodeEnvelope(header, new Uint8Array([1]));
+    // The iteration count is the only PBKDF2 parameter
+    new DataView(payload.buffer).setUint32(9, 0xffffffff);
+
+    expect(() => parseEnvelope(payload)).toThrow(/out of range/);
+  });
+});
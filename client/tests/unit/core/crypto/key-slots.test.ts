@@ -0,0 +1,63 @@
+/**
+ * Tests for password key slot encoding
+ *
+ * Covers: round-trip of mixed KDF slots, slot count limits, and rejection
+ * of truncated, unsupported or non-password slots.
+ */
+
+import {
+  KEY_SLOTS_VERSION,
+  MAX_KEY_SLOTS,
+  decodeKeySlots,
+  encodeKeySlots
+} from '../../../../src/core/crypto/key-slots.js';
+import type { KeySlot } from '../../../../src/core/crypto/key-slots.js';
+
+const slots: KeySlot[] = [
+  { kdf: { algorithm: 'pbkdf2-sha256', iterations: 100000 }, wrappedKey: new Uint8Array(40).fill(1) },
+  {
+    kdf: { algorithm: 'argon2id', memoryKiB: 19456, iterations: 2, parallelism: 1 },
+    wrappedKey: new Uint8Array(40).fill(2)
+  }
+];
+
+describe('key slots', () => {
+  it('should round-trip slots with different KDFs', () => {
+    const encoded = encodeKeySlots(slots);
+
+    expect(encoded[0]).toBe(KEY_SLOTS_VERSION);
+    expect(encoded[1]).toBe(2);
+    expect(encoded.length).toBe(2 + (2 + 4 + 40) + (2 + 9 + 40));
+    expect(decodeKeySlots(encoded)).toEqual(slots);
+  });
+
+  it('should enforce the slot count limits', () => {
+    expect(() => encodeKeySlots([])).toThrow(/between 1 and/);
+    expect(() => encodeKeySlots(new Array(MAX_KEY_SLOTS + 1).fill(slots[0]))).toThrow(/between 1 and/);
+
+    const encoded = encodeKeySlots(slots);
+    encoded[1] = 0;
+    expect(() => decodeKeySlots(encoded)).toThrow(/count/);
+  });
+
+  it('should reject truncated data, trailing data and unknown versions', () => {
+    const encoded = encodeKeySlots(slots);
+    expect(() => decodeKeySlots(encoded.subarray(0, encoded.length - 1))).toThrow(/truncated/);
+    expect(() => decodeKeySlots(encoded.subarray(0, 1))).toThrow(/truncated/);
+
+    const trailing = new Uint8Array(encoded.length + 1);
+    trailing.set(encoded);
+    expect(() => decodeKeySlots(trailing)).toThrow(/Unexpected data/);
+
+    const future = encoded.slice();
+    future[0] = 2;
+    expect(() => decodeKeySlots(future)).toThrow(/Unsupported key slot version/);
+  });
+
+  it('should reject slots that do not use a password KDF', () => {
+    const encoded = encodeKeySlots([slots[0]]);
+    // Rewrite the slot as a link-key KDF with empty parameters
+    const linkSlot = new Uint8Array([KEY_SLOTS_VERSION, 1, 0, 0, ...encoded.subarray(8)]);
+    expect(() => decodeKeySlots(linkSlot)).toThrow(/password key derivation/);
+  });
+});
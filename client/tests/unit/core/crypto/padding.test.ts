@@ -0,0 +1,50 @@
+/**
+ * Tests for length-hiding plaintext padding
+ *
+ * Covers: bucket sizes for each scheme, round-trip of padded plaintext,
+ * and rejection of malformed padding and parameters.
+ */
+
+import {
+  DEFAULT_PADDING,
+  paddedLength,
+  padPlaintext,
+  unpadPlaintext
+} from '../../../../src/core/crypto/padding.js';
+
+describe('plaintext padding', () => {
+  it('should round lengths up to power-of-two buckets', () => {
+    expect(paddedLength(5, DEFAULT_PADDING)).toBe(256);
+    expect(paddedLength(256, DEFAULT_PADDING)).toBe(256);
+    expect(paddedLength(257, DEFAULT_PADDING)).toBe(512);
+    expect(paddedLength(70000, DEFAULT_PADDING)).toBe(131072);
+  });
+
+  it('should round lengths up to whole blocks', () => {
+    const block = { scheme: 'block' as const, blockSize: 4096 };
+    expect(paddedLength(0, block)).toBe(4096);
+    expect(paddedLength(4096, block)).toBe(4096);
+    expect(paddedLength(4097, block)).toBe(8192);
+    expect(paddedLength(17, { scheme: 'none' })).toBe(17);
+  });
+
+  it('should reject bucket sizes out of range', () => {
+    expect(() => paddedLength(1, { scheme: 'block', blockSize: 0 })).toThrow(/Invalid padding/);
+    expect(() => paddedLength(1, { scheme: 'block', blockSize: 1.5 })).toThrow(/Invalid padding/);
+    expect(() => paddedLength(1, { scheme: 'power-of-two', minimum: 1 << 30 })).toThrow(/Invalid padding/);
+  });
+
+  it('should round-trip plaintext, including trailing zero bytes', () => {
+    for (const plaintext of [new Uint8Array(0), new Uint8Array([1, 2, 3]), new Uint8Array([7, 0, 0]), new Uint8Array(255)]) {
+      const padded = padPlaintext(plaintext, DEFAULT_PADDING);
+      expect(padded.length).toBe(256);
+      expect(Array.from(unpadPlaintext(padded))).toEqual(Array.from(plaintext));
+    }
+  });
+
+  it('should reject malformed padding', () => {
+    expect(() => unpadPlaintext(new Uint8Array(16))).toThrow('Invalid padding');
+    expect(() => unpadPlaintext(new Uint8Array([1, 2, 0, 0]))).toThrow('Invalid padding');
+    expect(() => unpadPlaintext(new Uint8Array(0))).toThrow('Invalid padding');
+  });
+});
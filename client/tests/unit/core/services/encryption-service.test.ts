@@ -0,0 +1,494 @@
+/**
+ * Tests for EncryptionService paste encryption
+ *
+ * Covers: enveloped pastes round-trip, metadata (from version 5 including
+ * the view limit) and header are authenticated,
+ * the key commitment rejects wrong and non-committed keys, padding hides
+ * paste and chat lengths, compressed pastes inflate on decryption, paste
+ * documents keep their details encrypted, large pastes use chunked AES-GCM,
+ * version 1 envelopes and legacy (unenveloped) pastes still decrypt, delete authorization matches between formats, Argon2id pastes,
+ * password-less link-key pastes, two-factor pastes, recipient-key pastes
+ * and key-slot pastes.
+ */
+
+import { EncryptionService } from '../../../../src/core/services/encryption-service.js';
+import {
+  encryptWithPassword,
+  deriveDeleteAuth,
+  generateRecipientKeyPair,
+  generateSalt
+} from '../../../../src/security.js';
+import { encodeBase64Url, decodeBase64Url } from '../../../../src/core/crypto/encoding.js';
+import {
+  ENVELOPE_FLAGS,
+  encodeEnvelope,
+  encodeEnvelopeHeader,
+  hasEnvelope
+} from '../../../../src/core/crypto/envelope.js';
+import { encodeAssociatedData } from '../../../../src/core/crypto/associated-data.js';
+import type { EnvelopeHeader } from '../../../../src/core/crypto/envelope.js';
+
+describe('EncryptionService', () => {
+  const service = new EncryptionService();
+  const password = 'correct horse battery';
+  const meta = { expireTs: 1900000000, mime: 'text/plain', allowChat: true };
+
+  it('should wrap new pastes in an envelope and decrypt them', async () => {
+    const encrypted = await service.encryptPaste('hello envelope', meta, password);
+
+    expect(hasEnvelope(new Uint8Array(decodeBase64Url(encrypted.ctB64)))).toBe(true);
+    expect(service.readEnvelope(encrypted.ctB64)).toEqual({
+      version: 5,
+      flags: ENVELOPE_FLAGS.PADDED,
+      kdf: { algorithm: 'pbkdf2-sha256', iterations: 100000 },
+      cipher: 'aes-256-gcm',
+      commitment: expect.any(Uint8Array),
+      iv: new Uint8Array(decodeBase64Url(encrypted.ivB64))
+    });
+
+    const plaintext = await service.decryptPaste(
+      encrypted.ctB64,
+      password,
+      encrypted.keyB64,
+      encrypted.ivB64,
+      meta
+    );
+    expect(plaintext).toBe('hello envelope');
+  });
+
+  it('should reject enveloped pastes whose metadata or header was altered', async () => {
+    const encrypted = await service.encryptPasteWithLinkKey('bound to metadata', meta);
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+
+    for (const altered of [
+      { ...meta, expireTs: meta.expireTs + 3600 },
+      { ...meta, mime: 'text/html' },
+      { ...meta, allowChat: false },
+      { ...meta, maxViews: 1 }
+    ]) {
+      await expect(
+        service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, altered)
+      ).rejects.toThrow();
+    }
+    await expect(service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64))
+      .rejects.toThrow('metadata is required');
+
+    // Downgrading the envelope version to skip the check is detected too
+    const payload = new Uint8Array(decodeBase64Url(encrypted.ctB64));
+    payload[4] = 1;
+    await expect(
+      service.decryptPasteWithKey(encodeBase64Url(payload), keys, encrypted.ivB64, meta)
+    ).rejects.toThrow();
+  });
+
+  it('should authenticate the view limit from version 5 only', async () => {
+    const limited = { ...meta, maxViews: 1 };
+    const encrypted = await service.encryptPasteWithLinkKey('one view', limited);
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+
+    await expect(service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, limited))
+      .resolves.toBe('one view');
+    for (const altered of [meta, { ...meta, maxViews: 100 }]) {
+      await expect(service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, altered))
+        .rejects.toThrow('Paste did not decrypt with this key');
+    }
+
+    // Version 4 pastes were created without the view limit in their associated data
+    const iv = new Uint8Array(decodeBase64Url(encrypted.ivB64));
+    const headerBytes = encodeEnvelopeHeader({
+      version: 4,
+      flags: 0,
+      kdf: { algorithm: 'none' },
+      cipher: 'aes-256-gcm',
+      commitment: keys.commitment,
+      iv
+    });
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encodeAssociatedData(headerBytes, meta, 4) as BufferSource },
+      keys.contentKey,
+      new TextEncoder().encode('version four')
+    );
+    const payload = new Uint8Array(headerBytes.length + ciphertext.byteLength);
+    payload.set(headerBytes);
+    payload.set(new Uint8Array(ciphertext), headerBytes.length);
+
+    await expect(service.decryptPasteWithKey(encodeBase64Url(payload), keys, encrypted.ivB64, limited))
+      .resolves.toBe('version four');
+  });
+
+  it('should reject ciphertext opened with the IV of another link', async () => {
+    const encrypted = await service.encryptPasteWithLinkKey('bound to its link', meta);
+    const other = await service.encryptPasteWithLinkKey('another paste', meta);
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+
+    await expect(service.decryptPasteWithKey(encrypted.ctB64, keys, other.ivB64, meta))
+      .rejects.toThrow('does not belong to this link');
+  });
+
+  it('should pad short pastes to the same length and strip the padding', async () => {
+    const pin = await service.encryptPasteWithLinkKey('4821', meta);
+    const apiKey = await service.encryptPasteWithLinkKey('sk_live_0123456789abcdef', meta);
+    const unpadded = await service.encryptPasteWithLinkKey('4821', meta, { scheme: 'none' });
+
+    expect(decodeBase64Url(pin.ctB64).byteLength).toBe(decodeBase64Url(apiKey.ctB64).byteLength);
+    expect(decodeBase64Url(unpadded.ctB64).byteLength).toBeLessThan(decodeBase64Url(pin.ctB64).byteLength);
+    expect(service.readEnvelope(unpadded.ctB64)!.flags).toBe(0);
+
+    for (const [encrypted, text] of [[pin, '4821'], [apiKey, 'sk_live_0123456789abcdef'], [unpadded, '4821']] as const) {
+      const keys = await service.deriveLinkKeys(encrypted.keyB64);
+      await expect(service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta)).resolves.toBe(text);
+    }
+  });
+
+  it('should compress content before padding and inflate it on decryption', async () => {
+    const text = '2026-10-19T12:00:00Z INFO request served in 12ms\n'.repeat(4000);
+    const encoded = await service.encodeContent(text);
+    expect(encoded.compressed).toBe(true);
+    expect(encoded.bytes.length).toBeLessThan(text.length / 10);
+
+    const encrypted = await service.encryptPasteWithLinkKey(encoded, meta);
+    expect(service.readEnvelope(encrypted.ctB64)!.flags).toBe(ENVELOPE_FLAGS.COMPRESSED | ENVELOPE_FLAGS.PADDED);
+
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+    await expect(service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta)).resolves.toBe(text);
+  });
+
+  it('should keep content uncompressed when compression does not shrink it', async () => {
+    await expect(service.encodeContent('x')).resolves.toEqual({
+      bytes: new TextEncoder().encode('x'),
+      compressed: false,
+      structured: false
+    });
+    const off = await service.encodeContent('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', false);
+    expect(off.compressed).toBe(false);
+  });
+
+  it('should encrypt paste documents and decrypt plain text pastes as documents', async () => {
+    const pasteDocument = {
+      title: 'Deploy notes',
+      filename: 'deploy.sh',
+      language: 'bash',
+      body: 'echo "hello"\n',
+      createdAt: 1760000000000
+    };
+    const structured = await service.encryptPasteWithLinkKey(await service.encodeContent(pasteDocument), meta);
+    const plain = await service.encryptPasteWithLinkKey('just text', meta);
+    expect(service.readEnvelope(structured.ctB64)!.flags & ENVELOPE_FLAGS.STRUCTURED).toBe(ENVELOPE_FLAGS.STRUCTURED);
+    expect(service.readEnvelope(plain.ctB64)!.flags & ENVELOPE_FLAGS.STRUCTURED).toBe(0);
+
+    const structuredKeys = await service.deriveLinkKeys(structured.keyB64);
+    await expect(service.decryptPasteDocument(structured.ctB64, structuredKeys, structured.ivB64, meta))
+      .resolves.toEqual(pasteDocument);
+    await expect(service.decryptPasteWithKey(structured.ctB64, structuredKeys, structured.ivB64, meta))
+      .resolves.toBe(pasteDocument.body);
+
+    const plainKeys = await service.deriveLinkKeys(plain.keyB64);
+    await expect(service.decryptPasteDocument(plain.ctB64, plainKeys, plain.ivB64, meta))
+      .resolves.toEqual({ body: 'just text' });
+  });
+
+  it('should encrypt large pastes in chunks and report progress', async () => {
+    const random = new Uint8Array(100000);
+    for (let offset = 0; offset < random.length; offset += 65536) {
+      crypto.getRandomValues(random.subarray(offset, Math.min(random.length, offset + 65536)));
+    }
+    const text = Array.from(random, byte => byte.toString(16).padStart(2, '0')).join('');
+
+    const encryptProgress: number[] = [];
+    const encrypted = await service.encryptPasteWithLinkKey(text, meta, { scheme: 'none' }, f => encryptProgress.push(f));
+    expect(service.readEnvelope(encrypted.ctB64)!.cipher).toBe('aes-256-gcm-chunked');
+    expect(encryptProgress).toHaveLength(4);
+    expect(encryptProgress[3]).toBe(1);
+
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+    const decryptProgress: number[] = [];
+    await expect(service.decryptPasteDocument(encrypted.ctB64, keys, encrypted.ivB64, meta, f => decryptProgress.push(f)))
+      .resolves.toEqual({ body: text });
+    expect(decryptProgress).toEqual(encryptProgress);
+
+    // The header and metadata are authenticated by every chunk
+    await expect(service.decryptPasteDocument(encrypted.ctB64, keys, encrypted.ivB64, { ...meta, allowChat: false }))
+      .rejects.toThrow();
+
+    const small = await service.encryptPasteWithLinkKey('short', meta);
+    expect(service.readEnvelope(small.ctB64)!.cipher).toBe('aes-256-gcm');
+  });
+
+  it('should pad chat messages to the same length', async () => {
+    const keys = await service.deriveLinkKeys(encodeBase64Url(new Uint8Array(32).fill(9)));
+    const short = await service.encryptChatMessage('ok', keys.chatKey, 'alice');
+    const longer = await service.encryptChatMessage('see you at the station at nine', keys.chatKey, 'alice');
+
+    expect(short.encryptedData.byteLength).toBe(longer.encryptedData.byteLength);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(short.iv) },
+      keys.chatKey,
+      new Uint8Array(short.encryptedData)
+    );
+    // Older readers take text and username and ignore the pad field
+    const payload = JSON.parse(new TextDecoder().decode(decrypted));
+    expect(payload).toMatchObject({ text: 'ok', username: 'alice' });
+    expect(payload.pad).toMatch(/^ +$/);
+  });
+
+  it('should check the key commitment before decrypting', async () => {
+    const encrypted = await service.encryptPaste('committed', meta, password);
+    const header = service.readEnvelope(encrypted.ctB64)!;
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+    const keys = await service.derivePasteKeys(password, salt, header.kdf);
+    const wrongKeys = await service.derivePasteKeys('wrong password', salt, header.kdf);
+
+    expect(header.commitment).toHaveLength(32);
+    expect(service.checkKeyCommitment(header, keys)).toBe(true);
+    expect(service.checkKeyCommitment(header, wrongKeys)).toBe(false);
+    expect(service.checkKeyCommitment(null, keys)).toBeNull();
+    await expect(service.decryptPasteWithKey(encrypted.ctB64, wrongKeys, encrypted.ivB64, meta))
+      .rejects.toThrow('Key does not match this paste');
+  });
+
+  it('should reject ciphertext that decrypts under a key other than the committed one', async () => {
+    const salt = generateSalt();
+    const iv = new Uint8Array(12).fill(3);
+    const kdf = { algorithm: 'pbkdf2-sha256' as const, iterations: 100000 };
+    const committedKeys = await service.derivePasteKeys(password, salt, kdf);
+    const otherKeys = await service.derivePasteKeys('other password', salt, kdf);
+
+    // Header commits to one password, ciphertext is valid under another
+    const headerBytes = encodeEnvelopeHeader({
+      version: 3,
+      flags: 0,
+      kdf,
+      cipher: 'aes-256-gcm',
+      commitment: committedKeys.commitment
+    });
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encodeAssociatedData(headerBytes, meta, 3) as BufferSource },
+      otherKeys.contentKey,
+      new TextEncoder().encode('second message')
+    );
+    const payload = new Uint8Array(headerBytes.length + ciphertext.byteLength);
+    payload.set(headerBytes);
+    payload.set(new Uint8Array(ciphertext), headerBytes.length);
+
+    await expect(
+      service.decryptPasteWithKey(encodeBase64Url(payload), otherKeys, encodeBase64Url(iv), meta)
+    ).rejects.toThrow('Key does not match this paste');
+  });
+
+  it('should decrypt version 1 envelopes without associated data', async () => {
+    const salt = generateSalt();
+    const iv = new Uint8Array(12).fill(7);
+    const header: EnvelopeHeader = {
+      version: 1,
+      flags: 0,
+      kdf: { algorithm: 'pbkdf2-sha256', iterations: 100000 },
+      cipher: 'aes-256-gcm'
+    };
+    const keys = await service.derivePasteKeys(password, salt, header.kdf);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      keys.contentKey,
+      new TextEncoder().encode('version one')
+    );
+    const ctB64 = encodeBase64Url(encodeEnvelope(header, ciphertext));
+
+    await expect(service.decryptPasteWithKey(ctB64, keys, encodeBase64Url(iv)))
+      .resolves.toBe('version one');
+  });
+
+  it('should decrypt legacy pastes without an envelope', async () => {
+    const { encryptedData, salt, iv } = await encryptWithPassword('legacy content', password);
+    const ctB64 = encodeBase64Url(encryptedData);
+
+    expect(service.readEnvelope(ctB64)).toBeNull();
+    const plaintext = await service.decryptPaste(
+      ctB64,
+      password,
+      encodeBase64Url(salt),
+      encodeBase64Url(iv)
+    );
+    expect(plaintext).toBe('legacy content');
+  });
+
+  it('should reject the wrong password for enveloped pastes', async () => {
+    const encrypted = await service.encryptPaste('secret', meta, password);
+    await expect(
+      service.decryptPaste(encrypted.ctB64, 'wrong password', encrypted.keyB64, encrypted.ivB64, meta)
+    ).rejects.toThrow();
+  });
+
+  it('should derive the legacy delete auth for default PBKDF2 parameters', async () => {
+    const encrypted = await service.encryptPaste('secret', meta, password);
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+    const header = service.readEnvelope(encrypted.ctB64);
+
+    const fromEnvelope = await service.deriveDeleteAuth(password, salt, header!.kdf);
+    const legacy = await deriveDeleteAuth(password, salt);
+
+    expect(fromEnvelope).toBe(legacy);
+  });
+
+  it('should record Argon2id parameters and decrypt Argon2id pastes', async () => {
+    const encrypted = await service.encryptPaste('argon content', meta, '4821', 'argon2id');
+
+    expect(service.readEnvelope(encrypted.ctB64)!.kdf).toEqual({
+      algorithm: 'argon2id',
+      memoryKiB: 19456,
+      iterations: 2,
+      parallelism: 1
+    });
+    const plaintext = await service.decryptPaste(
+      encrypted.ctB64,
+      '4821',
+      encrypted.keyB64,
+      encrypted.ivB64,
+      meta
+    );
+    expect(plaintext).toBe('argon content');
+  }, 60000); // Two Argon2id runs at default cost
+
+  it('should derive distinct Argon2id keys with a matching delete auth', async () => {
+    const salt = new Uint8Array(16).fill(5);
+    const kdf = { algorithm: 'argon2id' as const, memoryKiB: 64, iterations: 1, parallelism: 1 };
+
+    const keys = await service.derivePasteKeys(password, salt, kdf);
+    const deleteAuth = await service.deriveDeleteAuth(password, salt, kdf);
+    const otherKeys = await service.derivePasteKeys('other password', salt, kdf);
+
+    expect(keys.deleteAuth).toBe(deleteAuth);
+    expect(keys.chatKey).not.toBe(keys.contentKey);
+    expect(otherKeys.deleteAuth).not.toBe(deleteAuth);
+  });
+
+  it('should share the content key with chat for PBKDF2 pastes', async () => {
+    const keys = await service.derivePasteKeys(password, new Uint8Array(16));
+    expect(keys.chatKey).toBe(keys.contentKey);
+  });
+
+  it('should return the delete auth derived at encryption time', async () => {
+    const encrypted = await service.encryptPaste('secret', meta, password);
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+
+    expect(encrypted.deleteAuth).toBe(await deriveDeleteAuth(password, salt));
+  });
+
+  it('should encrypt link-key pastes without a password', async () => {
+    const encrypted = await service.encryptPasteWithLinkKey('quick share', meta);
+
+    expect(service.readEnvelope(encrypted.ctB64)!.kdf).toEqual({ algorithm: 'none' });
+    expect(decodeBase64Url(encrypted.keyB64).byteLength).toBe(32);
+
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+    expect(keys.deleteAuth).toBe(encrypted.deleteAuth);
+    expect(keys.chatKey).not.toBe(keys.contentKey);
+    const plaintext = await service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta);
+    expect(plaintext).toBe('quick share');
+  });
+
+  it('should reject link keys of the wrong length', async () => {
+    await expect(service.deriveLinkKeys(encodeBase64Url(new Uint8Array(16)))).rejects.toThrow(/length/);
+  });
+
+  it('should refuse password derivation for link-key pastes', async () => {
+    const encrypted = await service.encryptPasteWithLinkKey('quick share', meta);
+    await expect(
+      service.decryptPaste(encrypted.ctB64, password, encrypted.keyB64, encrypted.ivB64, meta)
+    ).rejects.toThrow(/not password protected/);
+  });
+
+  it('should require both password and link secret for two-factor pastes', async () => {
+    const encrypted = await service.encryptPaste('two factor', meta, '4821', 'pbkdf2-sha256', true);
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+    const secret = new Uint8Array(decodeBase64Url(encrypted.linkSecretB64!));
+    const header = service.readEnvelope(encrypted.ctB64)!;
+
+    expect(header.flags).toBe(ENVELOPE_FLAGS.LINK_SECRET | ENVELOPE_FLAGS.PADDED);
+    const keys = await service.derivePasteKeys('4821', salt, header.kdf, secret);
+    expect(keys.deleteAuth).toBe(encrypted.deleteAuth);
+    await expect(
+      service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta)
+    ).resolves.toBe('two factor');
+
+    // Password alone, or the wrong secret, must not decrypt
+    const passwordOnly = await service.derivePasteKeys('4821', salt, header.kdf);
+    await expect(
+      service.decryptPasteWithKey(encrypted.ctB64, passwordOnly, encrypted.ivB64, meta)
+    ).rejects.toThrow();
+    const wrongSecret = await service.derivePasteKeys('4821', salt, header.kdf, new Uint8Array(32));
+    await expect(
+      service.decryptPasteWithKey(encrypted.ctB64, wrongSecret, encrypted.ivB64, meta)
+    ).rejects.toThrow();
+  });
+
+  it('should open recipient-key pastes with any listed recipient key only', async () => {
+    const alice = await generateRecipientKeyPair();
+    const bob = await generateRecipientKeyPair();
+    const mallory = await generateRecipientKeyPair();
+    const encrypted = await service.encryptPasteForRecipients('for alice and bob', meta, [
+      await service.encodeRecipientPublicKey(alice.publicKey),
+      await service.encodeRecipientPublicKey(bob.publicKey)
+    ]);
+    const header = service.readEnvelope(encrypted.ctB64)!;
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+
+    expect(header.kdf.algorithm).toBe('ecdh-p256');
+    expect(header.recipients).toHaveLength(2);
+    for (const keyPair of [alice, bob]) {
+      const keys = await service.deriveRecipientKeys(header, salt, keyPair);
+      expect(keys.deleteAuth).toBe(encrypted.deleteAuth);
+      await expect(
+        service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta)
+      ).resolves.toBe('for alice and bob');
+    }
+
+    await expect(service.deriveRecipientKeys(header, salt, mallory))
+      .rejects.toThrow('This paste was not encrypted for your key');
+    await expect(service.derivePasteKeys(password, salt, header.kdf))
+      .rejects.toThrow('not password protected');
+  });
+
+  it('should open key-slot pastes with any of their passwords', async () => {
+    const encrypted = await service.encryptPasteWithKeySlots('for two teams', meta, ['team-a-pass', 'team-b-pass']);
+    const header = service.readEnvelope(encrypted.ctB64)!;
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+
+    expect(header.kdf).toEqual({ algorithm: 'key-slots' });
+    expect(service.readKeySlots(encrypted.keySlotsB64!)).toHaveLength(2);
+    for (const slotPassword of ['team-a-pass', 'team-b-pass']) {
+      const keys = await service.unlockKeySlots(encrypted.keySlotsB64!, slotPassword, salt);
+      expect(keys.deleteAuth).toBe(encrypted.deleteAuth);
+      await expect(
+        service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta)
+      ).resolves.toBe('for two teams');
+    }
+
+    await expect(service.unlockKeySlots(encrypted.keySlotsB64!, 'team-c-pass', salt))
+      .rejects.toThrow('Incorrect password');
+    await expect(service.derivePasteKeys('team-a-pass', salt, header.kdf))
+      .rejects.toThrow('key slots');
+  });
+
+  it('should add and remove key slots without changing the content key', async () => {
+    const encrypted = await service.encryptPasteWithKeySlots('rotating', meta, ['first-pass']);
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+    const { slotKey } = await service.unlockKeySlots(encrypted.keySlotsB64!, 'first-pass', salt);
+
+    const added = await service.addKeySlot(encrypted.keySlotsB64!, slotKey!, 'second-pass', salt);
+    const keys = await service.unlockKeySlots(added, 'second-pass', salt);
+    expect(keys.deleteAuth).toBe(encrypted.deleteAuth);
+    await expect(
+      service.decryptPasteWithKey(encrypted.ctB64, keys, encrypted.ivB64, meta)
+    ).resolves.toBe('rotating');
+
+    const removed = service.removeKeySlot(added, 0);
+    await expect(service.unlockKeySlots(removed, 'first-pass', salt)).rejects.toThrow('Incorrect password');
+    await expect(service.unlockKeySlots(removed, 'second-pass', salt)).resolves.toBeDefined();
+    expect(() => service.removeKeySlot(removed, 0)).toThrow('at least one password');
+    expect(() => service.removeKeySlot(removed, 3)).toThrow('Key slot not found');
+  });
+
+  it('should reject invalid recipient public keys', async () => {
+    await expect(service.encryptPasteForRecipients('x', meta, ['B' + 'A'.repeat(86)]))
+      .rejects.toThrow('Invalid recipient public key');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for PasteService view URLs
+ *
+ * Covers: key material and anchors (line ranges and heading ids) in the
+ * fragment, round-trip through buildViewFragment and parseViewUrl,
+ * tolerance of malformed anchors, and the click-to-reveal query flag.
+ */
+
+import { PasteService } from '../../../../src/core/services/paste-service.js';
+
+describe('PasteService view URLs', () => {
+  const service = new PasteService();
+  const url = (fragment: string): string => `https://paste.example/view.html?p=abc#${fragment}`;
+
+  it('should parse key material without a line range', () => {
+    expect(service.parseViewUrl(url('salt:iv'))).toEqual({ pasteId: 'abc', salt: 'salt', iv: 'iv' });
+    expect(service.parseViewUrl(url('salt:iv:secret')))
+      .toEqual({ pasteId: 'abc', salt: 'salt', iv: 'iv', linkSecret: 'secret' });
+    expect(service.parseViewUrl(url('salt'))).toBeNull();
+    expect(service.parseViewUrl(url('/L4'))).toBeNull();
+  });
+
+  it('should round-trip line ranges after the key material', () => {
+    const lines = { kind: 'lines', range: { start: 40, end: 55 } } as const;
+    const fragment = service.buildViewFragment('salt', 'iv', 'secret', lines);
+    expect(fragment).toBe('salt:iv:secret/L40-L55');
+    expect(service.parseViewUrl(url(fragment)))
+      .toEqual({ pasteId: 'abc', salt: 'salt', iv: 'iv', linkSecret: 'secret', anchor: lines });
+    expect(service.buildViewFragment('salt', 'iv', undefined, { kind: 'lines', range: { start: 7, end: 7 } }))
+      .toBe('salt:iv/L7');
+    expect(service.parseViewUrl(url('salt:iv/L7'))?.anchor).toEqual({ kind: 'lines', range: { start: 7, end: 7 } });
+  });
+
+  it('should round-trip heading ids, including non-ASCII ones', () => {
+    for (const id of ['usage', 'step-2_notes', 'überblick', 'l40']) {
+      const fragment = service.buildViewFragment('salt', 'iv', undefined, { kind: 'heading', id });
+      expect(service.parseViewUrl(new URL(url(fragment)))?.anchor).toEqual({ kind: 'heading', id });
+    }
+    expect(service.buildViewFragment('salt', 'iv', undefined, { kind: 'heading', id: 'überblick' }))
+      .toBe('salt:iv/%C3%BCberblick');
+  });
+
+  it('should put reversed ranges in order and ignore malformed anchors', () => {
+    expect(service.parseLineRange('L55-L40')).toEqual({ start: 40, end: 55 });
+    for (const text of ['', 'L0', 'L-3', '40-55', 'L4-', 'L1-L2-L3', 'l4', 'L1234567890']) {
+      expect(service.parseLineRange(text)).toBeNull();
+    }
+    for (const text of ['a b', 'x.y', '%E0%A4%A', '<img>', '']) {
+      expect(service.parseViewAnchor(text)).toBeNull();
+    }
+    expect(service.parseViewUrl(url('salt:iv/a.b'))).toEqual({ pasteId: 'abc', salt: 'salt', iv: 'iv' });
+  });
+
+  it('should carry click-to-reveal in the query, outside the fragment', () => {
+    const shareUrl = service.buildShareUrl('abc', 'salt', 'iv', undefined, true);
+    expect(shareUrl).toBe(`${window.location.origin}/view.html?p=abc&reveal=1#salt:iv`);
+    expect(service.parseViewUrl(shareUrl)?.clickToReveal).toBe(true);
+    expect(service.buildShareUrl('abc', 'salt', 'iv')).not.toContain('reveal');
+    expect(service.parseViewUrl(url('salt:iv'))).not.toHaveProperty('clickToReveal');
+  });
+});
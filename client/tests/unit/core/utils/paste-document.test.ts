@@ -0,0 +1,118 @@
+/**
+ * Tests for paste-document.ts
+ *
+ * Covers: round-trip of full and body-only documents, omission of empty
+ * fields, binary attachments, image detection, and rejection of malformed
+ * documents, attachments and language identifiers.
+ */
+
+import {
+  attachmentBytes,
+  createAttachment,
+  decodePasteDocument,
+  detectImageType,
+  encodePasteDocument,
+  isValidLanguage,
+  pasteImage,
+  DEFAULT_ATTACHMENT_MIME,
+  PASTE_DOCUMENT_LIMITS
+} from '../../../../src/core/utils/paste-document.js';
+
+describe('paste documents', () => {
+  it('should round-trip every field', () => {
+    const pasteDocument = {
+      title: 'Build log',
+      filename: 'build.log',
+      language: 'plaintext',
+      body: 'line 1\nline 2',
+      createdAt: 1760000000000
+    };
+    expect(decodePasteDocument(encodePasteDocument(pasteDocument))).toEqual(pasteDocument);
+  });
+
+  it('should leave out empty optional fields', () => {
+    const json = encodePasteDocument({ title: '', filename: undefined, body: 'text' });
+    expect(JSON.parse(json)).toEqual({ body: 'text' });
+    expect(decodePasteDocument(json)).toEqual({ body: 'text' });
+  });
+
+  it('should reject malformed documents', () => {
+    for (const json of [
+      'not json',
+      '"text"',
+      'null',
+      '[]',
+      '{}',
+      '{"body":1}',
+      '{"body":"x","title":5}',
+      '{"body":"x","createdAt":"yesterday"}',
+      '{"body":"x","language":"java script"}',
+      JSON.stringify({ body: 'x', title: 't'.repeat(PASTE_DOCUMENT_LIMITS.MAX_TITLE_LENGTH + 1) })
+    ]) {
+      expect(() => decodePasteDocument(json)).toThrow('Invalid paste document');
+    }
+  });
+
+  it('should round-trip binary attachments', () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+    const image = createAttachment('logo.png', 'image/png', bytes);
+    const config = createAttachment('app.conf', '', new TextEncoder().encode('port = 8080\n'));
+    expect(image).toMatchObject({ name: 'logo.png', mime: 'image/png', size: 7 });
+    expect(config.mime).toBe(DEFAULT_ATTACHMENT_MIME);
+
+    const decoded = decodePasteDocument(encodePasteDocument({ body: '', attachments: [image, config] }));
+    expect(decoded.attachments).toEqual([image, config]);
+    expect(Array.from(attachmentBytes(decoded.attachments![0]))).toEqual(Array.from(bytes));
+    expect(JSON.parse(encodePasteDocument({ body: 'x', attachments: [] }))).toEqual({ body: 'x' });
+  });
+
+  it('should reject malformed attachments', () => {
+    const valid = createAttachment('a.bin', 'application/octet-stream', new Uint8Array([1, 2, 3]));
+    for (const attachment of [
+      { ...valid, name: '' },
+      { ...valid, mime: 'text/html; charset=utf-8' },
+      { ...valid, size: 4 },
+      { ...valid, data: 'AQID+' },
+      { name: 'a.bin', mime: 'text/plain', size: 0 }
+    ]) {
+      expect(() => decodePasteDocument(JSON.stringify({ body: '', attachments: [attachment] })))
+        .toThrow('Invalid paste document');
+    }
+    const tooMany = new Array(PASTE_DOCUMENT_LIMITS.MAX_ATTACHMENTS + 1).fill(valid);
+    expect(() => decodePasteDocument(JSON.stringify({ body: '', attachments: tooMany })))
+      .toThrow('Invalid paste document');
+  });
+
+  it('should detect inline image formats from their magic numbers', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+    const webp = new Uint8Array([...new TextEncoder().encode('RIFF'), 0, 0, 0, 0, ...new TextEncoder().encode('WEBPVP8 ')]);
+    expect(detectImageType(png)).toBe('image/png');
+    expect(detectImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectImageType(new TextEncoder().encode('GIF89a...'))).toBe('image/gif');
+    expect(detectImageType(webp)).toBe('image/webp');
+    expect(detectImageType(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    expect(detectImageType(png.subarray(0, 4))).toBeNull();
+  });
+
+  it('should treat a paste with only an image as an image paste', () => {
+    const bytes = new Uint8Array([0xff, 0xd8, 0xff, 0xdb, 1, 2, 3]);
+    // The stored MIME type is ignored in favour of the content
+    const image = createAttachment('photo', 'application/octet-stream', bytes);
+    expect(pasteImage({ body: '', attachments: [image] })).toEqual({ attachment: image, bytes, mime: 'image/jpeg' });
+
+    const svg = createAttachment('logo.svg', 'image/svg+xml', new TextEncoder().encode('<svg/>'));
+    expect(pasteImage({ body: 'caption', attachments: [image] })).toBeNull();
+    expect(pasteImage({ body: '', attachments: [image, image] })).toBeNull();
+    expect(pasteImage({ body: '', attachments: [svg] })).toBeNull();
+    expect(pasteImage({ body: '' })).toBeNull();
+  });
+
+  it('should accept highlight.js language identifiers only', () => {
+    for (const language of ['javascript', 'cpp', 'c#', 'objective-c', 'x86asm']) {
+      expect(isValidLanguage(language)).toBe(true);
+    }
+    for (const language of ['', 'JavaScript', 'a b', '"><script>', '-x', 'x'.repeat(33)]) {
+      expect(isValidLanguage(language)).toBe(false);
+    }
+  });
+});
@@ -6,6 +6,7 @@
  * - Expiration validation
  * - View count validation
  * - Password validation
+ * - Recipient public key validation
  * - UTF-8 validation
  */
 
@@ -14,8 +15,13 @@ import {
   validateExpiration,
   validateViewCount,
   validatePassword,
+  validateRecipientPublicKeys,
+  validateKeySlotPasswords,
+  validateAttachments,
   isValidUTF8,
+  MAX_ATTACHMENTS_SIZE,
   MAX_CONTENT_SIZE,
+  MAX_UNCOMPRESSED_CONTENT_SIZE,
   MAX_EXPIRATION_MINUTES,
   MIN_EXPIRATION_MINUTES,
   MAX_VIEW_COUNT,
@@ -85,6 +91,27 @@ describe('validateContentSize', () => {
     expect(result.errors.length).toBeGreaterThan(0);
     expect(result.errors[0]).toContain('Content too large');
   });
+
+  it('should apply the limit to the compressed payload when its size is given', () => {
+    const content = 'x'.repeat(MAX_CONTENT_SIZE * 2);
+
+    expect(validateContentSize(content, 4096).isValid).toBe(true);
+    const tooLarge = validateContentSize(content, MAX_CONTENT_SIZE + 1);
+    expect(tooLarge.isValid).toBe(false);
+    expect(tooLarge.errors[0]).toContain('compressed');
+  });
+
+  it('should apply a limit published by the server and allow empty text with attachments', () => {
+    expect(validateContentSize('text', MAX_CONTENT_SIZE * 4, MAX_CONTENT_SIZE * 8).isValid).toBe(true);
+    expect(validateContentSize('text', MAX_CONTENT_SIZE * 4, MAX_CONTENT_SIZE * 2).isValid).toBe(false);
+    expect(validateContentSize('', 4096, MAX_CONTENT_SIZE, true).isValid).toBe(true);
+  });
+
+  it('should reject content past the uncompressed limit even if it compresses well', () => {
+    const result = validateContentSize('x'.repeat(MAX_UNCOMPRESSED_CONTENT_SIZE + 1), 4096);
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain('Content too large');
+  });
 });
 
 // ============================================================================
@@ -261,6 +288,70 @@ describe('validatePassword', () => {
   });
 });
 
+// ============================================================================
+// RECIPIENT PUBLIC KEY VALIDATION TESTS
+// ============================================================================
+
+describe('validateRecipientPublicKeys', () => {
+  const key = 'B' + 'A'.repeat(86);
+
+  it('should accept well-formed keys', () => {
+    expect(validateRecipientPublicKeys([key, key.replace(/A$/, 'Q')]).isValid).toBe(true);
+  });
+
+  it('should reject an empty list and too many recipients', () => {
+    expect(validateRecipientPublicKeys([]).errors).toContain('At least one recipient public key is required');
+    expect(validateRecipientPublicKeys(new Array(17).fill(key)).errors)
+      .toContain('A paste can have at most 16 recipients');
+  });
+
+  it('should reject malformed keys', () => {
+    const result = validateRecipientPublicKeys([key, 'not-a-key', key + '=']);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Some recipient public keys are not valid');
+  });
+});
+
+// ============================================================================
+// KEY SLOT PASSWORD VALIDATION TESTS
+// ============================================================================
+
+describe('validateKeySlotPasswords', () => {
+  it('should accept several valid passwords and PINs', () => {
+    expect(validateKeySlotPasswords(['team-a-pass', 'team-b-pass', '4821']).isValid).toBe(true);
+  });
+
+  it('should report each distinct error once', () => {
+    const result = validateKeySlotPasswords(['short', 'tiny', 'team-a-pass']);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it('should reject more passwords than key slots', () => {
+    expect(validateKeySlotPasswords(new Array(9).fill('team-a-pass')).errors)
+      .toContain('A paste can have at most 8 passwords');
+  });
+});
+
+// ============================================================================
+// ATTACHMENT VALIDATION TESTS
+// ============================================================================
+
+describe('validateAttachments', () => {
+  it('should accept a few named files', () => {
+    expect(validateAttachments([{ name: 'app.conf', size: 120 }, { name: 'logo.png', size: 40960 }]).isValid).toBe(true);
+    expect(validateAttachments([]).isValid).toBe(true);
+  });
+
+  it('should reject too many, unnamed or too large files', () => {
+    expect(validateAttachments(new Array(11).fill({ name: 'a', size: 1 })).errors)
+      .toContain('A paste can have at most 10 attachments');
+    expect(validateAttachments([{ name: '', size: 1 }]).isValid).toBe(false);
+    expect(validateAttachments([{ name: 'big.iso', size: MAX_ATTACHMENTS_SIZE + 1 }]).errors[0])
+      .toContain('Attachments too large');
+  });
+});
+
 // ============================================================================
 // UTF-8 VALIDATION TESTS
 // ============================================================================
@@ -1,5 +1,6 @@
 /**
- * paste-creator.test.ts - Tests for paste creation (meta includes allowChat)
+ * paste-creator.test.ts - Tests for paste creation (meta includes allowChat,
+ *   a rejected proof-of-work solution is solved again once)
  */
 
 import * as pasteCreator from '../../../src/features/paste-creator.js';
@@ -58,4 +59,20 @@ describe('paste-creator allowChat', () => {
     const call = createPasteSpy.mock.calls[0][0];
     expect(call.meta.allowChat).toBe(true);
   });
+
+  it('should solve a fresh challenge once when the server rejects the solution', async () => {
+    let issued = 0;
+    jest.spyOn(api.HttpApiClient.prototype, 'getPowChallenge').mockImplementation(async () => ({
+      challenge: `challenge-${++issued}`,
+      difficulty: 1
+    }));
+    createPasteSpy.mockRejectedValueOnce(new Error('pow_invalid'));
+    setupForm();
+
+    await (pasteCreator as { createPaste: () => Promise<void> }).createPaste();
+
+    expect(createPasteSpy).toHaveBeenCalledTimes(2);
+    expect(createPasteSpy.mock.calls[1][0].pow.challenge).toBe('challenge-2');
+    expect(uiManager.showSuccess).toHaveBeenCalled();
+  });
 });
@@ -119,4 +119,9 @@ describe('paste-viewer shouldInitChat', () => {
     expect(shouldInitChat({ expireTs: 1, mime: 'text/plain' })).toBe(true);
     expect(shouldInitChat({ expireTs: 1, mime: 'text/plain', allowChat: false })).toBe(true);
   });
+
+  it('returns false after the last view, when the paste and its chat are gone', () => {
+    expect(shouldInitChat({ expireTs: 1, mime: 'text/plain', maxViews: 3 }, 1)).toBe(true);
+    expect(shouldInitChat({ expireTs: 1, mime: 'text/plain', maxViews: 3 }, 0)).toBe(false);
+  });
 });
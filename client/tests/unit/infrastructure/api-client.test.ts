@@ -5,7 +5,7 @@
  * the IApiClient interface contract correctly.
  */
 
-import { HttpApiClient } from '../../../src/infrastructure/api/http-client.js';
+import { HttpApiClient, TRANSFER_CHUNK_SIZE } from '../../../src/infrastructure/api/http-client.js';
 import { MockApiClient } from '../../../src/infrastructure/api/mock-client.js';
 import type { PasteCreateRequest } from '../../../src/infrastructure/api/interfaces.js';
 
@@ -85,6 +85,57 @@ describe('HttpApiClient', () => {
 
       await expect(client.createPaste(request)).rejects.toThrow('Network error');
     });
+
+    it('should upload large ciphertext in chunks', async () => {
+      const chunkChars = (TRANSFER_CHUNK_SIZE / 3) * 4;
+      const ct = 'a'.repeat(chunkChars) + 'b'.repeat(100);
+      const request: PasteCreateRequest = {
+        ct,
+        iv: 'initialization-vector',
+        meta: { expireTs: Math.floor(Date.now() / 1000) + 3600, mime: 'text/plain' }
+      };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ id: 'abc123', deleteToken: 'token-xyz' }) })
+        .mockResolvedValue({ ok: true, status: 204 });
+
+      const result = await client.createPaste(request);
+
+      expect(result).toEqual({ id: 'abc123', deleteToken: 'token-xyz' });
+      const calls = (global.fetch as jest.Mock).mock.calls;
+      expect(calls.map(call => [call[0], call[1].method])).toEqual([
+        ['/api/pastes', 'POST'],
+        ['/api/pastes/abc123/chunks/0', 'PUT'],
+        ['/api/pastes/abc123/chunks/1', 'PUT']
+      ]);
+      expect(JSON.parse(calls[0][1].body)).toEqual({
+        iv: request.iv, meta: request.meta, ctSize: TRANSFER_CHUNK_SIZE + 75
+      });
+      expect(JSON.parse(calls[1][1].body)).toEqual({ deleteToken: 'token-xyz', data: ct.slice(0, chunkChars) });
+      expect(JSON.parse(calls[2][1].body)).toEqual({ deleteToken: 'token-xyz', data: ct.slice(chunkChars) });
+    });
+
+    it('should delete the unfinished paste when a chunk fails', async () => {
+      const request: PasteCreateRequest = {
+        ct: 'a'.repeat((TRANSFER_CHUNK_SIZE / 3) * 4 + 4),
+        iv: 'initialization-vector',
+        meta: { expireTs: Math.floor(Date.now() / 1000) + 3600, mime: 'text/plain' }
+      };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ id: 'abc123', deleteToken: 'token-xyz' }) })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          statusText: 'Bad Request',
+          json: jest.fn().mockResolvedValue({ error: 'chunk_invalid' })
+        })
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await expect(client.createPaste(request)).rejects.toThrow('chunk_invalid');
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        '/api/pastes/abc123?token=token-xyz',
+        { method: 'DELETE' }
+      );
+    });
   });
 
   describe('retrievePaste', () => {
@@ -107,11 +158,90 @@ describe('HttpApiClient', () => {
 
       expect(result).toEqual(mockPaste);
       expect(global.fetch).toHaveBeenCalledWith(
-        '/api/pastes/abc123',
+        '/api/pastes/abc123?chunked=true',
         expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
     });
 
+    it('should report download progress when the length is known', async () => {
+      const bytes = new TextEncoder().encode(JSON.stringify({ ct: 'c'.repeat(100), iv: 'iv', meta: { expireTs: 1 } }));
+      const chunks = [bytes.subarray(0, 50), bytes.subarray(50)];
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        headers: { get: (name: string) => (name === 'Content-Length' ? String(bytes.length) : null) },
+        body: {
+          getReader: () => ({
+            read: jest.fn().mockImplementation(async () =>
+              chunks.length > 0 ? { done: false, value: chunks.shift() } : { done: true, value: undefined })
+          })
+        }
+      });
+
+      const progress: number[] = [];
+      const result = await client.retrievePaste('abc123', fraction => progress.push(fraction));
+
+      expect(result.ct).toBe('c'.repeat(100));
+      expect(progress).toEqual([50 / bytes.length, 1]);
+    });
+
+    it('should read large ciphertext in chunks with the read token', async () => {
+      const chunkChars = (TRANSFER_CHUNK_SIZE / 3) * 4;
+      const ct = 'a'.repeat(chunkChars) + 'b'.repeat(100);
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            ct: null, iv: 'iv', meta: { expireTs: 1 }, viewsRemaining: 0, ctSize: TRANSFER_CHUNK_SIZE + 75, readToken: 'r.t'
+          })
+        })
+        .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ data: ct.slice(0, chunkChars) }) })
+        .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValue({ data: ct.slice(chunkChars) }) });
+
+      const progress: number[] = [];
+      const result = await client.retrievePaste('abc123', fraction => progress.push(fraction));
+
+      expect(result).toEqual({ ct, iv: 'iv', meta: { expireTs: 1 }, viewsRemaining: 0 });
+      expect((global.fetch as jest.Mock).mock.calls.map(call => call[0])).toEqual([
+        '/api/pastes/abc123?chunked=true',
+        '/api/pastes/abc123/chunks/0?read=r.t',
+        '/api/pastes/abc123/chunks/1?read=r.t'
+      ]);
+      expect(progress).toEqual([]);
+    });
+
+    it('should report progress across chunks', async () => {
+      const chunkChars = (TRANSFER_CHUNK_SIZE / 3) * 4;
+      const chunkResponse = (data: string) => {
+        const bytes = new TextEncoder().encode(JSON.stringify({ data }));
+        const parts = [bytes];
+        return {
+          ok: true,
+          headers: { get: (name: string) => (name === 'Content-Length' ? String(bytes.length) : null) },
+          body: {
+            getReader: () => ({
+              read: jest.fn().mockImplementation(async () =>
+                parts.length > 0 ? { done: false, value: parts.shift() } : { done: true, value: undefined })
+            })
+          }
+        };
+      };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: jest.fn().mockResolvedValue({
+            ct: null, iv: 'iv', meta: { expireTs: 1 }, ctSize: TRANSFER_CHUNK_SIZE + 3, readToken: 'r.t'
+          })
+        })
+        .mockResolvedValueOnce(chunkResponse('a'.repeat(chunkChars)))
+        .mockResolvedValueOnce(chunkResponse('bbbb'));
+
+      const progress: number[] = [];
+      const result = await client.retrievePaste('abc123', fraction => progress.push(fraction));
+
+      expect(result.ct).toBe('a'.repeat(chunkChars) + 'bbbb');
+      expect(progress).toEqual([0.5, 0.5, 1, 1]);
+    });
+
     it('should handle 404 errors', async () => {
       (global.fetch as jest.Mock).mockResolvedValue({
         ok: false,
@@ -186,6 +316,26 @@ describe('HttpApiClient', () => {
     });
   });
 
+  describe('getLimits', () => {
+    it('should return the limits published by the server', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ maxSizeBytes: 8388608 })
+      });
+
+      await expect(client.getLimits()).resolves.toEqual({ maxSizeBytes: 8388608 });
+      expect(global.fetch).toHaveBeenCalledWith('/api/limits');
+    });
+
+    it('should return null when the server publishes no limits', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+      await expect(client.getLimits()).resolves.toBeNull();
+
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: jest.fn().mockResolvedValue({}) });
+      await expect(client.getLimits()).resolves.toBeNull();
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when API is healthy', async () => {
       (global.fetch as jest.Mock).mockResolvedValue({
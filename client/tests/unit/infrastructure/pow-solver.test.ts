@@ -2,11 +2,17 @@
  * Unit tests for PoW Solver implementations
  * 
  * Tests the InlinePowSolver to ensure it correctly solves
- * proof-of-work challenges using SHA-256 hashing.
+ * proof-of-work challenges using SHA-256 hashing, and the WorkerPowSolver
+ * pool: nonce space split, first solution wins, progress, cancellation
+ * and fallback. Also the background pre-solver: single use, refresh
+ * before expiry and retry after a failed background attempt.
  */
 
 import { InlinePowSolver } from '../../../src/infrastructure/pow/inline-solver.js';
-import type { PowChallenge } from '../../../src/infrastructure/api/interfaces.js';
+import { WorkerPowSolver } from '../../../src/infrastructure/pow/worker-solver.js';
+import { PowPresolver, POW_EXPIRY_MARGIN_SECONDS } from '../../../src/infrastructure/pow/presolver.js';
+import { powHashBits, searchNonces } from '../../../src/infrastructure/pow/pow-search.js';
+import type { IApiClient, PowChallenge } from '../../../src/infrastructure/api/interfaces.js';
 
 describe('InlinePowSolver', () => {
   let solver: InlinePowSolver;
@@ -127,6 +133,16 @@ describe('InlinePowSolver', () => {
       await expect(solvePromise).rejects.toThrow('PoW solving cancelled');
     });
 
+    it('should report progress while solving', async () => {
+      const challenge: PowChallenge = { challenge: 'progress-challenge', difficulty: 20 };
+      const onProgress = jest.fn(() => solver.cancel());
+
+      await expect(solver.solve(challenge, onProgress)).rejects.toThrow('PoW solving cancelled');
+
+      expect(onProgress).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ hashes: 1000, expectedHashes: 2 ** 20 }));
+    });
+
     it('should reset cancelled state for new solve', async () => {
       const challenge1: PowChallenge = {
         challenge: 'first-challenge',
@@ -247,3 +263,211 @@ describe('InlinePowSolver', () => {
     }, 20000); // 20 second timeout
   });
 });
+
+/**
+ * Stand-in for Worker, which jsdom does not provide
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  requests: unknown[] = [];
+  terminated = false;
+  private listeners = new Map<string, (event: unknown) => void>();
+
+  constructor(public url: string, public options: WorkerOptions) {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void): void {
+    this.listeners.set(type, listener);
+  }
+
+  postMessage(request: unknown): void {
+    this.requests.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  emit(type: string, event: unknown): void {
+    this.listeners.get(type)?.(event);
+  }
+}
+
+describe('WorkerPowSolver', () => {
+  const challenge: PowChallenge = { challenge: 'worker-challenge', difficulty: 4 };
+
+  afterEach(() => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+    FakeWorker.instances = [];
+  });
+
+  it('should fall back to the inline solver without workers', async () => {
+    expect(WorkerPowSolver.isSupported()).toBe(false);
+    const solution = await new WorkerPowSolver().solve(challenge);
+
+    expect(await powHashBits(solution.challenge, solution.nonce)).toBeGreaterThanOrEqual(challenge.difficulty);
+  });
+
+  it('should split the nonce space and take the first solution', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const solver = new WorkerPowSolver('pow-worker.js', 3);
+
+    const solving = solver.solve(challenge);
+    expect(FakeWorker.instances.map(worker => worker.requests)).toEqual([0, 1, 2].map(start => [
+      { challenge: challenge.challenge, difficulty: challenge.difficulty, start, stride: 3 }
+    ]));
+    expect(FakeWorker.instances[0].options).toEqual({ type: 'module' });
+    FakeWorker.instances[1].emit('message', { data: { kind: 'solved', nonce: 7 } });
+
+    await expect(solving).resolves.toEqual({ challenge: challenge.challenge, nonce: 7 });
+    expect(FakeWorker.instances.every(worker => worker.terminated)).toBe(true);
+  });
+
+  it('should report the hashes tried by all workers together', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const solver = new WorkerPowSolver('pow-worker.js', 2);
+    const onProgress = jest.fn();
+
+    const solving = solver.solve(challenge, onProgress);
+    FakeWorker.instances[0].emit('message', { data: { kind: 'progress', hashes: 1000 } });
+    FakeWorker.instances[1].emit('message', { data: { kind: 'progress', hashes: 1000 } });
+    FakeWorker.instances[0].emit('message', { data: { kind: 'progress', hashes: 2000 } });
+    FakeWorker.instances[0].emit('message', { data: { kind: 'solved', nonce: 4 } });
+    await solving;
+
+    expect(onProgress.mock.calls.map(([progress]) => progress.hashes)).toEqual([1000, 2000, 3000]);
+    expect(onProgress.mock.calls[0][0].expectedHashes).toBe(16);
+  });
+
+  it('should stop every worker when cancelled', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const solver = new WorkerPowSolver('pow-worker.js', 2);
+
+    const solving = solver.solve(challenge);
+    solver.cancel();
+
+    await expect(solving).rejects.toThrow('PoW solving cancelled');
+    expect(FakeWorker.instances.every(worker => worker.terminated)).toBe(true);
+  });
+
+  it('should fall back to the inline solver when a worker fails to load', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const solver = new WorkerPowSolver('pow-worker.js', 2);
+
+    const solving = solver.solve(challenge);
+    FakeWorker.instances.forEach(worker => worker.emit('error', new Event('error')));
+    const solution = await solving;
+
+    expect(await powHashBits(solution.challenge, solution.nonce)).toBeGreaterThanOrEqual(challenge.difficulty);
+    expect(FakeWorker.instances.every(worker => worker.terminated)).toBe(true);
+  });
+
+  it('should search only its own share of the nonce space', async () => {
+    const nonce = await searchNonces({ challenge: challenge.challenge, difficulty: challenge.difficulty, start: 2, stride: 5 });
+
+    expect(nonce % 5).toBe(2);
+    expect(await powHashBits(challenge.challenge, nonce)).toBeGreaterThanOrEqual(challenge.difficulty);
+  });
+});
+
+describe('PowPresolver', () => {
+  const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+  const setup = (expiresIn: number | null = 180) => {
+    let issued = 0;
+    const apiClient = {
+      getPowChallenge: jest.fn(async (): Promise<PowChallenge> => ({
+        challenge: `challenge-${++issued}`,
+        difficulty: 4,
+        ...(expiresIn === null ? {} : { expiresAt: nowSeconds() + expiresIn })
+      }))
+    } as unknown as IApiClient;
+    const solver = {
+      solve: jest.fn(async (challenge: PowChallenge) => ({ challenge: challenge.challenge, nonce: 7 })),
+      cancel: jest.fn()
+    };
+    return { apiClient, solver, presolver: new PowPresolver(apiClient, solver) };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hand out the solution solved in the background', async () => {
+    const { apiClient, solver, presolver } = setup();
+
+    presolver.start();
+    presolver.start();
+    const solution = await presolver.take();
+
+    expect(solution).toEqual({ challenge: 'challenge-1', nonce: 7 });
+    expect(apiClient.getPowChallenge).toHaveBeenCalledTimes(1);
+    expect(solver.solve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use each solution once', async () => {
+    const { presolver } = setup();
+
+    presolver.start();
+    await presolver.take();
+
+    await expect(presolver.take()).resolves.toEqual({ challenge: 'challenge-2', nonce: 7 });
+  });
+
+  it('should solve a fresh challenge when the background one expires soon', async () => {
+    const { solver, presolver } = setup(POW_EXPIRY_MARGIN_SECONDS - 5);
+
+    presolver.start();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    await expect(presolver.take()).resolves.toEqual({ challenge: 'challenge-2', nonce: 7 });
+    expect(solver.cancel).toHaveBeenCalled();
+  });
+
+  it('should not fetch or solve again while the page sits idle', async () => {
+    jest.useFakeTimers();
+    const { apiClient, solver, presolver } = setup(POW_EXPIRY_MARGIN_SECONDS + 60);
+
+    presolver.start();
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+    expect(apiClient.getPowChallenge).toHaveBeenCalledTimes(1);
+    expect(solver.solve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace an expiring background solution on the next edit', async () => {
+    jest.useFakeTimers();
+    const { apiClient, presolver } = setup(POW_EXPIRY_MARGIN_SECONDS + 60);
+
+    presolver.start();
+    await jest.advanceTimersByTimeAsync(30_000);
+    presolver.start();
+    expect(apiClient.getPowChallenge).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(31_000);
+    presolver.start();
+    expect(apiClient.getPowChallenge).toHaveBeenCalledTimes(2);
+    await expect(presolver.take()).resolves.toEqual({ challenge: 'challenge-2', nonce: 7 });
+  });
+
+  it('should retry now when the background attempt failed', async () => {
+    const { apiClient, presolver } = setup();
+    (apiClient.getPowChallenge as jest.Mock).mockRejectedValueOnce(new Error('Failed to fetch PoW challenge'));
+
+    presolver.start();
+
+    await expect(presolver.take()).resolves.toEqual({ challenge: 'challenge-1', nonce: 7 });
+    expect(apiClient.getPowChallenge).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resolve to null when the server does not require PoW', async () => {
+    const { apiClient, solver, presolver } = setup();
+    (apiClient.getPowChallenge as jest.Mock).mockResolvedValue(null);
+
+    presolver.start();
+
+    await expect(presolver.take()).resolves.toBeNull();
+    expect(solver.solve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for WorkerPasteCrypto
+ *
+ * Covers: operations run in the worker by message and come back with
+ * their ciphertext, keys, documents and progress; worker failures reject with their
+ * message; without workers, or when the worker fails to load, operations
+ * run in the page.
+ */
+
+import { WorkerPasteCrypto } from '../../../src/infrastructure/crypto/worker-crypto.js';
+import { performCryptoOperation } from '../../../src/infrastructure/crypto/crypto-operations.js';
+import type { CryptoWorkerMessage, CryptoWorkerRequest } from '../../../src/infrastructure/crypto/crypto-operations.js';
+import { EncryptionService } from '../../../src/core/services/encryption-service.js';
+import { decodeBase64Url } from '../../../src/core/crypto/encoding.js';
+
+/**
+ * Stand-in for Worker, which jsdom does not provide
+ *
+ * Performs requests with an EncryptionService as the crypto worker does,
+ * unless told to hold them.
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static hold = false;
+  requests: CryptoWorkerRequest[] = [];
+  terminated = false;
+  private listeners = new Map<string, (event: unknown) => void>();
+  private service = new EncryptionService();
+
+  constructor(public url: string, public options: WorkerOptions) {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void): void {
+    this.listeners.set(type, listener);
+  }
+
+  postMessage(request: CryptoWorkerRequest): void {
+    this.requests.push(request);
+    if (FakeWorker.hold) return;
+    const { id } = request;
+    const reply = (message: CryptoWorkerMessage): void => this.emit('message', { data: message });
+    void performCryptoOperation(this.service, request, fraction => reply({ id, kind: 'progress', fraction }))
+      .then(
+        value => reply({ id, kind: 'done', value }),
+        (error: Error) => reply({ id, kind: 'failed', message: error.message })
+      );
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  emit(type: string, event: unknown): void {
+    this.listeners.get(type)?.(event);
+  }
+}
+
+describe('WorkerPasteCrypto', () => {
+  const meta = { expireTs: 1900000000, mime: 'text/plain', allowChat: true };
+  const service = new EncryptionService();
+
+  afterEach(() => {
+    delete (globalThis as { Worker?: unknown }).Worker;
+    FakeWorker.instances = [];
+    FakeWorker.hold = false;
+  });
+
+  it('should derive keys and decrypt in the worker', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const encrypted = await service.encryptPasteWithLinkKey('secret text', meta);
+    const crypto = new WorkerPasteCrypto('crypto-worker.js');
+    const onProgress = jest.fn();
+
+    const keys = await crypto.deriveLinkKeys(encrypted.keyB64);
+    const document = await crypto.decryptPasteDocument(encrypted.ctB64, keys, encrypted.ivB64, meta, onProgress);
+
+    expect(document).toEqual({ body: 'secret text' });
+    expect(keys.deleteAuth).toBe(encrypted.deleteAuth);
+    expect(onProgress).toHaveBeenLastCalledWith(1);
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(FakeWorker.instances[0].url).toBe('crypto-worker.js');
+    expect(FakeWorker.instances[0].options).toEqual({ type: 'module' });
+    expect(FakeWorker.instances[0].requests.map(request => [request.id, request.kind])).toEqual([
+      [1, 'deriveLinkKeys'],
+      [2, 'decryptPasteDocument']
+    ]);
+  });
+
+  it('should encrypt in the worker and report its progress', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const crypto = new WorkerPasteCrypto('crypto-worker.js');
+    const onProgress = jest.fn();
+
+    const encrypted = await crypto.encryptPasteWithLinkKey('secret text', meta, undefined, onProgress);
+
+    expect(onProgress).toHaveBeenLastCalledWith(1);
+    expect(FakeWorker.instances[0].requests.map(request => request.kind)).toEqual(['encryptPasteWithLinkKey']);
+    const keys = await service.deriveLinkKeys(encrypted.keyB64);
+    await expect(service.decryptPasteDocument(encrypted.ctB64, keys, encrypted.ivB64, meta))
+      .resolves.toEqual({ body: 'secret text' });
+  });
+
+  it('should derive key-slot keys in the worker', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const crypto = new WorkerPasteCrypto('crypto-worker.js');
+
+    const encrypted = await crypto.encryptPasteWithKeySlots('secret text', meta, ['first password']);
+    const salt = new Uint8Array(decodeBase64Url(encrypted.keyB64));
+    const { slotKey } = await service.unlockKeySlots(encrypted.keySlotsB64!, 'first password', salt);
+    const keySlots = await crypto.addKeySlot(encrypted.keySlotsB64!, slotKey!, 'second password', salt);
+
+    expect(FakeWorker.instances[0].requests.map(request => request.kind)).toEqual([
+      'encryptPasteWithKeySlots',
+      'addKeySlot'
+    ]);
+    const keys = await service.unlockKeySlots(keySlots, 'second password', salt);
+    await expect(service.decryptPasteDocument(encrypted.ctB64, keys, encrypted.ivB64, meta))
+      .resolves.toEqual({ body: 'secret text' });
+  });
+
+  it('should reject with the message of a failure in the worker', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    const crypto = new WorkerPasteCrypto('crypto-worker.js');
+
+    await expect(crypto.deriveDeleteAuth('password', new Uint8Array(16), { algorithm: 'none' }))
+      .rejects.toThrow('Link-key pastes are not password protected');
+  });
+
+  it('should work in the page without workers', async () => {
+    expect(WorkerPasteCrypto.isSupported()).toBe(false);
+    const encrypted = await service.encryptPasteWithLinkKey('secret text', meta);
+    const crypto = new WorkerPasteCrypto();
+
+    const keys = await crypto.deriveLinkKeys(encrypted.keyB64);
+
+    await expect(crypto.decryptPasteDocument(encrypted.ctB64, keys, encrypted.ivB64, meta))
+      .resolves.toEqual({ body: 'secret text' });
+  });
+
+  it('should finish outstanding requests in the page when the worker fails to load', async () => {
+    (globalThis as { Worker?: unknown }).Worker = FakeWorker;
+    FakeWorker.hold = true;
+    const encrypted = await service.encryptPasteWithLinkKey('secret text', meta);
+    const crypto = new WorkerPasteCrypto('crypto-worker.js');
+
+    const deriving = crypto.deriveLinkKeys(encrypted.keyB64);
+    FakeWorker.instances[0].emit('error', new Event('error'));
+
+    expect((await deriving).deleteAuth).toBe(encrypted.deleteAuth);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    await crypto.deriveLinkKeys(encrypted.keyB64);
+    expect(FakeWorker.instances).toHaveLength(1);
+    expect(FakeWorker.instances[0].requests).toHaveLength(1);
+  });
+});
@@ -2,7 +2,8 @@
  * Tests for chat-view.ts
  *
  * Covers: auto-load on setup, 30s polling interval, clearInterval on unload,
- *         duplicate-initialization guard, silent polling (no loading text flash).
+ *         duplicate-initialization guard, silent polling (no loading text flash),
+ *         sending with the chat key or a key derived from the cached password.
  */
 
 import { ChatView } from '../../../src/presentation/components/chat-view.js';
@@ -43,7 +44,10 @@ function buildChatDom(container: HTMLElement): void {
 function makeMockUseCase(): jest.Mocked<ChatUseCase> {
   return {
     refreshMessages: jest.fn().mockResolvedValue({ messages: [] }),
-    sendMessage: jest.fn().mockResolvedValue({ success: true })
+    refreshMessagesWithKey: jest.fn().mockResolvedValue({ messages: [] }),
+    sendMessage: jest.fn().mockResolvedValue({ success: true }),
+    sendMessageWithKey: jest.fn().mockResolvedValue({ success: true }),
+    deriveChatKey: jest.fn().mockResolvedValue({ type: 'secret' } as CryptoKey)
   } as unknown as jest.Mocked<ChatUseCase>;
 }
 
@@ -193,3 +197,74 @@ describe('ChatView — auto-load and polling', () => {
     expect(chatInfoText.textContent).toContain('Auto-refreshing');
   });
 });
+
+describe('ChatView — sending', () => {
+  let container: HTMLElement;
+  let useCase: jest.Mocked<ChatUseCase>;
+  let chatView: ChatView;
+  const salt = new Uint8Array(16);
+
+  /** Let the send and the refresh after it run */
+  const flush = async (): Promise<void> => {
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+  };
+
+  const send = async (message: string): Promise<void> => {
+    (document.getElementById('chatInput') as HTMLInputElement).value = message;
+    (document.getElementById('usernameInput') as HTMLInputElement).value = 'alice';
+    document.getElementById('sendMessageBtn')!.click();
+    await flush();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    buildChatDom(container);
+
+    useCase = makeMockUseCase();
+    chatView = new ChatView(useCase);
+  });
+
+  afterEach(() => {
+    window.dispatchEvent(new Event('pagehide'));
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should send with the chat key from the paste view', async () => {
+    const chatKey = { type: 'secret' } as CryptoKey;
+    chatView.setup('paste-1', salt, undefined, chatKey);
+
+    await send('hello');
+
+    expect(useCase.deriveChatKey).not.toHaveBeenCalled();
+    expect(useCase.sendMessageWithKey).toHaveBeenCalledWith('paste-1', 'hello', 'alice', chatKey);
+    expect((document.getElementById('chatInput') as HTMLInputElement).value).toBe('');
+  });
+
+  it('should send with a key derived from the cached password', async () => {
+    chatView.setup('paste-2', salt, 'my-password');
+
+    await send('hello');
+
+    expect(useCase.deriveChatKey).toHaveBeenCalledWith('my-password', salt);
+    const derivedKey = await useCase.deriveChatKey.mock.results[0].value;
+    expect(useCase.sendMessageWithKey).toHaveBeenCalledWith('paste-2', 'hello', 'alice', derivedKey);
+  });
+
+  it('should show the error and re-enable the input when sending fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    useCase.sendMessageWithKey.mockResolvedValue({ success: false, error: 'Paste not found or expired' });
+    chatView.setup('paste-3', salt, 'my-password');
+
+    await send('hello');
+
+    const input = document.getElementById('chatInput') as HTMLInputElement;
+    expect(input.value).toBe('hello');
+    expect(input.disabled).toBe(false);
+    expect((document.getElementById('sendMessageBtn') as HTMLButtonElement).disabled).toBe(false);
+    expect(container.textContent).toContain('Paste not found or expired');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for content-renderers.ts
+ *
+ * Covers: content type of a decrypted paste, which renderers accept it,
+ * the image renderer releasing its Blob URL, CSV parsing, heading ids and
+ * permalinks, and that renderers only put paste text into the DOM as text.
+ */
+
+import {
+  contentTypeOf,
+  getRenderer,
+  parseCsv,
+  registerRenderer,
+  renderersFor,
+  slugify
+} from '../../../src/presentation/components/content-renderers.js';
+import type { RenderDisposer, RenderInput } from '../../../src/presentation/components/content-renderers.js';
+import { createAttachment, pasteImage } from '../../../src/core/utils/paste-document.js';
+
+const textPaste = (body: string, language?: string): RenderInput => ({ document: { body, language }, image: null });
+
+describe('content renderers', () => {
+  it('should derive the content type from the encrypted language', () => {
+    expect(contentTypeOf(textPaste('# notes'))).toBe('markdown');
+    expect(contentTypeOf(textPaste('log', 'plaintext'))).toBe('text');
+    expect(contentTypeOf(textPaste('{}', 'json'))).toBe('json');
+    expect(contentTypeOf(textPaste('a,b', 'csv'))).toBe('csv');
+    expect(contentTypeOf(textPaste('+x', 'diff'))).toBe('diff');
+    expect(contentTypeOf(textPaste('fn main() {}', 'rust'))).toBe('code');
+  });
+
+  it('should offer the image renderer for image pastes only', () => {
+    const png = createAttachment('shot.png', 'image/png', new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    const document = { body: '', attachments: [png] };
+    const imageInput = { document, image: pasteImage(document) };
+
+    expect(contentTypeOf(imageInput)).toBe('image');
+    expect(renderersFor(imageInput).map(renderer => renderer.id)).toEqual(['image']);
+    expect(renderersFor(textPaste('x')).map(renderer => renderer.id))
+      .toEqual(['text', 'markdown', 'code', 'json', 'csv', 'diff']);
+  });
+
+  it('should revoke the Blob URL of an image through the disposer it returns', () => {
+    const png = createAttachment('shot.png', 'image/png', new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    const document = { body: '', attachments: [png] };
+    const createObjectURL = jest.fn(() => 'blob:image');
+    const revokeObjectURL = jest.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const addEventListener = jest.spyOn(window, 'addEventListener');
+
+    try {
+      const container = window.document.createElement('div');
+      const dispose = getRenderer('image')!.render(container, { document, image: pasteImage(document) }) as RenderDisposer;
+
+      expect(createObjectURL).toHaveBeenCalledTimes(1);
+      expect(addEventListener).not.toHaveBeenCalled();
+      expect(revokeObjectURL).not.toHaveBeenCalled();
+      dispose();
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:image');
+    } finally {
+      addEventListener.mockRestore();
+    }
+  });
+
+  it('should parse quoted CSV fields and stop at the row limit', () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n1,"two\nlines",3\n').rows)
+      .toEqual([['a', 'b,c', 'say "hi"'], ['1', 'two\nlines', '3']]);
+    expect(parseCsv('x,,\n').rows).toEqual([['x', '', '']]);
+    expect(parseCsv('1\n2\n3\n', 2)).toEqual({ rows: [['1'], ['2']], truncated: true });
+  });
+
+  it('should render paste text as text, never as markup', () => {
+    const container = document.createElement('div');
+    const hostile = '<img src=x onerror=alert(1)>';
+
+    getRenderer('csv')!.render(container, textPaste(`name\n${hostile}`));
+    expect(container.querySelector('td')!.textContent).toBe(hostile);
+    expect(container.querySelector('img')).toBeNull();
+
+    getRenderer('diff')!.render(container, textPaste(`@@ -1 +1 @@\n-old\n+${hostile}`));
+    expect(Array.from(container.querySelectorAll('span')).map(span => span.className))
+      .toEqual(['diff-hunk', 'diff-del', 'diff-add']);
+    expect(container.querySelector('img')).toBeNull();
+
+    getRenderer('json')!.render(container, textPaste(`{"html":"${hostile}"}`));
+    expect(container.textContent).toBe(JSON.stringify({ html: hostile }, null, 2));
+
+    getRenderer('text')!.render(container, textPaste(hostile));
+    expect(container.textContent).toBe(hostile);
+    expect(container.querySelector('img')).toBeNull();
+  });
+
+  it('should give markdown headings stable ids and permalinks', () => {
+    const globals = globalThis as unknown as { marked?: { parse: (text: string) => string } };
+    globals.marked = { parse: (text: string) => text };
+    try {
+      const container = document.createElement('div');
+      getRenderer('markdown')!.render(container, textPaste(
+        '<h1>Getting Started!</h1><h2>Usage</h2><h2>Usage</h2><h3 id="content">Mine</h3><img name="cookie" src="data:,">'
+      ));
+      const headings = Array.from(container.querySelectorAll('h1, h2, h3'));
+      expect(headings.map(heading => heading.id))
+        .toEqual(['paste-getting-started', 'paste-usage', 'paste-usage-1', 'paste-content']);
+      expect(headings.map(heading => heading.querySelector('a.heading-anchor')!.getAttribute('href')))
+        .toEqual(['#getting-started', '#usage', '#usage-1', '#content']);
+      expect(container.querySelector('img')!.getAttribute('name')).toBe('paste-cookie');
+    } finally {
+      delete globals.marked;
+    }
+    expect(slugify('  Ünïcode & Spaces  here ')).toBe('ünïcode-spaces-here');
+  });
+
+  it('should let a renderer be replaced by content type', () => {
+    const original = getRenderer('text')!;
+    const render = jest.fn();
+    registerRenderer({ ...original, render });
+    try {
+      const container = document.createElement('div');
+      getRenderer('text')!.render(container, textPaste('x'));
+      expect(render).toHaveBeenCalledWith(container, textPaste('x'));
+    } finally {
+      registerRenderer(original);
+    }
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for fragment-router.ts
+ *
+ * Covers: anchors written after the key material, interception of in-page
+ * links, and restoring the keys when the fragment loses them.
+ */
+
+import { FragmentRouter, findAnchorTarget } from '../../../src/presentation/components/fragment-router.js';
+import { PasteService } from '../../../src/core/services/paste-service.js';
+
+describe('FragmentRouter', () => {
+  const keys = { salt: 'c2FsdA', iv: 'aXY' };
+
+  beforeEach(() => {
+    history.replaceState(null, '', '/view.html?p=abc#c2FsdA:aXY');
+    document.body.innerHTML = '<div id="content"><h2 id="paste-usage">Usage</h2>' +
+      '<a id="link" href="#usage">see usage</a><a id="lines" href="#L3">line 3</a>' +
+      '<a id="external" href="https://example.com/">elsewhere</a></div>';
+  });
+
+  it('should keep the keys in front of anchors', () => {
+    const router = new FragmentRouter(new PasteService(), keys);
+    router.navigate({ kind: 'lines', range: { start: 4, end: 9 } });
+    expect(location.hash).toBe('#c2FsdA:aXY/L4-L9');
+    expect(location.search).toBe('?p=abc');
+    router.navigate(null);
+    expect(location.hash).toBe('#c2FsdA:aXY');
+  });
+
+  it('should turn in-page links into heading anchors', () => {
+    const router = new FragmentRouter(new PasteService(), keys);
+    const content = document.getElementById('content')!;
+    const onHeading = jest.fn();
+    router.interceptLinks(content, onHeading);
+
+    const link = document.getElementById('link')!;
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+    link.dispatchEvent(event);
+    expect(event.defaultPrevented).toBe(true);
+    expect(onHeading).toHaveBeenCalledWith('usage');
+    expect(location.hash).toBe('#c2FsdA:aXY/usage');
+    expect(findAnchorTarget(content, 'usage')).toBe(content.querySelector('h2'));
+
+    // Links to lines are not headings and leave the fragment alone
+    document.getElementById('lines')!.click();
+    expect(onHeading).toHaveBeenCalledTimes(1);
+    expect(location.hash).toBe('#c2FsdA:aXY/usage');
+
+    const external = new MouseEvent('click', { bubbles: true, cancelable: true });
+    document.getElementById('external')!.dispatchEvent(external);
+    expect(external.defaultPrevented).toBe(false);
+  });
+
+  it('should put the keys back when the fragment loses them', () => {
+    const router = new FragmentRouter(new PasteService(), keys);
+    const listener = jest.fn();
+    router.start(listener);
+
+    history.replaceState(null, '', '#usage');
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    expect(location.hash).toBe('#c2FsdA:aXY/usage');
+    expect(listener).toHaveBeenLastCalledWith({ kind: 'heading', id: 'usage' });
+
+    history.replaceState(null, '', '#c2FsdA:aXY/L2');
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    expect(listener).toHaveBeenLastCalledWith({ kind: 'lines', range: { start: 2, end: 2 } });
+
+    // Both events fire for one change; the second is ignored
+    window.dispatchEvent(new PopStateEvent('popstate'));
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for line-numbers.ts
+ *
+ * Covers: gutter size, click and shift-click selection, clamping of ranges
+ * beyond the last line, and the copy exclusion marker.
+ */
+
+import { addLineNumbers } from '../../../src/presentation/components/line-numbers.js';
+
+describe('addLineNumbers', () => {
+  const render = (text: string): { container: HTMLElement; pre: HTMLElement } => {
+    const container = document.createElement('div');
+    const pre = document.createElement('pre');
+    pre.textContent = text;
+    container.appendChild(pre);
+    document.body.replaceChildren(container);
+    return { container, pre };
+  };
+
+  const click = (container: HTMLElement, line: number, shiftKey = false): void => {
+    container.querySelector<HTMLElement>(`[data-line="${line}"]`)!
+      .dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey }));
+  };
+
+  const selectedLines = (container: HTMLElement): string[] =>
+    Array.from(container.querySelectorAll<HTMLElement>('.line-number.selected')).map(n => n.dataset.line!);
+
+  it('should number every line, ignoring a final line break', () => {
+    const { container, pre } = render('a\nb\nc\n');
+    const gutter = addLineNumbers(pre, () => {});
+    expect(gutter.lineCount).toBe(3);
+    expect(container.querySelectorAll('.line-number')).toHaveLength(3);
+    expect(container.querySelector('.numbered-lines > pre')).toBe(pre);
+    expect(container.querySelector('.line-gutter')!.hasAttribute('data-copy-exclude')).toBe(true);
+  });
+
+  it('should select a line on click and extend the range on shift-click', () => {
+    const { container, pre } = render('1\n2\n3\n4\n5\n6');
+    const onSelect = jest.fn();
+    addLineNumbers(pre, onSelect);
+
+    click(container, 5);
+    expect(onSelect).toHaveBeenLastCalledWith({ start: 5, end: 5 });
+    click(container, 2, true);
+    expect(onSelect).toHaveBeenLastCalledWith({ start: 2, end: 5 });
+    expect(selectedLines(container)).toEqual(['2', '3', '4', '5']);
+    click(container, 6, true);
+    expect(onSelect).toHaveBeenLastCalledWith({ start: 5, end: 6 });
+    expect(selectedLines(container)).toEqual(['5', '6']);
+  });
+
+  it('should clamp ranges to the lines there are', () => {
+    const { container, pre } = render('1\n2\n3');
+    const gutter = addLineNumbers(pre, () => {});
+    expect(gutter.select({ start: 2, end: 40 })).toEqual({ start: 2, end: 3 });
+    expect(container.querySelector<HTMLElement>('.line-highlight')!.hidden).toBe(false);
+    expect(gutter.select({ start: 9, end: 12 })).toBeNull();
+    expect(selectedLines(container)).toEqual([]);
+    expect(container.querySelector<HTMLElement>('.line-highlight')!.hidden).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for loading-indicator.ts
+ *
+ * Covers: the detail line, the list of steps and the Cancel button appear
+ * only while they are asked for, and Cancel calls its handler once.
+ */
+
+import { LoadingIndicator } from '../../../src/presentation/components/loading-indicator.js';
+
+describe('LoadingIndicator', () => {
+  beforeEach(() => {
+    document.body.replaceChildren();
+  });
+
+  const element = <T extends HTMLElement>(selector: string): T => document.querySelector<T>(selector)!;
+
+  it('should show a detail line and Cancel button only while they are set', () => {
+    const indicator = new LoadingIndicator();
+    indicator.show({ message: 'Encrypting...' });
+    expect(element('.loading-detail').hidden).toBe(true);
+    expect(element('.loading-cancel').hidden).toBe(true);
+
+    indicator.update({ message: 'Solving...', showProgress: true, progress: 40, detail: 'about 3 s left', onCancel: () => {} });
+    expect(element('.loading-detail').textContent).toBe('about 3 s left');
+    expect(element('.loading-detail').hidden).toBe(false);
+    expect(element('.loading-cancel').hidden).toBe(false);
+    expect(element('.loading-progress-bar').style.width).toBe('40%');
+
+    indicator.update({ message: 'Uploading...' });
+    expect(element('.loading-detail').hidden).toBe(true);
+    expect(element('.loading-cancel').hidden).toBe(true);
+  });
+
+  it('should call the cancel handler once and hide the button', () => {
+    const indicator = new LoadingIndicator();
+    const onCancel = jest.fn();
+    indicator.show({ message: 'Solving...', onCancel });
+
+    const cancel = element<HTMLButtonElement>('.loading-cancel');
+    cancel.click();
+    cancel.click();
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(cancel.hidden).toBe(true);
+  });
+
+  it('should list the steps with their state and detail', () => {
+    const indicator = new LoadingIndicator();
+    indicator.show({ message: 'Creating paste...' });
+    expect(element('.loading-steps').hidden).toBe(true);
+
+    indicator.update({
+      message: 'Creating paste...',
+      steps: [
+        { label: 'Check', state: 'done' },
+        { label: 'Encrypt', state: 'active', detail: '40%' },
+        { label: 'Upload', state: 'pending' }
+      ]
+    });
+
+    const items = Array.from(document.querySelectorAll('.loading-step'));
+    expect(element('.loading-steps').hidden).toBe(false);
+    expect(items.map(item => item.className)).toEqual([
+      'loading-step loading-step-done',
+      'loading-step loading-step-active',
+      'loading-step loading-step-pending'
+    ]);
+    expect(items[1].getAttribute('aria-current')).toBe('step');
+    expect(items[1].querySelector('.loading-step-detail')?.textContent).toBe('40%');
+
+    indicator.update({ message: 'Done' });
+    expect(element('.loading-steps').hidden).toBe(true);
+  });
+});
@@ -2,10 +2,18 @@
  * Tests for paste-creator-view.ts
  *
  * Covers: editor tab toggle, paste creation form submission,
- *         submit from Preview tab (switches to Write, reads content correctly).
+ *         submit from Preview tab (switches to Write, reads content correctly),
+ *         view limits from the burn-after-reading and maximum views inputs,
+ *         proof-of-work progress text, creation stages in the loading
+ *         indicator and Cancel aborting the creation.
  */
 
-import { PasteCreatorView } from '../../../src/presentation/components/paste-creator-view.js';
+import {
+  PasteCreatorView,
+  describePowProgress,
+  showCreateStages
+} from '../../../src/presentation/components/paste-creator-view.js';
+import * as loadingIndicator from '../../../src/presentation/components/loading-indicator.js';
 import { CreatePasteUseCase } from '../../../src/application/use-cases/create-paste-use-case.js';
 import * as uiManager from '../../../src/ui/ui-manager.js';
 import * as storage from '../../../src/utils/storage.js';
@@ -82,7 +90,9 @@ describe('PasteCreatorView', () => {
       await view.handleSubmit();
 
       expect(mockUseCase.execute).toHaveBeenCalledWith(
-        expect.objectContaining({ content: '**hello** world' })
+        expect.objectContaining({ content: '**hello** world' }),
+        expect.any(Function),
+        expect.any(AbortSignal)
       );
     });
 
@@ -126,5 +136,96 @@ describe('PasteCreatorView', () => {
       expect(textarea.hidden).toBe(false);
       expect(preview.hidden).toBe(true);
     });
+
+    it('should send the view limit, with burn after reading as a single view', async () => {
+      document.body.innerHTML = `
+        <textarea id="paste">content</textarea>
+        <input id="mins" value="60">
+        <input id="password" value="pass">
+        <input type="checkbox" id="single">
+        <input type="number" id="views">
+      `;
+      (mockUseCase.execute as jest.Mock).mockResolvedValue({
+        value: { id: 'x', deleteToken: 'y', shareUrl: 'u', deleteUrl: 'd' }
+      });
+      const view = new PasteCreatorView(mockUseCase);
+      const single = document.getElementById('single') as HTMLInputElement;
+      const views = document.getElementById('views') as HTMLInputElement;
+
+      await view.handleSubmit();
+      views.value = '5';
+      await view.handleSubmit();
+      single.checked = true;
+      await view.handleSubmit();
+
+      const commands = (mockUseCase.execute as jest.Mock).mock.calls.map(call => call[0]);
+      expect(commands.map(command => command.maxViews)).toEqual([undefined, 5, 1]);
+    });
+  });
+
+  describe('describePowProgress', () => {
+    it('should give the hash rate and the time left at that rate', () => {
+      expect(describePowProgress({ hashes: 1000, hashRate: 2000, expectedHashes: 11000 }))
+        .toBe(`${(2000).toLocaleString()} hashes/s, about 5 s left`);
+      expect(describePowProgress({ hashes: 0, hashRate: 100, expectedHashes: 2 ** 16 })).toMatch(/about 11 min left$/);
+      expect(describePowProgress({ hashes: 5000, hashRate: 1000, expectedHashes: 4096 })).toMatch(/taking longer than usual$/);
+      expect(describePowProgress({ hashes: 0, hashRate: 0, expectedHashes: 1024 })).toBe('0 hashes/s');
+    });
+  });
+
+  describe('showCreateStages', () => {
+    beforeEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should show each stage and the creation as a whole', () => {
+      const update = jest.spyOn(loadingIndicator, 'updateLoading').mockImplementation(() => {});
+      const onEvent = showCreateStages(() => {});
+
+      onEvent({ kind: 'completed', stage: 'validating' });
+      onEvent({ kind: 'started', stage: 'encrypting' });
+      onEvent({ kind: 'progress', stage: 'encrypting', fraction: 0.5 });
+
+      const [message, progress, , onCancel, steps] = update.mock.calls[2];
+      expect(message).toBe('Creating paste...');
+      expect(progress).toBe(38);
+      expect(onCancel).toEqual(expect.any(Function));
+      expect(steps).toEqual([
+        { label: 'Check', state: 'done', detail: undefined },
+        { label: 'Encrypt', state: 'active', detail: '50%' },
+        { label: 'Proof of work', state: 'pending', detail: undefined },
+        { label: 'Upload', state: 'pending', detail: undefined }
+      ]);
+    });
+
+    it('should hide Cancel once the upload completes', () => {
+      const update = jest.spyOn(loadingIndicator, 'updateLoading').mockImplementation(() => {});
+      const onEvent = showCreateStages(() => {});
+
+      onEvent({ kind: 'completed', stage: 'uploading' });
+
+      expect(update.mock.calls[0][3]).toBeUndefined();
+    });
+
+    it('should abort the creation from the Cancel button', async () => {
+      document.body.innerHTML = '<textarea id="paste">hello</textarea><input id="password" value="secret">';
+      let signal: AbortSignal | undefined;
+      const useCase = {
+        execute: jest.fn(async (_command, onEvent, executeSignal: AbortSignal) => {
+          signal = executeSignal;
+          onEvent({ kind: 'started', stage: 'solving' });
+          return { success: false, error: 'Paste creation cancelled.' };
+        })
+      } as unknown as CreatePasteUseCase;
+      const update = jest.spyOn(loadingIndicator, 'updateLoading').mockImplementation(() => {});
+      jest.spyOn(uiManager, 'showLoading').mockImplementation(() => {});
+      jest.spyOn(uiManager, 'showError').mockImplementation(() => {});
+
+      await new PasteCreatorView(useCase).handleSubmit();
+      const onCancel = update.mock.calls[0][3]!;
+      onCancel();
+
+      expect(signal?.aborted).toBe(true);
+    });
   });
 });
@@ -0,0 +1,43 @@
+/**
+ * Tests for reveal-gate.ts
+ *
+ * Covers: the gate is shown until a trusted click, and clicks dispatched
+ * by scripts do not get past it. jsdom only dispatches untrusted events,
+ * so the trusted click calls the listener directly.
+ */
+
+import { waitForReveal } from '../../../src/presentation/components/reveal-gate.js';
+
+describe('waitForReveal', () => {
+  const setup = (): { gate: HTMLElement; button: HTMLButtonElement } => {
+    document.body.innerHTML = '<div id="revealGate" hidden><button id="revealBtn">Continue</button></div>';
+    return {
+      gate: document.getElementById('revealGate')!,
+      button: document.getElementById('revealBtn') as HTMLButtonElement
+    };
+  };
+
+  it('should ignore clicks dispatched by scripts', async () => {
+    const { gate, button } = setup();
+    const revealed = jest.fn();
+
+    void waitForReveal(gate, button).then(revealed);
+    button.click();
+    await Promise.resolve();
+
+    expect(gate.hidden).toBe(false);
+    expect(revealed).not.toHaveBeenCalled();
+  });
+
+  it('should hide the gate and resolve on a trusted click', async () => {
+    const { gate, button } = setup();
+    const addListener = jest.spyOn(button, 'addEventListener');
+
+    const revealed = waitForReveal(gate, button);
+    const onClick = addListener.mock.calls[0][1] as (event: Partial<Event>) => void;
+    onClick({ isTrusted: true });
+
+    await expect(revealed).resolves.toBeUndefined();
+    expect(gate.hidden).toBe(true);
+  });
+});
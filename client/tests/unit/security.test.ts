@@ -63,6 +63,14 @@ describe('secureClearBuffer', () => {
   it('should handle empty buffers', () => {
     expect(() => secureClearBuffer(new ArrayBuffer(0))).not.toThrow();
   });
+
+  it('should clear buffers larger than one getRandomValues call', () => {
+    const buffer = new ArrayBuffer(200000);
+    new Uint8Array(buffer).fill(0xFF);
+
+    expect(() => secureClearBuffer(buffer)).not.toThrow();
+    expect(new Uint8Array(buffer, 199000).every(byte => byte === 0xFF)).toBe(false);
+  });
 });
 
 describe('getSafeErrorMessage', () => {
@@ -91,7 +91,7 @@ client_max_body_size 1m;
 large_client_header_buffers 2 1k;
 
 # Disable unnecessary methods
-if ($request_method !~ ^(GET|HEAD|POST|DELETE|OPTIONS)$ ) {
+if ($request_method !~ ^(GET|HEAD|POST|PUT|DELETE|OPTIONS)$ ) {
     return 405;
 }
 
@@ -8,18 +8,26 @@
 /**
  * Request body for creating a new paste
  * 
+ * Either ct carries the whole ciphertext, or ctSize announces a chunked
+ * upload: the paste is created empty and its ciphertext is then uploaded
+ * with PUT /api/pastes/{id}/chunks/{index}.
+ * 
  * @property ct Ciphertext - the encrypted paste content (base64url encoded)
+ * @property ctSize Decoded size of the ciphertext of a chunked upload, in bytes
  * @property iv Initialization vector for AES-GCM encryption (base64url encoded)
  * @property meta Metadata about the paste (expiration, view limits, etc.)
  * @property pow Optional proof-of-work solution (required if PoW is enabled)
  * @property deleteAuth Password-derived delete authorization (allows viewers to delete)
+ * @property keySlots Optional password key slots (base64url encoded, opaque to the server)
  */
 data class CreatePasteRequest(
-    val ct: String,
+    val ct: String? = null,
+    val ctSize: Int? = null,
     val iv: String,
     val meta: PasteMeta,
     val pow: PowSubmission? = null,
-    val deleteAuth: String? = null
+    val deleteAuth: String? = null,
+    val keySlots: String? = null
 )
 
 /**
@@ -29,12 +37,14 @@ data class CreatePasteRequest(
  * @property mime MIME type hint for the content (e.g., "text/plain")
  * @property allowKeyCaching If true, viewers can cache decryption key for chat convenience
  * @property allowChat If true, viewers can use anonymous chat for this paste
+ * @property maxViews Number of times the paste can be retrieved before it is deleted (null for unlimited)
  */
 data class PasteMeta(
     val expireTs: Long,
     val mime: String? = null,
     val allowKeyCaching: Boolean? = null,
-    val allowChat: Boolean? = null
+    val allowChat: Boolean? = null,
+    val maxViews: Int? = null
 )
 
 /**
@@ -56,11 +66,42 @@ data class CreatePasteResponse(val id: String, val deleteToken: String)
 /**
  * Payload returned when retrieving a paste
  * 
- * @property ct Ciphertext - the encrypted paste content
+ * A chunked retrieval of a paste larger than one transfer chunk leaves out
+ * ct. The ciphertext is then read with GET /api/pastes/{id}/chunks/{index},
+ * using readToken.
+ * 
+ * @property ct Ciphertext - the encrypted paste content (null when it is read in chunks)
  * @property iv Initialization vector for decryption
  * @property meta Original metadata from paste creation
+ * @property keySlots Password key slots, if the paste has any
+ * @property viewsRemaining Retrievals left after this one for view-limited pastes (0 means the paste was deleted)
+ * @property ctSize Decoded size of the ciphertext, when it is read in chunks
+ * @property readToken Token for reading the ciphertext chunks of this view
+ */
+data class PastePayload(
+    val ct: String?,
+    val iv: String,
+    val meta: PasteMeta,
+    val keySlots: String? = null,
+    val viewsRemaining: Int? = null,
+    val ctSize: Int? = null,
+    val readToken: String? = null
+)
+
+/**
+ * Request body for uploading one ciphertext chunk of a paste
+ *
+ * @property deleteToken Deletion token returned when the paste was created
+ * @property data Chunk of the ciphertext (base64url encoded)
+ */
+data class UploadChunkRequest(val deleteToken: String, val data: String)
+
+/**
+ * One ciphertext chunk of a paste
+ *
+ * @property data Chunk of the ciphertext (base64url encoded)
  */
-data class PastePayload(val ct: String, val iv: String, val meta: PasteMeta)
+data class PasteChunk(val data: String)
 
 /**
  * Error response format
@@ -85,6 +126,13 @@ data class HealthStatus(
     val databaseHealthy: Boolean = true
 )
 
+/**
+ * Paste limits published to clients, so they can validate before uploading
+ *
+ * @property maxSizeBytes Maximum decoded size of a paste's ciphertext in bytes
+ */
+data class PasteLimits(val maxSizeBytes: Int)
+
 /**
  * Request body for posting a chat message
  *
@@ -123,6 +171,14 @@ data class ChatMessage(
  */
 data class GetChatMessagesResponse(val messages: List<ChatMessage>)
 
+/**
+ * Request body for replacing the password key slots of a paste
+ *
+ * @property deleteToken Deletion token returned when the paste was created
+ * @property keySlots New password key slots (base64url encoded, opaque to the server)
+ */
+data class UpdateKeySlotsRequest(val deleteToken: String, val keySlots: String)
+
 /**
  * Request body for password-based paste deletion
  *
@@ -4,9 +4,13 @@
  * This file defines all the REST API endpoints for the delerium-paste application:
  * - GET  /api/health - Lightweight service health check
  * - GET  /api/pow - Request a proof-of-work challenge
- * - POST /api/pastes - Create a new encrypted paste
- * - GET  /api/pastes/{id} - Retrieve an encrypted paste
+ * - GET  /api/limits - Paste size limits for client-side validation
+ * - POST /api/pastes - Create a new encrypted paste (or start a chunked upload)
+ * - PUT  /api/pastes/{id}/chunks/{index} - Upload one ciphertext chunk with deletion token
+ * - GET  /api/pastes/{id} - Retrieve an encrypted paste (counts a view for view-limited pastes)
+ * - GET  /api/pastes/{id}/chunks/{index}?read=... - Read one ciphertext chunk of a view
  * - DELETE /api/pastes/{id}?token=... - Delete a paste with deletion token
+ * - POST /api/pastes/{id}/slots - Replace password key slots with deletion token
  *
  * All endpoints include appropriate validation and error handling.
  */
@@ -19,10 +23,27 @@ import io.ktor.server.routing.Routing
 import io.ktor.server.routing.delete
 import io.ktor.server.routing.get
 import io.ktor.server.routing.post
+import io.ktor.server.routing.put
 import io.ktor.server.routing.route
 import io.ktor.server.routing.head
 import io.ktor.server.application.ApplicationCall
 
+/**
+ * Maximum decoded size of a paste's password key slots
+ */
+private const val MAX_KEY_SLOTS_BYTES = 4096
+
+/**
+ * Check that optional key slots are within the size limit
+ */
+private fun keySlotsSizeValid(keySlots: String): Boolean =
+    base64UrlSize(keySlots) in 1..MAX_KEY_SLOTS_BYTES
+
+/**
+ * Largest view limit a paste can be created with
+ */
+private const val MAX_VIEWS = 100
+
 /**
  * Configure all API routes
  * 
@@ -80,6 +101,14 @@ fun Routing.apiRoutes(repo: PasteRepo, rl: TokenBucket?, pow: PowService?, cfg:
             if (cfg.powEnabled && pow != null) call.respond(pow.newChallenge())
             else call.respond(HttpStatusCode.NoContent)
         }
+        /**
+         * GET /api/limits
+         * Paste size limits, so clients can reject content that is too
+         * large before encrypting and uploading it
+         */
+        get("/limits") {
+            call.respond(PasteLimits(maxSizeBytes = cfg.maxSizeBytes))
+        }
         /**
          * POST /api/pastes
          * Create a new encrypted paste
@@ -88,8 +117,13 @@ fun Routing.apiRoutes(repo: PasteRepo, rl: TokenBucket?, pow: PowService?, cfg:
          * 1. Rate limiting (if enabled)
          * 2. JSON parsing and validation
          * 3. Proof-of-work verification (if enabled)
-         * 4. Size validation (content and IV)
+         * 4. Size validation (content, IV and key slots)
          * 5. Expiration time validation
+         * 6. View limit validation (1 to 100 views, if set)
+         * 
+         * With ctSize instead of ct, the paste is created empty and its
+         * ciphertext is uploaded in chunks afterwards. It cannot be
+         * retrieved until the last chunk is in.
          * 
          * Returns 201 with paste ID and deletion token on success
          */
@@ -112,34 +146,102 @@ fun Routing.apiRoutes(repo: PasteRepo, rl: TokenBucket?, pow: PowService?, cfg:
                     call.respond(HttpStatusCode.BadRequest, ErrorResponse("pow_invalid")); return@post
                 }
             }
-            val ctSize = base64UrlSize(body.ct)
+            if ((body.ct == null) == (body.ctSize == null)) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("size_invalid")); return@post
+            }
+            val ctSize = body.ctSize ?: base64UrlSize(body.ct ?: "")
             val ivSize = base64UrlSize(body.iv)
             if (ctSize <= 0 || ivSize !in 12..64 || ctSize > cfg.maxSizeBytes) {
                 call.respond(HttpStatusCode.BadRequest, ErrorResponse("size_invalid")); return@post
             }
+            if (body.keySlots != null && !keySlotsSizeValid(body.keySlots)) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("key_slots_invalid")); return@post
+            }
             if (body.meta.expireTs <= (System.currentTimeMillis()/1000L) + 10) {
                 call.respond(HttpStatusCode.BadRequest, ErrorResponse("expiry_too_soon")); return@post
             }
+            if (body.meta.maxViews != null && body.meta.maxViews !in 1..MAX_VIEWS) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("views_invalid")); return@post
+            }
             val id = Ids.randomId(cfg.idLength)
             val deleteToken = Ids.randomId(24)
             try {
-                repo.create(id, body.ct, body.iv, body.meta, deleteToken, body.deleteAuth)
+                if (body.ct != null) {
+                    repo.create(id, body.ct, body.iv, body.meta, deleteToken, body.deleteAuth, body.keySlots)
+                } else {
+                    repo.createUpload(id, ctSize, body.iv, body.meta, deleteToken, body.deleteAuth, body.keySlots)
+                }
                 call.respond(HttpStatusCode.Created, CreatePasteResponse(id, deleteToken))
             } catch (_: Exception) {
                 call.respond(HttpStatusCode.InternalServerError, ErrorResponse("db_error"))
             }
         }
+        /**
+         * PUT /api/pastes/{id}/chunks/{index}
+         * Upload one ciphertext chunk of a paste created with ctSize (creator-only)
+         *
+         * Every chunk but the last is TRANSFER_CHUNK_BYTES long. Chunks can
+         * arrive in any order, and uploading one again replaces it. The paste
+         * becomes available when the last missing chunk arrives.
+         *
+         * Returns 403 Forbidden if the token doesn't match or the paste is not waiting for chunks.
+         * Returns 400 if the index is out of range or the chunk has the wrong size.
+         * Returns 204 No Content on success.
+         */
+        put("/pastes/{id}/chunks/{index}") {
+            val id = call.parameters["id"] ?: return@put call.respond(HttpStatusCode.BadRequest)
+            val index = call.parameters["index"]?.toIntOrNull() ?: return@put call.respond(
+                HttpStatusCode.BadRequest, ErrorResponse("chunk_invalid"))
+            val body = try { call.receive<UploadChunkRequest>() } catch (_: Exception) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("invalid_json")); return@put
+            }
+            if (body.deleteToken.isBlank()) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("missing_token")); return@put
+            }
+            when (repo.putChunkIfTokenMatches(id, body.deleteToken, index, body.data)) {
+                ChunkUploadResult.STORED, ChunkUploadResult.ASSEMBLED -> call.respond(HttpStatusCode.NoContent)
+                ChunkUploadResult.INVALID_TOKEN -> call.respond(HttpStatusCode.Forbidden, ErrorResponse("invalid_token"))
+                ChunkUploadResult.INVALID_CHUNK -> call.respond(HttpStatusCode.BadRequest, ErrorResponse("chunk_invalid"))
+            }
+        }
         /**
          * GET /api/pastes/{id}
          * Retrieve an encrypted paste
          * 
-         * Returns 404 if the paste doesn't exist or has expired.
+         * Each retrieval of a view-limited paste counts as a view, and the
+         * paste is deleted when it returns the last one.
+         * 
+         * With ?chunked=true, ciphertext larger than one chunk is left out,
+         * and the payload carries ctSize and a readToken for reading it with
+         * GET /api/pastes/{id}/chunks/{index}. A last view read in chunks is
+         * deleted once its last chunk has been read.
+         * 
+         * Returns 404 if the paste doesn't exist, has expired or has no views left.
          */
         get("/pastes/{id}") {
             val id = call.parameters["id"] ?: return@get call.respond(HttpStatusCode.BadRequest)
-            val payload = repo.getPayloadIfAvailable(id) ?: return@get call.respond(HttpStatusCode.NotFound)
+            val chunked = call.request.queryParameters["chunked"] == "true"
+            val payload = repo.consumeView(id, chunked) ?: return@get call.respond(HttpStatusCode.NotFound)
             call.respond(payload)
         }
+        /**
+         * GET /api/pastes/{id}/chunks/{index}?read=...
+         * Read one ciphertext chunk, with the read token of a chunked retrieval
+         *
+         * Chunk reads belong to the view that issued the token and are not
+         * counted again. The token expires 10 minutes after it was issued.
+         *
+         * Returns 404 if the token is invalid or expired, the paste is gone
+         * or the index is out of range.
+         */
+        get("/pastes/{id}/chunks/{index}") {
+            val id = call.parameters["id"] ?: return@get call.respond(HttpStatusCode.BadRequest)
+            val index = call.parameters["index"]?.toIntOrNull() ?: return@get call.respond(HttpStatusCode.NotFound)
+            val readToken = call.request.queryParameters["read"] ?: return@get call.respond(
+                HttpStatusCode.BadRequest, ErrorResponse("missing_token"))
+            val chunk = repo.readChunk(id, readToken, index) ?: return@get call.respond(HttpStatusCode.NotFound)
+            call.respond(chunk)
+        }
         /**
          * DELETE /api/pastes/{id}?token=...
          * Delete a paste using its deletion token (creator-only)
@@ -155,6 +257,31 @@ fun Routing.apiRoutes(repo: PasteRepo, rl: TokenBucket?, pow: PowService?, cfg:
             if (!ok) call.respond(HttpStatusCode.Forbidden, ErrorResponse("invalid_token"))
             else call.respond(HttpStatusCode.NoContent)
         }
+        /**
+         * POST /api/pastes/{id}/slots
+         * Replace the password key slots of a paste (creator-only)
+         *
+         * Lets the creator add or remove passwords without re-uploading the
+         * content. Only pastes created with key slots can be updated.
+         *
+         * Returns 403 Forbidden if the token doesn't match or the paste has no key slots.
+         * Returns 204 No Content on success.
+         */
+        post("/pastes/{id}/slots") {
+            val id = call.parameters["id"] ?: return@post call.respond(HttpStatusCode.BadRequest)
+            val body = try { call.receive<UpdateKeySlotsRequest>() } catch (_: Exception) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("invalid_json")); return@post
+            }
+            if (body.deleteToken.isBlank()) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("missing_token")); return@post
+            }
+            if (!keySlotsSizeValid(body.keySlots)) {
+                call.respond(HttpStatusCode.BadRequest, ErrorResponse("key_slots_invalid")); return@post
+            }
+            val ok = repo.updateKeySlotsIfTokenMatches(id, body.deleteToken, body.keySlots)
+            if (!ok) call.respond(HttpStatusCode.Forbidden, ErrorResponse("invalid_token"))
+            else call.respond(HttpStatusCode.NoContent)
+        }
         /**
          * POST /api/pastes/{id}/delete
          * Delete a paste using password-derived authorization
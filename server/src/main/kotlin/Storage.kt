@@ -8,6 +8,8 @@
  * - Automatic schema creation
  * - Secure deletion token hashing with pepper
  * - Expiration handling
+ * - View limits (burn after reading)
+ * - Chunked upload and download of large ciphertext
  */
 
 import org.jetbrains.exposed.sql.Database
@@ -28,10 +30,49 @@ import org.jetbrains.exposed.sql.selectAll
 import org.jetbrains.exposed.sql.update
 import org.jetbrains.exposed.sql.transactions.transaction
 import java.security.MessageDigest
+import java.util.Base64
 import javax.crypto.Mac
 import javax.crypto.spec.SecretKeySpec
 import java.time.Instant
 
+/**
+ * Size of a ciphertext chunk in chunked upload and download, in bytes
+ *
+ * A multiple of 3, so every chunk but the last encodes to base64url without
+ * padding and the encoded chunks concatenate to the encoded ciphertext. A
+ * chunk request stays well under the reverse proxy's 1 MB body limit.
+ */
+const val TRANSFER_CHUNK_BYTES = 393216
+
+/**
+ * How long a chunked upload may take before the unfinished paste is deleted
+ */
+private const val UPLOAD_WINDOW_SECONDS = 3600L
+
+/**
+ * How long the read token of a view stays valid for reading chunks
+ */
+private const val READ_WINDOW_SECONDS = 600L
+
+/**
+ * Number of transfer chunks of a ciphertext
+ */
+fun transferChunkCount(ctSize: Int): Int = (ctSize + TRANSFER_CHUNK_BYTES - 1) / TRANSFER_CHUNK_BYTES
+
+/**
+ * Outcome of uploading one ciphertext chunk
+ */
+enum class ChunkUploadResult {
+    /** The chunk was stored; other chunks are still missing */
+    STORED,
+    /** The chunk was the last one missing, and the ciphertext was assembled */
+    ASSEMBLED,
+    /** The token does not match, or the paste is not waiting for chunks */
+    INVALID_TOKEN,
+    /** The index is out of range, or the chunk has the wrong size */
+    INVALID_CHUNK
+}
+
 /**
  * Database table definition for pastes
  *
@@ -50,6 +91,26 @@ object Pastes : Table("pastes") {
     val createdAt = long("created_at")
     val allowKeyCaching = bool("allow_key_caching").default(false)
     val allowChat = bool("allow_chat").default(true)
+    val keySlots = text("key_slots").nullable()  // Password key slots (wrapped content keys), encrypted at rest
+    val maxViews = integer("max_views").nullable()  // Null for unlimited views
+    val views = integer("views").default(0)
+    val ctSize = integer("ct_size").nullable()  // Announced ciphertext size of a chunked upload
+    val uploadComplete = bool("upload_complete").default(true)  // False while chunks are still being uploaded
+    val readUntil = long("read_until").nullable()  // Set when the last view is read in chunks; deleted after this time
+}
+
+/**
+ * Database table definition for the ciphertext chunks of unfinished uploads
+ *
+ * Chunks are encrypted at rest like paste content, and are deleted once
+ * they have been assembled into the paste's ciphertext.
+ */
+object PasteChunks : Table("paste_chunks") {
+    val pasteId = varchar("paste_id", 32).references(Pastes.id, onDelete = ReferenceOption.CASCADE)
+    val index = integer("chunk_index")
+    val data = text("data")
+    val encKeyId = varchar("enc_key_id", 64)
+    override val primaryKey = PrimaryKey(pasteId, index)
 }
 
 /**
@@ -78,7 +139,7 @@ object ChatMessages : Table("chat_messages") {
  * @property pepper Secret value mixed into deletion token hashes
  */
 class PasteRepo(private val db: Database, private val pepper: String, private val keyManager: DataKeyManager) {
-    init { transaction(db) { SchemaUtils.createMissingTablesAndColumns(Pastes, ChatMessages) } }
+    init { transaction(db) { SchemaUtils.createMissingTablesAndColumns(Pastes, ChatMessages, PasteChunks) } }
 
     /**
      * Hash a deletion token with HMAC-SHA256 keyed by the pepper.
@@ -121,12 +182,57 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
      * @param meta Paste metadata (expiration, etc.)
      * @param rawDeleteToken Raw deletion token (will be hashed before storage)
      * @param rawDeleteAuth Optional password-derived delete authorization (allows viewers to delete)
+     * @param keySlots Optional password key slots
      */
-    fun create(id: String, ct: String, iv: String, meta: PasteMeta, rawDeleteToken: String, rawDeleteAuth: String? = null) {
+    fun create(
+        id: String,
+        ct: String,
+        iv: String,
+        meta: PasteMeta,
+        rawDeleteToken: String,
+        rawDeleteAuth: String? = null,
+        keySlots: String? = null
+    ) = insertPaste(id, ct, null, iv, meta, rawDeleteToken, rawDeleteAuth, keySlots)
+
+    /**
+     * Create a paste whose ciphertext will be uploaded in chunks
+     *
+     * The paste cannot be retrieved until every chunk has been uploaded with
+     * putChunkIfTokenMatches. Unfinished uploads are deleted by deleteExpired.
+     *
+     * @param id Unique paste identifier
+     * @param ctSize Decoded size of the ciphertext, in bytes
+     * @param iv Initialization vector
+     * @param meta Paste metadata (expiration, etc.)
+     * @param rawDeleteToken Raw deletion token (will be hashed before storage)
+     * @param rawDeleteAuth Optional password-derived delete authorization (allows viewers to delete)
+     * @param keySlots Optional password key slots
+     */
+    fun createUpload(
+        id: String,
+        ctSize: Int,
+        iv: String,
+        meta: PasteMeta,
+        rawDeleteToken: String,
+        rawDeleteAuth: String? = null,
+        keySlots: String? = null
+    ) = insertPaste(id, "", ctSize, iv, meta, rawDeleteToken, rawDeleteAuth, keySlots)
+
+    private fun insertPaste(
+        id: String,
+        ct: String,
+        ctSize: Int?,
+        iv: String,
+        meta: PasteMeta,
+        rawDeleteToken: String,
+        rawDeleteAuth: String?,
+        keySlots: String?
+    ) {
         val now = Instant.now().epochSecond
         val activeKeyId = keyManager.activeKeyId()
         val encCt = keyManager.encryptFieldWithKeyId(activeKeyId, ct)
         val encIv = keyManager.encryptFieldWithKeyId(activeKeyId, iv)
+        val encKeySlots = keySlots?.let { keyManager.encryptFieldWithKeyId(activeKeyId, it) }
         transaction(db) {
             Pastes.insert {
                 it[Pastes.id] = id
@@ -140,10 +246,67 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
                 it[Pastes.createdAt] = now
                 it[Pastes.allowKeyCaching] = meta.allowKeyCaching ?: false
                 it[Pastes.allowChat] = meta.allowChat ?: true
+                it[Pastes.keySlots] = encKeySlots
+                it[Pastes.maxViews] = meta.maxViews
+                it[Pastes.ctSize] = ctSize
+                it[Pastes.uploadComplete] = ctSize == null
             }
         }
     }
 
+    /**
+     * Store one ciphertext chunk of a chunked upload if the provided deletion
+     * token is correct, and assemble the ciphertext once every chunk is in
+     *
+     * Every chunk but the last is TRANSFER_CHUNK_BYTES long. Uploading a
+     * chunk again replaces it, so a failed request can be retried.
+     *
+     * @param id Paste identifier
+     * @param rawToken Raw deletion token to verify
+     * @param index Chunk index, from 0
+     * @param data Chunk of the ciphertext (base64url encoded)
+     * @return Whether the chunk was stored, completed the upload, or was rejected
+     */
+    fun putChunkIfTokenMatches(id: String, rawToken: String, index: Int, data: String): ChunkUploadResult = transaction(db) {
+        val hash = hashToken(rawToken)
+        val now = Instant.now().epochSecond
+        val row = Pastes.selectAll()
+            .where { Pastes.id eq id and (Pastes.expireTs greater now) and (Pastes.uploadComplete eq false) }
+            .singleOrNull() ?: return@transaction ChunkUploadResult.INVALID_TOKEN
+        if (!constantTimeEquals(row[Pastes.deleteTokenHash], hash)) return@transaction ChunkUploadResult.INVALID_TOKEN
+        val ctSize = row[Pastes.ctSize] ?: return@transaction ChunkUploadResult.INVALID_TOKEN
+        val encKeyId = row[Pastes.encKeyId] ?: return@transaction ChunkUploadResult.INVALID_TOKEN
+
+        val count = transferChunkCount(ctSize)
+        if (index !in 0 until count) return@transaction ChunkUploadResult.INVALID_CHUNK
+        val expectedSize = if (index < count - 1) TRANSFER_CHUNK_BYTES else ctSize - index * TRANSFER_CHUNK_BYTES
+        val bytes = decodeBase64Url(data) ?: return@transaction ChunkUploadResult.INVALID_CHUNK
+        if (bytes.size != expectedSize) return@transaction ChunkUploadResult.INVALID_CHUNK
+
+        PasteChunks.deleteWhere { (PasteChunks.pasteId eq id) and (PasteChunks.index eq index) }
+        PasteChunks.insert {
+            it[PasteChunks.pasteId] = id
+            it[PasteChunks.index] = index
+            // Re-encoded without padding, so the chunks concatenate to the ciphertext
+            it[PasteChunks.data] = keyManager.encryptFieldWithKeyId(encKeyId, Base64.getUrlEncoder().withoutPadding().encodeToString(bytes))
+            it[PasteChunks.encKeyId] = encKeyId
+        }
+
+        val chunks = PasteChunks.selectAll()
+            .where { PasteChunks.pasteId eq id }
+            .orderBy(PasteChunks.index to SortOrder.ASC)
+            .toList()
+        if (chunks.size < count) return@transaction ChunkUploadResult.STORED
+
+        val ct = chunks.joinToString("") { keyManager.decryptField(it[PasteChunks.data], it[PasteChunks.encKeyId]) }
+        Pastes.update({ (Pastes.id eq id) and (Pastes.uploadComplete eq false) }) {
+            it[Pastes.ct] = keyManager.encryptFieldWithKeyId(encKeyId, ct)
+            it[Pastes.uploadComplete] = true
+        }
+        PasteChunks.deleteWhere { PasteChunks.pasteId eq id }
+        ChunkUploadResult.ASSEMBLED
+    }
+
     /**
      * Retrieve a paste if it exists and hasn't expired
      * 
@@ -152,7 +315,21 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
      */
     fun getIfAvailable(id: String): ResultRow? = transaction(db) {
         val now = Instant.now().epochSecond
-        Pastes.selectAll().where { Pastes.id eq id and (Pastes.expireTs greater now) }.singleOrNull()
+        Pastes.selectAll()
+            .where { Pastes.id eq id and (Pastes.expireTs greater now) and (Pastes.uploadComplete eq true) }
+            .singleOrNull()
+            ?.takeIf { hasViewsLeft(it) }
+    }
+
+    /**
+     * Whether a paste still has views left (always true without a view limit)
+     *
+     * A paste whose last view is being read in chunks is kept until the
+     * chunks are read, but no longer counts as available.
+     */
+    private fun hasViewsLeft(row: ResultRow): Boolean {
+        val maxViews = row[Pastes.maxViews] ?: return true
+        return row[Pastes.views] < maxViews
     }
 
     /**
@@ -162,11 +339,96 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
     fun getPayloadIfAvailable(id: String): PastePayload? = transaction(db) {
         val now = Instant.now().epochSecond
         val row = Pastes.selectAll()
-            .where { Pastes.id eq id and (Pastes.expireTs greater now) }
+            .where { Pastes.id eq id and (Pastes.expireTs greater now) and (Pastes.uploadComplete eq true) }
             .singleOrNull() ?: return@transaction null
+        if (!hasViewsLeft(row)) return@transaction null
         toPayload(row)
     }
 
+    /**
+     * Retrieve a paste payload and count the retrieval as a view
+     *
+     * Pastes without a view limit are returned as by getPayloadIfAvailable.
+     * For view-limited pastes the view count is advanced with a compare-and-set,
+     * so concurrent requests cannot both take the last view, and the paste is
+     * deleted once its last view has been taken.
+     *
+     * When chunked, ciphertext larger than one transfer chunk is left out of
+     * the payload, which carries a read token for readChunk instead. The
+     * chunks belong to the view already counted. A paste whose last view is
+     * read in chunks is deleted when its last chunk is read, or when the
+     * read token expires.
+     *
+     * @param id Paste identifier
+     * @param chunked Whether the caller reads large ciphertext in chunks
+     * @return Payload with the views remaining, or null if the paste is unavailable
+     */
+    fun consumeView(id: String, chunked: Boolean = false): PastePayload? = transaction(db) {
+        val now = Instant.now().epochSecond
+        val row = Pastes.selectAll()
+            .where { Pastes.id eq id and (Pastes.expireTs greater now) and (Pastes.uploadComplete eq true) }
+            .singleOrNull() ?: return@transaction null
+        val maxViews = row[Pastes.maxViews] ?: return@transaction inChunks(id, toPayload(row), chunked, now)
+        val views = row[Pastes.views]
+        if (views >= maxViews) return@transaction null
+        val counted = Pastes.update({ (Pastes.id eq id) and (Pastes.views eq views) }) {
+            it[Pastes.views] = views + 1
+        } > 0
+        if (!counted) return@transaction null
+        val payload = inChunks(id, toPayload(row).copy(viewsRemaining = maxViews - views - 1), chunked, now)
+        if (views + 1 >= maxViews) {
+            if (payload.readToken == null) {
+                Pastes.deleteWhere { Pastes.id eq id }
+            } else {
+                Pastes.update({ Pastes.id eq id }) { it[Pastes.readUntil] = now + READ_WINDOW_SECONDS }
+            }
+        }
+        payload
+    }
+
+    /**
+     * Replace the ciphertext of a payload with a read token, if it is to be
+     * read in chunks and is larger than one chunk
+     */
+    private fun inChunks(id: String, payload: PastePayload, chunked: Boolean, now: Long): PastePayload {
+        val ct = payload.ct ?: return payload
+        val ctSize = decodedBase64UrlLength(ct)
+        if (!chunked || ctSize <= TRANSFER_CHUNK_BYTES) return payload
+        val readUntil = now + READ_WINDOW_SECONDS
+        return payload.copy(ct = null, ctSize = ctSize, readToken = "$readUntil.${hashToken("read:$id:$readUntil")}")
+    }
+
+    /**
+     * Read one ciphertext chunk of a paste with the read token of a view
+     *
+     * Reading a chunk does not count a view. Reading the last chunk of a
+     * paste whose last view has been taken deletes the paste.
+     *
+     * @param id Paste identifier
+     * @param readToken Read token from consumeView
+     * @param index Chunk index, from 0
+     * @return Chunk of the ciphertext (base64url encoded), or null if the token
+     *   is invalid or expired, the paste is unavailable or the index is out of range
+     */
+    fun readChunk(id: String, readToken: String, index: Int): PasteChunk? = transaction(db) {
+        val now = Instant.now().epochSecond
+        val readUntil = readToken.substringBefore('.').toLongOrNull() ?: return@transaction null
+        if (readUntil < now) return@transaction null
+        if (!constantTimeEquals(readToken.substringAfter('.'), hashToken("read:$id:$readUntil"))) return@transaction null
+        val row = Pastes.selectAll()
+            .where { Pastes.id eq id and (Pastes.expireTs greater now) and (Pastes.uploadComplete eq true) }
+            .singleOrNull() ?: return@transaction null
+
+        val ct = toPayload(row).ct?.trimEnd('=') ?: return@transaction null
+        val count = transferChunkCount(decodedBase64UrlLength(ct))
+        if (index !in 0 until count) return@transaction null
+        // Every chunk but the last encodes to exactly 4/3 of its size, without padding
+        val chunkChars = TRANSFER_CHUNK_BYTES / 3 * 4
+        val chunk = PasteChunk(ct.substring(index * chunkChars, minOf(ct.length, (index + 1) * chunkChars)))
+        if (index == count - 1 && !hasViewsLeft(row)) Pastes.deleteWhere { Pastes.id eq id }
+        chunk
+    }
+
     /**
      * Delete a paste if the provided deletion token is correct
      * 
@@ -181,6 +443,31 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
         Pastes.deleteWhere { Pastes.id eq id } > 0
     }
 
+    /**
+     * Replace the key slots of a paste if the provided deletion token is correct
+     *
+     * Only pastes created with key slots can have them replaced, so a paste
+     * cannot be switched to a different key scheme after it was shared.
+     *
+     * @param id Paste identifier
+     * @param rawToken Raw deletion token to verify
+     * @param keySlots New password key slots
+     * @return true if the slots were replaced, false if token didn't match, paste not found or has no slots
+     */
+    fun updateKeySlotsIfTokenMatches(id: String, rawToken: String, keySlots: String): Boolean = transaction(db) {
+        val hash = hashToken(rawToken)
+        val now = Instant.now().epochSecond
+        val row = Pastes.selectAll()
+            .where { Pastes.id eq id and (Pastes.expireTs greater now) }
+            .singleOrNull() ?: return@transaction false
+        if (!constantTimeEquals(row[Pastes.deleteTokenHash], hash)) return@transaction false
+        if (row[Pastes.keySlots] == null) return@transaction false
+        val encKeyId = row[Pastes.encKeyId] ?: return@transaction false
+        Pastes.update({ Pastes.id eq id }) {
+            it[Pastes.keySlots] = keyManager.encryptFieldWithKeyId(encKeyId, keySlots)
+        } > 0
+    }
+
     /**
      * Delete a paste if the provided password-derived authorization is correct
      * This allows anyone who knows the paste password to delete it
@@ -208,13 +495,19 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
     }
 
     /**
-     * Delete all expired pastes from the database
+     * Delete all expired pastes from the database, along with chunked
+     * uploads that were never finished and last views whose chunks were
+     * not all read in time
      * 
      * @return Number of pastes deleted
      */
     fun deleteExpired(): Int = transaction(db) {
         val now = Instant.now().epochSecond
-        Pastes.deleteWhere { Pastes.expireTs lessEq now }
+        Pastes.deleteWhere {
+            (Pastes.expireTs lessEq now) or
+                ((Pastes.uploadComplete eq false) and (Pastes.createdAt lessEq now - UPLOAD_WINDOW_SECONDS)) or
+                (Pastes.readUntil lessEq now)
+        }
     }
 
     /**
@@ -240,6 +533,10 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
      */
     fun toPayload(row: ResultRow): PastePayload {
         val (ctPlain, ivPlain) = decryptOrMigratePaste(row)
+        // Rows with key slots were always created with at-rest encryption
+        val keySlots = row[Pastes.keySlots]?.let { slots ->
+            row[Pastes.encKeyId]?.let { keyId -> keyManager.decryptField(slots, keyId) }
+        }
         return PastePayload(
             ct = ctPlain,
             iv = ivPlain,
@@ -247,8 +544,10 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
                 expireTs = row[Pastes.expireTs],
                 mime = row[Pastes.mime],
                 allowKeyCaching = row[Pastes.allowKeyCaching],
-                allowChat = row[Pastes.allowChat]
-            )
+                allowChat = row[Pastes.allowChat],
+                maxViews = row[Pastes.maxViews]
+            ),
+            keySlots = keySlots
         )
     }
 
@@ -352,10 +651,15 @@ class PasteRepo(private val db: Database, private val pepper: String, private va
                     val ivPlain = if (encKeyId == null) row[Pastes.iv] else keyManager.decryptField(row[Pastes.iv], encKeyId)
                     val encCt = keyManager.encryptFieldWithKeyId(activeKeyId, ctPlain)
                     val encIv = keyManager.encryptFieldWithKeyId(activeKeyId, ivPlain)
+                    val encKeySlots = row[Pastes.keySlots]?.let { slots ->
+                        val slotsPlain = if (encKeyId == null) slots else keyManager.decryptField(slots, encKeyId)
+                        keyManager.encryptFieldWithKeyId(activeKeyId, slotsPlain)
+                    }
                     Pastes.update({ Pastes.id eq row[Pastes.id] }) {
                         it[Pastes.ct] = encCt
                         it[Pastes.iv] = encIv
                         it[Pastes.encKeyId] = activeKeyId
+                        it[Pastes.keySlots] = encKeySlots
                     }
                 }
                 rows.size
@@ -4,9 +4,11 @@
  * This file provides helper functions for:
  * - Generating random alphanumeric IDs
  * - Calculating the decoded size of base64url strings
+ * - Decoding base64url strings
  */
 
 import java.security.SecureRandom
+import java.util.Base64
 
 /**
  * Utility object for generating random identifiers
@@ -44,3 +46,28 @@ fun base64UrlSize(bytesB64Url: String): Int {
     val total = s.length + pad
     return (total / 4) * 3
 }
+
+/**
+ * Calculate the exact decoded byte size of a base64url string
+ *
+ * Unlike base64UrlSize, this does not round up to whole 3-byte groups.
+ *
+ * @param bytesB64Url Base64url-encoded string, with or without padding
+ * @return Size in bytes after decoding
+ */
+fun decodedBase64UrlLength(bytesB64Url: String): Int {
+    val length = bytesB64Url.trimEnd('=').length
+    return length / 4 * 3 + maxOf(0, length % 4 - 1)
+}
+
+/**
+ * Decode a base64url string, with or without padding
+ *
+ * @param bytesB64Url Base64url-encoded string
+ * @return Decoded bytes, or null if the string is not valid base64url
+ */
+fun decodeBase64Url(bytesB64Url: String): ByteArray? = try {
+    Base64.getUrlDecoder().decode(bytesB64Url)
+} catch (_: IllegalArgumentException) {
+    null
+}
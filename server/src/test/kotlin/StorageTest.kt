@@ -8,6 +8,7 @@ import org.jetbrains.exposed.sql.Database
 import org.jetbrains.exposed.sql.SqlExpressionBuilder.eq
 import org.jetbrains.exposed.sql.insert
 import org.jetbrains.exposed.sql.selectAll
+import org.jetbrains.exposed.sql.update
 import org.jetbrains.exposed.sql.transactions.transaction
 import org.junit.After
 import org.junit.Assert.*
@@ -313,6 +314,25 @@ class StorageTest {
         assertNotNull("Active paste should be available", repo.getIfAvailable("active1"))
     }
 
+    @Test
+    fun testDeleteExpired_DeletesUnfinishedUploads() {
+        val now = Instant.now().epochSecond
+        val futureExpiry = now + 7200
+
+        repo.createUpload("stale1", TRANSFER_CHUNK_BYTES + 1, "iv12345678901", PasteMeta(expireTs = futureExpiry), "token1")
+        repo.createUpload("fresh1", TRANSFER_CHUNK_BYTES + 1, "iv12345678902", PasteMeta(expireTs = futureExpiry), "token2")
+        transaction(db) {
+            Pastes.update({ Pastes.id eq "stale1" }) { it[Pastes.createdAt] = now - 7200 }
+        }
+
+        assertNull("Unfinished upload should not be available", repo.getIfAvailable("fresh1"))
+        assertEquals(1, repo.deleteExpired())
+        val freshExists = transaction(db) {
+            Pastes.selectAll().where { Pastes.id eq "fresh1" }.singleOrNull() != null
+        }
+        assertTrue("Recent unfinished upload should be kept", freshExists)
+    }
+
     @Test
     fun testAddChatMessage_Maintains50MessageLimit() {
         val pasteId = "test-paste-chat"
@@ -104,6 +104,8 @@ fun createTestKeyManager(rotationDays: Long = 3650): DataKeyManager {
  * @param allowKeyCaching If true, viewers can cache key for chat (default: null)
  * @param pow Optional PoW submission
  * @param deleteAuth Optional password-derived delete authorization
+ * @param keySlots Optional password key slots
+ * @param maxViews Optional view limit
  */
 fun createTestPasteRequest(
     ct: String = "dGVzdC1jaXBoZXJ0ZXh0LWNvbnRlbnQ",
@@ -113,7 +115,9 @@ fun createTestPasteRequest(
     allowChat: Boolean? = true,
     allowKeyCaching: Boolean? = null,
     pow: PowSubmission? = null,
-    deleteAuth: String? = null
+    deleteAuth: String? = null,
+    keySlots: String? = null,
+    maxViews: Int? = null
 ): CreatePasteRequest {
     return CreatePasteRequest(
         ct = ct,
@@ -122,10 +126,12 @@ fun createTestPasteRequest(
             expireTs = expireTs,
             mime = mime,
             allowKeyCaching = allowKeyCaching,
-            allowChat = allowChat
+            allowChat = allowChat,
+            maxViews = maxViews
         ),
         pow = pow,
-        deleteAuth = deleteAuth
+        deleteAuth = deleteAuth,
+        keySlots = keySlots
     )
 }
 
@@ -3,7 +3,7 @@ package integration
 /**
  * ExpirationIntegrationTest.kt - Expiration integration tests
  * 
- * Tests expiration functionality with real database operations.
+ * Tests expiration and view limit functionality with real database operations.
  */
 
 import io.ktor.client.request.*
@@ -21,6 +21,8 @@ import com.fasterxml.jackson.module.kotlin.readValue
 import com.fasterxml.jackson.module.kotlin.jacksonObjectMapper
 import PasteRepo
 import CreatePasteResponse
+import PastePayload
+import ErrorResponse
 import createTestDatabase
 import createTestKeyManager
 import createTestAppConfig
@@ -79,4 +81,75 @@ class ViewLimitIntegrationTest {
         val getResponse2 = client.get("/api/pastes/${createResult.id}")
         assertEquals(HttpStatusCode.NotFound, getResponse2.status)
     }
+
+    @Test
+    fun testViewLimitedPasteIsDeletedAfterLastView() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        val request = createTestPasteRequest(maxViews = 2)
+
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(request))
+        }
+        assertEquals(HttpStatusCode.Created, createResponse.status)
+        val createResult = objectMapper.readValue<CreatePasteResponse>(createResponse.bodyAsText())
+
+        val first = client.get("/api/pastes/${createResult.id}")
+        assertEquals(HttpStatusCode.OK, first.status)
+        val firstPayload = objectMapper.readValue<PastePayload>(first.bodyAsText())
+        assertEquals(2, firstPayload.meta.maxViews)
+        assertEquals(1, firstPayload.viewsRemaining)
+
+        val second = client.get("/api/pastes/${createResult.id}")
+        assertEquals(HttpStatusCode.OK, second.status)
+        assertEquals(0, objectMapper.readValue<PastePayload>(second.bodyAsText()).viewsRemaining)
+
+        // The last view deleted the paste
+        assertEquals(HttpStatusCode.NotFound, client.get("/api/pastes/${createResult.id}").status)
+        assertNull(repo.getIfAvailable(createResult.id))
+    }
+
+    @Test
+    fun testPasteWithoutViewLimitIsNotCounted() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest()))
+        }
+        val createResult = objectMapper.readValue<CreatePasteResponse>(createResponse.bodyAsText())
+
+        repeat(3) {
+            val response = client.get("/api/pastes/${createResult.id}")
+            assertEquals(HttpStatusCode.OK, response.status)
+            assertNull(objectMapper.readValue<PastePayload>(response.bodyAsText()).viewsRemaining)
+        }
+    }
+
+    @Test
+    fun testCreateRejectsInvalidViewLimit() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        for (maxViews in listOf(0, -1, 101)) {
+            val response = client.post("/api/pastes") {
+                contentType(ContentType.Application.Json)
+                setBody(objectMapper.writeValueAsString(createTestPasteRequest(maxViews = maxViews)))
+            }
+            assertEquals(HttpStatusCode.BadRequest, response.status)
+            val error = objectMapper.readValue<ErrorResponse>(response.bodyAsText())
+            assertEquals("views_invalid", error.error)
+        }
+    }
 }
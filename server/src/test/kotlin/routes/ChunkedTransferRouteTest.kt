@@ -0,0 +1,271 @@
+package routes
+
+/**
+ * ChunkedTransferRouteTest.kt - Tests for chunked upload and download
+ *
+ * Tests large ciphertext sent and read in chunks:
+ * - Uploading chunks with PUT /api/pastes/{id}/chunks/{index}
+ * - Reading chunks with GET /api/pastes/{id}/chunks/{index}
+ * - View-limited pastes read in chunks
+ * - Invalid token, chunk size and read token
+ */
+
+import io.ktor.client.request.*
+import io.ktor.client.statement.*
+import io.ktor.http.*
+import io.ktor.server.testing.*
+import org.jetbrains.exposed.sql.Database
+import org.junit.After
+import org.junit.Assert.*
+import org.junit.Before
+import org.junit.Test
+import java.io.File
+import com.fasterxml.jackson.module.kotlin.readValue
+import com.fasterxml.jackson.module.kotlin.jacksonObjectMapper
+import PasteRepo
+import CreatePasteResponse
+import ErrorResponse
+import PasteChunk
+import PastePayload
+import UploadChunkRequest
+import TRANSFER_CHUNK_BYTES
+import base64UrlEncode
+import createTestDatabase
+import createTestKeyManager
+import createTestAppConfig
+import createTestPasteRequest
+import testModule
+
+class ChunkedTransferRouteTest {
+    private lateinit var db: Database
+    private lateinit var repo: PasteRepo
+    private lateinit var testDbFile: File
+    private val testPepper = "test-pepper-chunks"
+    private val objectMapper = jacksonObjectMapper()
+
+    // Two full chunks and a partial one
+    private val ctBytes = ByteArray(TRANSFER_CHUNK_BYTES * 2 + 1000) { (it % 251).toByte() }
+    private val ct = base64UrlEncode(ctBytes)
+
+    @Before
+    fun setUp() {
+        val (database, file) = createTestDatabase()
+        db = database
+        testDbFile = file
+        repo = PasteRepo(db, testPepper, createTestKeyManager())
+    }
+
+    @After
+    fun tearDown() {
+        if (::testDbFile.isInitialized && testDbFile.exists()) {
+            testDbFile.delete()
+        }
+    }
+
+    private fun chunk(index: Int): String = base64UrlEncode(
+        ctBytes.copyOfRange(index * TRANSFER_CHUNK_BYTES, minOf(ctBytes.size, (index + 1) * TRANSFER_CHUNK_BYTES))
+    )
+
+    private suspend fun ApplicationTestBuilder.createUpload(maxViews: Int? = null): CreatePasteResponse {
+        val request = createTestPasteRequest(maxViews = maxViews).copy(ct = null, ctSize = ctBytes.size)
+        val response = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(request))
+        }
+        assertEquals(HttpStatusCode.Created, response.status)
+        return objectMapper.readValue(response.bodyAsText())
+    }
+
+    private suspend fun ApplicationTestBuilder.putChunk(id: String, token: String, index: Int, data: String): HttpResponse =
+        client.put("/api/pastes/$id/chunks/$index") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(UploadChunkRequest(token, data)))
+        }
+
+    private suspend fun ApplicationTestBuilder.readChunks(id: String, readToken: String, count: Int): String {
+        val ct = StringBuilder()
+        for (index in 0 until count) {
+            val response = client.get("/api/pastes/$id/chunks/$index?read=$readToken")
+            assertEquals(HttpStatusCode.OK, response.status)
+            ct.append(objectMapper.readValue<PasteChunk>(response.bodyAsText()).data)
+        }
+        return ct.toString()
+    }
+
+    @Test
+    fun testChunkedUpload_AssemblesCiphertext() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        // Chunks may arrive in any order
+        for (index in listOf(2, 0, 1)) {
+            assertEquals(HttpStatusCode.NoContent, putChunk(created.id, created.deleteToken, index, chunk(index)).status)
+        }
+
+        val payload = objectMapper.readValue<PastePayload>(client.get("/api/pastes/${created.id}").bodyAsText())
+        assertEquals(ct, payload.ct)
+    }
+
+    @Test
+    fun testChunkedUpload_UnfinishedPasteNotFound() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        putChunk(created.id, created.deleteToken, 0, chunk(0))
+
+        assertEquals(HttpStatusCode.NotFound, client.get("/api/pastes/${created.id}").status)
+    }
+
+    @Test
+    fun testChunkedUpload_InvalidToken_Returns403() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        val response = putChunk(created.id, "wrong-token-12345", 0, chunk(0))
+        assertEquals(HttpStatusCode.Forbidden, response.status)
+        assertEquals("invalid_token", objectMapper.readValue<ErrorResponse>(response.bodyAsText()).error)
+    }
+
+    @Test
+    fun testChunkedUpload_WrongSizeOrIndex_Returns400() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        val shortChunk = putChunk(created.id, created.deleteToken, 0, chunk(2))
+        assertEquals(HttpStatusCode.BadRequest, shortChunk.status)
+        assertEquals("chunk_invalid", objectMapper.readValue<ErrorResponse>(shortChunk.bodyAsText()).error)
+
+        val outOfRange = putChunk(created.id, created.deleteToken, 3, chunk(2))
+        assertEquals(HttpStatusCode.BadRequest, outOfRange.status)
+    }
+
+    @Test
+    fun testChunkedUpload_CompletedPasteRejectsChunks() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        for (index in 0..2) putChunk(created.id, created.deleteToken, index, chunk(index))
+
+        assertEquals(HttpStatusCode.Forbidden, putChunk(created.id, created.deleteToken, 0, chunk(0)).status)
+    }
+
+    @Test
+    fun testCreatePaste_CtAndCtSize_Returns400() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val both = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest().copy(ctSize = 100)))
+        }
+        assertEquals(HttpStatusCode.BadRequest, both.status)
+
+        val tooLarge = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest().copy(ct = null, ctSize = cfg.maxSizeBytes + 1)))
+        }
+        assertEquals(HttpStatusCode.BadRequest, tooLarge.status)
+        assertEquals("size_invalid", objectMapper.readValue<ErrorResponse>(tooLarge.bodyAsText()).error)
+    }
+
+    @Test
+    fun testChunkedRead_ReturnsCiphertextInChunks() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        for (index in 0..2) putChunk(created.id, created.deleteToken, index, chunk(index))
+
+        val payload = objectMapper.readValue<PastePayload>(
+            client.get("/api/pastes/${created.id}?chunked=true").bodyAsText())
+        assertNull(payload.ct)
+        assertEquals(ctBytes.size, payload.ctSize)
+        assertNotNull(payload.readToken)
+        assertEquals(ct, readChunks(created.id, payload.readToken!!, 3))
+
+        // Out of range
+        assertEquals(HttpStatusCode.NotFound,
+            client.get("/api/pastes/${created.id}/chunks/3?read=${payload.readToken}").status)
+    }
+
+    @Test
+    fun testChunkedRead_SmallPasteReturnsCiphertext() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val request = createTestPasteRequest()
+        val created = objectMapper.readValue<CreatePasteResponse>(client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(request))
+        }.bodyAsText())
+
+        val payload = objectMapper.readValue<PastePayload>(
+            client.get("/api/pastes/${created.id}?chunked=true").bodyAsText())
+        assertEquals(request.ct, payload.ct)
+        assertNull(payload.readToken)
+    }
+
+    @Test
+    fun testChunkedRead_InvalidReadToken_Returns404() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload()
+        for (index in 0..2) putChunk(created.id, created.deleteToken, index, chunk(index))
+        val payload = objectMapper.readValue<PastePayload>(
+            client.get("/api/pastes/${created.id}?chunked=true").bodyAsText())
+        val readUntil = payload.readToken!!.substringBefore('.')
+
+        assertEquals(HttpStatusCode.NotFound,
+            client.get("/api/pastes/${created.id}/chunks/0?read=$readUntil.forged").status)
+        assertEquals(HttpStatusCode.BadRequest, client.get("/api/pastes/${created.id}/chunks/0").status)
+    }
+
+    @Test
+    fun testChunkedRead_LastViewDeletedAfterLastChunk() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val created = createUpload(maxViews = 1)
+        for (index in 0..2) putChunk(created.id, created.deleteToken, index, chunk(index))
+
+        val payload = objectMapper.readValue<PastePayload>(
+            client.get("/api/pastes/${created.id}?chunked=true").bodyAsText())
+        assertEquals(0, payload.viewsRemaining)
+
+        // The view was taken: the paste is gone for everyone else
+        assertEquals(HttpStatusCode.NotFound, client.get("/api/pastes/${created.id}?chunked=true").status)
+
+        // ...but its chunks can still be read with the view's read token
+        assertEquals(ct, readChunks(created.id, payload.readToken!!, 3))
+
+        // Reading the last chunk deleted the paste
+        assertEquals(HttpStatusCode.NotFound,
+            client.get("/api/pastes/${created.id}/chunks/0?read=${payload.readToken}").status)
+    }
+}
@@ -0,0 +1,159 @@
+package routes
+
+/**
+ * KeySlotsRouteTest.kt - Tests for password key slots
+ *
+ * Tests storing and replacing key slots:
+ * - Slots are returned with the paste
+ * - Replacing slots with the deletion token
+ * - Invalid token, pastes without slots, oversized slots
+ */
+
+import io.ktor.client.request.*
+import io.ktor.client.statement.*
+import io.ktor.http.*
+import io.ktor.server.testing.*
+import org.jetbrains.exposed.sql.Database
+import org.junit.After
+import org.junit.Assert.*
+import org.junit.Before
+import org.junit.Test
+import java.io.File
+import com.fasterxml.jackson.module.kotlin.readValue
+import com.fasterxml.jackson.module.kotlin.jacksonObjectMapper
+import PasteRepo
+import CreatePasteResponse
+import ErrorResponse
+import PastePayload
+import UpdateKeySlotsRequest
+import createTestDatabase
+import createTestKeyManager
+import createTestAppConfig
+import createTestPasteRequest
+import testModule
+
+class KeySlotsRouteTest {
+    private lateinit var db: Database
+    private lateinit var repo: PasteRepo
+    private lateinit var testDbFile: File
+    private val testPepper = "test-pepper-key-slots"
+    private val objectMapper = jacksonObjectMapper()
+    private val slots = "AQEBAAGGoBAAAQIDBAUGBwgJCgsMDQ4P"
+
+    @Before
+    fun setUp() {
+        val (database, file) = createTestDatabase()
+        db = database
+        testDbFile = file
+        repo = PasteRepo(db, testPepper, createTestKeyManager())
+    }
+
+    @After
+    fun tearDown() {
+        if (::testDbFile.isInitialized && testDbFile.exists()) {
+            testDbFile.delete()
+        }
+    }
+
+    @Test
+    fun testKeySlots_ReturnedWithPaste() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest(keySlots = slots)))
+        }
+        assertEquals(HttpStatusCode.Created, createResponse.status)
+        val created = objectMapper.readValue<CreatePasteResponse>(createResponse.bodyAsText())
+
+        val payload = objectMapper.readValue<PastePayload>(client.get("/api/pastes/${created.id}").bodyAsText())
+        assertEquals(slots, payload.keySlots)
+    }
+
+    @Test
+    fun testKeySlots_ReplaceWithToken_Returns204() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest(keySlots = slots)))
+        }
+        val created = objectMapper.readValue<CreatePasteResponse>(createResponse.bodyAsText())
+
+        val updateResponse = client.post("/api/pastes/${created.id}/slots") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(UpdateKeySlotsRequest(created.deleteToken, "AQIBAAGGoBAA")))
+        }
+        assertEquals(HttpStatusCode.NoContent, updateResponse.status)
+
+        val payload = objectMapper.readValue<PastePayload>(client.get("/api/pastes/${created.id}").bodyAsText())
+        assertEquals("AQIBAAGGoBAA", payload.keySlots)
+    }
+
+    @Test
+    fun testKeySlots_InvalidToken_Returns403() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest(keySlots = slots)))
+        }
+        val created = objectMapper.readValue<CreatePasteResponse>(createResponse.bodyAsText())
+
+        val updateResponse = client.post("/api/pastes/${created.id}/slots") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(UpdateKeySlotsRequest("wrong-token-12345", "AQIBAAGGoBAA")))
+        }
+        assertEquals(HttpStatusCode.Forbidden, updateResponse.status)
+        val error = objectMapper.readValue<ErrorResponse>(updateResponse.bodyAsText())
+        assertEquals("invalid_token", error.error)
+
+        val payload = objectMapper.readValue<PastePayload>(client.get("/api/pastes/${created.id}").bodyAsText())
+        assertEquals(slots, payload.keySlots)
+    }
+
+    @Test
+    fun testKeySlots_PasteWithoutSlots_Returns403() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest()))
+        }
+        val created = objectMapper.readValue<CreatePasteResponse>(createResponse.bodyAsText())
+
+        val updateResponse = client.post("/api/pastes/${created.id}/slots") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(UpdateKeySlotsRequest(created.deleteToken, slots)))
+        }
+        assertEquals(HttpStatusCode.Forbidden, updateResponse.status)
+    }
+
+    @Test
+    fun testKeySlots_Oversized_Returns400() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false)
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val createResponse = client.post("/api/pastes") {
+            contentType(ContentType.Application.Json)
+            setBody(objectMapper.writeValueAsString(createTestPasteRequest(keySlots = "A".repeat(6000))))
+        }
+        assertEquals(HttpStatusCode.BadRequest, createResponse.status)
+        val error = objectMapper.readValue<ErrorResponse>(createResponse.bodyAsText())
+        assertEquals("key_slots_invalid", error.error)
+    }
+}
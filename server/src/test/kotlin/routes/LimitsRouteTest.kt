@@ -0,0 +1,63 @@
+package routes
+
+/**
+ * LimitsRouteTest.kt - Tests for GET /api/limits endpoint
+ * 
+ * Tests that the configured paste size limit is published to clients.
+ */
+
+import io.ktor.client.request.*
+import io.ktor.client.statement.*
+import io.ktor.http.*
+import io.ktor.server.testing.*
+import org.jetbrains.exposed.sql.Database
+import org.junit.After
+import org.junit.Assert.*
+import org.junit.Before
+import org.junit.Test
+import java.io.File
+import com.fasterxml.jackson.module.kotlin.readValue
+import com.fasterxml.jackson.module.kotlin.jacksonObjectMapper
+import PasteRepo
+import PasteLimits
+import createTestDatabase
+import createTestKeyManager
+import createTestAppConfig
+import testModule
+
+class LimitsRouteTest {
+    private lateinit var db: Database
+    private lateinit var repo: PasteRepo
+    private lateinit var testDbFile: File
+    private val testPepper = "test-pepper-limits"
+    private val objectMapper = jacksonObjectMapper()
+
+    @Before
+    fun setUp() {
+        val (database, file) = createTestDatabase()
+        db = database
+        testDbFile = file
+        repo = PasteRepo(db, testPepper, createTestKeyManager())
+    }
+
+    @After
+    fun tearDown() {
+        if (::testDbFile.isInitialized && testDbFile.exists()) {
+            testDbFile.delete()
+        }
+    }
+
+    @Test
+    fun testGetLimits_ReturnsConfiguredMaxSize() = testApplication {
+        val cfg = createTestAppConfig(powEnabled = false, rlEnabled = false, maxSizeBytes = 4096)
+
+        application {
+            testModule(repo, null, null, cfg)
+        }
+
+        val response = client.get("/api/limits")
+        assertEquals(HttpStatusCode.OK, response.status)
+        val limits = objectMapper.readValue<PasteLimits>(response.bodyAsText())
+        assertEquals(4096, limits.maxSizeBytes)
+    }
+}